@@ -12,6 +12,8 @@ import Recipes from "@/pages/recipes";
 import Products from "@/pages/products";
 import CustomProducts from "@/pages/custom-products";
 import Packaging from "@/pages/packaging";
+import ProductionPlans from "@/pages/production-plans";
+import Suppliers from "@/pages/suppliers";
 import Nutrition from "@/pages/nutrition";
 import NutritionTables from "@/pages/nutrition-tables";
 import NutritionLabelsPage from "@/pages/nutrition-labels";
@@ -34,6 +36,8 @@ function AuthenticatedRouter() {
             <Route path="/products" component={Products} />
             <Route path="/custom-products" component={CustomProducts} />
             <Route path="/packaging" component={Packaging} />
+            <Route path="/production-plans" component={ProductionPlans} />
+            <Route path="/suppliers" component={Suppliers} />
             <Route path="/nutrition" component={Nutrition} />
             <Route path="/nutrition-tables" component={NutritionTables} />
             <Route path="/nutrition-labels" component={NutritionLabelsPage} />
@@ -0,0 +1,53 @@
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ALLERGENS, type Allergen } from "@shared/schema";
+import { ALLERGEN_LABELS, type AllergenSummary } from "@shared/allergens";
+
+interface AllergenBadgesProps {
+  summary: AllergenSummary;
+}
+
+// 含有的過敏原以實心標示，可能含有以外框標示
+export default function AllergenBadges({ summary }: AllergenBadgesProps) {
+  if (summary.contains.length === 0 && summary.mayContain.length === 0) {
+    return <span className="text-sm text-muted-foreground">無</span>;
+  }
+  return (
+    <div className="flex flex-wrap gap-1">
+      {summary.contains.map((allergen) => (
+        <Badge key={allergen} className="bg-orange-100 text-orange-800 hover:bg-orange-100">
+          {ALLERGEN_LABELS[allergen]}
+        </Badge>
+      ))}
+      {summary.mayContain.map((allergen) => (
+        <Badge key={allergen} variant="outline" className="text-orange-700 border-orange-300">
+          可能含{ALLERGEN_LABELS[allergen]}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+interface AllergenFilterProps {
+  value: Allergen | "all";
+  onValueChange: (value: Allergen | "all") => void;
+}
+
+// 篩選不含指定過敏原的項目
+export function AllergenFilter({ value, onValueChange }: AllergenFilterProps) {
+  return (
+    <Select value={value} onValueChange={(next) => onValueChange(next as Allergen | "all")}>
+      <SelectTrigger>
+        <SelectValue placeholder="過敏原篩選" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">不限過敏原</SelectItem>
+        {ALLERGENS.map((allergen) => (
+          <SelectItem key={allergen} value={allergen}>
+            不含{ALLERGEN_LABELS[allergen]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,99 @@
+import { useMemo } from "react";
+import { buildLabelLayout, estimateTextWidth, type LabelContent, type MeasureText } from "@shared/labelLayout";
+import type { NutritionLabelTemplateConfig } from "@shared/schema";
+
+interface LabelPreviewProps {
+  content: LabelContent;
+  config: NutritionLabelTemplateConfig;
+  width: number; // mm
+  height: number; // mm
+  className?: string;
+}
+
+const TEXT_ANCHORS = { left: "start", center: "middle", right: "end" } as const;
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+// 以瀏覽器 canvas 量測文字寬度，使換行位置接近實際輸出；無法取得 canvas 時改用估算
+const measureText: MeasureText = (text, fontSize, bold) => {
+  if (measureContext === undefined) {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  if (!measureContext) return estimateTextWidth(text, fontSize, bold);
+  measureContext.font = `${bold ? "bold " : ""}100px sans-serif`;
+  return (measureContext.measureText(text).width * fontSize) / 100;
+};
+
+// 營養標示模板即時預覽（與伺服器輸出使用相同版面計算）；內容超出下邊距時標示可印範圍並提示
+export default function LabelPreview({ content, config, width, height, className }: LabelPreviewProps) {
+  const layout = useMemo(
+    () => buildLabelLayout(content, config, { width, height }, measureText),
+    [content, config, width, height]
+  );
+  const bottomLimit = layout.height - config.margins.bottom;
+
+  return (
+    <div className="w-full flex flex-col items-center gap-2">
+      <svg
+        viewBox={`0 0 ${layout.width} ${layout.height}`}
+        className={className}
+        style={{ aspectRatio: `${layout.width} / ${layout.height}` }}
+      >
+        <rect x={0} y={0} width={layout.width} height={layout.height} fill={layout.backgroundColor} />
+        {layout.border && (
+          <rect
+            x={layout.border.width / 2}
+            y={layout.border.width / 2}
+            width={layout.width - layout.border.width}
+            height={layout.height - layout.border.width}
+            fill="none"
+            stroke={layout.textColor}
+            strokeWidth={layout.border.width}
+          />
+        )}
+        {layout.elements.map((element, index) =>
+          element.type === "text" ? (
+            <text
+              key={index}
+              x={element.x}
+              y={element.y}
+              fontSize={element.fontSize}
+              fontWeight={element.bold ? "bold" : "normal"}
+              textAnchor={TEXT_ANCHORS[element.align]}
+              fill={layout.textColor}
+              fontFamily="sans-serif"
+            >
+              {element.text}
+            </text>
+          ) : (
+            <line
+              key={index}
+              x1={element.x1}
+              y1={element.y1}
+              x2={element.x2}
+              y2={element.y2}
+              stroke={layout.textColor}
+              strokeWidth={element.width}
+            />
+          )
+        )}
+        {layout.overflow && (
+          <line
+            x1={0}
+            y1={bottomLimit}
+            x2={layout.width}
+            y2={bottomLimit}
+            stroke="#dc2626"
+            strokeWidth={0.4}
+            strokeDasharray="1.5 1"
+          />
+        )}
+      </svg>
+      {layout.overflow && (
+        <p className="text-sm text-destructive">
+          內容超出標籤下緣約 {(layout.contentBottom - bottomLimit).toFixed(1)} mm，PDF／圖檔輸出會被裁切，請加大尺寸或調小字級、邊距
+        </p>
+      )}
+    </div>
+  );
+}
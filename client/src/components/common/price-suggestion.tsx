@@ -0,0 +1,69 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { marginAtPrice, suggestSellingPrice, DEFAULT_PRICE_ROUNDING_STEP } from "@shared/pricing";
+
+interface PriceSuggestionProps {
+  adjustedCost: number;
+  defaultTargetMargin?: number; // 預設為利潤率高標
+  roundingStep?: number;
+  onApply: (price: number) => void;
+}
+
+// 依目標利潤率計算建議售價，並可一鍵套用至售價欄位
+export default function PriceSuggestion({
+  adjustedCost,
+  defaultTargetMargin = 40,
+  roundingStep = DEFAULT_PRICE_ROUNDING_STEP,
+  onApply,
+}: PriceSuggestionProps) {
+  const [targetMargin, setTargetMargin] = useState(defaultTargetMargin.toString());
+
+  useEffect(() => {
+    setTargetMargin(defaultTargetMargin.toString());
+  }, [defaultTargetMargin]);
+
+  const target = parseFloat(targetMargin);
+  const isValidTarget = Number.isFinite(target) && target >= 0 && target < 100;
+  const suggestedPrice = isValidTarget ? suggestSellingPrice(adjustedCost, target, roundingStep) : 0;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-end gap-3 p-3 border rounded-lg bg-muted/30">
+      <div className="w-full sm:w-40">
+        <Label htmlFor="targetMargin">目標利潤率 (%)</Label>
+        <Input
+          id="targetMargin"
+          type="number"
+          step="0.1"
+          min="0"
+          max="99.9"
+          value={targetMargin}
+          onChange={(e) => setTargetMargin(e.target.value)}
+        />
+      </div>
+      <div className="flex-1 text-sm">
+        {isValidTarget ? (
+          <>
+            <div>
+              建議售價：<span className="text-lg font-bold text-blue-600">NT$ {suggestedPrice}</span>
+            </div>
+            <div className="text-muted-foreground">
+              進位至 {roundingStep} 元級距，實際利潤率 {marginAtPrice(adjustedCost, suggestedPrice).toFixed(1)}%
+            </div>
+          </>
+        ) : (
+          <div className="text-red-600">目標利潤率需介於 0 與 100 之間</div>
+        )}
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        disabled={!isValidTarget || suggestedPrice <= 0}
+        onClick={() => onApply(suggestedPrice)}
+      >
+        套用建議售價
+      </Button>
+    </div>
+  );
+}
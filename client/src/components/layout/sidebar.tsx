@@ -11,12 +11,15 @@ import {
   Calculator,
   Database,
   Croissant as Bread,
+  ClipboardList,
+  Truck,
   Menu,
   X
 } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import { useAuth } from "@/hooks/use-auth";
 
 const navigation = [
   {
@@ -49,6 +52,16 @@ const navigation = [
     href: "/packaging",
     icon: Package,
   },
+  {
+    name: "生產",
+    href: "/production-plans",
+    icon: ClipboardList,
+  },
+  {
+    name: "供應商",
+    href: "/suppliers",
+    icon: Truck,
+  },
   {
     name: "營養",
     href: "/nutrition",
@@ -71,6 +84,7 @@ const systemNavigation = [
     name: "備份",
     href: "/backup",
     icon: Database,
+    hideForViewer: true,
   },
   {
     name: "設定",
@@ -82,6 +96,7 @@ const systemNavigation = [
 // 側邊欄內容組件
 function SidebarContent({ onNavigate }: { onNavigate?: () => void }) {
   const [location] = useLocation();
+  const { canViewCosts } = useAuth();
 
   return (
     <div className="flex flex-col h-full bg-card">
@@ -132,7 +147,7 @@ function SidebarContent({ onNavigate }: { onNavigate?: () => void }) {
             系統功能
           </h3>
           
-          {systemNavigation.map((item) => {
+          {systemNavigation.filter((item) => canViewCosts || !item.hideForViewer).map((item) => {
             const Icon = item.icon;
             const isActive = location === item.href;
             
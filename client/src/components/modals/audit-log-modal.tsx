@@ -0,0 +1,223 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Clock, FileText, User, Trash2, Plus, Edit, Search } from "lucide-react";
+import { format } from "date-fns";
+import { zhTW } from "date-fns/locale";
+import { apiRequest } from "@/lib/queryClient";
+import { AUDIT_ENTITY_LABELS, type AuditLog, type AuditEntityType } from "@shared/schema";
+
+interface AuditLogModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  entityTypes: AuditEntityType[];
+  entityId?: number;
+}
+
+const actionLabels = {
+  CREATE: "新增",
+  UPDATE: "更新",
+  DELETE: "刪除"
+};
+
+const actionIcons = {
+  CREATE: Plus,
+  UPDATE: Edit,
+  DELETE: Trash2
+};
+
+const actionColors = {
+  CREATE: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  UPDATE: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+  DELETE: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300"
+};
+
+const fieldLabels: Record<string, string> = {
+  name: "名稱",
+  category: "分類",
+  type: "類型",
+  description: "說明",
+  notes: "備註",
+  color: "顏色",
+  sortOrder: "排序",
+  totalPortions: "總份數",
+  totalWeight: "總重量",
+  bakingLossRate: "烘焙損耗率",
+  ingredients: "原料",
+  subRecipes: "子配方",
+  recipes: "配方",
+  packaging: "包材",
+  items: "商品內容",
+  sellingPrice: "售價",
+  managementFeePercentage: "管理費率",
+  unitCost: "單價",
+  calories: "熱量",
+  protein: "蛋白質",
+  fat: "脂肪",
+  saturatedFat: "飽和脂肪",
+  transFat: "反式脂肪",
+  carbohydrates: "碳水化合物",
+  sugar: "糖",
+  sodium: "鈉",
+};
+
+// 明細列（原料、配方、包材、商品）以「名稱 × 數量」顯示
+function formatLine(line: Record<string, any>): string {
+  const name = line.materialName ?? line.recipeName ?? line.productName ?? line.packagingName ?? "?";
+  const unit = line.unit === "portions" ? "份" : line.materialName || line.unit === "grams" ? "g" : "";
+  return `${name} × ${line.quantity}${unit}`;
+}
+
+function formatFieldValue(value: any): string {
+  if (value === null || value === undefined || value === "") return "無";
+  if (Array.isArray(value)) {
+    return value.length === 0 ? "無" : value.map(line => typeof line === "object" ? formatLine(line) : String(line)).join("、");
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export default function AuditLogModal({
+  open,
+  onOpenChange,
+  title,
+  entityTypes,
+  entityId,
+}: AuditLogModalProps) {
+  const [search, setSearch] = useState("");
+  const entityTypeParam = entityTypes.join(",");
+
+  useEffect(() => {
+    if (open) setSearch("");
+  }, [open]);
+
+  const { data: logs = [], isLoading } = useQuery<AuditLog[]>({
+    queryKey: ["/api/audit-logs", entityTypeParam, entityId],
+    queryFn: () => apiRequest(
+      "GET",
+      `/api/audit-logs?entityType=${entityTypeParam}${entityId !== undefined ? `&entityId=${entityId}` : ""}`
+    ),
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const filteredLogs = logs.filter(log =>
+    !search || (log.entityName ?? "").toLowerCase().includes(search.toLowerCase())
+  );
+
+  const renderFieldChanges = (item: AuditLog) => {
+    if (!item.changedFields || item.changedFields.length === 0) return null;
+    const previousData = item.previousData as Record<string, any> | null;
+    const newData = item.newData as Record<string, any> | null;
+
+    return (
+      <div className="mt-3 space-y-2">
+        <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300">變更內容：</h5>
+        {item.changedFields.map(field => (
+          <div key={field} className="flex flex-col gap-1 p-2 bg-gray-50 dark:bg-gray-800 rounded">
+            <span className="text-sm font-medium">{fieldLabels[field] || field}：</span>
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              <span className="text-red-600 dark:text-red-400">
+                {formatFieldValue(previousData?.[field])}
+              </span>
+              <span className="mx-2">→</span>
+              <span className="text-green-600 dark:text-green-400">
+                {formatFieldValue(newData?.[field])}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            {title} - 異動紀錄
+          </DialogTitle>
+          <DialogDescription>
+            查看新增、修改與刪除的時間、操作者與變更內容
+          </DialogDescription>
+        </DialogHeader>
+
+        {entityId === undefined && (
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="搜尋名稱..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+        )}
+
+        <ScrollArea className="h-[55vh] w-full">
+          {isLoading ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="text-gray-500">載入中...</div>
+            </div>
+          ) : filteredLogs.length === 0 ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="text-gray-500">暫無異動紀錄</div>
+            </div>
+          ) : (
+            <div className="space-y-4 pr-3">
+              {filteredLogs.map((item) => {
+                const ActionIcon = actionIcons[item.action as keyof typeof actionIcons] ?? Edit;
+                return (
+                  <div key={item.id} className="border rounded-lg p-4 bg-white dark:bg-gray-900">
+                    <div className="flex items-center gap-3">
+                      <div className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-100 dark:bg-gray-800">
+                        <ActionIcon className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                      </div>
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge className={actionColors[item.action as keyof typeof actionColors]}>
+                            {actionLabels[item.action as keyof typeof actionLabels] ?? item.action}
+                          </Badge>
+                          {entityTypes.length > 1 && (
+                            <Badge variant="outline">
+                              {AUDIT_ENTITY_LABELS[item.entityType as AuditEntityType] ?? item.entityType}
+                            </Badge>
+                          )}
+                          <span className="font-medium truncate">{item.entityName || `#${item.entityId}`}</span>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-sm text-gray-600 dark:text-gray-400">
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-4 w-4 text-gray-400" />
+                            {format(new Date(item.createdAt), "yyyy年MM月dd日 HH:mm", { locale: zhTW })}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <User className="h-4 w-4 text-gray-400" />
+                            {item.username || "系統"}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+
+                    {item.changeDescription && (
+                      <p className="mt-3 text-sm text-gray-700 dark:text-gray-300">
+                        {item.changeDescription}
+                      </p>
+                    )}
+
+                    {renderFieldChanges(item)}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { LineChart as LineChartIcon, Camera } from "lucide-react";
+import { format } from "date-fns";
+import { zhTW } from "date-fns/locale";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { ProductCostSnapshot, CostSnapshotProductType } from "@shared/schema";
+
+interface CostSnapshotModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  productType: CostSnapshotProductType;
+  productId: number;
+  productName: string;
+}
+
+const triggerLabels: Record<string, string> = {
+  manual: "手動",
+  material_price_change: "原料調價",
+  material_unit_change: "原料單位換算",
+  daily: "每日",
+};
+
+const marginChartConfig = {
+  profitMargin: {
+    label: "利潤率 (%)",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+export default function CostSnapshotModal({
+  open,
+  onOpenChange,
+  productType,
+  productId,
+  productName,
+}: CostSnapshotModalProps) {
+  const { toast } = useToast();
+
+  const { data: snapshots = [], isLoading } = useQuery<ProductCostSnapshot[]>({
+    queryKey: ["/api/cost-snapshots", productType, productId],
+    queryFn: () => apiRequest("GET", `/api/cost-snapshots?productType=${productType}&productId=${productId}`),
+    enabled: open && productId > 0,
+  });
+
+  const createSnapshotMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/cost-snapshots"),
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cost-snapshots"] });
+      toast({ title: "成功", description: data.message });
+    },
+    onError: () => {
+      toast({ title: "錯誤", description: "建立成本快照失敗", variant: "destructive" });
+    },
+  });
+
+  const chartData = snapshots.map(snapshot => ({
+    label: format(new Date(snapshot.createdAt), "MM/dd", { locale: zhTW }),
+    profitMargin: parseFloat(snapshot.profitMargin),
+  }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LineChartIcon className="h-5 w-5" />
+            {productName} - 成本快照
+          </DialogTitle>
+          <DialogDescription>
+            比較各時間點記錄的成本與利潤率
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[60vh] w-full">
+          {isLoading ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="text-gray-500">載入中...</div>
+            </div>
+          ) : snapshots.length === 0 ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="text-gray-500">暫無成本快照</div>
+            </div>
+          ) : (
+            <div className="space-y-4 pr-3">
+              <ChartContainer config={marginChartConfig} className="h-56 w-full">
+                <LineChart data={chartData} margin={{ left: 8, right: 8, top: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line
+                    type="monotone"
+                    dataKey="profitMargin"
+                    stroke="var(--color-profitMargin)"
+                    strokeWidth={2}
+                    dot
+                  />
+                </LineChart>
+              </ChartContainer>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="p-2">時間</th>
+                    <th className="p-2">來源</th>
+                    <th className="p-2 text-right">含管理費成本</th>
+                    <th className="p-2 text-right">售價</th>
+                    <th className="p-2 text-right">利潤</th>
+                    <th className="p-2 text-right">利潤率</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...snapshots].reverse().map(snapshot => (
+                    <tr key={snapshot.id} className="border-b">
+                      <td className="p-2">{format(new Date(snapshot.createdAt), "yyyy/MM/dd HH:mm", { locale: zhTW })}</td>
+                      <td className="p-2">{triggerLabels[snapshot.trigger] || snapshot.trigger}</td>
+                      <td className="p-2 text-right">{parseFloat(snapshot.adjustedCost).toFixed(2)}</td>
+                      <td className="p-2 text-right">{parseFloat(snapshot.sellingPrice).toFixed(2)}</td>
+                      <td className="p-2 text-right">{parseFloat(snapshot.profit).toFixed(2)}</td>
+                      <td className="p-2 text-right">{parseFloat(snapshot.profitMargin).toFixed(1)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="flex justify-between">
+          <Button
+            variant="outline"
+            onClick={() => createSnapshotMutation.mutate()}
+            disabled={createSnapshotMutation.isPending}
+          >
+            <Camera className="mr-2 h-4 w-4" />
+            {createSnapshotMutation.isPending ? "建立中..." : "立即建立快照"}
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            關閉
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
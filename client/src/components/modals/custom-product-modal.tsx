@@ -14,6 +14,8 @@ import { Plus, Trash2, Search, Check } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
+import PriceSuggestion from "@/components/common/price-suggestion";
+import { calculateCustomProductCost, type OperatingCostRates } from "@shared/costEngine";
 import type { CustomProductWithDetails, InsertCustomProduct, ProductWithDetails, Packaging, PackagingCategory } from "@shared/schema";
 
 interface CustomProductModalProps {
@@ -200,6 +202,14 @@ export default function CustomProductModal({ customProduct, onClose }: CustomPro
     queryKey: ["/api/products"],
   });
 
+  const { data: settings } = useQuery<{
+    profitMargin?: { lowThreshold: number; highThreshold: number };
+    operatingCosts?: OperatingCostRates;
+    priceRoundingStep?: number;
+  }>({
+    queryKey: ["/api/settings"],
+  });
+
   const { data: packaging = [] } = useQuery<Packaging[]>({
     queryKey: ["/api/packaging"],
   });
@@ -362,26 +372,22 @@ export default function CustomProductModal({ customProduct, onClose }: CustomPro
     setCustomProductPackaging(newPackaging);
   };
 
-  // 計算總成本
-  const productCost = customProductItems.reduce((sum, item) => {
-    if (item.product && item.quantity) {
-      const cost = (item.product.adjustedCost || 0) * parseFloat(item.quantity);
-      return sum + cost;
-    }
-    return sum;
-  }, 0);
-
-  const packagingCost = customProductPackaging.reduce((sum, pp) => {
-    if (pp.packaging && pp.quantity) {
-      return sum + (parseFloat(pp.packaging.unitCost) * pp.quantity);
-    }
-    return sum;
-  }, 0);
-
-  const totalCost = productCost + packagingCost;
-  const sellingPrice = parseFloat(formData.sellingPrice);
-  const profit = sellingPrice - totalCost;
-  const profitMargin = sellingPrice > 0 ? (profit / sellingPrice) * 100 : 0;
+  // 計算總成本（與伺服器共用成本引擎，含管理費）
+  const {
+    productsCost: productCost,
+    packagingCost,
+    totalCost,
+    managementFee,
+    adjustedCost,
+    sellingPrice,
+    profit,
+    profitMargin,
+  } = calculateCustomProductCost({
+    sellingPrice: formData.sellingPrice,
+    managementFeePercentage: customProduct?.managementFeePercentage ?? "3.00",
+    items: customProductItems,
+    packaging: customProductPackaging,
+  }, settings?.operatingCosts);
 
   return (
     <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
@@ -630,7 +636,8 @@ export default function CustomProductModal({ customProduct, onClose }: CustomPro
                   </div>
                   <div className="text-sm text-muted-foreground">
                     產品: NT$ {productCost.toFixed(2)}<br/>
-                    包裝: NT$ {packagingCost.toFixed(2)}
+                    包裝: NT$ {packagingCost.toFixed(2)}<br/>
+                    管理費: NT$ {managementFee.toFixed(2)}
                   </div>
                 </div>
                 <div>
@@ -652,6 +659,14 @@ export default function CustomProductModal({ customProduct, onClose }: CustomPro
                   </div>
                 </div>
               </CardContent>
+              <CardContent className="pt-0">
+                <PriceSuggestion
+                  adjustedCost={adjustedCost}
+                  defaultTargetMargin={settings?.profitMargin?.highThreshold}
+                  roundingStep={settings?.priceRoundingStep}
+                  onApply={(price) => setFormData({ ...formData, sellingPrice: price.toFixed(2) })}
+                />
+              </CardContent>
             </Card>
           )}
           
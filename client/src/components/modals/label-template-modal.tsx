@@ -0,0 +1,279 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import LabelPreview from "@/components/common/label-preview";
+import { DEFAULT_LABEL_TEMPLATE_CONFIG, resolveTemplateConfig, type LabelContent } from "@shared/labelLayout";
+import type { NutritionLabelTemplate, NutritionLabelTemplateConfig } from "@shared/schema";
+
+interface LabelTemplateModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template: NutritionLabelTemplate | null;
+}
+
+// 預覽用的範例營養資料
+const SAMPLE_CONTENT: LabelContent = {
+  name: "北海道奶油可頌",
+  servingSize: "60",
+  servingsPerPackage: "4",
+  perServing: { calories: 245, protein: 4.8, fat: 13.2, saturatedFat: 8.1, transFat: 0.2, carbohydrates: 26.5, sugar: 5.4, sodium: 210 },
+  per100g: { calories: 408, protein: 8, fat: 22, saturatedFat: 13.5, transFat: 0.3, carbohydrates: 44.2, sugar: 9, sodium: 350 },
+  allergens: { contains: ["milk", "egg", "gluten"], mayContain: ["nuts"] },
+};
+
+const MARGIN_FIELDS = [
+  { key: "top", label: "上" },
+  { key: "right", label: "右" },
+  { key: "bottom", label: "下" },
+  { key: "left", label: "左" },
+] as const;
+
+export default function LabelTemplateModal({ open, onOpenChange, template }: LabelTemplateModalProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [width, setWidth] = useState("6");
+  const [height, setHeight] = useState("9");
+  const [config, setConfig] = useState<NutritionLabelTemplateConfig>(DEFAULT_LABEL_TEMPLATE_CONFIG);
+
+  useEffect(() => {
+    if (template) {
+      setName(template.name);
+      setDescription(template.description || "");
+      setWidth(template.width);
+      setHeight(template.height);
+      setConfig(resolveTemplateConfig(template.template));
+    } else {
+      setName("");
+      setDescription("");
+      setWidth("6");
+      setHeight("9");
+      setConfig(DEFAULT_LABEL_TEMPLATE_CONFIG);
+    }
+  }, [template, open]);
+
+  const mutation = useMutation({
+    mutationFn: (data: { name: string; description: string; width: string; height: string; template: NutritionLabelTemplateConfig }) =>
+      template
+        ? apiRequest("PUT", `/api/nutrition-label-templates/${template.id}`, data)
+        : apiRequest("POST", "/api/nutrition-label-templates", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-label-templates"] });
+      toast({ title: template ? "模板已更新" : "模板已建立" });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({ title: "儲存失敗", description: "請檢查模板尺寸、字級與顏色設定", variant: "destructive" });
+    },
+  });
+
+  const setNumber = <K extends keyof NutritionLabelTemplateConfig>(key: K, value: string) => {
+    setConfig({ ...config, [key]: parseFloat(value) || 0 });
+  };
+
+  const widthMm = (parseFloat(width) || 0) * 10;
+  const heightMm = (parseFloat(height) || 0) * 10;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || widthMm <= 0 || heightMm <= 0) {
+      toast({ title: "請輸入模板名稱與標籤尺寸", variant: "destructive" });
+      return;
+    }
+    mutation.mutate({ name: name.trim(), description, width, height, template: config });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "編輯標示模板" : "新增標示模板"}</DialogTitle>
+          <DialogDescription>設定標籤尺寸與版面，右側預覽即時反映 PDF／圖檔輸出效果</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="templateName">模板名稱 *</Label>
+              <Input id="templateName" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+            <div>
+              <Label htmlFor="templateDescription">說明</Label>
+              <Textarea id="templateDescription" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="templateWidth">寬度 (cm)</Label>
+                <Input id="templateWidth" type="number" step="0.1" min="1" value={width} onChange={(e) => setWidth(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="templateHeight">高度 (cm)</Label>
+                <Input id="templateHeight" type="number" step="0.1" min="1" value={height} onChange={(e) => setHeight(e.target.value)} />
+              </div>
+              <div>
+                <Label>版面</Label>
+                <Select
+                  value={config.layout}
+                  onValueChange={(value) => setConfig({ ...config, layout: value as NutritionLabelTemplateConfig["layout"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="vertical">直式</SelectItem>
+                    <SelectItem value="horizontal">橫式</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 items-end">
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="templateShowBorder"
+                  checked={config.showBorder}
+                  onCheckedChange={(checked) => setConfig({ ...config, showBorder: checked })}
+                />
+                <Label htmlFor="templateShowBorder">顯示外框</Label>
+              </div>
+              <div>
+                <Label htmlFor="templateBorderWidth">線寬 (mm)</Label>
+                <Input
+                  id="templateBorderWidth"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={config.borderWidth}
+                  onChange={(e) => setNumber("borderWidth", e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="templateTextColor">文字</Label>
+                  <Input
+                    id="templateTextColor"
+                    type="color"
+                    className="p-1"
+                    value={config.textColor}
+                    onChange={(e) => setConfig({ ...config, textColor: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="templateBackgroundColor">背景</Label>
+                  <Input
+                    id="templateBackgroundColor"
+                    type="color"
+                    className="p-1"
+                    value={config.backgroundColor}
+                    onChange={(e) => setConfig({ ...config, backgroundColor: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <Label htmlFor="templateHeaderFontSize">標題字級 (pt)</Label>
+                <Input
+                  id="templateHeaderFontSize"
+                  type="number"
+                  step="0.5"
+                  min="1"
+                  value={config.headerFontSize}
+                  onChange={(e) => setNumber("headerFontSize", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="templateBodyFontSize">內文字級 (pt)</Label>
+                <Input
+                  id="templateBodyFontSize"
+                  type="number"
+                  step="0.5"
+                  min="1"
+                  value={config.bodyFontSize}
+                  onChange={(e) => setNumber("bodyFontSize", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="templateLineHeight">行高 (倍)</Label>
+                <Input
+                  id="templateLineHeight"
+                  type="number"
+                  step="0.1"
+                  min="1"
+                  max="3"
+                  value={config.spacing.lineHeight}
+                  onChange={(e) => setConfig({ ...config, spacing: { ...config.spacing, lineHeight: parseFloat(e.target.value) || 1 } })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="templateSectionSpacing">段落間距 (mm)</Label>
+                <Input
+                  id="templateSectionSpacing"
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  value={config.spacing.sectionSpacing}
+                  onChange={(e) => setConfig({ ...config, spacing: { ...config.spacing, sectionSpacing: parseFloat(e.target.value) || 0 } })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>邊距 (mm)</Label>
+              <div className="grid grid-cols-4 gap-3">
+                {MARGIN_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="flex items-center gap-1">
+                    <span className="text-sm text-muted-foreground">{label}</span>
+                    <Input
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      value={config.margins[key]}
+                      onChange={(e) => setConfig({ ...config, margins: { ...config.margins, [key]: parseFloat(e.target.value) || 0 } })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>預覽（{width} × {height} cm）</Label>
+            <div className="border rounded-lg p-4 bg-muted/30 flex items-center justify-center">
+              {widthMm > 0 && heightMm > 0 ? (
+                <LabelPreview
+                  content={SAMPLE_CONTENT}
+                  config={config}
+                  width={widthMm}
+                  height={heightMm}
+                  className="w-full max-h-[60vh] shadow"
+                />
+              ) : (
+                <div className="text-muted-foreground py-12">請輸入標籤尺寸</div>
+              )}
+            </div>
+          </div>
+
+          <div className="lg:col-span-2 flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              取消
+            </Button>
+            <Button type="submit" disabled={mutation.isPending}>
+              {mutation.isPending ? "儲存中..." : "儲存模板"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,12 +3,18 @@ import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
 import { Clock, FileText, User, Trash2, Plus, Edit } from "lucide-react";
 import { format } from "date-fns";
 import { zhTW } from "date-fns/locale";
-import type { MaterialHistory } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import type { MaterialHistory, MaterialPricePoint, MaterialEffectivePrice } from "@shared/schema";
 
 interface MaterialHistoryModalProps {
   open: boolean;
@@ -29,6 +35,13 @@ const actionIcons = {
   DELETE: Trash2
 };
 
+const priceChartConfig = {
+  pricePerGram: {
+    label: "每克單價",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
 const actionColors = {
   CREATE: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
   UPDATE: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
@@ -43,10 +56,33 @@ export default function MaterialHistoryModal({
 }: MaterialHistoryModalProps) {
   const { data: history, isLoading } = useQuery({
     queryKey: ["/api/materials", materialId, "history"],
-    queryFn: () => fetch(`/api/materials/${materialId}/history`).then(res => res.json()),
+    queryFn: () => apiRequest("GET", `/api/materials/${materialId}/history`),
+    enabled: open && materialId > 0
+  });
+
+  const { data: pricePoints = [] } = useQuery<MaterialPricePoint[]>({
+    queryKey: ["/api/materials", materialId, "price-history"],
+    queryFn: () => apiRequest("GET", `/api/materials/${materialId}/price-history`),
     enabled: open && materialId > 0
   });
 
+  // 查詢指定日期的有效單價
+  const [priceDate, setPriceDate] = useState("");
+  const { data: effectivePrice } = useQuery<MaterialEffectivePrice>({
+    queryKey: ["/api/materials", materialId, "price-at", priceDate],
+    queryFn: () => apiRequest("GET", `/api/materials/${materialId}/price-at?date=${priceDate}`),
+    enabled: open && materialId > 0 && !!priceDate
+  });
+
+  useEffect(() => {
+    if (!open) setPriceDate("");
+  }, [open]);
+
+  const chartData = pricePoints.map(point => ({
+    ...point,
+    label: format(new Date(point.date), "MM/dd", { locale: zhTW }),
+  }));
+
   const formatFieldValue = (value: any): string => {
     if (value === null || value === undefined) return "無";
     if (typeof value === "string") return value;
@@ -104,60 +140,139 @@ export default function MaterialHistoryModal({
           </DialogDescription>
         </DialogHeader>
         
-        <ScrollArea className="h-[60vh] w-full">
-          {isLoading ? (
-            <div className="flex justify-center items-center h-40">
-              <div className="text-gray-500">載入中...</div>
-            </div>
-          ) : !history || history.length === 0 ? (
-            <div className="flex justify-center items-center h-40">
-              <div className="text-gray-500">暫無異動紀錄</div>
-            </div>
-          ) : (
-            <div className="space-y-4">
-              {history.map((item: MaterialHistory, index: number) => {
-                const ActionIcon = actionIcons[item.action as keyof typeof actionIcons];
-                return (
-                  <div key={item.id} className="border rounded-lg p-4 bg-white dark:bg-gray-900">
-                    <div className="flex items-start justify-between">
-                      <div className="flex items-center gap-3">
-                        <div className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-100 dark:bg-gray-800">
-                          <ActionIcon className="h-4 w-4 text-gray-600 dark:text-gray-400" />
-                        </div>
-                        <div>
-                          <div className="flex items-center gap-2">
-                            <Badge className={actionColors[item.action as keyof typeof actionColors]}>
-                              {actionLabels[item.action as keyof typeof actionLabels]}
-                            </Badge>
-                            <span className="text-sm text-gray-500">
-                              #{history.length - index}
-                            </span>
-                          </div>
-                          <div className="flex items-center gap-2 mt-1">
-                            <Clock className="h-4 w-4 text-gray-400" />
-                            <span className="text-sm text-gray-600 dark:text-gray-400">
-                              {format(new Date(item.createdAt), "yyyy年MM月dd日 HH:mm", { locale: zhTW })}
-                            </span>
+        <Tabs defaultValue="history">
+          <TabsList>
+            <TabsTrigger value="history">異動紀錄</TabsTrigger>
+            <TabsTrigger value="price">價格走勢</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="history">
+            <ScrollArea className="h-[55vh] w-full">
+              {isLoading ? (
+                <div className="flex justify-center items-center h-40">
+                  <div className="text-gray-500">載入中...</div>
+                </div>
+              ) : !history || history.length === 0 ? (
+                <div className="flex justify-center items-center h-40">
+                  <div className="text-gray-500">暫無異動紀錄</div>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {history.map((item: MaterialHistory, index: number) => {
+                    const ActionIcon = actionIcons[item.action as keyof typeof actionIcons];
+                    return (
+                      <div key={item.id} className="border rounded-lg p-4 bg-white dark:bg-gray-900">
+                        <div className="flex items-start justify-between">
+                          <div className="flex items-center gap-3">
+                            <div className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-100 dark:bg-gray-800">
+                              <ActionIcon className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                            </div>
+                            <div>
+                              <div className="flex items-center gap-2">
+                                <Badge className={actionColors[item.action as keyof typeof actionColors]}>
+                                  {actionLabels[item.action as keyof typeof actionLabels]}
+                                </Badge>
+                                <span className="text-sm text-gray-500">
+                                  #{history.length - index}
+                                </span>
+                              </div>
+                              <div className="flex items-center gap-2 mt-1">
+                                <Clock className="h-4 w-4 text-gray-400" />
+                                <span className="text-sm text-gray-600 dark:text-gray-400">
+                                  {format(new Date(item.createdAt), "yyyy年MM月dd日 HH:mm", { locale: zhTW })}
+                                </span>
+                              </div>
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    </div>
                     
-                    {item.changeDescription && (
-                      <p className="mt-3 text-sm text-gray-700 dark:text-gray-300">
-                        {item.changeDescription}
-                      </p>
-                    )}
+                        {item.changeDescription && (
+                          <p className="mt-3 text-sm text-gray-700 dark:text-gray-300">
+                            {item.changeDescription}
+                          </p>
+                        )}
                     
-                    {renderFieldChanges(item)}
+                        {renderFieldChanges(item)}
                     
-                    {index < history.length - 1 && <Separator className="mt-4" />}
+                        {index < history.length - 1 && <Separator className="mt-4" />}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="price">
+            <ScrollArea className="h-[55vh] w-full">
+              <div className="space-y-4 pr-3">
+                {pricePoints.length === 0 ? (
+                  <div className="flex justify-center items-center h-40">
+                    <div className="text-gray-500">暫無價格紀錄</div>
                   </div>
-                );
-              })}
-            </div>
-          )}
-        </ScrollArea>
+                ) : (
+                  <ChartContainer config={priceChartConfig} className="h-56 w-full">
+                    <LineChart data={chartData} margin={{ left: 8, right: 8, top: 8 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={56} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line
+                        type="stepAfter"
+                        dataKey="pricePerGram"
+                        stroke="var(--color-pricePerGram)"
+                        strokeWidth={2}
+                        dot
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                )}
+
+                <div className="flex items-end gap-3">
+                  <div>
+                    <Label htmlFor="priceDate">查詢日期單價</Label>
+                    <Input
+                      id="priceDate"
+                      type="date"
+                      value={priceDate}
+                      onChange={(e) => setPriceDate(e.target.value)}
+                    />
+                  </div>
+                  {priceDate && effectivePrice && (
+                    <div className="text-sm pb-2">
+                      {effectivePrice.pricePerGram === null
+                        ? "該日期原料尚未建立"
+                        : `每克單價 NT$ ${effectivePrice.pricePerGram.toFixed(4)}`}
+                    </div>
+                  )}
+                </div>
+
+                {pricePoints.length > 0 && (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left">
+                        <th className="p-2">日期</th>
+                        <th className="p-2 text-right">每克單價</th>
+                        <th className="p-2 text-right">購入金額</th>
+                        <th className="p-2">購入地點</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...pricePoints].reverse().map(point => (
+                        <tr key={point.historyId} className="border-b">
+                          <td className="p-2">{format(new Date(point.date), "yyyy/MM/dd HH:mm", { locale: zhTW })}</td>
+                          <td className="p-2 text-right">{point.pricePerGram.toFixed(4)}</td>
+                          <td className="p-2 text-right">{point.purchaseAmount ?? "-"}</td>
+                          <td className="p-2">{point.purchaseLocation || "-"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
         
         <div className="flex justify-end">
           <Button variant="outline" onClick={() => onOpenChange(false)}>
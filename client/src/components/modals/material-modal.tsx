@@ -7,9 +7,14 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Material, InsertMaterial } from "@shared/schema";
+import { ALLERGENS, type Allergen, type Material, type InsertMaterial, type MaterialCostingPolicy } from "@shared/schema";
+import { ALLERGEN_LABELS } from "@shared/allergens";
+import { calculatePricePerGram } from "@shared/costEngine";
+import { COMMON_CONVERTIBLE_UNITS, materialUnits, unitLabel } from "@shared/units";
 
 interface MaterialModalProps {
   open: boolean;
@@ -17,6 +22,18 @@ interface MaterialModalProps {
   material?: Material | null;
 }
 
+const costingPolicyLabels: Record<MaterialCostingPolicy, string> = {
+  latest: "最新進價",
+  weighted_average: "最近 N 筆加權平均",
+  moving_average: "庫存移動平均",
+};
+
+// 單位換算編輯列（克數以字串保存輸入值）
+interface ConversionRow {
+  unit: string;
+  gramsPerUnit: string;
+}
+
 export default function MaterialModal({ open, onOpenChange, material }: MaterialModalProps) {
   const { toast } = useToast();
   const [formData, setFormData] = useState<InsertMaterial>({
@@ -29,7 +46,13 @@ export default function MaterialModal({ open, onOpenChange, material }: Material
     managementFeeRate: "",
     purchaseTime: null,
     purchaseLocation: "",
+    costingPolicy: "latest",
+    costingWindow: null,
+    defaultUnit: "g",
+    allergens: [],
+    mayContainAllergens: [],
   });
+  const [conversions, setConversions] = useState<ConversionRow[]>([]);
 
   const { data: materialCategories = [] } = useQuery<{ id: number; name: string; sortOrder: number }[]>({
     queryKey: ["/api/material-categories"],
@@ -49,7 +72,13 @@ export default function MaterialModal({ open, onOpenChange, material }: Material
           managementFeeRate: material.managementFeeRate || "",
           purchaseTime: material.purchaseTime,
           purchaseLocation: material.purchaseLocation || "",
+          costingPolicy: material.costingPolicy as MaterialCostingPolicy,
+          costingWindow: material.costingWindow,
+          defaultUnit: material.defaultUnit,
+          allergens: material.allergens ?? [],
+          mayContainAllergens: material.mayContainAllergens ?? [],
         });
+        setConversions((material.unitConversions ?? []).map(c => ({ unit: c.unit, gramsPerUnit: String(c.gramsPerUnit) })));
       } else {
         console.log("Resetting form data for new material");
         setFormData({
@@ -62,11 +91,38 @@ export default function MaterialModal({ open, onOpenChange, material }: Material
           managementFeeRate: "",
           purchaseTime: null,
           purchaseLocation: "",
+          costingPolicy: "latest",
+          costingWindow: null,
+          defaultUnit: "g",
+          allergens: [],
+          mayContainAllergens: [],
         });
+        setConversions([]);
       }
     }
   }, [material, open]);
 
+  // 單位名稱與每單位克數皆有效的換算
+  const validConversions = conversions
+    .filter(row => row.unit.trim() && parseFloat(row.gramsPerUnit) > 0)
+    .map(row => ({ unit: row.unit.trim(), gramsPerUnit: parseFloat(row.gramsPerUnit) }));
+  const unitOptions = materialUnits({ unitConversions: validConversions });
+
+  // 勾選含有時自動取消「可能含有」，兩者不重複標記
+  const toggleAllergen = (field: "allergens" | "mayContainAllergens", allergen: Allergen, checked: boolean) => {
+    const other = field === "allergens" ? "mayContainAllergens" : "allergens";
+    const current = formData[field] ?? [];
+    setFormData({
+      ...formData,
+      [field]: checked ? [...current, allergen] : current.filter(a => a !== allergen),
+      ...(checked && { [other]: (formData[other] ?? []).filter(a => a !== allergen) }),
+    });
+  };
+
+  const updateConversion = (index: number, field: keyof ConversionRow, value: string) => {
+    setConversions(conversions.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
   const mutation = useMutation({
     mutationFn: (data: InsertMaterial) => {
       // 清理空值資料並轉換時間格式
@@ -77,6 +133,7 @@ export default function MaterialModal({ open, onOpenChange, material }: Material
         managementFeeRate: data.managementFeeRate === "" ? null : data.managementFeeRate,
         purchaseLocation: data.purchaseLocation === "" ? null : data.purchaseLocation,
         purchaseTime: data.purchaseTime ? new Date(data.purchaseTime) : null,
+        unitConversions: validConversions,
       };
       
       if (material) {
@@ -105,11 +162,9 @@ export default function MaterialModal({ open, onOpenChange, material }: Material
   const calculatePrice = useCallback((purchaseAmount: string, purchaseWeight: string, managementFeeRate: string) => {
     const amount = parseFloat(purchaseAmount);
     const weight = parseFloat(purchaseWeight);
-    const feeRate = parseFloat(managementFeeRate) || 0;
     
     if (amount && weight && amount > 0 && weight > 0) {
-      const calculatedPrice = (amount * (1 + feeRate / 100)) / weight;
-      return calculatedPrice.toFixed(4);
+      return calculatePricePerGram(amount, weight, managementFeeRate).toFixed(4);
     }
     return "";
   }, []);
@@ -149,6 +204,15 @@ export default function MaterialModal({ open, onOpenChange, material }: Material
       return;
     }
 
+    if (!unitOptions.some(option => option.unit === formData.defaultUnit)) {
+      toast({
+        title: "預設單位無效",
+        description: "請先設定預設單位的換算克數",
+        variant: "destructive",
+      });
+      return;
+    }
+
     mutation.mutate(formData);
   };
 
@@ -286,8 +350,151 @@ export default function MaterialModal({ open, onOpenChange, material }: Material
                 placeholder="請輸入購入地點"
               />
             </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>成本政策</Label>
+                <Select
+                  value={formData.costingPolicy ?? "latest"}
+                  onValueChange={(value) => setFormData({ ...formData, costingPolicy: value as MaterialCostingPolicy })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(costingPolicyLabels) as MaterialCostingPolicy[]).map((policy) => (
+                      <SelectItem key={policy} value={policy}>{costingPolicyLabels[policy]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.costingPolicy === "weighted_average" && (
+                <div>
+                  <Label htmlFor="costingWindow">採計筆數 (N)</Label>
+                  <Input
+                    id="costingWindow"
+                    type="number"
+                    step="1"
+                    min="1"
+                    value={formData.costingWindow ?? ""}
+                    onChange={(e) => setFormData({ ...formData, costingWindow: e.target.value ? parseInt(e.target.value) : null })}
+                    placeholder="全部"
+                  />
+                </div>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              每次進貨皆保留紀錄，系統依成本政策自動計算每克單價
+            </p>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">單位換算（選填）</h4>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setConversions([...conversions, { unit: "", gramsPerUnit: "" }])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                新增單位
+              </Button>
+            </div>
+            {conversions.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                <div>
+                  <Label>單位</Label>
+                  <Input
+                    list="material-unit-suggestions"
+                    value={row.unit}
+                    onChange={(e) => updateConversion(index, "unit", e.target.value)}
+                    placeholder="例如：ml、piece、塊"
+                  />
+                </div>
+                <div>
+                  <Label>每單位克數 (g)</Label>
+                  <Input
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    value={row.gramsPerUnit}
+                    onChange={(e) => updateConversion(index, "gramsPerUnit", e.target.value)}
+                    placeholder="例如：1 個蛋 = 55"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  title="移除單位"
+                  onClick={() => setConversions(conversions.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <datalist id="material-unit-suggestions">
+              {COMMON_CONVERTIBLE_UNITS.map(unit => (
+                <option key={unit} value={unit}>{unitLabel(unit)}</option>
+              ))}
+            </datalist>
+
+            <div>
+              <Label>配方預設單位</Label>
+              <Select
+                value={formData.defaultUnit ?? "g"}
+                onValueChange={(value) => setFormData({ ...formData, defaultUnit: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {unitOptions.map(option => (
+                    <SelectItem key={option.unit} value={option.unit}>
+                      {unitLabel(option.unit)}
+                      {option.unit !== "g" && ` (${option.gramsPerUnit} g)`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-gray-500">
+              g 與 kg 可直接使用；設定 ml 換算（密度）後亦可使用 L。配方以任一單位輸入，成本與營養皆換算為克計算
+            </p>
           </div>
           
+          <Separator />
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">過敏原</h4>
+            <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 gap-y-2 text-sm items-center">
+              <span></span>
+              <span className="text-xs text-gray-500">含有</span>
+              <span className="text-xs text-gray-500">可能含有</span>
+              {ALLERGENS.map((allergen) => (
+                <div key={allergen} className="contents">
+                  <span>{ALLERGEN_LABELS[allergen]}</span>
+                  <Checkbox
+                    className="justify-self-center"
+                    checked={formData.allergens?.includes(allergen) ?? false}
+                    onCheckedChange={(checked) => toggleAllergen("allergens", allergen, checked === true)}
+                  />
+                  <Checkbox
+                    className="justify-self-center"
+                    checked={formData.mayContainAllergens?.includes(allergen) ?? false}
+                    onCheckedChange={(checked) => toggleAllergen("mayContainAllergens", allergen, checked === true)}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              「可能含有」用於同產線或交叉污染；配方、商品與營養標示會自動彙整使用原料的過敏原
+            </p>
+          </div>
+
           <div className="flex justify-end space-x-2 pt-4">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               取消
@@ -13,7 +13,8 @@ import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { apiRequest } from "@/lib/queryClient";
-import { Calculator } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Calculator, AlertTriangle } from "lucide-react";
 
 interface Recipe {
   id: number;
@@ -41,7 +42,7 @@ export function NutritionCalculatorModal({
 
   const { data: recipes = [] } = useQuery({
     queryKey: ["/api/recipes"],
-    queryFn: () => apiRequest("/api/recipes"),
+    queryFn: () => apiRequest("GET", "/api/recipes"),
     enabled: isOpen,
   });
 
@@ -72,13 +73,10 @@ export function NutritionCalculatorModal({
 
     setCalculating(true);
     try {
-      const result = await apiRequest("/api/nutrition-labels/calculate", {
-        method: "POST",
-        body: {
-          recipeIds: selectedRecipeIds,
-          servingSize: parseFloat(servingSize),
-          servingsPerPackage: parseInt(servingsPerPackage),
-        },
+      const result = await apiRequest("POST", "/api/nutrition-labels/calculate", {
+        recipeIds: selectedRecipeIds,
+        servingSize: parseFloat(servingSize),
+        servingsPerPackage: parseInt(servingsPerPackage),
       });
 
       setCalculatedNutrition(result);
@@ -240,6 +238,22 @@ export function NutritionCalculatorModal({
                   </div>
                 ) : (
                   <div className="space-y-6">
+                    {calculatedNutrition.missingNutritionMaterials?.length > 0 && (
+                      <Alert>
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>
+                          <strong>以下原料缺少營養資料，未計入計算：</strong>
+                          <ul className="mt-1 list-disc pl-5">
+                            {calculatedNutrition.missingNutritionMaterials.map((item: any) => (
+                              <li key={item.materialId}>
+                                {item.materialName}（{item.recipeNames.join("、")}）
+                              </li>
+                            ))}
+                          </ul>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
                     {/* 每份營養成分 */}
                     <div>
                       <h4 className="font-medium mb-3 text-green-600">每份營養成分 ({servingSize}g)</h4>
@@ -20,7 +20,17 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import type { CalculatedNutrition, NutritionLabelTemplate } from "@shared/schema";
+import {
+  TAIWAN_NUTRIENT_RULES,
+  applyTaiwanLabelRules,
+  formatDailyValuePercent,
+  formatNutrientAmount,
+  validateNutritionLabel,
+} from "@shared/nutritionCompliance";
 
 interface Recipe {
   id: number;
@@ -50,7 +60,7 @@ export function NutritionLabelModal({
     recipeIds: [] as string[],
     servingSize: "",
     servingsPerPackage: "",
-    templateId: null,
+    templateId: null as number | null,
     calculatedNutrition: null as any,
     generatedFiles: null,
   });
@@ -62,6 +72,10 @@ export function NutritionLabelModal({
     queryFn: () => apiRequest("/api/recipes"),
   });
 
+  const { data: templates = [] } = useQuery<NutritionLabelTemplate[]>({
+    queryKey: ["/api/nutrition-label-templates"],
+  });
+
   // 過濾配方
   const filteredRecipes = useMemo(() => {
     if (!recipeSearch.trim()) return recipes;
@@ -95,6 +109,17 @@ export function NutritionLabelModal({
     }
   }, [initialData]);
 
+  // 依台灣標示規定修整後的數值與法規檢查結果
+  const labelValues = useMemo(() => {
+    const nutrition = formData.calculatedNutrition as CalculatedNutrition | null;
+    return nutrition?.perServing && nutrition?.per100g ? applyTaiwanLabelRules(nutrition) : null;
+  }, [formData.calculatedNutrition]);
+
+  const compliance = useMemo(
+    () => formData.calculatedNutrition ? validateNutritionLabel(formData) : null,
+    [formData]
+  );
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -190,6 +215,28 @@ export function NutritionLabelModal({
                 required
               />
             </div>
+
+            <div className="space-y-2">
+              <Label>標示模板</Label>
+              <Select
+                value={formData.templateId ? formData.templateId.toString() : "none"}
+                onValueChange={(value) =>
+                  setFormData(prev => ({ ...prev, templateId: value === "none" ? null : parseInt(value) }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="選擇模板" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">預設版面</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id.toString()}>
+                      {template.name}（{template.width} × {template.height} 公分）
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           {/* 配方選擇 */}
@@ -245,35 +292,41 @@ export function NutritionLabelModal({
             <div className="space-y-3">
               <Label>計算的營養成分</Label>
               <div className="border rounded-lg p-4 bg-gray-50 dark:bg-gray-800">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <h4 className="font-medium mb-2">每份營養成分</h4>
-                    <div className="space-y-1 text-sm">
-                      <div>熱量：{Math.round(formData.calculatedNutrition.perServing?.calories || 0)} kcal</div>
-                      <div>蛋白質：{Math.round(formData.calculatedNutrition.perServing?.protein || 0)} g</div>
-                      <div>脂肪：{Math.round(formData.calculatedNutrition.perServing?.fat || 0)} g</div>
-                      <div>飽和脂肪：{Math.round(formData.calculatedNutrition.perServing?.saturatedFat || 0)} g</div>
-                      <div>反式脂肪：{Math.round(formData.calculatedNutrition.perServing?.transFat || 0)} g</div>
-                      <div>碳水化合物：{Math.round(formData.calculatedNutrition.perServing?.carbohydrates || 0)} g</div>
-                      <div>糖：{Math.round(formData.calculatedNutrition.perServing?.sugar || 0)} g</div>
-                      <div>鈉：{Math.round(formData.calculatedNutrition.perServing?.sodium || 0)} mg</div>
-                    </div>
-                  </div>
-                  <div>
-                    <h4 className="font-medium mb-2">每100g營養成分</h4>
-                    <div className="space-y-1 text-sm">
-                      <div>熱量：{Math.round(formData.calculatedNutrition.per100g?.calories || 0)} kcal</div>
-                      <div>蛋白質：{Math.round(formData.calculatedNutrition.per100g?.protein || 0)} g</div>
-                      <div>脂肪：{Math.round(formData.calculatedNutrition.per100g?.fat || 0)} g</div>
-                      <div>飽和脂肪：{Math.round(formData.calculatedNutrition.per100g?.saturatedFat || 0)} g</div>
-                      <div>反式脂肪：{Math.round(formData.calculatedNutrition.per100g?.transFat || 0)} g</div>
-                      <div>碳水化合物：{Math.round(formData.calculatedNutrition.per100g?.carbohydrates || 0)} g</div>
-                      <div>糖：{Math.round(formData.calculatedNutrition.per100g?.sugar || 0)} g</div>
-                      <div>鈉：{Math.round(formData.calculatedNutrition.per100g?.sodium || 0)} mg</div>
-                    </div>
-                  </div>
-                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-600 dark:text-gray-400">
+                      <th className="text-left font-medium pb-1"></th>
+                      <th className="text-right font-medium pb-1">每份</th>
+                      <th className="text-right font-medium pb-1">每100公克</th>
+                      <th className="text-right font-medium pb-1">每日參考值百分比</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {labelValues && TAIWAN_NUTRIENT_RULES.map((rule) => (
+                      <tr key={rule.key}>
+                        <td className={rule.indent ? "pl-4" : ""}>{rule.label}</td>
+                        <td className="text-right">{formatNutrientAmount(rule, labelValues.perServing[rule.key])}</td>
+                        <td className="text-right">{formatNutrientAmount(rule, labelValues.per100g[rule.key])}</td>
+                        <td className="text-right">{formatDailyValuePercent(labelValues.dailyValuePercent[rule.key])}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="mt-2 text-xs text-gray-500">數值已依台灣營養標示規定修整</div>
               </div>
+              {compliance && compliance.issues.length > 0 && (
+                <Alert variant={compliance.valid ? "default" : "destructive"}>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <strong>{compliance.valid ? "請留意：" : "不符標示規定，修正前無法生成標籤："}</strong>
+                    <ul className="list-disc pl-4 mt-1">
+                      {compliance.issues.map((issue, index) => (
+                        <li key={index}>{issue.message}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
             </div>
           )}
 
@@ -0,0 +1,224 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { TrendingUp, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Material, MaterialPriceImpact, PriceImpactItem } from "@shared/schema";
+
+interface PriceImpactModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  material: Material | null;
+}
+
+function formatMargin(margin: number | null) {
+  return margin === null ? "-" : `${margin.toFixed(1)}%`;
+}
+
+function ImpactTable({ title, items, showMargin }: { title: string; items: PriceImpactItem[]; showMargin: boolean }) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium">{title}（{items.length}）</h4>
+      <div className="overflow-x-auto border rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className="text-left p-2">名稱</th>
+              <th className="text-right p-2">原成本</th>
+              <th className="text-right p-2">新成本</th>
+              <th className="text-right p-2">變動</th>
+              {showMargin && <th className="text-right p-2">原利潤率</th>}
+              {showMargin && <th className="text-right p-2">新利潤率</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.id} className="border-t">
+                <td className="p-2">
+                  <div className="flex items-center gap-2">
+                    {item.name}
+                    {item.crossesLowThreshold && (
+                      <Badge variant="destructive">低於低標</Badge>
+                    )}
+                    {!item.crossesLowThreshold && item.crossesHighThreshold && (
+                      <Badge className="bg-yellow-100 text-yellow-800">低於高標</Badge>
+                    )}
+                  </div>
+                </td>
+                <td className="text-right p-2">NT$ {item.oldCost.toFixed(2)}</td>
+                <td className="text-right p-2">NT$ {item.newCost.toFixed(2)}</td>
+                <td className={`text-right p-2 ${item.costChange > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {item.costChange > 0 ? "+" : ""}{item.costChange.toFixed(2)}
+                </td>
+                {showMargin && <td className="text-right p-2">{formatMargin(item.oldMargin)}</td>}
+                {showMargin && (
+                  <td className={`text-right p-2 ${item.crossesLowThreshold ? 'text-red-600 font-medium' : ''}`}>
+                    {formatMargin(item.newMargin)}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default function PriceImpactModal({ open, onOpenChange, material }: PriceImpactModalProps) {
+  const { toast } = useToast();
+  const [pricePerGram, setPricePerGram] = useState("");
+  const [purchaseAmount, setPurchaseAmount] = useState("");
+  const [purchaseWeight, setPurchaseWeight] = useState("");
+  const [impact, setImpact] = useState<MaterialPriceImpact | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setPricePerGram("");
+      setPurchaseAmount("");
+      setPurchaseWeight("");
+      setImpact(null);
+    }
+  }, [open, material?.id]);
+
+  const analyzeMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/materials/${material!.id}/price-impact`, {
+        pricePerGram,
+        purchaseAmount,
+        purchaseWeight,
+      });
+    },
+    onSuccess: (data: MaterialPriceImpact) => {
+      setImpact(data);
+    },
+    onError: () => {
+      toast({
+        title: "錯誤",
+        description: "請輸入有效的新單價或購入金額與重量",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAnalyze = () => {
+    if (!pricePerGram && !(purchaseAmount && purchaseWeight)) {
+      toast({
+        title: "錯誤",
+        description: "請輸入新單價，或購入金額與重量",
+        variant: "destructive",
+      });
+      return;
+    }
+    analyzeMutation.mutate();
+  };
+
+  const affectedCount = impact
+    ? impact.recipes.length + impact.products.length + impact.customProducts.length
+    : 0;
+  const flaggedCount = impact
+    ? [...impact.products, ...impact.customProducts].filter(item => item.crossesLowThreshold).length
+    : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            {material?.name} - 價格影響分析
+          </DialogTitle>
+          <DialogDescription>
+            輸入假設的新單價，查看受影響的配方、產品與客製商品成本及利潤率變化（不會修改原料資料）
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label htmlFor="impactPricePerGram">新每克單價 (元)</Label>
+            <Input
+              id="impactPricePerGram"
+              type="number"
+              step="0.0001"
+              min="0"
+              value={pricePerGram}
+              onChange={(e) => setPricePerGram(e.target.value)}
+              placeholder={material?.pricePerGram}
+            />
+          </div>
+          <div>
+            <Label htmlFor="impactPurchaseAmount">或 購入金額 (元)</Label>
+            <Input
+              id="impactPurchaseAmount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={purchaseAmount}
+              onChange={(e) => setPurchaseAmount(e.target.value)}
+              disabled={!!pricePerGram}
+            />
+          </div>
+          <div>
+            <Label htmlFor="impactPurchaseWeight">購入重量 (克)</Label>
+            <Input
+              id="impactPurchaseWeight"
+              type="number"
+              step="0.01"
+              min="0"
+              value={purchaseWeight}
+              onChange={(e) => setPurchaseWeight(e.target.value)}
+              disabled={!!pricePerGram}
+            />
+          </div>
+          <Button onClick={handleAnalyze} disabled={!material || analyzeMutation.isPending}>
+            {analyzeMutation.isPending ? "分析中..." : "分析影響"}
+          </Button>
+        </div>
+
+        {impact && (
+          <ScrollArea className="h-[50vh] w-full">
+            <div className="space-y-4 pr-3">
+              <div className="text-sm text-muted-foreground">
+                每克單價 NT$ {impact.oldPricePerGram.toFixed(4)} → NT$ {impact.newPricePerGram.toFixed(4)}，
+                利潤率門檻：低標 {impact.thresholds.low}%、高標 {impact.thresholds.high}%
+              </div>
+
+              {flaggedCount > 0 && (
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300 text-sm">
+                  <AlertTriangle className="h-4 w-4" />
+                  有 {flaggedCount} 項商品的利潤率將低於低標 {impact.thresholds.low}%
+                </div>
+              )}
+
+              {affectedCount === 0 ? (
+                <div className="flex justify-center items-center h-24 text-gray-500">
+                  沒有配方或商品使用此原料
+                </div>
+              ) : (
+                <>
+                  <ImpactTable title="配方" items={impact.recipes} showMargin={false} />
+                  <ImpactTable title="產品" items={impact.products} showMargin />
+                  <ImpactTable title="客製商品" items={impact.customProducts} showMargin />
+                </>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            關閉
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,6 +14,8 @@ import { Plus, Trash2, Search, Check } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
+import PriceSuggestion from "@/components/common/price-suggestion";
+import { calculateProductCost, type OperatingCostRates } from "@shared/costEngine";
 import type { ProductWithDetails, InsertProduct, RecipeWithIngredients, Packaging, PackagingCategory } from "@shared/schema";
 
 interface ProductModalProps {
@@ -203,6 +205,14 @@ export default function ProductModal({ open, onOpenChange, product }: ProductMod
     queryKey: ["/api/recipes"],
   });
 
+  const { data: settings } = useQuery<{
+    profitMargin?: { lowThreshold: number; highThreshold: number };
+    operatingCosts?: OperatingCostRates;
+    priceRoundingStep?: number;
+  }>({
+    queryKey: ["/api/settings"],
+  });
+
   const { data: packaging = [] } = useQuery<Packaging[]>({
     queryKey: ["/api/packaging"],
   });
@@ -369,31 +379,28 @@ export default function ProductModal({ open, onOpenChange, product }: ProductMod
     setProductPackaging(newPackaging);
   };
 
-  // 計算總成本
-  const recipeCost = productRecipes.reduce((sum, pr) => {
-    if (pr.recipe && pr.quantity) {
-      const cost = pr.unit === "portions" 
-        ? (pr.recipe.costPerPortion || 0) * parseFloat(pr.quantity)
-        : (pr.recipe.costPerGram || 0) * parseFloat(pr.quantity);
-      return sum + cost;
-    }
-    return sum;
-  }, 0);
-
-  const packagingCost = productPackaging.reduce((sum, pp) => {
-    if (pp.packaging && pp.quantity) {
-      return sum + (parseFloat(pp.packaging.unitCost) * pp.quantity);
-    }
-    return sum;
-  }, 0);
-
-  const totalCost = recipeCost + packagingCost;
-  const managementFeePercentage = parseFloat(formData.managementFeePercentage || "0") || 0;
-  const managementFee = totalCost * (managementFeePercentage / 100);
-  const adjustedCost = totalCost + managementFee;
-  const sellingPrice = parseFloat(formData.sellingPrice);
-  const profit = sellingPrice - adjustedCost;
-  const profitMargin = sellingPrice > 0 ? (profit / sellingPrice) * 100 : 0;
+  // 計算總成本（與伺服器共用成本引擎）
+  const {
+    recipeCost,
+    packagingCost,
+    labourMinutes,
+    labourCost,
+    bakeMinutes,
+    energyCost,
+    overheadCost,
+    totalCost,
+    managementFeePercentage,
+    managementFee,
+    adjustedCost,
+    sellingPrice,
+    profit,
+    profitMargin,
+  } = calculateProductCost({
+    sellingPrice: formData.sellingPrice,
+    managementFeePercentage: formData.managementFeePercentage,
+    recipes: productRecipes,
+    packaging: productPackaging,
+  }, settings?.operatingCosts);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -682,7 +689,10 @@ export default function ProductModal({ open, onOpenChange, product }: ProductMod
                   </div>
                   <div className="text-sm text-muted-foreground">
                     配方: NT$ {recipeCost.toFixed(2)}<br/>
-                    包裝: NT$ {packagingCost.toFixed(2)}
+                    包裝: NT$ {packagingCost.toFixed(2)}<br/>
+                    人工: NT$ {labourCost.toFixed(2)}（{labourMinutes.toFixed(1)} 分鐘）<br/>
+                    能源: NT$ {energyCost.toFixed(2)}（烘烤 {bakeMinutes.toFixed(1)} 分鐘）<br/>
+                    固定費用: NT$ {overheadCost.toFixed(2)}
                   </div>
                 </div>
                 <div>
@@ -713,6 +723,14 @@ export default function ProductModal({ open, onOpenChange, product }: ProductMod
                   </div>
                 </div>
               </CardContent>
+              <CardContent className="pt-0">
+                <PriceSuggestion
+                  adjustedCost={adjustedCost}
+                  defaultTargetMargin={settings?.profitMargin?.highThreshold}
+                  roundingStep={settings?.priceRoundingStep}
+                  onApply={(price) => setFormData({ ...formData, sellingPrice: price.toFixed(2) })}
+                />
+              </CardContent>
             </Card>
           )}
           
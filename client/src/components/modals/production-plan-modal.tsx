@@ -0,0 +1,225 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Product, CustomProduct, ProductionPlanWithItems, CostSnapshotProductType } from "@shared/schema";
+
+interface ProductionPlanModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plan?: ProductionPlanWithItems | null;
+}
+
+interface PlanItem {
+  productType: CostSnapshotProductType;
+  productId: number;
+  quantity: string;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export default function ProductionPlanModal({ open, onOpenChange, plan }: ProductionPlanModalProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [planDate, setPlanDate] = useState(today());
+  const [notes, setNotes] = useState("");
+  const [items, setItems] = useState<PlanItem[]>([]);
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const { data: customProducts = [] } = useQuery<CustomProduct[]>({
+    queryKey: ["/api/custom-products"],
+  });
+
+  useEffect(() => {
+    if (plan) {
+      setName(plan.name);
+      setPlanDate(plan.planDate);
+      setNotes(plan.notes || "");
+      setItems(plan.items.map(item => ({
+        productType: item.productType as CostSnapshotProductType,
+        productId: item.productId,
+        quantity: String(item.quantity),
+      })));
+    } else {
+      setName(`${today()} 生產計畫`);
+      setPlanDate(today());
+      setNotes("");
+      setItems([]);
+    }
+  }, [plan, open]);
+
+  const mutation = useMutation({
+    mutationFn: () => {
+      const data = {
+        name,
+        planDate,
+        notes: notes || null,
+        items: items.filter(item => item.productId && parseInt(item.quantity) > 0),
+      };
+      return plan
+        ? apiRequest("PUT", `/api/production-plans/${plan.id}`, data)
+        : apiRequest("POST", "/api/production-plans", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/production-plans"] });
+      onOpenChange(false);
+      toast({
+        title: plan ? "生產計畫已更新" : "生產計畫已新增",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "操作失敗",
+        description: "請檢查輸入資料後重試",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !planDate) {
+      toast({
+        title: "請填寫必填欄位",
+        description: "計畫名稱和日期為必填欄位",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!items.some(item => item.productId && parseInt(item.quantity) > 0)) {
+      toast({
+        title: "請添加生產項目",
+        description: "計畫至少需要一個商品或客製商品",
+        variant: "destructive",
+      });
+      return;
+    }
+    mutation.mutate();
+  };
+
+  const updateItem = (index: number, changes: Partial<PlanItem>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{plan ? "編輯生產計畫" : "新增生產計畫"}</DialogTitle>
+          <DialogDescription>
+            設定要生產的商品與數量，系統會自動計算原料與包材需求
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="plan-name">計畫名稱 *</Label>
+              <Input id="plan-name" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+            <div>
+              <Label htmlFor="plan-date">生產日期 *</Label>
+              <Input id="plan-date" type="date" value={planDate} onChange={(e) => setPlanDate(e.target.value)} required />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="plan-notes">備註</Label>
+              <Textarea id="plan-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>生產項目</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setItems([...items, { productType: "product", productId: 0, quantity: "1" }])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                添加項目
+              </Button>
+            </div>
+
+            {items.map((item, index) => {
+              const options = item.productType === "product" ? products : customProducts;
+              return (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-4 gap-3 p-3 border rounded-lg">
+                  <Select
+                    value={item.productType}
+                    onValueChange={(value) => updateItem(index, { productType: value as CostSnapshotProductType, productId: 0 })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="product">商品</SelectItem>
+                      <SelectItem value="custom_product">客製商品</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <div className="md:col-span-2">
+                    <Select
+                      value={item.productId ? String(item.productId) : ""}
+                      onValueChange={(value) => updateItem(index, { productId: parseInt(value) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="選擇商品" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {options.map((option) => (
+                          <SelectItem key={option.id} value={String(option.id)}>{option.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setItems(items.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+
+            {items.length === 0 && (
+              <div className="text-center py-6 text-muted-foreground">
+                尚未添加生產項目，請點擊「添加項目」按鈕
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              取消
+            </Button>
+            <Button type="submit" disabled={mutation.isPending}>
+              {mutation.isPending ? "儲存中..." : "儲存計畫"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,6 +13,9 @@ import { Plus, Trash2, Search, Check } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
+import { calculateRecipeCost } from "@shared/costEngine";
+import { recipeTreeContains } from "@shared/recipeTree";
+import { materialUnits, toGrams, unitLabel } from "@shared/units";
 import type { RecipeWithIngredients, InsertRecipe, Material } from "@shared/schema";
 
 interface RecipeModalProps {
@@ -21,25 +24,42 @@ interface RecipeModalProps {
   recipe?: RecipeWithIngredients | null;
 }
 
+// 配方明細：原料（依原料單位）或子配方（subRecipeId，依份或克）
 interface RecipeIngredient {
   materialId: number;
+  subRecipeId?: number;
+  unit?: string;
   quantity: string;
+  wasteRate?: string;
   material?: Material;
   selectedCategory?: string;
 }
 
-interface MaterialSelectProps {
-  value: number;
-  onValueChange: (value: number) => void;
+interface IngredientSelectProps {
+  materialId: number;
+  subRecipeId?: number;
+  onSelectMaterial: (materialId: number) => void;
+  onSelectRecipe: (recipeId: number) => void;
   materials: Material[];
+  recipes: RecipeWithIngredients[];
   selectedCategory?: string;
 }
 
-function MaterialSelect({ value, onValueChange, materials, selectedCategory }: MaterialSelectProps) {
+function IngredientSelect({
+  materialId,
+  subRecipeId,
+  onSelectMaterial,
+  onSelectRecipe,
+  materials,
+  recipes,
+  selectedCategory,
+}: IngredientSelectProps) {
   const [open, setOpen] = useState(false);
   const [searchValue, setSearchValue] = useState("");
   
-  const selectedMaterial = materials.find(m => m.id === value);
+  const selectedMaterial = subRecipeId ? undefined : materials.find(m => m.id === materialId);
+  const selectedRecipe = subRecipeId ? recipes.find(r => r.id === subRecipeId) : undefined;
+  const selectedName = selectedRecipe?.name ?? selectedMaterial?.name;
   
   // 根據選中的分類和搜尋條件篩選原料
   const filteredMaterials = materials.filter(material => {
@@ -49,6 +69,11 @@ function MaterialSelect({ value, onValueChange, materials, selectedCategory }: M
     return matchesCategory && matchesSearch;
   });
 
+  // 子配方不屬於原料分類，僅在「全部分類」時列出
+  const filteredRecipes = !selectedCategory || selectedCategory === "all"
+    ? recipes.filter(r => r.name.toLowerCase().includes(searchValue.toLowerCase()))
+    : [];
+
   return (
     <Popover open={open} onOpenChange={setOpen} modal={true}>
       <PopoverTrigger asChild>
@@ -58,10 +83,10 @@ function MaterialSelect({ value, onValueChange, materials, selectedCategory }: M
           aria-expanded={open}
           className="w-full justify-between"
         >
-          {selectedMaterial ? (
-            <span className="truncate">{selectedMaterial.name}</span>
+          {selectedName ? (
+            <span className="truncate">{selectedName}</span>
           ) : (
-            <span className="text-muted-foreground">選擇原料...</span>
+            <span className="text-muted-foreground">選擇原料或配方...</span>
           )}
           <Search className="ml-2 h-4 w-4 shrink-0 opacity-50" />
         </Button>
@@ -69,33 +94,58 @@ function MaterialSelect({ value, onValueChange, materials, selectedCategory }: M
       <PopoverContent className="w-[300px] p-0 overflow-hidden" align="start">
         <Command>
           <CommandInput 
-            placeholder="搜尋原料..." 
+            placeholder="搜尋原料或配方..." 
             value={searchValue}
             onValueChange={setSearchValue}
           />
           <CommandList className="max-h-[300px] overflow-y-auto">
-            <CommandEmpty>找不到相符的原料</CommandEmpty>
-            <CommandGroup>
-              {filteredMaterials.map((material) => (
-                <CommandItem
-                  key={material.id}
-                  value={material.name}
-                  onSelect={() => {
-                    onValueChange(material.id);
-                    setOpen(false);
-                    setSearchValue("");
-                  }}
-                >
-                  <Check
-                    className={cn(
-                      "mr-2 h-4 w-4",
-                      value === material.id ? "opacity-100" : "opacity-0"
-                    )}
-                  />
-                  <span className="truncate">{material.name}</span>
-                </CommandItem>
-              ))}
-            </CommandGroup>
+            <CommandEmpty>找不到相符的原料或配方</CommandEmpty>
+            {filteredMaterials.length > 0 && (
+              <CommandGroup heading="原料">
+                {filteredMaterials.map((material) => (
+                  <CommandItem
+                    key={`material-${material.id}`}
+                    value={`material-${material.id}-${material.name}`}
+                    onSelect={() => {
+                      onSelectMaterial(material.id);
+                      setOpen(false);
+                      setSearchValue("");
+                    }}
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        selectedMaterial?.id === material.id ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    <span className="truncate">{material.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {filteredRecipes.length > 0 && (
+              <CommandGroup heading="配方">
+                {filteredRecipes.map((r) => (
+                  <CommandItem
+                    key={`recipe-${r.id}`}
+                    value={`recipe-${r.id}-${r.name}`}
+                    onSelect={() => {
+                      onSelectRecipe(r.id);
+                      setOpen(false);
+                      setSearchValue("");
+                    }}
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        subRecipeId === r.id ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    <span className="truncate">{r.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
           </CommandList>
         </Command>
       </PopoverContent>
@@ -110,6 +160,9 @@ export default function RecipeModal({ open, onOpenChange, recipe }: RecipeModalP
     category: "",
     totalPortions: 1,
     totalWeight: "0",
+    bakingLossRate: null,
+    prepMinutes: null,
+    bakeMinutes: null,
     description: "",
   });
   const [ingredients, setIngredients] = useState<RecipeIngredient[]>([]);
@@ -118,6 +171,15 @@ export default function RecipeModal({ open, onOpenChange, recipe }: RecipeModalP
     queryKey: ["/api/materials"],
   });
 
+  const { data: allRecipes = [] } = useQuery<RecipeWithIngredients[]>({
+    queryKey: ["/api/recipes"],
+  });
+
+  // 可作為子配方的配方：排除本身與已使用本配方的配方（避免循環引用）
+  const selectableRecipes = recipe
+    ? allRecipes.filter(r => r.id !== recipe.id && !recipeTreeContains(r, recipe.id))
+    : allRecipes;
+
   const { data: recipeCategories = [] } = useQuery<{ id: number; name: string; sortOrder: number }[]>({
     queryKey: ["/api/recipe-categories"],
   });
@@ -133,22 +195,37 @@ export default function RecipeModal({ open, onOpenChange, recipe }: RecipeModalP
         category: recipe.category,
         totalPortions: recipe.totalPortions,
         totalWeight: recipe.totalWeight,
+        bakingLossRate: recipe.bakingLossRate,
+        prepMinutes: recipe.prepMinutes,
+        bakeMinutes: recipe.bakeMinutes,
         description: recipe.description || "",
       });
-      setIngredients(
-        recipe.ingredients.map(ing => ({
+      setIngredients([
+        ...recipe.ingredients.map(ing => ({
           materialId: ing.materialId,
-          quantity: ing.quantity,
+          unit: ing.unit,
+          quantity: ing.unitQuantity ?? ing.quantity,
+          wasteRate: ing.wasteRate ?? "",
           material: ing.material,
           selectedCategory: ing.material?.category || "all",
-        }))
-      );
+        })),
+        ...(recipe.subRecipes ?? []).map(sr => ({
+          materialId: 0,
+          subRecipeId: sr.subRecipeId,
+          unit: sr.unit,
+          quantity: sr.quantity,
+          selectedCategory: "all",
+        })),
+      ]);
     } else {
       setFormData({
         name: "",
         category: "",
         totalPortions: 1,
         totalWeight: "0",
+        bakingLossRate: null,
+        prepMinutes: null,
+        bakeMinutes: null,
         description: "",
       });
       setIngredients([]);
@@ -158,21 +235,32 @@ export default function RecipeModal({ open, onOpenChange, recipe }: RecipeModalP
   const mutation = useMutation({
     mutationFn: (data: { recipe: InsertRecipe; ingredients: RecipeIngredient[] }) => {
       const ingredientsData = data.ingredients
-        .filter(ing => ing.materialId && parseFloat(ing.quantity) > 0)
+        .filter(ing => !ing.subRecipeId && ing.materialId && parseFloat(ing.quantity) > 0)
         .map(ing => ({
           materialId: ing.materialId,
+          unit: ing.unit || "g",
+          unitQuantity: ing.quantity,
+          wasteRate: ing.wasteRate || null,
+        }));
+      const subRecipesData = data.ingredients
+        .filter(ing => ing.subRecipeId && parseFloat(ing.quantity) > 0)
+        .map(ing => ({
+          subRecipeId: ing.subRecipeId,
           quantity: ing.quantity,
+          unit: ing.unit || "grams",
         }));
 
       if (recipe && recipe.id) {
         return apiRequest("PUT", `/api/recipes/${recipe.id}`, {
           ...data.recipe,
           ingredients: ingredientsData,
+          subRecipes: subRecipesData,
         });
       } else {
         return apiRequest("POST", "/api/recipes", {
           ...data.recipe,
           ingredients: ingredientsData,
+          subRecipes: subRecipesData,
         });
       }
     },
@@ -207,13 +295,13 @@ export default function RecipeModal({ open, onOpenChange, recipe }: RecipeModalP
     if (ingredients.length === 0) {
       toast({
         title: "請添加原料",
-        description: "配方至少需要一個原料",
+        description: "配方至少需要一個原料或子配方",
         variant: "destructive",
       });
       return;
     }
 
-    const validIngredients = ingredients.filter(ing => ing.materialId && parseFloat(ing.quantity) > 0);
+    const validIngredients = ingredients.filter(ing => (ing.materialId || ing.subRecipeId) && parseFloat(ing.quantity) > 0);
     if (validIngredients.length === 0) {
       toast({
         title: "請添加有效原料",
@@ -223,7 +311,9 @@ export default function RecipeModal({ open, onOpenChange, recipe }: RecipeModalP
       return;
     }
 
-    mutation.mutate({ recipe: formData, ingredients });
+    // 設定烘焙損耗率時以計算出的成品重量為總重量
+    const recipeData = hasBakingLoss ? { ...formData, totalWeight: finishedWeight.toFixed(2) } : formData;
+    mutation.mutate({ recipe: recipeData, ingredients });
   };
 
   const addIngredient = () => {
@@ -238,24 +328,41 @@ export default function RecipeModal({ open, onOpenChange, recipe }: RecipeModalP
     const newIngredients = [...ingredients];
     if (field === "materialId") {
       const material = materials.find((m) => m.id === value);
-      newIngredients[index] = { ...newIngredients[index], materialId: value, material };
+      newIngredients[index] = { ...newIngredients[index], materialId: value, material, subRecipeId: undefined, unit: material?.defaultUnit ?? "g" };
+    } else if (field === "subRecipeId") {
+      const unit = newIngredients[index].subRecipeId ? newIngredients[index].unit : "portions";
+      newIngredients[index] = { ...newIngredients[index], subRecipeId: value, unit, materialId: 0, material: undefined };
     } else if (field === "selectedCategory") {
-      // 如果更改分類，清除已選擇的原料
-      newIngredients[index] = { ...newIngredients[index], selectedCategory: value, materialId: 0, material: undefined };
+      // 如果更改分類，清除已選擇的原料或配方
+      newIngredients[index] = { ...newIngredients[index], selectedCategory: value, materialId: 0, material: undefined, subRecipeId: undefined, unit: undefined };
     } else {
       newIngredients[index] = { ...newIngredients[index], [field]: value };
     }
     setIngredients(newIngredients);
   };
 
-  // 計算總成本
-  const totalCost = ingredients.reduce((sum, ing) => {
-    const material = materials.find((m) => m.id === ing.materialId);
-    if (material && ing.quantity) {
-      return sum + (parseFloat(ing.quantity) * parseFloat(material.pricePerGram));
-    }
-    return sum;
-  }, 0);
+  // 計算總成本（與伺服器共用成本引擎）
+  const hasBakingLoss = !!formData.bakingLossRate;
+  const { totalCost, costPerPortion, costPerGram, rawWeight, finishedWeight } = calculateRecipeCost({
+    totalPortions: formData.totalPortions,
+    totalWeight: formData.totalWeight,
+    bakingLossRate: formData.bakingLossRate || null,
+    ingredients: ingredients
+      .filter((ing) => !ing.subRecipeId)
+      .map((ing) => {
+        const material = materials.find((m) => m.id === ing.materialId);
+        const grams = material ? toGrams(material, parseFloat(ing.quantity) || 0, ing.unit) : null;
+        return { ...ing, quantity: String(grams ?? 0), material };
+      }),
+    subRecipes: ingredients
+      .filter((ing) => ing.subRecipeId)
+      .map((ing) => ({
+        subRecipeId: ing.subRecipeId!,
+        quantity: ing.quantity,
+        unit: ing.unit || "grams",
+        subRecipe: allRecipes.find((r) => r.id === ing.subRecipeId),
+      })),
+  });
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -314,18 +421,63 @@ export default function RecipeModal({ open, onOpenChange, recipe }: RecipeModalP
               </div>
               
               <div>
-                <Label htmlFor="totalWeight">總重量 (g) *</Label>
+                <Label htmlFor="bakingLossRate">烘焙損耗率 (%)</Label>
+                <Input
+                  id="bakingLossRate"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="99.9"
+                  value={formData.bakingLossRate ?? ""}
+                  onChange={(e) => setFormData({ ...formData, bakingLossRate: e.target.value || null })}
+                  placeholder="未填則手動輸入成品重量"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="totalWeight">成品重量 (g) *</Label>
                 <Input
                   id="totalWeight"
                   type="number"
                   step="0.1"
                   min="0"
-                  value={formData.totalWeight}
+                  value={hasBakingLoss ? finishedWeight.toFixed(2) : formData.totalWeight}
                   onChange={(e) => setFormData({ ...formData, totalWeight: e.target.value })}
+                  readOnly={hasBakingLoss}
                   required
                 />
+                <p className="text-xs text-muted-foreground mt-1">
+                  生料重量 {rawWeight.toFixed(2)} g
+                  {hasBakingLoss && `，扣除烘焙損耗 ${formData.bakingLossRate}% 後自動計算`}
+                </p>
               </div>
               
+              <div>
+                <Label htmlFor="prepMinutes">製作工時 (分鐘／批)</Label>
+                <Input
+                  id="prepMinutes"
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={formData.prepMinutes ?? ""}
+                  onChange={(e) => setFormData({ ...formData, prepMinutes: e.target.value ? parseInt(e.target.value) : null })}
+                  placeholder="0"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="bakeMinutes">烘烤時間 (分鐘／批)</Label>
+                <Input
+                  id="bakeMinutes"
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={formData.bakeMinutes ?? ""}
+                  onChange={(e) => setFormData({ ...formData, bakeMinutes: e.target.value ? parseInt(e.target.value) : null })}
+                  placeholder="0"
+                />
+              </div>
+
               <div className="md:col-span-2">
                 <Label htmlFor="description">描述</Label>
                 <Textarea
@@ -349,8 +501,10 @@ export default function RecipeModal({ open, onOpenChange, recipe }: RecipeModalP
               </Button>
             </CardHeader>
             <CardContent className="space-y-4">
-              {ingredients.map((ingredient, index) => (
-                <div key={index} className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 border rounded-lg">
+              {ingredients.map((ingredient, index) => {
+                const ingredientMaterial = ingredient.subRecipeId ? undefined : materials.find(m => m.id === ingredient.materialId);
+                return (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-5 gap-4 p-4 border rounded-lg">
                   <div>
                     <Label>原料分類</Label>
                     <Select 
@@ -379,24 +533,77 @@ export default function RecipeModal({ open, onOpenChange, recipe }: RecipeModalP
                   </div>
                   
                   <div>
-                    <Label>原料</Label>
-                    <MaterialSelect
-                      value={ingredient.materialId}
-                      onValueChange={(value) => updateIngredient(index, "materialId", value)}
+                    <Label>原料／配方</Label>
+                    <IngredientSelect
+                      materialId={ingredient.materialId}
+                      subRecipeId={ingredient.subRecipeId}
+                      onSelectMaterial={(value) => updateIngredient(index, "materialId", value)}
+                      onSelectRecipe={(value) => updateIngredient(index, "subRecipeId", value)}
                       materials={materials}
+                      recipes={selectableRecipes}
                       selectedCategory={ingredient.selectedCategory}
                     />
                   </div>
                   
                   <div>
-                    <Label>用量 (g)</Label>
+                    <Label>用量</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={ingredient.quantity}
+                        onChange={(e) => updateIngredient(index, "quantity", e.target.value)}
+                        placeholder="0"
+                      />
+                      {ingredient.subRecipeId ? (
+                        <Select
+                          value={ingredient.unit || "grams"}
+                          onValueChange={(value) => updateIngredient(index, "unit", value)}
+                        >
+                          <SelectTrigger className="w-20">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="portions">份</SelectItem>
+                            <SelectItem value="grams">g</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Select
+                          value={ingredient.unit || "g"}
+                          onValueChange={(value) => updateIngredient(index, "unit", value)}
+                          disabled={!ingredientMaterial}
+                        >
+                          <SelectTrigger className="w-24">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(ingredientMaterial ? materialUnits(ingredientMaterial) : [{ unit: "g", gramsPerUnit: 1 }]).map(option => (
+                              <SelectItem key={option.unit} value={option.unit}>{unitLabel(option.unit)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                    {ingredientMaterial && ingredient.unit && ingredient.unit !== "g" && parseFloat(ingredient.quantity) > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        約 {(toGrams(ingredientMaterial, parseFloat(ingredient.quantity), ingredient.unit) ?? 0).toFixed(2)} g
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <Label>修整耗損 (%)</Label>
                     <Input
                       type="number"
                       step="0.1"
                       min="0"
-                      value={ingredient.quantity}
-                      onChange={(e) => updateIngredient(index, "quantity", e.target.value)}
+                      max="99.9"
+                      value={ingredient.wasteRate ?? ""}
+                      onChange={(e) => updateIngredient(index, "wasteRate", e.target.value)}
                       placeholder="0"
+                      disabled={!!ingredient.subRecipeId}
                     />
                   </div>
                   
@@ -413,11 +620,12 @@ export default function RecipeModal({ open, onOpenChange, recipe }: RecipeModalP
                     </Button>
                   </div>
                 </div>
-              ))}
+                );
+              })}
               
               {ingredients.length === 0 && (
                 <div className="text-center py-8 text-muted-foreground">
-                  尚未添加原料，請點擊「添加原料」按鈕
+                  尚未添加原料，請點擊「添加原料」按鈕（可選擇原料或其他配方）
                 </div>
               )}
             </CardContent>
@@ -439,13 +647,13 @@ export default function RecipeModal({ open, onOpenChange, recipe }: RecipeModalP
                 <div>
                   <Label>每份成本</Label>
                   <div className="text-2xl font-bold text-green-600">
-                    NT$ {(totalCost / formData.totalPortions).toFixed(2)}
+                    NT$ {costPerPortion.toFixed(2)}
                   </div>
                 </div>
                 <div>
                   <Label>每克成本</Label>
                   <div className="text-2xl font-bold text-blue-600">
-                    NT$ {(totalCost / parseFloat(formData.totalWeight || "1")).toFixed(4)}
+                    NT$ {costPerGram.toFixed(4)}
                   </div>
                 </div>
               </CardContent>
@@ -0,0 +1,302 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Scale, Printer, Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { unitLabel } from "@shared/units";
+import type { RecipeWithIngredients, RecipeScaleMode, RecipeScaleResult } from "@shared/schema";
+
+interface RecipeScaleModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipe: RecipeWithIngredients | null;
+}
+
+const modeLabels: Record<RecipeScaleMode, string> = {
+  portions: "目標份數",
+  weight: "目標總重量 (g)",
+  ingredient: "限量原料用量 (g)",
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// 用量數字：去除多餘的小數 0
+function formatAmount(value: number): string {
+  return String(Number(value.toFixed(3)));
+}
+
+// 開新視窗列印批量製作單
+function printBatchSheet(result: RecipeScaleResult, showCosts: boolean) {
+  const lines = [
+    ...result.ingredients.map(line => ({
+      name: line.materialName,
+      original: line.originalUnitQuantity,
+      quantity: line.unitQuantity,
+      unit: unitLabel(line.unit),
+      grams: line.quantity as number | null,
+      cost: line.cost,
+    })),
+    ...result.subRecipes.map(line => ({
+      name: `${line.recipeName}（子配方）`,
+      original: line.originalQuantity,
+      quantity: line.quantity,
+      unit: line.unit === "portions" ? "份" : "g",
+      grams: line.unit === "portions" ? null : line.quantity,
+      cost: line.cost,
+    })),
+  ];
+  const rows = lines.map(line => `
+    <tr>
+      <td>${escapeHtml(line.name)}</td>
+      <td class="num">${formatAmount(line.original)} ${escapeHtml(line.unit)}</td>
+      <td class="num"><strong>${formatAmount(line.quantity)} ${escapeHtml(line.unit)}</strong></td>
+      <td class="num">${line.grams === null ? "" : `${line.grams.toFixed(2)} g`}</td>
+      ${showCosts ? `<td class="num">${line.cost.toFixed(2)}</td>` : ""}
+    </tr>`).join("");
+
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return;
+  printWindow.document.write(`<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(result.recipeName)} 批量製作單</title>
+<style>
+  body { font-family: sans-serif; padding: 24px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  th, td { border: 1px solid #999; padding: 6px 8px; text-align: left; }
+  .num { text-align: right; }
+</style></head>
+<body>
+  <h2>${escapeHtml(result.recipeName)} 批量製作單</h2>
+  <div>換算倍率：${result.factor.toFixed(4)}　製作份數：${result.portions.toFixed(2)}　總重量：${result.totalWeight.toFixed(1)} g</div>
+  ${showCosts ? `<div>總成本：NT$ ${result.totalCost.toFixed(2)}</div>` : ""}
+  <table>
+    <thead><tr><th>項目</th><th class="num">原用量</th><th class="num">換算用量</th><th class="num">換算克數</th>${showCosts ? `<th class="num">成本</th>` : ""}</tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body></html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
+
+export default function RecipeScaleModal({ open, onOpenChange, recipe }: RecipeScaleModalProps) {
+  const { toast } = useToast();
+  const { canViewCosts } = useAuth();
+  const [mode, setMode] = useState<RecipeScaleMode>("portions");
+  const [value, setValue] = useState("");
+  const [materialId, setMaterialId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (open && recipe) {
+      setMode("portions");
+      setValue(String(recipe.totalPortions));
+      setMaterialId(recipe.ingredients[0]?.materialId ?? null);
+    }
+  }, [open, recipe]);
+
+  const params = new URLSearchParams({ mode, value });
+  if (mode === "ingredient" && materialId !== null) {
+    params.set("materialId", String(materialId));
+  }
+  const isValidTarget = parseFloat(value) > 0 && (mode !== "ingredient" || materialId !== null);
+
+  const { data: result, error } = useQuery<RecipeScaleResult>({
+    queryKey: ["/api/recipes", recipe?.id, "scale", params.toString()],
+    queryFn: () => apiRequest("GET", `/api/recipes/${recipe!.id}/scale?${params.toString()}`),
+    enabled: open && !!recipe && isValidTarget,
+    retry: false,
+  });
+
+  // 同一原料可能出現多次，選單中只列一次
+  const ingredientOptions = recipe
+    ? Array.from(new Map(recipe.ingredients.map(ing => [ing.materialId, ing.material.name])).entries())
+    : [];
+
+  const handleExport = async () => {
+    if (!recipe) return;
+    try {
+      const response = await fetch(`/api/recipes/${recipe.id}/scale/export?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error("匯出失敗");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${recipe.name}-批量製作單.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "匯出失敗",
+        description: "請稍後重試",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            {recipe?.name} - 批量換算
+          </DialogTitle>
+          <DialogDescription>
+            依目標份數、總重量或限量原料換算各原料用量與成本
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <div>
+            <Label>換算方式</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as RecipeScaleMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(modeLabels) as RecipeScaleMode[]).map((key) => (
+                  <SelectItem key={key} value={key}>{modeLabels[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {mode === "ingredient" && (
+            <div>
+              <Label>限量原料</Label>
+              <Select
+                value={materialId !== null ? String(materialId) : ""}
+                onValueChange={(value) => setMaterialId(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="選擇原料" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ingredientOptions.map(([id, name]) => (
+                    <SelectItem key={id} value={String(id)}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <Label>{modeLabels[mode]}</Label>
+            <Input
+              type="number"
+              step="0.1"
+              min="0"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <ScrollArea className="h-[45vh] w-full">
+          {!isValidTarget ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="text-gray-500">請輸入換算目標</div>
+            </div>
+          ) : error ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="text-red-600">無法依此目標換算，請確認配方份數、總重量或原料用量</div>
+            </div>
+          ) : !result ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="text-gray-500">計算中...</div>
+            </div>
+          ) : (
+            <div className="space-y-4 pr-3">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div>
+                  <div className="text-muted-foreground">換算倍率</div>
+                  <div className="text-lg font-semibold">× {result.factor.toFixed(4)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">製作份數</div>
+                  <div className="text-lg font-semibold">{result.portions.toFixed(2)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">總重量</div>
+                  <div className="text-lg font-semibold">{result.totalWeight.toFixed(1)} g</div>
+                </div>
+                {canViewCosts && (
+                  <div>
+                    <div className="text-muted-foreground">總成本</div>
+                    <div className="text-lg font-semibold">NT$ {result.totalCost.toFixed(2)}</div>
+                  </div>
+                )}
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="p-2">項目</th>
+                    <th className="p-2 text-right">原用量</th>
+                    <th className="p-2 text-right">換算用量</th>
+                    <th className="p-2 text-right">換算克數</th>
+                    {canViewCosts && <th className="p-2 text-right">成本</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.ingredients.map((line, index) => (
+                    <tr key={`material-${index}`} className="border-b">
+                      <td className="p-2">{line.materialName}</td>
+                      <td className="p-2 text-right">{formatAmount(line.originalUnitQuantity)} {unitLabel(line.unit)}</td>
+                      <td className="p-2 text-right font-medium">{formatAmount(line.unitQuantity)} {unitLabel(line.unit)}</td>
+                      <td className="p-2 text-right text-muted-foreground">{line.quantity.toFixed(2)} g</td>
+                      {canViewCosts && <td className="p-2 text-right">{line.cost.toFixed(2)}</td>}
+                    </tr>
+                  ))}
+                  {result.subRecipes.map((line, index) => {
+                    const unit = line.unit === "portions" ? "份" : "g";
+                    return (
+                      <tr key={`recipe-${index}`} className="border-b">
+                        <td className="p-2">{line.recipeName}（子配方）</td>
+                        <td className="p-2 text-right">{line.originalQuantity.toFixed(2)} {unit}</td>
+                        <td className="p-2 text-right font-medium">{line.quantity.toFixed(2)} {unit}</td>
+                        <td className="p-2 text-right text-muted-foreground">
+                          {line.unit === "portions" ? "" : `${line.quantity.toFixed(2)} g`}
+                        </td>
+                        {canViewCosts && <td className="p-2 text-right">{line.cost.toFixed(2)}</td>}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="flex justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" disabled={!result} onClick={() => result && printBatchSheet(result, canViewCosts)}>
+              <Printer className="mr-2 h-4 w-4" />
+              列印製作單
+            </Button>
+            {canViewCosts && (
+              <Button variant="outline" disabled={!result} onClick={handleExport}>
+                <Download className="mr-2 h-4 w-4" />
+                匯出 Excel
+              </Button>
+            )}
+          </div>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            關閉
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
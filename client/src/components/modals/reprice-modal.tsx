@@ -0,0 +1,209 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tags } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { marginAtPrice } from "@shared/pricing";
+import type { PriceSuggestion, RepriceProposals, RepriceRequest } from "@shared/schema";
+
+interface RepriceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultTargetMargin?: number;
+}
+
+function proposalKey(proposal: PriceSuggestion) {
+  return `${proposal.productType}-${proposal.productId}`;
+}
+
+export default function RepriceModal({ open, onOpenChange, defaultTargetMargin = 40 }: RepriceModalProps) {
+  const { toast } = useToast();
+  const [targetMargin, setTargetMargin] = useState(defaultTargetMargin.toString());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [prices, setPrices] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (open) {
+      setTargetMargin(defaultTargetMargin.toString());
+    }
+  }, [open, defaultTargetMargin]);
+
+  const target = parseFloat(targetMargin);
+  const isValidTarget = Number.isFinite(target) && target >= 0 && target < 100;
+
+  const { data, isLoading } = useQuery<RepriceProposals>({
+    queryKey: ["/api/pricing/reprice-proposals", target],
+    queryFn: () => apiRequest("GET", `/api/pricing/reprice-proposals?targetMargin=${target}`),
+    enabled: open && isValidTarget,
+  });
+
+  const proposals = data?.proposals ?? [];
+
+  // 重新產生建議時預設全選，並以建議售價作為新售價
+  useEffect(() => {
+    setSelected(new Set(proposals.map(proposalKey)));
+    setPrices(Object.fromEntries(proposals.map(p => [proposalKey(p), p.suggestedPrice.toString()])));
+  }, [data]);
+
+  const applyMutation = useMutation({
+    mutationFn: (request: RepriceRequest) => apiRequest("POST", "/api/pricing/reprice", request),
+    onSuccess: (result: { updated: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pricing/reprice-proposals"] });
+      toast({ title: "調價完成", description: `已更新 ${result.updated} 項商品售價` });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "套用調價失敗",
+        description: "請確認勾選商品的新售價皆大於 0",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (key: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(key);
+    } else {
+      next.delete(key);
+    }
+    setSelected(next);
+  };
+
+  const handleApply = () => {
+    const items = proposals
+      .filter(p => selected.has(proposalKey(p)))
+      .map(p => ({
+        productType: p.productType,
+        productId: p.productId,
+        sellingPrice: parseFloat(prices[proposalKey(p)]),
+      }));
+    if (items.length === 0) {
+      toast({ title: "請勾選要調價的商品", variant: "destructive" });
+      return;
+    }
+    applyMutation.mutate({ items });
+  };
+
+  const allSelected = proposals.length > 0 && selected.size === proposals.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            批次調價
+          </DialogTitle>
+          <DialogDescription>
+            列出利潤率低於低標的商品與客製商品，依目標利潤率建議新售價；確認後勾選套用
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="w-full sm:w-48">
+            <Label htmlFor="repriceTargetMargin">目標利潤率 (%)</Label>
+            <Input
+              id="repriceTargetMargin"
+              type="number"
+              step="0.1"
+              min="0"
+              max="99.9"
+              value={targetMargin}
+              onChange={(e) => setTargetMargin(e.target.value)}
+            />
+          </div>
+          {data && (
+            <div className="text-sm text-muted-foreground">
+              低標 {data.lowThreshold}%，建議售價進位至 {data.roundingStep} 元級距
+            </div>
+          )}
+        </div>
+
+        {!isValidTarget ? (
+          <div className="text-center py-8 text-red-600">目標利潤率需介於 0 與 100 之間</div>
+        ) : isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">計算中...</div>
+        ) : proposals.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">目前沒有利潤率低於低標的商品</div>
+        ) : (
+          <ScrollArea className="h-[50vh] w-full">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="p-2 w-8">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => setSelected(checked ? new Set(proposals.map(proposalKey)) : new Set())}
+                    />
+                  </th>
+                  <th className="text-left p-2">名稱</th>
+                  <th className="text-right p-2">攤提後成本</th>
+                  <th className="text-right p-2">現價</th>
+                  <th className="text-right p-2">現利潤率</th>
+                  <th className="text-right p-2">新售價</th>
+                  <th className="text-right p-2">新利潤率</th>
+                </tr>
+              </thead>
+              <tbody>
+                {proposals.map((proposal) => {
+                  const key = proposalKey(proposal);
+                  const newPrice = parseFloat(prices[key]) || 0;
+                  return (
+                    <tr key={key} className="border-t">
+                      <td className="p-2">
+                        <Checkbox
+                          checked={selected.has(key)}
+                          onCheckedChange={(checked) => toggle(key, checked === true)}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <div className="flex items-center gap-2">
+                          {proposal.productName}
+                          {proposal.productType === "custom_product" && <Badge variant="outline">客製</Badge>}
+                        </div>
+                      </td>
+                      <td className="text-right p-2">NT$ {proposal.adjustedCost.toFixed(2)}</td>
+                      <td className="text-right p-2">NT$ {proposal.currentPrice.toFixed(2)}</td>
+                      <td className="text-right p-2 text-red-600">{proposal.currentMargin.toFixed(1)}%</td>
+                      <td className="text-right p-2">
+                        <Input
+                          type="number"
+                          step="1"
+                          min="0"
+                          className="w-24 ml-auto text-right"
+                          value={prices[key] ?? ""}
+                          onChange={(e) => setPrices({ ...prices, [key]: e.target.value })}
+                        />
+                      </td>
+                      <td className="text-right p-2">{marginAtPrice(proposal.adjustedCost, newPrice).toFixed(1)}%</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </ScrollArea>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+          <Button onClick={handleApply} disabled={selected.size === 0 || applyMutation.isPending}>
+            {applyMutation.isPending ? "套用中..." : `套用勾選（${selected.size}）`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
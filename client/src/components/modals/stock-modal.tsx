@@ -0,0 +1,392 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Warehouse, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatNumber, isLowStock } from "@/lib/utils";
+import type { StockItemType, StockMovement, StockMovementType, MaterialPurchaseWithSupplier, Supplier } from "@shared/schema";
+
+interface StockItem {
+  id: number;
+  name: string;
+  stockQuantity: string | number;
+  reorderPoint: string | number | null;
+}
+
+interface StockModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  itemType: StockItemType;
+  item: StockItem | null;
+}
+
+const movementLabels: Record<StockMovementType, string> = {
+  receive: "入庫",
+  consume: "生產耗用",
+  adjust: "盤點調整",
+};
+
+const movementColors: Record<StockMovementType, string> = {
+  receive: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  consume: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300",
+  adjust: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+};
+
+export default function StockModal({ open, onOpenChange, itemType, item }: StockModalProps) {
+  const { toast } = useToast();
+  const { canEdit, canViewCosts } = useAuth();
+  const unit = itemType === "material" ? "g" : "個";
+  const step = itemType === "material" ? "0.01" : "1";
+
+  const [receiveQuantity, setReceiveQuantity] = useState("");
+  const [updatePrice, setUpdatePrice] = useState(false);
+  const [purchaseAmount, setPurchaseAmount] = useState("");
+  const [supplierId, setSupplierId] = useState("");
+  const [receiveNotes, setReceiveNotes] = useState("");
+  const [countedQuantity, setCountedQuantity] = useState("");
+  const [adjustNotes, setAdjustNotes] = useState("");
+  const [reorderPoint, setReorderPoint] = useState("");
+
+  useEffect(() => {
+    if (open && item) {
+      setReceiveQuantity("");
+      setUpdatePrice(false);
+      setPurchaseAmount("");
+      setSupplierId("");
+      setReceiveNotes("");
+      setCountedQuantity(String(item.stockQuantity));
+      setAdjustNotes("");
+      setReorderPoint(item.reorderPoint === null ? "" : String(item.reorderPoint));
+    }
+  }, [open, item]);
+
+  const { data: movements = [], isLoading } = useQuery<StockMovement[]>({
+    queryKey: ["/api/stock", itemType, item?.id, "movements"],
+    queryFn: () => apiRequest("GET", `/api/stock/${itemType}/${item!.id}/movements`),
+    enabled: open && !!item,
+  });
+
+  // 原料進貨紀錄（含金額，僅可檢視成本者顯示）
+  const showPurchases = itemType === "material" && canViewCosts;
+  const { data: purchases = [] } = useQuery<MaterialPurchaseWithSupplier[]>({
+    queryKey: ["/api/materials", item?.id, "purchases"],
+    queryFn: () => apiRequest("GET", `/api/materials/${item!.id}/purchases`),
+    enabled: open && !!item && showPurchases,
+  });
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+    enabled: open && showPurchases,
+  });
+
+  const deletePurchaseMutation = useMutation({
+    mutationFn: (purchaseId: number) => apiRequest("DELETE", `/api/materials/${item!.id}/purchases/${purchaseId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/materials"] });
+      toast({ title: "進貨紀錄已刪除", description: "已依剩餘紀錄重新計算每克單價" });
+    },
+    onError: () => {
+      toast({ title: "刪除失敗", variant: "destructive" });
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [itemType === "material" ? "/api/materials" : "/api/packaging"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+  };
+
+  const mutation = useMutation({
+    mutationFn: ({ action, data }: { action: "receive" | "adjust" | "reorder-point"; data: object }) =>
+      apiRequest(action === "reorder-point" ? "PUT" : "POST", `/api/stock/${itemType}/${item!.id}/${action}`, data),
+    onSuccess: (_, { action }) => {
+      invalidate();
+      if (action === "receive") {
+        setReceiveQuantity("");
+        setPurchaseAmount("");
+        setSupplierId("");
+        setReceiveNotes("");
+      }
+      toast({
+        title: action === "receive" ? "已入庫" : action === "adjust" ? "已記錄盤點結果" : "安全庫存量已更新",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "操作失敗",
+        description: "請檢查輸入資料後重試",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!item) return null;
+
+  const stockQuantity = parseFloat(String(item.stockQuantity));
+  const low = isLowStock(item.stockQuantity, item.reorderPoint);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Warehouse className="h-5 w-5" />
+            {item.name} - 庫存管理
+          </DialogTitle>
+          <DialogDescription>
+            目前庫存：
+            <span className={low ? "font-semibold text-red-600" : "font-semibold"}>
+              {formatNumber(stockQuantity)} {unit}
+            </span>
+            {item.reorderPoint !== null && <>（安全庫存量 {formatNumber(item.reorderPoint)} {unit}）</>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue={canEdit ? "receive" : "history"}>
+          <TabsList className={showPurchases ? "grid w-full grid-cols-4" : "grid w-full grid-cols-3"}>
+            <TabsTrigger value="receive" disabled={!canEdit}>進貨入庫</TabsTrigger>
+            <TabsTrigger value="adjust" disabled={!canEdit}>盤點調整</TabsTrigger>
+            <TabsTrigger value="history">庫存紀錄</TabsTrigger>
+            {showPurchases && <TabsTrigger value="purchases">進貨紀錄</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="receive" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="receive-quantity">入庫數量 ({unit}) *</Label>
+                <Input
+                  id="receive-quantity"
+                  type="number"
+                  min="0"
+                  step={step}
+                  value={receiveQuantity}
+                  onChange={(e) => setReceiveQuantity(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="receive-notes">備註</Label>
+                <Input id="receive-notes" value={receiveNotes} onChange={(e) => setReceiveNotes(e.target.value)} />
+              </div>
+            </div>
+            {itemType === "material" && canViewCosts && (
+              <div className="space-y-3 p-3 border rounded-lg">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="update-price"
+                    checked={updatePrice}
+                    onCheckedChange={(checked) => setUpdatePrice(!!checked)}
+                  />
+                  <Label htmlFor="update-price">記錄進貨金額（依成本政策更新每克單價）</Label>
+                </div>
+                {updatePrice && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="purchase-amount">進貨金額 (元) *</Label>
+                      <Input
+                        id="purchase-amount"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={purchaseAmount}
+                        onChange={(e) => setPurchaseAmount(e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <Label>供應商</Label>
+                      <Select value={supplierId} onValueChange={setSupplierId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="未指定" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {suppliers.map(supplier => (
+                            <SelectItem key={supplier.id} value={String(supplier.id)}>{supplier.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button
+                disabled={mutation.isPending || !(parseFloat(receiveQuantity) > 0) || (updatePrice && !(parseFloat(purchaseAmount) > 0))}
+                onClick={() => mutation.mutate({
+                  action: "receive",
+                  data: { quantity: receiveQuantity, updatePrice, purchaseAmount, supplierId: supplierId || null, notes: receiveNotes },
+                })}
+              >
+                確認入庫
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="adjust" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="counted-quantity">實際盤點數量 ({unit}) *</Label>
+                <Input
+                  id="counted-quantity"
+                  type="number"
+                  min="0"
+                  step={step}
+                  value={countedQuantity}
+                  onChange={(e) => setCountedQuantity(e.target.value)}
+                />
+                {countedQuantity !== "" && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    差異：{formatNumber(parseFloat(countedQuantity) - stockQuantity)} {unit}
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="adjust-notes">備註</Label>
+                <Input id="adjust-notes" value={adjustNotes} onChange={(e) => setAdjustNotes(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                disabled={mutation.isPending || !(parseFloat(countedQuantity) >= 0)}
+                onClick={() => mutation.mutate({
+                  action: "adjust",
+                  data: { countedQuantity, notes: adjustNotes },
+                })}
+              >
+                記錄盤點結果
+              </Button>
+            </div>
+
+            <div className="flex items-end gap-3 pt-4 border-t">
+              <div className="flex-1">
+                <Label htmlFor="reorder-point">安全庫存量 ({unit})</Label>
+                <Input
+                  id="reorder-point"
+                  type="number"
+                  min="0"
+                  step={step}
+                  placeholder="未設定則不提醒"
+                  value={reorderPoint}
+                  onChange={(e) => setReorderPoint(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                disabled={mutation.isPending}
+                onClick={() => mutation.mutate({
+                  action: "reorder-point",
+                  data: { reorderPoint: reorderPoint === "" ? null : reorderPoint },
+                })}
+              >
+                更新
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <ScrollArea className="h-[40vh] w-full">
+              {isLoading ? (
+                <div className="text-center py-8 text-muted-foreground">載入中...</div>
+              ) : movements.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">尚無庫存紀錄</div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left">
+                      <th className="p-2">時間</th>
+                      <th className="p-2">類型</th>
+                      <th className="p-2 text-right">異動量</th>
+                      <th className="p-2 text-right">異動後庫存</th>
+                      <th className="p-2">備註</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {movements.map(movement => {
+                      const quantity = parseFloat(movement.quantity);
+                      const type = movement.movementType as StockMovementType;
+                      return (
+                        <tr key={movement.id} className="border-b">
+                          <td className="p-2 whitespace-nowrap">
+                            {format(new Date(movement.createdAt), "yyyy/MM/dd HH:mm")}
+                            {movement.username && <div className="text-xs text-muted-foreground">{movement.username}</div>}
+                          </td>
+                          <td className="p-2">
+                            <Badge className={movementColors[type]}>{movementLabels[type]}</Badge>
+                          </td>
+                          <td className={quantity < 0 ? "p-2 text-right text-red-600" : "p-2 text-right text-green-600"}>
+                            {quantity > 0 ? "+" : ""}{formatNumber(quantity)}
+                          </td>
+                          <td className="p-2 text-right">{formatNumber(movement.balanceAfter)}</td>
+                          <td className="p-2 text-muted-foreground">{movement.notes}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          {showPurchases && (
+            <TabsContent value="purchases">
+              <ScrollArea className="h-[40vh] w-full">
+                {purchases.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">尚無進貨紀錄</div>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left">
+                        <th className="p-2">進貨時間</th>
+                        <th className="p-2">供應商</th>
+                        <th className="p-2 text-right">金額</th>
+                        <th className="p-2 text-right">重量 (g)</th>
+                        <th className="p-2 text-right">每克成本</th>
+                        <th className="p-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {purchases.map(purchase => (
+                        <tr key={purchase.id} className="border-b">
+                          <td className="p-2 whitespace-nowrap">{format(new Date(purchase.purchaseTime), "yyyy/MM/dd HH:mm")}</td>
+                          <td className="p-2">{purchase.supplierName || "-"}</td>
+                          <td className="p-2 text-right">{formatNumber(purchase.purchaseAmount)}</td>
+                          <td className="p-2 text-right">{formatNumber(purchase.purchaseWeight)}</td>
+                          <td className="p-2 text-right">
+                            {(parseFloat(purchase.purchaseAmount) / parseFloat(purchase.purchaseWeight)).toFixed(4)}
+                          </td>
+                          <td className="p-2 text-right">
+                            {canEdit && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="刪除進貨紀錄"
+                                onClick={() => {
+                                  if (confirm("確定要刪除此筆進貨紀錄嗎？")) deletePurchaseMutation.mutate(purchase.id);
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </ScrollArea>
+            </TabsContent>
+          )}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
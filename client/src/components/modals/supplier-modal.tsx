@@ -0,0 +1,170 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Supplier } from "@shared/schema";
+
+interface SupplierModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  supplier?: Supplier | null;
+}
+
+const emptyForm = {
+  name: "",
+  contactName: "",
+  phone: "",
+  email: "",
+  leadTimeDays: "",
+  notes: "",
+};
+
+export default function SupplierModal({ open, onOpenChange, supplier }: SupplierModalProps) {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    if (supplier) {
+      setFormData({
+        name: supplier.name,
+        contactName: supplier.contactName || "",
+        phone: supplier.phone || "",
+        email: supplier.email || "",
+        leadTimeDays: supplier.leadTimeDays === null ? "" : String(supplier.leadTimeDays),
+        notes: supplier.notes || "",
+      });
+    } else {
+      setFormData(emptyForm);
+    }
+  }, [supplier, open]);
+
+  const mutation = useMutation({
+    mutationFn: () => {
+      const data = {
+        name: formData.name.trim(),
+        contactName: formData.contactName || null,
+        phone: formData.phone || null,
+        email: formData.email || null,
+        leadTimeDays: formData.leadTimeDays === "" ? null : parseInt(formData.leadTimeDays),
+        notes: formData.notes || null,
+      };
+      return supplier
+        ? apiRequest("PUT", `/api/suppliers/${supplier.id}`, data)
+        : apiRequest("POST", "/api/suppliers", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplier-prices"] });
+      onOpenChange(false);
+      toast({
+        title: supplier ? "供應商已更新" : "供應商已新增",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "操作失敗",
+        description: "請檢查輸入資料後重試",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      toast({
+        title: "請填寫必填欄位",
+        description: "供應商名稱為必填欄位",
+        variant: "destructive",
+      });
+      return;
+    }
+    mutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{supplier ? "編輯供應商" : "新增供應商"}</DialogTitle>
+          <DialogDescription>
+            設定供應商聯絡方式與下單到貨天數
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="supplier-name">供應商名稱 *</Label>
+            <Input
+              id="supplier-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="supplier-contact">聯絡人</Label>
+              <Input
+                id="supplier-contact"
+                value={formData.contactName}
+                onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="supplier-phone">電話</Label>
+              <Input
+                id="supplier-phone"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="supplier-email">Email</Label>
+              <Input
+                id="supplier-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="supplier-lead-time">到貨天數</Label>
+              <Input
+                id="supplier-lead-time"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.leadTimeDays}
+                onChange={(e) => setFormData({ ...formData, leadTimeDays: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="supplier-notes">備註</Label>
+            <Textarea
+              id="supplier-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              取消
+            </Button>
+            <Button type="submit" disabled={mutation.isPending}>
+              {mutation.isPending ? "儲存中..." : "儲存"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
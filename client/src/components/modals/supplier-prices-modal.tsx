@@ -0,0 +1,224 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Truck, Plus, Trash2, Check } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { StockItemType, Supplier, SupplierPriceWithDetails } from "@shared/schema";
+
+interface SupplierPricesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  itemType: StockItemType;
+  item: { id: number; name: string } | null;
+}
+
+export default function SupplierPricesModal({ open, onOpenChange, itemType, item }: SupplierPricesModalProps) {
+  const { toast } = useToast();
+  const { canEdit, canViewCosts } = useAuth();
+  const priceLabel = itemType === "material" ? "每克進價 (元)" : "單位進價 (元)";
+  const [supplierId, setSupplierId] = useState("");
+  const [price, setPrice] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setSupplierId("");
+      setPrice("");
+      setNotes("");
+    }
+  }, [open, item]);
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+    enabled: open,
+  });
+
+  const { data: prices = [], isLoading } = useQuery<SupplierPriceWithDetails[]>({
+    queryKey: ["/api/supplier-prices", itemType, item?.id],
+    queryFn: () => apiRequest("GET", `/api/supplier-prices?itemType=${itemType}&itemId=${item!.id}`),
+    enabled: open && !!item,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/supplier-prices"] });
+    queryClient.invalidateQueries({ queryKey: [itemType === "material" ? "/api/materials" : "/api/packaging"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/supplier-prices", {
+      supplierId: parseInt(supplierId),
+      itemType,
+      itemId: item!.id,
+      price,
+      notes: notes || null,
+    }),
+    onSuccess: () => {
+      invalidate();
+      setSupplierId("");
+      setPrice("");
+      setNotes("");
+      toast({ title: "報價已新增" });
+    },
+    onError: () => {
+      toast({ title: "新增報價失敗", description: "請檢查輸入資料後重試", variant: "destructive" });
+    },
+  });
+
+  const preferMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("POST", `/api/supplier-prices/${id}/prefer`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "已採用此報價", description: "成本計算已改用此供應商價格" });
+    },
+    onError: () => {
+      toast({ title: "採用報價失敗", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/supplier-prices/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "報價已刪除" });
+    },
+    onError: () => {
+      toast({ title: "刪除失敗", variant: "destructive" });
+    },
+  });
+
+  // 已有報價的供應商不再列入選單
+  const availableSuppliers = suppliers.filter(supplier => !prices.some(p => p.supplierId === supplier.id));
+  const lowestPrice = prices.length > 0 ? Math.min(...prices.map(p => parseFloat(p.price))) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            {item?.name} - 供應商報價
+          </DialogTitle>
+          <DialogDescription>
+            比較各供應商價格，並選擇採用哪一筆報價作為成本計算單價
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[40vh] w-full">
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">載入中...</div>
+          ) : prices.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">尚無供應商報價</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="p-2">供應商</th>
+                  <th className="p-2 text-right">{priceLabel}</th>
+                  <th className="p-2 text-right">到貨天數</th>
+                  <th className="p-2">備註</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {prices.map(line => (
+                  <tr key={line.id} className="border-b">
+                    <td className="p-2">
+                      <div className="flex items-center gap-2">
+                        {line.supplierName}
+                        {line.isPreferred && <Badge>採用中</Badge>}
+                      </div>
+                    </td>
+                    <td className="p-2 text-right">
+                      {canViewCosts ? parseFloat(line.price).toFixed(4) : "-"}
+                      {canViewCosts && parseFloat(line.price) === lowestPrice && prices.length > 1 && (
+                        <Badge variant="outline" className="ml-2 text-green-700">最低</Badge>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">{line.leadTimeDays ?? "-"}</td>
+                    <td className="p-2 text-muted-foreground">{line.notes}</td>
+                    <td className="p-2">
+                      {canEdit && (
+                        <div className="flex justify-end space-x-1">
+                          {!line.isPreferred && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="採用此報價"
+                              onClick={() => preferMutation.mutate(line.id)}
+                              disabled={preferMutation.isPending}
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="刪除報價"
+                            onClick={() => deleteMutation.mutate(line.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </ScrollArea>
+
+        {canEdit && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end pt-4 border-t">
+            <div>
+              <Label>供應商</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="選擇供應商" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableSuppliers.map(supplier => (
+                    <SelectItem key={supplier.id} value={String(supplier.id)}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="supplier-price">{priceLabel}</Label>
+              <Input
+                id="supplier-price"
+                type="number"
+                min="0"
+                step="0.0001"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="supplier-price-notes">備註</Label>
+              <Input id="supplier-price-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !supplierId || !(parseFloat(price) >= 0)}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              新增報價
+            </Button>
+          </div>
+        )}
+        {canEdit && suppliers.length === 0 && (
+          <p className="text-sm text-muted-foreground">尚未建立供應商，請先至「供應商」頁面新增</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
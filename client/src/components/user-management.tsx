@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, Plus, KeyRound, UserX, UserCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { roleLabels } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { USER_ROLES, type PublicUser, type UserRole } from "@shared/schema";
+
+const emptyNewUser = {
+  username: "",
+  displayName: "",
+  password: "",
+  role: "viewer" as UserRole,
+};
+
+export default function UserManagement({ currentUsername }: { currentUsername: string | null }) {
+  const { toast } = useToast();
+  const [newUser, setNewUser] = useState(emptyNewUser);
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createUserMutation = useMutation({
+    mutationFn: (data: typeof emptyNewUser) => apiRequest("POST", "/api/users", data),
+    onSuccess: () => {
+      toast({ title: "使用者已建立" });
+      setNewUser(emptyNewUser);
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: onError("建立使用者失敗"),
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: { role?: UserRole; isActive?: boolean } }) =>
+      apiRequest("PUT", `/api/users/${id}`, data),
+    onSuccess: () => {
+      toast({ title: "使用者已更新" });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: onError("更新使用者失敗"),
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: ({ id, newPassword }: { id: number; newPassword: string }) =>
+      apiRequest("PUT", `/api/users/${id}/reset-password`, { newPassword }),
+    onSuccess: () => {
+      toast({ title: "密碼已重設" });
+    },
+    onError: onError("重設密碼失敗"),
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newUser.username || !newUser.password) {
+      toast({ title: "請填寫帳號和密碼", variant: "destructive" });
+      return;
+    }
+    createUserMutation.mutate(newUser);
+  };
+
+  const handleResetPassword = (user: PublicUser) => {
+    const newPassword = window.prompt(`請輸入 ${user.username} 的新密碼`);
+    if (newPassword) {
+      resetPasswordMutation.mutate({ id: user.id, newPassword });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Users className="mr-2 h-5 w-5" />
+          使用者管理
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="text-left p-2">帳號</th>
+                <th className="text-left p-2">顯示名稱</th>
+                <th className="text-left p-2">角色</th>
+                <th className="text-left p-2">狀態</th>
+                <th className="text-right p-2">操作</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((user) => {
+                const isSelf = user.username === currentUsername;
+                return (
+                  <tr key={user.id} className="border-t">
+                    <td className="p-2">{user.username}</td>
+                    <td className="p-2">{user.displayName || "-"}</td>
+                    <td className="p-2">
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) => updateUserMutation.mutate({ id: user.id, data: { role: role as UserRole } })}
+                        disabled={isSelf}
+                      >
+                        <SelectTrigger className="w-28 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {USER_ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2">
+                      {user.isActive ? (
+                        <Badge className="bg-green-100 text-green-800">啟用</Badge>
+                      ) : (
+                        <Badge variant="secondary">停用</Badge>
+                      )}
+                    </td>
+                    <td className="p-2">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="重設密碼"
+                          onClick={() => handleResetPassword(user)}
+                        >
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
+                        {!isSelf && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={user.isActive ? "停用帳號" : "啟用帳號"}
+                            onClick={() => updateUserMutation.mutate({ id: user.id, data: { isActive: !user.isActive } })}
+                          >
+                            {user.isActive ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div>
+            <Label htmlFor="new-username">帳號</Label>
+            <Input
+              id="new-username"
+              value={newUser.username}
+              onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="new-display-name">顯示名稱</Label>
+            <Input
+              id="new-display-name"
+              value={newUser.displayName}
+              onChange={(e) => setNewUser({ ...newUser, displayName: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="new-user-password">密碼</Label>
+            <Input
+              id="new-user-password"
+              type="password"
+              value={newUser.password}
+              onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>角色</Label>
+            <Select
+              value={newUser.role}
+              onValueChange={(role) => setNewUser({ ...newUser, role: role as UserRole })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {USER_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={createUserMutation.isPending}>
+            <Plus className="mr-2 h-4 w-4" />
+            {createUserMutation.isPending ? "建立中..." : "新增使用者"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+import type { UserRole } from "@shared/schema";
+
+export interface AuthStatus {
+  authenticated: boolean;
+  username: string | null;
+  displayName: string | null;
+  role: UserRole | null;
+}
+
+export const roleLabels: Record<UserRole, string> = {
+  owner: "擁有者",
+  editor: "編輯者",
+  viewer: "檢視者",
+};
+
+export function useAuth() {
+  const { data, isLoading } = useQuery<AuthStatus>({
+    queryKey: ["/api/auth/check"],
+    retry: false,
+  });
+
+  const role = data?.role ?? null;
+
+  return {
+    user: data,
+    isLoading,
+    role,
+    isOwner: role === "owner",
+    // 檢視者無法看到成本、利潤與備份
+    canViewCosts: role !== "viewer",
+    canEdit: role === "owner" || role === "editor",
+    canDelete: role === "owner",
+  };
+}
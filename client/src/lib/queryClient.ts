@@ -1,6 +1,19 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// 登入逾時或帳號停用：清除快取並回到登入頁（登入端點本身的 401 代表帳密錯誤，不處理）
+function handleUnauthorized(res: Response) {
+  if (res.status !== 401 || new URL(res.url, window.location.origin).pathname.startsWith("/api/auth/")) {
+    return;
+  }
+  queryClient.clear();
+  queryClient.setQueryData(["/api/auth/check"], { authenticated: false, username: null, displayName: null, role: null });
+  if (window.location.pathname !== "/") {
+    window.history.replaceState(null, "", "/");
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
+  handleUnauthorized(res);
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
@@ -40,6 +53,7 @@ export const getQueryFn: <T>(options: {
     });
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
+      handleUnauthorized(res);
       return null;
     }
 
@@ -19,3 +19,9 @@ export function formatNumber(value: number | string | undefined | null): string
   // 保留1位小數
   return num.toFixed(1);
 }
+
+// 庫存已達安全庫存量（未設定安全庫存量則不提醒）
+export function isLowStock(stockQuantity: number | string, reorderPoint: number | string | null): boolean {
+  if (reorderPoint === null || reorderPoint === "") return false;
+  return parseFloat(String(stockQuantity)) <= parseFloat(String(reorderPoint));
+}
@@ -6,22 +6,27 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Search, Upload, Download, Plus, Edit, Trash2, TrendingUp, Copy, ArrowUpDown } from "lucide-react";
+import { Search, Upload, Download, Plus, Edit, Trash2, TrendingUp, Copy, ArrowUpDown, History } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { SortableHeader } from "@/components/ui/sortable-header";
 import { DraggableList } from "@/components/ui/draggable-list";
 import { CategoryManagement } from "@/components/category-management";
 import CustomProductModal from "@/components/modals/custom-product-modal";
+import AuditLogModal from "@/components/modals/audit-log-modal";
+import AllergenBadges, { AllergenFilter } from "@/components/common/allergen-badges";
 
-import type { CustomProductWithDetails } from "@shared/schema";
+import type { CustomProductWithDetails, Allergen } from "@shared/schema";
+import { customProductAllergens, isFreeOfAllergen } from "@shared/allergens";
 
 export default function CustomProducts() {
   const { toast } = useToast();
   const [search, setSearch] = useState("");
   const [category, setCategory] = useState("all");
+  const [allergenFilter, setAllergenFilter] = useState<Allergen | "all">("all");
   const [selectedItems, setSelectedItems] = useState<number[]>([]);
   const [showModal, setShowModal] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
   const [editingCustomProduct, setEditingCustomProduct] = useState<CustomProductWithDetails | null>(null);
   const [sortBy, setSortBy] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
@@ -64,13 +69,21 @@ export default function CustomProducts() {
     }
   };
 
+  // 客製商品過敏原（彙整組合內所有商品）
+  const allergensByCustomProduct = useMemo(
+    () => new Map(customProducts.map(customProduct => [customProduct.id, customProductAllergens(customProduct)] as const)),
+    [customProducts]
+  );
+
   const filteredCustomProducts = useMemo(() => {
     let filtered = customProducts.filter((customProduct: CustomProductWithDetails) => {
       const matchesSearch = !search || 
         customProduct.name.toLowerCase().includes(search.toLowerCase()) ||
         customProduct.category.toLowerCase().includes(search.toLowerCase());
       const matchesCategory = category === "all" || customProduct.category === category;
-      return matchesSearch && matchesCategory;
+      const matchesAllergen = allergenFilter === "all" ||
+        isFreeOfAllergen(allergensByCustomProduct.get(customProduct.id)!, allergenFilter);
+      return matchesSearch && matchesCategory && matchesAllergen;
     });
 
     if (sortBy) {
@@ -120,7 +133,7 @@ export default function CustomProducts() {
     }
 
     return filtered;
-  }, [customProducts, search, category, sortBy, sortOrder]);
+  }, [customProducts, search, category, allergenFilter, allergensByCustomProduct, sortBy, sortOrder]);
 
   const handleDragSortToggle = () => {
     if (!isDragSortMode) {
@@ -346,6 +359,11 @@ export default function CustomProducts() {
             <span className="hidden sm:inline">{isDragSortMode ? "完成排序" : "拖拽排序"}</span>
             <span className="sm:hidden">{isDragSortMode ? "完成" : "排序"}</span>
           </Button>
+          <Button variant="outline" onClick={() => setShowAuditLog(true)}>
+            <History className="mr-2 h-4 w-4" />
+            <span className="hidden sm:inline">異動紀錄</span>
+            <span className="sm:hidden">紀錄</span>
+          </Button>
           <CategoryManagement 
             apiEndpoint="/api/custom-product-categories" 
             categoryLabel="客製商品"
@@ -423,7 +441,7 @@ export default function CustomProducts() {
       {/* 搜尋與篩選 */}
       <Card className="mb-6">
         <CardContent className="p-4">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div className="relative">
               <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
@@ -458,10 +476,11 @@ export default function CustomProducts() {
                 <SelectItem value="500+">NT$ 500+</SelectItem>
               </SelectContent>
             </Select>
+            <AllergenFilter value={allergenFilter} onValueChange={setAllergenFilter} />
             <div className="flex gap-2">
               <Button 
                 variant="outline" 
-                onClick={() => { setSearch(""); setCategory(""); }}
+                onClick={() => { setSearch(""); setCategory(""); setAllergenFilter("all"); }}
                 className="flex-1"
               >
                 清除篩選
@@ -608,6 +627,7 @@ export default function CustomProducts() {
                           currentOrder={sortOrder} 
                           onSort={handleSort} 
                         />
+                        <th className="text-left p-4 font-medium text-muted-foreground">過敏原</th>
                         <th className="text-left p-4 font-medium text-muted-foreground">操作</th>
                       </tr>
                     </thead>
@@ -639,6 +659,9 @@ export default function CustomProducts() {
                               {customProduct.profitMargin?.toFixed(1) || "0"}%
                             </Badge>
                           </td>
+                          <td className="p-4">
+                            <AllergenBadges summary={allergensByCustomProduct.get(customProduct.id)!} />
+                          </td>
                           <td className="p-4">
                             <div className="flex space-x-2">
                               <Button
@@ -701,6 +724,13 @@ export default function CustomProducts() {
           }}
         />
       )}
+
+      <AuditLogModal
+        open={showAuditLog}
+        onOpenChange={setShowAuditLog}
+        title="客製商品"
+        entityTypes={["custom_product", "custom_product_category"]}
+      />
     </div>
   );
 }
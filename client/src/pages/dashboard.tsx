@@ -2,7 +2,9 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Link, useLocation } from "wouter";
-import { Boxes, Receipt, ShoppingCart, DollarSign, Plus } from "lucide-react";
+import { Boxes, Receipt, ShoppingCart, DollarSign, Plus, AlertTriangle } from "lucide-react";
+import { formatNumber } from "@/lib/utils";
+import type { LowStockItem } from "@shared/schema";
 
 export default function Dashboard() {
   const [, setLocation] = useLocation();
@@ -10,6 +12,10 @@ export default function Dashboard() {
     queryKey: ["/api/dashboard/stats"],
   });
 
+  const { data: lowStockItems = [] } = useQuery<LowStockItem[]>({
+    queryKey: ["/api/stock/low-stock"],
+  });
+
   if (isLoading) {
     return (
       <div className="p-6">
@@ -119,6 +125,39 @@ export default function Dashboard() {
         </Card>
       </div>
       
+      {/* 安全庫存提醒 */}
+      {lowStockItems.length > 0 && (
+        <Card className="border-red-200">
+          <CardHeader>
+            <CardTitle className="flex items-center text-red-700">
+              <AlertTriangle className="mr-2 h-5 w-5" />
+              庫存不足提醒 ({lowStockItems.length} 項)
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {lowStockItems.map(item => {
+              const unit = item.itemType === "material" ? "g" : "個";
+              return (
+                <div
+                  key={`${item.itemType}-${item.itemId}`}
+                  className="flex items-center justify-between p-3 bg-red-50 rounded-lg cursor-pointer hover:bg-red-100"
+                  onClick={() => setLocation(item.itemType === "material" ? "/materials" : "/packaging")}
+                >
+                  <div>
+                    <p className="font-medium text-red-800">{item.name}</p>
+                    <p className="text-sm text-red-600">{item.itemType === "material" ? "原料" : "包材"}</p>
+                  </div>
+                  <div className="text-right text-sm">
+                    <p className="font-medium text-red-800">庫存 {formatNumber(item.stockQuantity)} {unit}</p>
+                    <p className="text-red-600">安全庫存 {formatNumber(item.reorderPoint)} {unit}</p>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* 快速操作 */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
@@ -6,13 +6,18 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Search, Upload, Download, Plus, Edit, Trash2, ArrowUpDown, History } from "lucide-react";
+import { Search, Upload, Download, Plus, Edit, Trash2, ArrowUpDown, History, TrendingUp, Warehouse, Truck } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { formatNumber } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import { formatNumber, cn, isLowStock } from "@/lib/utils";
 import MaterialModal from "@/components/modals/material-modal";
 import MaterialHistoryModal from "@/components/modals/material-history-modal";
+import PriceImpactModal from "@/components/modals/price-impact-modal";
+import AuditLogModal from "@/components/modals/audit-log-modal";
+import StockModal from "@/components/modals/stock-modal";
+import SupplierPricesModal from "@/components/modals/supplier-prices-modal";
 import { SortableHeader } from "@/components/ui/sortable-header";
 import { DraggableList } from "@/components/ui/draggable-list";
 import { CategoryManagement } from "@/components/category-management";
@@ -21,14 +26,19 @@ import type { Material } from "@shared/schema";
 
 export default function Materials() {
   const { toast } = useToast();
+  const { canViewCosts } = useAuth();
   const [search, setSearch] = useState("");
   const [category, setCategory] = useState("all");
   const [selectedItems, setSelectedItems] = useState<number[]>([]);
   const [showModal, setShowModal] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
   const [editingMaterial, setEditingMaterial] = useState<Material | null>(null);
   const [showHistoryModal, setShowHistoryModal] = useState(false);
   const [historyMaterialId, setHistoryMaterialId] = useState<number>(0);
   const [historyMaterialName, setHistoryMaterialName] = useState<string>("");
+  const [impactMaterial, setImpactMaterial] = useState<Material | null>(null);
+  const [stockMaterialId, setStockMaterialId] = useState<number | null>(null);
+  const [supplierMaterial, setSupplierMaterial] = useState<Material | null>(null);
   const [sortBy, setSortBy] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
   const [isDragSortMode, setIsDragSortMode] = useState(false);
@@ -304,6 +314,11 @@ export default function Materials() {
             <span className="hidden sm:inline">{isDragSortMode ? "完成排序" : "拖拽排序"}</span>
             <span className="sm:hidden">{isDragSortMode ? "完成" : "排序"}</span>
           </Button>
+          <Button variant="outline" size="sm" onClick={() => setShowAuditLog(true)}>
+            <History className="mr-2 h-4 w-4" />
+            <span className="hidden sm:inline">分類異動</span>
+            <span className="sm:hidden">紀錄</span>
+          </Button>
           <CategoryManagement 
             apiEndpoint="/api/material-categories" 
             categoryLabel="原料"
@@ -424,7 +439,10 @@ export default function Materials() {
                           </Badge>
                         </div>
                         <div className="w-24 flex-shrink-0 px-4">
-                          {formatNumber(parseFloat(material.pricePerGram))}
+                          {canViewCosts ? formatNumber(parseFloat(material.pricePerGram)) : "-"}
+                        </div>
+                        <div className={cn("w-24 flex-shrink-0 px-4", isLowStock(material.stockQuantity, material.reorderPoint) && "text-red-600 font-medium")}>
+                          {formatNumber(material.stockQuantity)} g
                         </div>
                         <div className="w-24 flex-shrink-0 px-4 hidden lg:block text-muted-foreground">
                           {new Date(material.updatedAt).toLocaleDateString()}
@@ -487,6 +505,7 @@ export default function Materials() {
                             onSort={handleSort} 
                           />
                         </th>
+                        <th className="text-left p-3 lg:p-4">庫存 (g)</th>
                         <th className="text-left p-3 lg:p-4 hidden lg:table-cell">最後更新</th>
                         <th className="text-left p-3 lg:p-4">操作</th>
                       </tr>
@@ -511,7 +530,10 @@ export default function Materials() {
                               {material.category}
                             </Badge>
                           </td>
-                          <td className="p-3 lg:p-4">{formatNumber(parseFloat(material.pricePerGram))}</td>
+                          <td className="p-3 lg:p-4">{canViewCosts ? formatNumber(parseFloat(material.pricePerGram)) : "-"}</td>
+                          <td className={cn("p-3 lg:p-4", isLowStock(material.stockQuantity, material.reorderPoint) && "text-red-600 font-medium")}>
+                            {formatNumber(material.stockQuantity)}
+                          </td>
                           <td className="p-3 lg:p-4 text-muted-foreground hidden lg:table-cell">
                             {new Date(material.updatedAt).toLocaleDateString()}
                           </td>
@@ -529,6 +551,30 @@ export default function Materials() {
                               >
                                 <History className="h-4 w-4" />
                               </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setImpactMaterial(material)}
+                                title="價格影響分析"
+                              >
+                                <TrendingUp className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setStockMaterialId(material.id)}
+                                title="庫存管理"
+                              >
+                                <Warehouse className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setSupplierMaterial(material)}
+                                title="供應商報價"
+                              >
+                                <Truck className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -595,7 +641,13 @@ export default function Materials() {
                                 <div className="flex justify-between">
                                   <span className="text-muted-foreground">單價:</span>
                                   <span className="font-medium">
-                                    {formatNumber(parseFloat(material.pricePerGram))} 元/克
+                                    {canViewCosts ? formatNumber(parseFloat(material.pricePerGram)) : "-"} 元/克
+                                  </span>
+                                </div>
+                                <div className="flex justify-between">
+                                  <span className="text-muted-foreground">庫存:</span>
+                                  <span className={cn(isLowStock(material.stockQuantity, material.reorderPoint) && "text-red-600 font-medium")}>
+                                    {formatNumber(material.stockQuantity)} g
                                   </span>
                                 </div>
                                 <div className="flex justify-between">
@@ -625,6 +677,30 @@ export default function Materials() {
                             >
                               <History className="h-4 w-4" />
                             </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setImpactMaterial(material)}
+                              title="價格影響分析"
+                            >
+                              <TrendingUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setStockMaterialId(material.id)}
+                              title="庫存管理"
+                            >
+                              <Warehouse className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSupplierMaterial(material)}
+                              title="供應商報價"
+                            >
+                              <Truck className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -668,7 +744,13 @@ export default function Materials() {
                             <div className="flex justify-between">
                               <span className="text-muted-foreground">單價:</span>
                               <span className="font-medium">
-                                {formatNumber(parseFloat(material.pricePerGram))} 元/克
+                                {canViewCosts ? formatNumber(parseFloat(material.pricePerGram)) : "-"} 元/克
+                              </span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">庫存:</span>
+                              <span className={cn(isLowStock(material.stockQuantity, material.reorderPoint) && "text-red-600 font-medium")}>
+                                {formatNumber(material.stockQuantity)} g
                               </span>
                             </div>
                             <div className="flex justify-between">
@@ -698,6 +780,30 @@ export default function Materials() {
                         >
                           <History className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setImpactMaterial(material)}
+                          title="價格影響分析"
+                        >
+                          <TrendingUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setStockMaterialId(material.id)}
+                          title="庫存管理"
+                        >
+                          <Warehouse className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSupplierMaterial(material)}
+                          title="供應商報價"
+                        >
+                          <Truck className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -735,6 +841,33 @@ export default function Materials() {
         materialId={historyMaterialId}
         materialName={historyMaterialName}
       />
+
+      <PriceImpactModal
+        open={!!impactMaterial}
+        onOpenChange={(open) => !open && setImpactMaterial(null)}
+        material={impactMaterial}
+      />
+
+      <StockModal
+        open={stockMaterialId !== null}
+        onOpenChange={(open) => !open && setStockMaterialId(null)}
+        itemType="material"
+        item={materials.find(material => material.id === stockMaterialId) ?? null}
+      />
+
+      <SupplierPricesModal
+        open={!!supplierMaterial}
+        onOpenChange={(open) => !open && setSupplierMaterial(null)}
+        itemType="material"
+        item={supplierMaterial}
+      />
+
+      <AuditLogModal
+        open={showAuditLog}
+        onOpenChange={setShowAuditLog}
+        title="原料分類"
+        entityTypes={["material_category"]}
+      />
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Upload, Download, Eye, Calculator, FileImage, FileType } from "lucide-react";
+import { Plus, Upload, Download, Eye, Calculator, FileImage, FileType, AlertTriangle, LayoutTemplate, Pencil, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,6 +8,32 @@ import { toast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { NutritionLabelModal } from "@/components/modals/nutrition-label-modal";
 import { NutritionCalculatorModal } from "@/components/modals/nutrition-calculator-modal";
+import LabelTemplateModal from "@/components/modals/label-template-modal";
+import {
+  NUTRITION_LABEL_FORMATS,
+  type NutritionLabelFormat,
+  type NutritionLabelGeneratedFiles,
+  type NutritionLabelTemplate,
+} from "@shared/schema";
+
+const FORMAT_LABELS: Record<NutritionLabelFormat, string> = {
+  xlsx: "Excel",
+  pdf: "PDF",
+  png: "PNG",
+  jpg: "JPG",
+  zip: "全部格式 ZIP",
+};
+
+// apiRequest 的錯誤訊息為「狀態碼: 回應內容」，取出伺服器回傳的 message
+function serverErrorMessage(error: Error, fallback: string): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    // 非 JSON 回應時使用預設訊息
+    return fallback;
+  }
+}
 
 interface NutritionLabel {
   id: number;
@@ -17,7 +43,7 @@ interface NutritionLabel {
   servingsPerPackage: number;
   templateId?: number;
   calculatedNutrition: any;
-  generatedFiles?: any;
+  generatedFiles?: NutritionLabelGeneratedFiles | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -27,6 +53,8 @@ export default function NutritionLabelsPage() {
   const [showModal, setShowModal] = useState(false);
   const [showCalculatorModal, setShowCalculatorModal] = useState(false);
   const [editingLabel, setEditingLabel] = useState<NutritionLabel | null>(null);
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<NutritionLabelTemplate | null>(null);
   const queryClient = useQueryClient();
 
   const { data: labels = [], isLoading } = useQuery({
@@ -34,6 +62,10 @@ export default function NutritionLabelsPage() {
     queryFn: () => apiRequest("GET", `/api/nutrition-labels?search=${encodeURIComponent(searchTerm)}`),
   });
 
+  const { data: templates = [] } = useQuery<NutritionLabelTemplate[]>({
+    queryKey: ["/api/nutrition-label-templates"],
+  });
+
   const createMutation = useMutation({
     mutationFn: (data: any) => apiRequest("POST", "/api/nutrition-labels", data),
     onSuccess: () => {
@@ -42,8 +74,8 @@ export default function NutritionLabelsPage() {
       setEditingLabel(null);
       toast({ description: "營養標示建立成功" });
     },
-    onError: () => {
-      toast({ description: "建立營養標示失敗", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ description: serverErrorMessage(error, "建立營養標示失敗"), variant: "destructive" });
     },
   });
 
@@ -56,8 +88,8 @@ export default function NutritionLabelsPage() {
       setEditingLabel(null);
       toast({ description: "營養標示更新成功" });
     },
-    onError: () => {
-      toast({ description: "更新營養標示失敗", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ description: serverErrorMessage(error, "更新營養標示失敗"), variant: "destructive" });
     },
   });
 
@@ -72,6 +104,18 @@ export default function NutritionLabelsPage() {
     },
   });
 
+  const deleteTemplateMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/nutrition-label-templates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-label-templates"] });
+      toast({ description: "營養標示模板刪除成功" });
+    },
+    onError: (error: Error) => {
+      // 模板仍被使用時，伺服器會回傳套用中的營養標示名稱
+      toast({ description: serverErrorMessage(error, "刪除營養標示模板失敗"), variant: "destructive" });
+    },
+  });
+
   const handleSubmit = (data: any) => {
     if (editingLabel) {
       updateMutation.mutate({ id: editingLabel.id, data });
@@ -91,6 +135,17 @@ export default function NutritionLabelsPage() {
     }
   };
 
+  const handleEditTemplate = (template: NutritionLabelTemplate | null) => {
+    setEditingTemplate(template);
+    setShowTemplateModal(true);
+  };
+
+  const handleDeleteTemplate = (template: NutritionLabelTemplate) => {
+    if (confirm(`確定要刪除模板「${template.name}」嗎？`)) {
+      deleteTemplateMutation.mutate(template.id);
+    }
+  };
+
   const handleExport = async () => {
     try {
       const response = await fetch("/api/nutrition-labels/export", {
@@ -120,35 +175,64 @@ export default function NutritionLabelsPage() {
     }
   };
 
-  const handleGenerateLabel = async (labelId: number) => {
+  // 觸發瀏覽器下載回應中的檔案
+  const downloadResponse = async (response: Response, fileName: string) => {
+    const blob = await response.blob();
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.style.display = "none";
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  const handleGenerateLabel = async (label: NutritionLabel, format: NutritionLabelFormat) => {
     try {
-      const response = await fetch(`/api/nutrition-labels/${labelId}/generate`, {
+      const response = await fetch(`/api/nutrition-labels/${label.id}/generate`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         credentials: 'include',
-        body: JSON.stringify({ format: 'xlsx' }),
+        body: JSON.stringify({ format }),
       });
 
       if (!response.ok) {
-        throw new Error('生成失敗');
+        // 不符標示規定時伺服器會回傳須修正的項目
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || '生成失敗');
       }
 
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.style.display = "none";
-      a.href = url;
-      a.download = `營養標示-${labelId}.xlsx`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-      toast({ description: "Excel格式營養標示生成成功" });
+      await downloadResponse(response, `${label.name}_營養標示.${format}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-labels"] });
+      toast({ description: `${FORMAT_LABELS[format]}營養標示生成成功` });
     } catch (error) {
       console.error('Label generation error:', error);
-      toast({ description: "生成Excel格式失敗", variant: "destructive" });
+      toast({
+        title: `生成${FORMAT_LABELS[format]}失敗`,
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadFile = async (label: NutritionLabel, format: NutritionLabelFormat) => {
+    try {
+      const response = await fetch(`/api/nutrition-labels/${label.id}/files/${format}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('下載失敗');
+      }
+
+      await downloadResponse(response, label.generatedFiles?.[format]?.fileName ?? `${label.name}_營養標示.${format}`);
+    } catch (error) {
+      console.error('Label download error:', error);
+      toast({ description: "檔案已不存在，請重新生成", variant: "destructive" });
     }
   };
 
@@ -217,6 +301,53 @@ export default function NutritionLabelsPage() {
           </div>
         </div>
 
+        {/* 標示模板 */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                <LayoutTemplate className="w-5 h-5" />
+                營養標示模板
+              </CardTitle>
+              <Button variant="outline" size="sm" onClick={() => handleEditTemplate(null)}>
+                <Plus className="w-4 h-4 mr-1" />
+                新增模板
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {templates.length === 0 ? (
+              <div className="text-sm text-gray-500">尚未建立模板，生成標籤時將使用預設 20 × 10 公分版面</div>
+            ) : (
+              <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                {templates.map((template) => (
+                  <div key={template.id} className="flex items-center justify-between gap-2 rounded-lg border p-3">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{template.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {template.width} × {template.height} 公分 · {template.template?.layout === "horizontal" ? "橫式" : "直式"}
+                      </div>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => handleEditTemplate(template)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => handleDeleteTemplate(template)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* 營養標示列表 */}
         <div className="grid gap-4">
           {labels.length === 0 ? (
@@ -297,18 +428,57 @@ export default function NutritionLabelsPage() {
                         <div>脂肪：{Math.round(label.calculatedNutrition.perServing?.fat || 0)} g</div>
                         <div>碳水化合物：{Math.round(label.calculatedNutrition.perServing?.carbohydrates || 0)} g</div>
                       </div>
+
+                      {label.calculatedNutrition.missingNutritionMaterials?.length > 0 && (
+                        <div className="mt-2 flex items-start gap-1 text-xs text-yellow-700">
+                          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                          <span>
+                            缺少營養資料：
+                            {label.calculatedNutrition.missingNutritionMaterials
+                              .map((item: any) => item.materialName)
+                              .join("、")}
+                          </span>
+                        </div>
+                      )}
                       
-                      <div className="mt-3">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => handleGenerateLabel(label.id)}
-                          className="text-xs gap-1"
-                        >
-                          <Download className="w-3 h-3" />
-                          下載Excel營養標示
-                        </Button>
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        {NUTRITION_LABEL_FORMATS.map((format) => (
+                          <Button
+                            key={format}
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleGenerateLabel(label, format)}
+                            className="text-xs gap-1"
+                          >
+                            {format === "png" || format === "jpg"
+                              ? <FileImage className="w-3 h-3" />
+                              : <FileType className="w-3 h-3" />}
+                            生成{FORMAT_LABELS[format]}
+                          </Button>
+                        ))}
                       </div>
+
+                      {label.generatedFiles && Object.keys(label.generatedFiles).length > 0 && (
+                        <div className="mt-3 space-y-1 text-xs">
+                          <div className="font-medium">已生成檔案：</div>
+                          {NUTRITION_LABEL_FORMATS.filter((format) => label.generatedFiles?.[format]).map((format) => (
+                            <div key={format} className="flex items-center justify-between gap-2">
+                              <span className="text-gray-600 dark:text-gray-400">
+                                {FORMAT_LABELS[format]} · {formatDate(label.generatedFiles![format]!.generatedAt)}
+                              </span>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleDownloadFile(label, format)}
+                                className="h-6 text-xs gap-1"
+                              >
+                                <Download className="w-3 h-3" />
+                                下載
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   )}
                 </CardContent>
@@ -332,6 +502,16 @@ export default function NutritionLabelsPage() {
         />
       )}
 
+      {/* 標示模板模態框 */}
+      <LabelTemplateModal
+        open={showTemplateModal}
+        onOpenChange={(open) => {
+          setShowTemplateModal(open);
+          if (!open) setEditingTemplate(null);
+        }}
+        template={editingTemplate}
+      />
+
       {/* 營養計算器模態框 */}
       {showCalculatorModal && (
         <NutritionCalculatorModal
@@ -5,11 +5,12 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Search, Upload, Download, Plus, Edit, Trash2, AlertTriangle } from "lucide-react";
+import { Search, Upload, Download, Plus, Edit, Trash2, AlertTriangle, History } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { readExcelFile, exportToExcel } from "@/lib/excel-utils";
 import { useToast } from "@/hooks/use-toast";
 import NutritionModal from "@/components/modals/nutrition-modal";
+import AuditLogModal from "@/components/modals/audit-log-modal";
 
 import type { MaterialWithNutrition } from "@shared/schema";
 
@@ -19,6 +20,7 @@ export default function Nutrition() {
   const [category, setCategory] = useState("all");
   const [completeness, setCompleteness] = useState("all");
   const [showModal, setShowModal] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
   const [editingNutrition, setEditingNutrition] = useState<MaterialWithNutrition | null>(null);
 
 
@@ -174,6 +176,10 @@ export default function Nutrition() {
             <Download className="mr-2 h-4 w-4" />
             批次匯出
           </Button>
+          <Button variant="outline" onClick={() => setShowAuditLog(true)}>
+            <History className="mr-2 h-4 w-4" />
+            異動紀錄
+          </Button>
           <Button onClick={() => { setEditingNutrition(null); setShowModal(true); }} className="bg-green-600 hover:bg-green-700">
             <Plus className="mr-2 h-4 w-4" />
             新增營養成分
@@ -371,6 +377,13 @@ export default function Nutrition() {
         onOpenChange={setShowModal}
         material={editingNutrition}
       />
+
+      <AuditLogModal
+        open={showAuditLog}
+        onOpenChange={setShowAuditLog}
+        title="營養成分"
+        entityTypes={["nutrition_facts"]}
+      />
     </div>
   );
 }
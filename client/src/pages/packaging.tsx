@@ -8,14 +8,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { Search, Upload, Download, Plus, Edit, Trash2, TrendingUp, ArrowUpDown } from "lucide-react";
+import { Search, Upload, Download, Plus, Edit, Trash2, TrendingUp, ArrowUpDown, History, Warehouse, Truck } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { readExcelFile, exportToExcel } from "@/lib/excel-utils";
 import { useToast } from "@/hooks/use-toast";
+import { formatNumber, cn, isLowStock } from "@/lib/utils";
 import { SortableHeader } from "@/components/ui/sortable-header";
 import { DraggableList } from "@/components/ui/draggable-list";
 import { ResponsiveList } from "@/components/ui/responsive-list";
 import PackagingModal from "@/components/modals/packaging-modal";
+import AuditLogModal from "@/components/modals/audit-log-modal";
+import StockModal from "@/components/modals/stock-modal";
+import SupplierPricesModal from "@/components/modals/supplier-prices-modal";
 import type { Packaging, PackagingCategory } from "@shared/schema";
 
 export default function PackagingPage() {
@@ -24,7 +28,10 @@ export default function PackagingPage() {
   const [type, setType] = useState("all");
   const [selectedItems, setSelectedItems] = useState<number[]>([]);
   const [showModal, setShowModal] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
   const [editingPackaging, setEditingPackaging] = useState<Packaging | null>(null);
+  const [stockPackagingId, setStockPackagingId] = useState<number | null>(null);
+  const [supplierPackaging, setSupplierPackaging] = useState<Packaging | null>(null);
   const [sortBy, setSortBy] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
   const [isDragSortMode, setIsDragSortMode] = useState(false);
@@ -447,6 +454,11 @@ export default function PackagingPage() {
             <span className="hidden sm:inline">{isDragSortMode ? "完成排序" : "拖拽排序"}</span>
             <span className="sm:hidden">{isDragSortMode ? "完成" : "排序"}</span>
           </Button>
+          <Button variant="outline" onClick={() => setShowAuditLog(true)}>
+            <History className="mr-2 h-4 w-4" />
+            <span className="hidden sm:inline">異動紀錄</span>
+            <span className="sm:hidden">紀錄</span>
+          </Button>
           <Button variant="outline" onClick={() => setShowCategoryDialog(true)}>
             <Plus className="mr-2 h-4 w-4" />
             <span className="hidden sm:inline">新增分類</span>
@@ -612,6 +624,9 @@ export default function PackagingPage() {
                     <div className="w-20 flex-shrink-0 px-4 text-center">
                       NT$ {parseFloat(item.unitCost).toFixed(1)}
                     </div>
+                    <div className={cn("w-20 flex-shrink-0 px-4 text-center", isLowStock(item.stockQuantity, item.reorderPoint) && "text-red-600 font-medium")}>
+                      {item.stockQuantity}
+                    </div>
                     <div className="w-32 flex-shrink-0 px-4 text-muted-foreground">
                       {item.notes || "-"}
                     </div>
@@ -645,10 +660,25 @@ export default function PackagingPage() {
               getItemCategory={(item) => item.type}
               getItemDetails={(item) => [
                 { label: "成本", value: `NT$ ${parseFloat(item.unitCost).toFixed(1)}` },
+                {
+                  label: "庫存",
+                  value: formatNumber(item.stockQuantity),
+                  className: isLowStock(item.stockQuantity, item.reorderPoint) ? "text-red-600 font-medium" : undefined,
+                },
                 { label: "備註", value: item.notes || "-", className: "text-muted-foreground" },
                 { label: "更新", value: new Date(item.updatedAt).toLocaleDateString(), className: "text-muted-foreground" }
               ]}
               getCategoryBadgeColor={getCategoryColor}
+              extraActions={(item) => (
+                <>
+                  <Button variant="ghost" size="sm" onClick={() => setStockPackagingId(item.id)} title="庫存管理">
+                    <Warehouse className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setSupplierPackaging(item)} title="供應商報價">
+                    <Truck className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
             >
               <table className="w-full">
                 <thead>
@@ -686,6 +716,7 @@ export default function PackagingPage() {
                         onSort={handleSort} 
                       />
                     </th>
+                    <th className="text-left p-4">庫存</th>
                     <th className="text-left p-4">
                       <SortableHeader 
                         label="備註" 
@@ -727,6 +758,9 @@ export default function PackagingPage() {
                       <td className="p-4 font-medium">
                         NT$ {parseFloat(item.unitCost).toFixed(1)}
                       </td>
+                      <td className={cn("p-4", isLowStock(item.stockQuantity, item.reorderPoint) && "text-red-600 font-medium")}>
+                        {item.stockQuantity}
+                      </td>
                       <td className="p-4 text-muted-foreground">
                         {item.notes || "-"}
                       </td>
@@ -735,6 +769,22 @@ export default function PackagingPage() {
                       </td>
                       <td className="p-4">
                         <div className="flex space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setStockPackagingId(item.id)}
+                            title="庫存管理"
+                          >
+                            <Warehouse className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setSupplierPackaging(item)}
+                            title="供應商報價"
+                          >
+                            <Truck className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -946,6 +996,27 @@ export default function PackagingPage() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <SupplierPricesModal
+        open={!!supplierPackaging}
+        onOpenChange={(open) => !open && setSupplierPackaging(null)}
+        itemType="packaging"
+        item={supplierPackaging}
+      />
+
+      <StockModal
+        open={stockPackagingId !== null}
+        onOpenChange={(open) => !open && setStockPackagingId(null)}
+        itemType="packaging"
+        item={packaging.find(item => item.id === stockPackagingId) ?? null}
+      />
+
+      <AuditLogModal
+        open={showAuditLog}
+        onOpenChange={setShowAuditLog}
+        title="包材"
+        entityTypes={["packaging", "packaging_category"]}
+      />
     </div>
   );
 }
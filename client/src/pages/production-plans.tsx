@@ -0,0 +1,323 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Edit, Trash2, Download, ClipboardList, PackageCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatNumber, cn } from "@/lib/utils";
+import ProductionPlanModal from "@/components/modals/production-plan-modal";
+import type { ProductionPlanWithItems, ProductionRequirements, MaterialRequirement } from "@shared/schema";
+
+// 原料需求依購入地點分組，組內再依分類排序（伺服器已排序）
+function groupByLocation(materials: MaterialRequirement[]): [string, MaterialRequirement[]][] {
+  const groups = new Map<string, MaterialRequirement[]>();
+  for (const line of materials) {
+    const location = line.purchaseLocation || "未指定購入地點";
+    groups.set(location, [...(groups.get(location) ?? []), line]);
+  }
+  return Array.from(groups.entries());
+}
+
+export default function ProductionPlans() {
+  const { toast } = useToast();
+  const { canViewCosts, canEdit } = useAuth();
+  const [selectedPlanId, setSelectedPlanId] = useState<number | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<ProductionPlanWithItems | null>(null);
+
+  const { data: plans = [], isLoading } = useQuery<ProductionPlanWithItems[]>({
+    queryKey: ["/api/production-plans"],
+  });
+
+  useEffect(() => {
+    if (plans.length > 0 && !plans.some(plan => plan.id === selectedPlanId)) {
+      setSelectedPlanId(plans[0].id);
+    }
+  }, [plans, selectedPlanId]);
+
+  const selectedPlan = plans.find(plan => plan.id === selectedPlanId) ?? null;
+
+  const { data: requirements } = useQuery<ProductionRequirements>({
+    queryKey: ["/api/production-plans", selectedPlanId, "requirements"],
+    queryFn: () => apiRequest("GET", `/api/production-plans/${selectedPlanId}/requirements`),
+    enabled: selectedPlanId !== null,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/production-plans/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/production-plans"] });
+      toast({ title: "生產計畫已刪除" });
+    },
+    onError: () => {
+      toast({ title: "刪除失敗", variant: "destructive" });
+    },
+  });
+
+  const produceMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("POST", `/api/production-plans/${id}/produce`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/production-plans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/materials"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/packaging"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+      toast({ title: "已登錄生產並扣除庫存" });
+    },
+    onError: () => {
+      toast({ title: "登錄生產失敗", variant: "destructive" });
+    },
+  });
+
+  const handleProduce = (plan: ProductionPlanWithItems) => {
+    if (confirm(`確定要登錄「${plan.name}」已生產嗎？將依需求扣除原料與包材庫存。`)) {
+      produceMutation.mutate(plan.id);
+    }
+  };
+
+  const handleDelete = (plan: ProductionPlanWithItems) => {
+    if (confirm(`確定要刪除生產計畫「${plan.name}」嗎？`)) {
+      deleteMutation.mutate(plan.id);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!selectedPlan) return;
+    try {
+      const response = await fetch(`/api/production-plans/${selectedPlan.id}/export`);
+      if (!response.ok) {
+        throw new Error("匯出失敗");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `production-plan-${selectedPlan.planDate}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      toast({ title: "匯出成功" });
+    } catch (error) {
+      toast({
+        title: "匯出失敗",
+        description: "請稍後重試",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
+        <div className="mb-4 sm:mb-0">
+          <h2 className="text-2xl font-bold text-foreground mb-2">生產計畫</h2>
+          <p className="text-muted-foreground">
+            依生產數量計算原料與包材需求，並匯出採購清單
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3">
+          {canViewCosts && (
+            <Button variant="outline" onClick={handleExport} disabled={!selectedPlan}>
+              <Download className="mr-2 h-4 w-4" />
+              匯出採購清單
+            </Button>
+          )}
+          <Button onClick={() => { setEditingPlan(null); setShowModal(true); }}>
+            <Plus className="mr-2 h-4 w-4" />
+            新增計畫
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <ClipboardList className="mr-2 h-5 w-5" />
+              計畫清單
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">載入中...</div>
+            ) : plans.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">尚未建立生產計畫</div>
+            ) : (
+              plans.map(plan => (
+                <div
+                  key={plan.id}
+                  className={cn(
+                    "p-3 border rounded-lg cursor-pointer hover:bg-muted/50",
+                    plan.id === selectedPlanId && "border-primary bg-muted/50"
+                  )}
+                  onClick={() => setSelectedPlanId(plan.id)}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{plan.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {plan.planDate} · {plan.items.length} 項
+                        {plan.producedAt && <Badge variant="secondary" className="ml-2">已生產</Badge>}
+                      </div>
+                    </div>
+                    <div className="flex">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="編輯計畫"
+                        onClick={(e) => { e.stopPropagation(); setEditingPlan(plan); setShowModal(true); }}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="刪除計畫"
+                        onClick={(e) => { e.stopPropagation(); handleDelete(plan); }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          {selectedPlan && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>生產項目</CardTitle>
+                {selectedPlan.producedAt ? (
+                  <span className="text-sm text-muted-foreground">
+                    已於 {format(new Date(selectedPlan.producedAt), "yyyy/MM/dd HH:mm")} 登錄生產
+                  </span>
+                ) : canEdit && (
+                  <Button size="sm" onClick={() => handleProduce(selectedPlan)} disabled={produceMutation.isPending}>
+                    <PackageCheck className="mr-2 h-4 w-4" />
+                    登錄生產
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2">
+                  {selectedPlan.items.map(item => (
+                    <Badge key={item.id} variant="outline">
+                      {item.productType === "custom_product" ? "客製 · " : ""}
+                      {item.productName || `#${item.productId}（已刪除）`} × {item.quantity}
+                    </Badge>
+                  ))}
+                </div>
+                {selectedPlan.notes && (
+                  <p className="mt-3 text-sm text-muted-foreground">{selectedPlan.notes}</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {selectedPlan && requirements && (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>原料需求</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {requirements.materials.length === 0 ? (
+                    <div className="text-center py-6 text-muted-foreground">無原料需求</div>
+                  ) : (
+                    groupByLocation(requirements.materials).map(([location, lines]) => (
+                      <div key={location}>
+                        <h4 className="font-medium mb-2">{location}</h4>
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="border-b text-left">
+                              <th className="p-2">分類</th>
+                              <th className="p-2">原料</th>
+                              <th className="p-2 text-right">需求量 (g)</th>
+                              {canViewCosts && <th className="p-2 text-right">預估成本</th>}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {lines.map(line => (
+                              <tr key={line.materialId} className="border-b">
+                                <td className="p-2">{line.category}</td>
+                                <td className="p-2">{line.materialName}</td>
+                                <td className="p-2 text-right">{formatNumber(line.quantity)}</td>
+                                {canViewCosts && <td className="p-2 text-right">NT$ {formatNumber(line.cost)}</td>}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    ))
+                  )}
+                  {canViewCosts && (
+                    <div className="text-right font-medium">
+                      原料預估成本：NT$ {formatNumber(requirements.materialCost)}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>包材需求</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {requirements.packaging.length === 0 ? (
+                    <div className="text-center py-6 text-muted-foreground">無包材需求</div>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left">
+                          <th className="p-2">類型</th>
+                          <th className="p-2">包材</th>
+                          <th className="p-2 text-right">數量</th>
+                          {canViewCosts && <th className="p-2 text-right">預估成本</th>}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {requirements.packaging.map(line => (
+                          <tr key={line.packagingId} className="border-b">
+                            <td className="p-2">{line.type}</td>
+                            <td className="p-2">{line.packagingName}</td>
+                            <td className="p-2 text-right">{line.quantity}</td>
+                            {canViewCosts && <td className="p-2 text-right">NT$ {formatNumber(line.cost)}</td>}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  {requirements.missingItems.length > 0 && (
+                    <p className="mt-3 text-sm text-red-600">
+                      有 {requirements.missingItems.length} 個生產項目的商品已刪除，未計入需求
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+
+      <ProductionPlanModal
+        open={showModal}
+        onOpenChange={(open) => {
+          setShowModal(open);
+          if (!open) {
+            setEditingPlan(null);
+          }
+        }}
+        plan={editingPlan}
+      />
+    </div>
+  );
+}
@@ -6,24 +6,35 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Search, Upload, Download, Plus, Edit, Trash2, TrendingUp, Copy, ArrowUpDown } from "lucide-react";
+import { Search, Upload, Download, Plus, Edit, Trash2, TrendingUp, Copy, ArrowUpDown, LineChart, History, Tags } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { readExcelFile, exportToExcel } from "@/lib/excel-utils";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { SortableHeader } from "@/components/ui/sortable-header";
 import { DraggableList } from "@/components/ui/draggable-list";
 import { CategoryManagement } from "@/components/category-management";
 import ProductModal from "@/components/modals/product-modal";
+import CostSnapshotModal from "@/components/modals/cost-snapshot-modal";
+import AuditLogModal from "@/components/modals/audit-log-modal";
+import RepriceModal from "@/components/modals/reprice-modal";
+import AllergenBadges, { AllergenFilter } from "@/components/common/allergen-badges";
 
-import type { ProductWithDetails } from "@shared/schema";
+import type { ProductWithDetails, Allergen } from "@shared/schema";
+import { productAllergens, isFreeOfAllergen } from "@shared/allergens";
 
 export default function Products() {
   const { toast } = useToast();
+  const { canEdit } = useAuth();
   const [search, setSearch] = useState("");
   const [category, setCategory] = useState("all");
+  const [allergenFilter, setAllergenFilter] = useState<Allergen | "all">("all");
   const [selectedItems, setSelectedItems] = useState<number[]>([]);
   const [showModal, setShowModal] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showReprice, setShowReprice] = useState(false);
   const [editingProduct, setEditingProduct] = useState<ProductWithDetails | null>(null);
+  const [snapshotProduct, setSnapshotProduct] = useState<ProductWithDetails | null>(null);
   const [sortBy, setSortBy] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
   const [isDragSortMode, setIsDragSortMode] = useState(false);
@@ -52,7 +63,7 @@ export default function Products() {
   }, [products.length, productCategories.length]);
 
   // 取得利潤率設定
-  const { data: settings } = useQuery({
+  const { data: settings } = useQuery<{ profitMargin?: { lowThreshold: number; highThreshold: number } }>({
     queryKey: ["/api/settings"],
   });
 
@@ -65,13 +76,21 @@ export default function Products() {
     }
   };
 
+  // 商品過敏原（彙整所有配方）
+  const allergensByProduct = useMemo(
+    () => new Map(products.map(product => [product.id, productAllergens(product)] as const)),
+    [products]
+  );
+
   const filteredProducts = useMemo(() => {
     let filtered = products.filter((product: ProductWithDetails) => {
       const matchesSearch = !search || 
         product.name.toLowerCase().includes(search.toLowerCase()) ||
         product.category.toLowerCase().includes(search.toLowerCase());
       const matchesCategory = category === "all" || product.category === category;
-      return matchesSearch && matchesCategory;
+      const matchesAllergen = allergenFilter === "all" ||
+        isFreeOfAllergen(allergensByProduct.get(product.id)!, allergenFilter);
+      return matchesSearch && matchesCategory && matchesAllergen;
     });
 
     if (sortBy) {
@@ -129,7 +148,7 @@ export default function Products() {
     }
 
     return filtered;
-  }, [products, search, category, sortBy, sortOrder]);
+  }, [products, search, category, allergenFilter, allergensByProduct, sortBy, sortOrder]);
 
   const handleDragSortToggle = () => {
     if (!isDragSortMode) {
@@ -355,6 +374,18 @@ export default function Products() {
             <span className="hidden sm:inline">{isDragSortMode ? "完成排序" : "拖拽排序"}</span>
             <span className="sm:hidden">{isDragSortMode ? "完成" : "排序"}</span>
           </Button>
+          {canEdit && (
+            <Button variant="outline" onClick={() => setShowReprice(true)}>
+              <Tags className="mr-2 h-4 w-4" />
+              <span className="hidden sm:inline">批次調價</span>
+              <span className="sm:hidden">調價</span>
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setShowAuditLog(true)}>
+            <History className="mr-2 h-4 w-4" />
+            <span className="hidden sm:inline">異動紀錄</span>
+            <span className="sm:hidden">紀錄</span>
+          </Button>
           <CategoryManagement 
             apiEndpoint="/api/product-categories" 
             categoryLabel="商品"
@@ -432,7 +463,7 @@ export default function Products() {
       {/* 搜尋與篩選 */}
       <Card className="mb-6">
         <CardContent className="p-4">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div className="relative">
               <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
@@ -467,10 +498,11 @@ export default function Products() {
                 <SelectItem value="500+">NT$ 500+</SelectItem>
               </SelectContent>
             </Select>
+            <AllergenFilter value={allergenFilter} onValueChange={setAllergenFilter} />
             <div className="flex gap-2">
               <Button 
                 variant="outline" 
-                onClick={() => { setSearch(""); setCategory(""); }}
+                onClick={() => { setSearch(""); setCategory(""); setAllergenFilter("all"); }}
                 className="flex-1"
               >
                 清除篩選
@@ -548,8 +580,11 @@ export default function Products() {
                             {product.profitMargin?.toFixed(1) || "0"}%
                           </Badge>
                         </div>
-                        <div className="w-24 flex-shrink-0">
+                        <div className="w-32 flex-shrink-0">
                           <div className="flex space-x-1">
+                            <Button variant="ghost" size="sm" onClick={() => setSnapshotProduct(product)} title="成本快照">
+                              <LineChart className="h-4 w-4" />
+                            </Button>
                             <Button variant="ghost" size="sm" onClick={() => { setEditingProduct(product); setShowModal(true); }}>
                               <Edit className="h-4 w-4" />
                             </Button>
@@ -653,6 +688,7 @@ export default function Products() {
                           onSort={handleSort} 
                         />
                       </th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">過敏原</th>
                       <th className="text-left p-4 font-medium text-muted-foreground">操作</th>
                     </tr>
                   </thead>
@@ -696,9 +732,20 @@ export default function Products() {
                             {product.profitMargin?.toFixed(1) || "0"}%
                           </Badge>
                         </td>
+                        <td className="p-4">
+                          <AllergenBadges summary={allergensByProduct.get(product.id)!} />
+                        </td>
                         <td className="p-4">
                           <div className="flex space-x-2">
 
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSnapshotProduct(product)}
+                              title="成本快照"
+                            >
+                              <LineChart className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -759,6 +806,27 @@ export default function Products() {
         onOpenChange={setShowModal}
         product={editingProduct}
       />
+
+      <CostSnapshotModal
+        open={!!snapshotProduct}
+        onOpenChange={(open) => !open && setSnapshotProduct(null)}
+        productType="product"
+        productId={snapshotProduct?.id ?? 0}
+        productName={snapshotProduct?.name ?? ""}
+      />
+
+      <RepriceModal
+        open={showReprice}
+        onOpenChange={setShowReprice}
+        defaultTargetMargin={settings?.profitMargin?.highThreshold}
+      />
+
+      <AuditLogModal
+        open={showAuditLog}
+        onOpenChange={setShowAuditLog}
+        title="產品"
+        entityTypes={["product", "product_category"]}
+      />
     </div>
   );
 }
@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Search, Upload, Download, Plus, Edit, Trash2, Copy, ArrowUpDown } from "lucide-react";
+import { Search, Upload, Download, Plus, Edit, Trash2, Copy, ArrowUpDown, History, Scale } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { formatNumber } from "@/lib/utils";
@@ -15,13 +15,20 @@ import { DraggableList } from "@/components/ui/draggable-list";
 import { CategoryManagement } from "@/components/category-management";
 
 import RecipeModal from "@/components/modals/recipe-modal";
-import type { RecipeWithIngredients, Material } from "@shared/schema";
+import AuditLogModal from "@/components/modals/audit-log-modal";
+import RecipeScaleModal from "@/components/modals/recipe-scale-modal";
+import AllergenBadges, { AllergenFilter } from "@/components/common/allergen-badges";
+import type { RecipeWithIngredients, Material, Allergen } from "@shared/schema";
+import { recipeAllergens, isFreeOfAllergen } from "@shared/allergens";
 
 export default function Recipes() {
   const [search, setSearch] = useState("");
   const [category, setCategory] = useState("all");
+  const [allergenFilter, setAllergenFilter] = useState<Allergen | "all">("all");
   const [showModal, setShowModal] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
   const [editingRecipe, setEditingRecipe] = useState<RecipeWithIngredients | null>(null);
+  const [scalingRecipe, setScalingRecipe] = useState<RecipeWithIngredients | null>(null);
   const [sortBy, setSortBy] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
   const [isDragSortMode, setIsDragSortMode] = useState(false);
@@ -50,13 +57,21 @@ export default function Recipes() {
     }
   }, [recipes.length, recipeCategories.length]);
 
+  // 配方過敏原（含子配方）
+  const allergensByRecipe = useMemo(
+    () => new Map(recipes.map(recipe => [recipe.id, recipeAllergens(recipe)] as const)),
+    [recipes]
+  );
+
   const filteredRecipes = useMemo(() => {
     let filtered = recipes.filter((recipe: RecipeWithIngredients) => {
       const matchesSearch = !search || 
         recipe.name.toLowerCase().includes(search.toLowerCase()) ||
         recipe.category.toLowerCase().includes(search.toLowerCase());
       const matchesCategory = category === "all" || recipe.category === category;
-      return matchesSearch && matchesCategory;
+      const matchesAllergen = allergenFilter === "all" ||
+        isFreeOfAllergen(allergensByRecipe.get(recipe.id)!, allergenFilter);
+      return matchesSearch && matchesCategory && matchesAllergen;
     });
 
     if (sortBy) {
@@ -106,7 +121,7 @@ export default function Recipes() {
     }
 
     return filtered;
-  }, [recipes, search, category, sortBy, sortOrder]);
+  }, [recipes, search, category, allergenFilter, allergensByRecipe, sortBy, sortOrder]);
 
   const handleDragSortToggle = () => {
     if (!isDragSortMode) {
@@ -317,6 +332,11 @@ export default function Recipes() {
             <span className="hidden sm:inline">{isDragSortMode ? "完成排序" : "拖拽排序"}</span>
             <span className="sm:hidden">{isDragSortMode ? "完成" : "排序"}</span>
           </Button>
+          <Button variant="outline" size="sm" onClick={() => setShowAuditLog(true)}>
+            <History className="mr-2 h-4 w-4" />
+            <span className="hidden sm:inline">異動紀錄</span>
+            <span className="sm:hidden">紀錄</span>
+          </Button>
           <CategoryManagement 
             apiEndpoint="/api/recipe-categories" 
             categoryLabel="配方"
@@ -385,7 +405,7 @@ export default function Recipes() {
       {/* 搜尋與篩選 */}
       <Card className="mb-6">
         <CardContent className="p-4">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div className="relative">
               <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
@@ -420,7 +440,8 @@ export default function Recipes() {
                 <SelectItem value="200+">NT$ 200+</SelectItem>
               </SelectContent>
             </Select>
-            <Button variant="outline" onClick={() => { setSearch(""); setCategory(""); }}>
+            <AllergenFilter value={allergenFilter} onValueChange={setAllergenFilter} />
+            <Button variant="outline" onClick={() => { setSearch(""); setCategory(""); setAllergenFilter("all"); }}>
               清除篩選
             </Button>
           </div>
@@ -440,7 +461,7 @@ export default function Recipes() {
             <div className="text-center py-8">載入中...</div>
           ) : displayRecipes.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
-              {search || category !== "all" ? "無符合條件的配方" : "尚無配方資料，請新增第一個配方"}
+              {search || category !== "all" || allergenFilter !== "all" ? "無符合條件的配方" : "尚無配方資料，請新增第一個配方"}
             </div>
           ) : (
             <>
@@ -475,7 +496,7 @@ export default function Recipes() {
                         <div className="w-20 flex-shrink-0 px-4 text-center">
                           NT$ {recipe.costPerPortion?.toFixed(0) || "0"}
                         </div>
-                        <div className="w-24 flex-shrink-0">
+                        <div className="w-32 flex-shrink-0">
                           <div className="flex space-x-1">
                             <Button variant="ghost" size="sm" onClick={() => handleEdit(recipe)}>
                               <Edit className="h-4 w-4" />
@@ -483,6 +504,9 @@ export default function Recipes() {
                             <Button variant="ghost" size="sm" onClick={() => handleCopy(recipe)}>
                               <Copy className="h-4 w-4" />
                             </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setScalingRecipe(recipe)}>
+                              <Scale className="h-4 w-4" />
+                            </Button>
                             <Button variant="ghost" size="sm" onClick={() => handleDelete(recipe)}>
                               <Trash2 className="h-4 w-4" />
                             </Button>
@@ -549,6 +573,7 @@ export default function Recipes() {
                             onSort={handleSort} 
                           />
                         </th>
+                        <th className="text-left p-4 text-sm font-medium text-muted-foreground">過敏原</th>
                         <th className="text-left p-4 text-sm font-medium text-muted-foreground">操作</th>
                       </tr>
                     </thead>
@@ -574,6 +599,9 @@ export default function Recipes() {
                         <td className="p-4 font-medium text-green-600">
                           NT$ {formatNumber(recipe.costPerPortion || 0)}
                         </td>
+                        <td className="p-4">
+                          <AllergenBadges summary={allergensByRecipe.get(recipe.id)!} />
+                        </td>
                         <td className="p-4">
                           <div className="flex space-x-2">
 
@@ -593,6 +621,14 @@ export default function Recipes() {
                             >
                               <Copy className="h-4 w-4" />
                             </Button>
+                            <Button 
+                              variant="ghost" 
+                              size="sm" 
+                              title="批量換算"
+                              onClick={() => setScalingRecipe(recipe)}
+                            >
+                              <Scale className="h-4 w-4" />
+                            </Button>
                             <Button 
                               variant="ghost" 
                               size="sm" 
@@ -625,6 +661,21 @@ export default function Recipes() {
         }}
         recipe={editingRecipe}
       />
+
+      <AuditLogModal
+        open={showAuditLog}
+        onOpenChange={setShowAuditLog}
+        title="配方"
+        entityTypes={["recipe", "recipe_category"]}
+      />
+
+      <RecipeScaleModal
+        open={scalingRecipe !== null}
+        onOpenChange={(open) => {
+          if (!open) setScalingRecipe(null);
+        }}
+        recipe={scalingRecipe}
+      />
     </div>
   );
 }
@@ -5,19 +5,31 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { Settings as SettingsIcon, User, Lock, LogOut, Save } from "lucide-react";
+import { Settings as SettingsIcon, User, Lock, LogOut, Save, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useLocation } from "wouter";
+import { useAuth, roleLabels } from "@/hooks/use-auth";
+import UserManagement from "@/components/user-management";
+import { ZERO_OPERATING_COST_RATES, type OperatingCostRates } from "@shared/costEngine";
+import { DEFAULT_PRICE_ROUNDING_STEP } from "@shared/pricing";
 
 interface ProfitMarginSettings {
   lowThreshold: number;
   highThreshold: number;
+  priceRoundingStep?: number; // 建議售價進位級距（元）
+}
+
+interface SystemSettings {
+  profitMargin: ProfitMarginSettings;
+  operatingCosts?: OperatingCostRates;
+  priceRoundingStep?: number;
 }
 
 export default function Settings() {
   const [_, setLocation] = useLocation();
   const { toast } = useToast();
+  const { user, role, isOwner, canViewCosts } = useAuth();
   const [passwordData, setPasswordData] = useState({
     currentPassword: "",
     newPassword: "",
@@ -25,17 +37,26 @@ export default function Settings() {
   });
   const [profitMarginData, setProfitMarginData] = useState<ProfitMarginSettings>({
     lowThreshold: 20,
-    highThreshold: 40
+    highThreshold: 40,
+    priceRoundingStep: DEFAULT_PRICE_ROUNDING_STEP
   });
 
-  const { data: settings } = useQuery({
+  const [operatingCostData, setOperatingCostData] = useState<OperatingCostRates>(ZERO_OPERATING_COST_RATES);
+
+  const { data: settings } = useQuery<SystemSettings>({
     queryKey: ["/api/settings"]
   });
 
   // 當設定資料載入時更新狀態
   useEffect(() => {
     if (settings?.profitMargin) {
-      setProfitMarginData(settings.profitMargin);
+      setProfitMarginData({
+        ...settings.profitMargin,
+        priceRoundingStep: settings.priceRoundingStep ?? DEFAULT_PRICE_ROUNDING_STEP
+      });
+    }
+    if (settings?.operatingCosts) {
+      setOperatingCostData(settings.operatingCosts);
     }
   }, [settings]);
 
@@ -62,10 +83,28 @@ export default function Settings() {
       toast({ title: "利潤率設定已保存" });
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
     },
-    onError: (error: any) => {
+    onError: () => {
       toast({ 
         title: "保存失敗", 
-        description: error.message,
+        description: "請確認門檻值與售價級距設定",
+        variant: "destructive" 
+      });
+    },
+  });
+
+  const updateOperatingCostMutation = useMutation({
+    mutationFn: (data: OperatingCostRates) =>
+      apiRequest("PUT", "/api/settings/operating-costs", data),
+    onSuccess: () => {
+      toast({ title: "人工與固定費用設定已保存" });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-products"] });
+    },
+    onError: () => {
+      toast({ 
+        title: "保存失敗", 
+        description: "費用設定需為 0 以上的數字",
         variant: "destructive" 
       });
     },
@@ -145,11 +184,11 @@ export default function Settings() {
           <div className="space-y-4">
             <div>
               <Label>帳號名稱</Label>
-              <Input value="admin" disabled className="mt-1" />
+              <Input value={user?.displayName ? `${user.username}（${user.displayName}）` : user?.username ?? ""} disabled className="mt-1" />
             </div>
             <div>
               <Label>權限等級</Label>
-              <Input value="系統管理員" disabled className="mt-1" />
+              <Input value={role ? roleLabels[role] : ""} disabled className="mt-1" />
             </div>
           </div>
         </CardContent>
@@ -206,78 +245,185 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* 使用者管理（僅擁有者） */}
+      {isOwner && <UserManagement currentUsername={user?.username ?? null} />}
+
       {/* 利潤率設定 */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center">
-            <SettingsIcon className="mr-2 h-5 w-5" />
-            利潤率顏色指標設定
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleProfitMarginSubmit} className="space-y-4">
-            <div>
-              <Label htmlFor="low-threshold">低利潤率門檻 (%)</Label>
-              <Input
-                id="low-threshold"
-                type="number"
-                step="0.1"
-                min="0"
-                max="100"
-                placeholder="例如：20"
-                value={profitMarginData.lowThreshold}
-                onChange={(e) => setProfitMarginData({ 
-                  ...profitMarginData, 
-                  lowThreshold: parseFloat(e.target.value) || 0 
-                })}
-                disabled={updateProfitMarginMutation.isPending}
-              />
-              <p className="text-sm text-muted-foreground mt-1">低於此值顯示紅色</p>
-            </div>
-            <div>
-              <Label htmlFor="high-threshold">高利潤率門檻 (%)</Label>
-              <Input
-                id="high-threshold"
-                type="number"
-                step="0.1"
-                min="0"
-                max="100"
-                placeholder="例如：40"
-                value={profitMarginData.highThreshold}
-                onChange={(e) => setProfitMarginData({ 
-                  ...profitMarginData, 
-                  highThreshold: parseFloat(e.target.value) || 0 
-                })}
-                disabled={updateProfitMarginMutation.isPending}
-              />
-              <p className="text-sm text-muted-foreground mt-1">高於此值顯示綠色，中間範圍顯示黃色</p>
-            </div>
-            
-            <div className="p-4 bg-muted rounded-lg">
-              <h4 className="font-medium mb-2">顏色預覽</h4>
-              <div className="flex items-center space-x-4 text-sm">
-                <div className="flex items-center">
-                  <div className="w-4 h-4 bg-red-500 rounded mr-2"></div>
-                  <span>&lt; {profitMarginData.lowThreshold}%</span>
+      {canViewCosts && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <SettingsIcon className="mr-2 h-5 w-5" />
+              利潤率顏色指標設定
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleProfitMarginSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="low-threshold">低利潤率門檻 (%)</Label>
+                <Input
+                  id="low-threshold"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="100"
+                  placeholder="例如：20"
+                  value={profitMarginData.lowThreshold}
+                  onChange={(e) => setProfitMarginData({ 
+                    ...profitMarginData, 
+                    lowThreshold: parseFloat(e.target.value) || 0 
+                  })}
+                  disabled={updateProfitMarginMutation.isPending}
+                />
+                <p className="text-sm text-muted-foreground mt-1">低於此值顯示紅色</p>
+              </div>
+              <div>
+                <Label htmlFor="high-threshold">高利潤率門檻 (%)</Label>
+                <Input
+                  id="high-threshold"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="100"
+                  placeholder="例如：40"
+                  value={profitMarginData.highThreshold}
+                  onChange={(e) => setProfitMarginData({ 
+                    ...profitMarginData, 
+                    highThreshold: parseFloat(e.target.value) || 0 
+                  })}
+                  disabled={updateProfitMarginMutation.isPending}
+                />
+                <p className="text-sm text-muted-foreground mt-1">高於此值顯示綠色，中間範圍顯示黃色</p>
+              </div>
+              <div>
+                <Label htmlFor="price-rounding-step">建議售價級距 (NT$)</Label>
+                <Input
+                  id="price-rounding-step"
+                  type="number"
+                  step="1"
+                  min="1"
+                  placeholder="例如：5"
+                  value={profitMarginData.priceRoundingStep ?? DEFAULT_PRICE_ROUNDING_STEP}
+                  onChange={(e) => setProfitMarginData({ 
+                    ...profitMarginData, 
+                    priceRoundingStep: Math.max(1, parseInt(e.target.value) || 1)
+                  })}
+                  disabled={updateProfitMarginMutation.isPending}
+                />
+                <p className="text-sm text-muted-foreground mt-1">建議售價無條件進位至此倍數，例如 5 表示尾數為 0 或 5</p>
+              </div>
+              
+              <div className="p-4 bg-muted rounded-lg">
+                <h4 className="font-medium mb-2">顏色預覽</h4>
+                <div className="flex items-center space-x-4 text-sm">
+                  <div className="flex items-center">
+                    <div className="w-4 h-4 bg-red-500 rounded mr-2"></div>
+                    <span>&lt; {profitMarginData.lowThreshold}%</span>
+                  </div>
+                  <div className="flex items-center">
+                    <div className="w-4 h-4 bg-yellow-500 rounded mr-2"></div>
+                    <span>{profitMarginData.lowThreshold}% - {profitMarginData.highThreshold}%</span>
+                  </div>
+                  <div className="flex items-center">
+                    <div className="w-4 h-4 bg-green-500 rounded mr-2"></div>
+                    <span>&gt; {profitMarginData.highThreshold}%</span>
+                  </div>
+                </div>
+              </div>
+
+              <Button type="submit" disabled={updateProfitMarginMutation.isPending}>
+                <Save className="mr-2 h-4 w-4" />
+                {updateProfitMarginMutation.isPending ? "保存中..." : "保存設定"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 人工與固定費用設定 */}
+      {canViewCosts && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Clock className="mr-2 h-5 w-5" />
+              人工與固定費用設定
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                updateOperatingCostMutation.mutate(operatingCostData);
+              }}
+              className="space-y-4"
+            >
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="labour-hourly-wage">人工時薪 (元)</Label>
+                  <Input
+                    id="labour-hourly-wage"
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={operatingCostData.labourHourlyWage}
+                    onChange={(e) => setOperatingCostData({ ...operatingCostData, labourHourlyWage: parseFloat(e.target.value) || 0 })}
+                    disabled={updateOperatingCostMutation.isPending}
+                  />
+                  <p className="text-sm text-muted-foreground mt-1">依配方製作工時計入商品成本</p>
+                </div>
+                <div>
+                  <Label htmlFor="oven-cost-per-hour">烤箱每小時能源費 (元)</Label>
+                  <Input
+                    id="oven-cost-per-hour"
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={operatingCostData.ovenCostPerHour}
+                    onChange={(e) => setOperatingCostData({ ...operatingCostData, ovenCostPerHour: parseFloat(e.target.value) || 0 })}
+                    disabled={updateOperatingCostMutation.isPending}
+                  />
+                  <p className="text-sm text-muted-foreground mt-1">依配方烘烤時間計入商品成本</p>
                 </div>
-                <div className="flex items-center">
-                  <div className="w-4 h-4 bg-yellow-500 rounded mr-2"></div>
-                  <span>{profitMarginData.lowThreshold}% - {profitMarginData.highThreshold}%</span>
+                <div>
+                  <Label htmlFor="monthly-overhead">每月固定費用 (元)</Label>
+                  <Input
+                    id="monthly-overhead"
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={operatingCostData.monthlyOverhead}
+                    onChange={(e) => setOperatingCostData({ ...operatingCostData, monthlyOverhead: parseFloat(e.target.value) || 0 })}
+                    disabled={updateOperatingCostMutation.isPending}
+                  />
+                  <p className="text-sm text-muted-foreground mt-1">租金、水電等不隨產量變動的費用</p>
                 </div>
-                <div className="flex items-center">
-                  <div className="w-4 h-4 bg-green-500 rounded mr-2"></div>
-                  <span>&gt; {profitMarginData.highThreshold}%</span>
+                <div>
+                  <Label htmlFor="monthly-production-units">每月預估生產件數</Label>
+                  <Input
+                    id="monthly-production-units"
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={operatingCostData.monthlyProductionUnits}
+                    onChange={(e) => setOperatingCostData({ ...operatingCostData, monthlyProductionUnits: parseInt(e.target.value) || 0 })}
+                    disabled={updateOperatingCostMutation.isPending}
+                  />
+                  <p className="text-sm text-muted-foreground mt-1">
+                    每件商品攤提 NT$ {operatingCostData.monthlyProductionUnits > 0
+                      ? (operatingCostData.monthlyOverhead / operatingCostData.monthlyProductionUnits).toFixed(2)
+                      : "0.00"}
+                  </p>
                 </div>
               </div>
-            </div>
 
-            <Button type="submit" disabled={updateProfitMarginMutation.isPending}>
-              <Save className="mr-2 h-4 w-4" />
-              {updateProfitMarginMutation.isPending ? "保存中..." : "保存設定"}
-            </Button>
-          </form>
-        </CardContent>
-      </Card>
+              <Button type="submit" disabled={updateOperatingCostMutation.isPending}>
+                <Save className="mr-2 h-4 w-4" />
+                {updateOperatingCostMutation.isPending ? "保存中..." : "保存設定"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
\ No newline at end of file
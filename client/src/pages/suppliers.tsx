@@ -0,0 +1,212 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Edit, Trash2, Truck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import SupplierModal from "@/components/modals/supplier-modal";
+import type { Supplier, SupplierPriceWithDetails } from "@shared/schema";
+
+export default function Suppliers() {
+  const { toast } = useToast();
+  const { canViewCosts } = useAuth();
+  const [selectedSupplierId, setSelectedSupplierId] = useState<number | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+
+  const { data: suppliers = [], isLoading } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  useEffect(() => {
+    if (suppliers.length > 0 && !suppliers.some(supplier => supplier.id === selectedSupplierId)) {
+      setSelectedSupplierId(suppliers[0].id);
+    }
+  }, [suppliers, selectedSupplierId]);
+
+  const selectedSupplier = suppliers.find(supplier => supplier.id === selectedSupplierId) ?? null;
+
+  const { data: prices = [] } = useQuery<SupplierPriceWithDetails[]>({
+    queryKey: ["/api/supplier-prices", "supplier", selectedSupplierId],
+    queryFn: () => apiRequest("GET", `/api/suppliers/${selectedSupplierId}/prices`),
+    enabled: selectedSupplierId !== null,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/suppliers/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplier-prices"] });
+      toast({ title: "供應商已刪除" });
+    },
+    onError: () => {
+      toast({ title: "刪除失敗", variant: "destructive" });
+    },
+  });
+
+  const handleDelete = (supplier: Supplier) => {
+    if (confirm(`確定要刪除供應商「${supplier.name}」嗎？其所有報價將一併刪除。`)) {
+      deleteMutation.mutate(supplier.id);
+    }
+  };
+
+  const materialPrices = prices.filter(line => line.itemType === "material");
+  const packagingPrices = prices.filter(line => line.itemType === "packaging");
+
+  const renderPriceTable = (lines: SupplierPriceWithDetails[], priceLabel: string) => (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left">
+          <th className="p-2">項目</th>
+          <th className="p-2 text-right">{priceLabel}</th>
+          <th className="p-2">備註</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lines.map(line => (
+          <tr key={line.id} className="border-b">
+            <td className="p-2">
+              {line.itemName ?? `#${line.itemId}`}
+              {line.isPreferred && <Badge className="ml-2">採用中</Badge>}
+            </td>
+            <td className="p-2 text-right">{canViewCosts ? parseFloat(line.price).toFixed(4) : "-"}</td>
+            <td className="p-2 text-muted-foreground">{line.notes}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
+        <div className="mb-4 sm:mb-0">
+          <h2 className="text-2xl font-bold text-foreground mb-2">供應商</h2>
+          <p className="text-muted-foreground">
+            管理供應商資料，並於原料與包材頁面比較各家報價
+          </p>
+        </div>
+        <Button onClick={() => { setEditingSupplier(null); setShowModal(true); }}>
+          <Plus className="mr-2 h-4 w-4" />
+          新增供應商
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Truck className="mr-2 h-5 w-5" />
+              供應商清單
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">載入中...</div>
+            ) : suppliers.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">尚未建立供應商</div>
+            ) : (
+              suppliers.map(supplier => (
+                <div
+                  key={supplier.id}
+                  className={cn(
+                    "p-3 border rounded-lg cursor-pointer hover:bg-muted/50",
+                    supplier.id === selectedSupplierId && "border-primary bg-muted/50"
+                  )}
+                  onClick={() => setSelectedSupplierId(supplier.id)}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{supplier.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {supplier.contactName || "未填聯絡人"}
+                        {supplier.leadTimeDays !== null && ` · ${supplier.leadTimeDays} 天到貨`}
+                      </div>
+                    </div>
+                    <div className="flex">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="編輯供應商"
+                        onClick={(e) => { e.stopPropagation(); setEditingSupplier(supplier); setShowModal(true); }}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="刪除供應商"
+                        onClick={(e) => { e.stopPropagation(); handleDelete(supplier); }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedSupplier && (
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>{selectedSupplier.name}</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                <div><span className="text-muted-foreground">聯絡人：</span>{selectedSupplier.contactName || "-"}</div>
+                <div><span className="text-muted-foreground">電話：</span>{selectedSupplier.phone || "-"}</div>
+                <div><span className="text-muted-foreground">Email：</span>{selectedSupplier.email || "-"}</div>
+                <div>
+                  <span className="text-muted-foreground">到貨天數：</span>
+                  {selectedSupplier.leadTimeDays !== null ? `${selectedSupplier.leadTimeDays} 天` : "-"}
+                </div>
+                {selectedSupplier.notes && (
+                  <div className="md:col-span-2 text-muted-foreground">{selectedSupplier.notes}</div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>供應原料</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {materialPrices.length === 0
+                  ? <div className="text-center py-6 text-muted-foreground">尚無原料報價</div>
+                  : renderPriceTable(materialPrices, "每克進價 (元)")}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>供應包材</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {packagingPrices.length === 0
+                  ? <div className="text-center py-6 text-muted-foreground">尚無包材報價</div>
+                  : renderPriceTable(packagingPrices, "單位進價 (元)")}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+
+      <SupplierModal
+        open={showModal}
+        onOpenChange={(open) => {
+          setShowModal(open);
+          if (!open) {
+            setEditingSupplier(null);
+          }
+        }}
+        supplier={editingSupplier}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import {
+  AUDIT_ENTITY_LABELS,
+  type AuditAction,
+  type AuditEntityType,
+  type InsertAuditLog,
+  type RecipeWithIngredients,
+  type ProductWithDetails,
+  type CustomProductWithDetails,
+} from "@shared/schema";
+import { getRequestUser } from "./requestContext";
+
+type Snapshot = Record<string, unknown>;
+
+// 時間戳記每次更新都會變動，不列入變更欄位
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+const actionLabels: Record<AuditAction, string> = {
+  CREATE: "新增",
+  UPDATE: "更新",
+  DELETE: "刪除",
+};
+
+// 配方快照：配方欄位加上原料與子配方明細（不含計算後的成本）
+export function recipeAuditSnapshot(recipe: RecipeWithIngredients): Snapshot {
+  const { ingredients, subRecipes = [], totalCost, costPerPortion, costPerGram, costBreakdown, ...fields } = recipe;
+  return {
+    ...fields,
+    ingredients: ingredients.map(ing => ({
+      materialId: ing.materialId,
+      materialName: ing.material?.name,
+      quantity: ing.quantity,
+      unit: ing.unit,
+      unitQuantity: ing.unitQuantity,
+      wasteRate: ing.wasteRate,
+    })),
+    subRecipes: subRecipes.map(sr => ({
+      recipeId: sr.subRecipeId,
+      recipeName: sr.subRecipe?.name,
+      quantity: sr.quantity,
+      unit: sr.unit,
+    })),
+  };
+}
+
+export function productAuditSnapshot(product: ProductWithDetails): Snapshot {
+  const { recipes, packaging, totalCost, managementFee, adjustedCost, profit, profitMargin, costBreakdown, ...fields } = product;
+  return {
+    ...fields,
+    recipes: recipes.map(pr => ({
+      recipeId: pr.recipeId,
+      recipeName: pr.recipe?.name,
+      quantity: pr.quantity,
+      unit: pr.unit,
+    })),
+    packaging: packaging.map(pp => ({
+      packagingId: pp.packagingId,
+      packagingName: pp.packaging?.name,
+      quantity: pp.quantity,
+    })),
+  };
+}
+
+export function customProductAuditSnapshot(customProduct: CustomProductWithDetails): Snapshot {
+  const { items, packaging, totalCost, managementFee, adjustedCost, profit, profitMargin, costBreakdown, ...fields } = customProduct;
+  return {
+    ...fields,
+    items: items.map(item => ({
+      productId: item.productId,
+      productName: item.product?.name,
+      quantity: item.quantity,
+    })),
+    packaging: packaging.map(pp => ({
+      packagingId: pp.packagingId,
+      packagingName: pp.packaging?.name,
+      quantity: pp.quantity,
+    })),
+  };
+}
+
+// 比較前後快照，回傳值有變動的欄位
+export function diffAuditFields(previousData: Snapshot | null, newData: Snapshot | null): string[] {
+  if (!previousData || !newData) return [];
+  const keys = new Set([...Object.keys(previousData), ...Object.keys(newData)]);
+  return Array.from(keys).filter(key =>
+    !IGNORED_FIELDS.has(key) && JSON.stringify(previousData[key]) !== JSON.stringify(newData[key])
+  );
+}
+
+interface AuditEntryInput {
+  entityType: AuditEntityType;
+  entityId: number;
+  entityName?: string | null;
+  action: AuditAction;
+  previousData?: object | null;
+  newData?: object | null;
+}
+
+// 建立異動紀錄；更新時若沒有任何欄位變動則回傳 null
+export function buildAuditEntry({
+  entityType,
+  entityId,
+  entityName,
+  action,
+  previousData = null,
+  newData = null,
+}: AuditEntryInput): InsertAuditLog | null {
+  const changedFields = action === "UPDATE"
+    ? diffAuditFields(previousData as Snapshot | null, newData as Snapshot | null)
+    : [];
+  if (action === "UPDATE" && changedFields.length === 0) return null;
+
+  const user = getRequestUser();
+  const label = `${actionLabels[action]}${AUDIT_ENTITY_LABELS[entityType]}`;
+
+  return {
+    entityType,
+    entityId,
+    entityName: entityName ?? null,
+    action,
+    previousData,
+    newData,
+    changedFields,
+    changeDescription: action === "UPDATE" ? `${label}: ${changedFields.join(", ")}` : label,
+    userId: user?.id ?? null,
+    username: user?.username ?? null,
+  };
+}
@@ -0,0 +1,144 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { runWithRequestUser } from "./requestContext";
+import type { User, PublicUser, UserRole } from "@shared/schema";
+
+// 登入後存放在 session 中的使用者資訊
+export interface SessionUser {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+// 檢視者不可看到的成本與利潤欄位
+const SENSITIVE_FIELDS = new Set([
+  "pricePerGram",
+  "purchaseAmount",
+  "managementFeeRate",
+  "unitCost",
+  "totalCost",
+  "costPerPortion",
+  "costPerGram",
+  "managementFee",
+  "adjustedCost",
+  "profit",
+  "profitMargin",
+  "costBreakdown",
+  "averageProfitMargin",
+  "cost",
+  "materialCost",
+  "packagingCost",
+  "price",
+  "labourCost",
+  "energyCost",
+  "overheadCost",
+  "operatingCosts",
+]);
+
+// 檢視者仍可使用的非 GET 端點（僅計算、不寫入）
+const VIEWER_ALLOWED_WRITES = ["/nutrition-labels/calculate"];
+
+// 檢視者不可使用的唯讀端點（匯出檔或價格紀錄）
+const VIEWER_BLOCKED_PATTERNS = [
+  /^\/backup/,
+  /\/export$/,
+  /\/price-history$/,
+  /\/purchases$/,
+  /\/price-at$/,
+  /^\/cost-snapshots/,
+  /\/price-suggestion$/,
+  /^\/pricing/,
+];
+
+// 僅擁有者可使用的還原端點
+const RESTORE_PATHS = ["/backup/restore", "/restore"];
+
+export function getSessionUser(req: Request): SessionUser | undefined {
+  return (req.session as any)?.user;
+}
+
+export function setSessionUser(req: Request, user: User): void {
+  (req.session as any).authenticated = true;
+  (req.session as any).user = {
+    id: user.id,
+    username: user.username,
+    role: user.role as UserRole,
+  } satisfies SessionUser;
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+// 遞迴移除回應中的成本與利潤欄位
+export function redactSensitiveFields<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => redactSensitiveFields(item)) as T;
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !SENSITIVE_FIELDS.has(key))
+        .map(([key, item]) => [key, redactSensitiveFields(item)])
+    ) as T;
+  }
+  return value;
+}
+
+function isAllowed(role: UserRole, method: string, path: string): boolean {
+  if (role === "owner") return true;
+  if (path.startsWith("/users")) return false;
+  if (method === "DELETE" || RESTORE_PATHS.includes(path)) return false;
+  if (role === "editor") return true;
+
+  if (VIEWER_BLOCKED_PATTERNS.some(pattern => pattern.test(path))) return false;
+  return method === "GET" || VIEWER_ALLOWED_WRITES.includes(path);
+}
+
+// 未登入也可使用的端點
+const PUBLIC_PATHS = ["/auth/login", "/auth/check", "/auth/logout"];
+
+// 除登入相關端點外，所有 API 皆須登入（掛載於 /api，路徑不含 /api 前綴）
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (PUBLIC_PATHS.includes(req.path) || getSessionUser(req)) return next();
+  res.status(401).json({ message: "請先登入" });
+}
+
+// 依角色限制 API 權限（須在 requireAuth 之後）
+export async function authorize(req: Request, res: Response, next: NextFunction) {
+  if (req.path.startsWith("/auth")) return next();
+
+  const sessionUser = getSessionUser(req);
+  if (!sessionUser) return res.status(401).json({ message: "請先登入" });
+
+  try {
+    // 每次請求重新讀取帳號，停用或角色變更即時生效
+    const user = await storage.getUser(sessionUser.id);
+    if (!user || !user.isActive) {
+      return req.session.destroy(() => {
+        res.status(401).json({ message: "帳號已停用" });
+      });
+    }
+
+    const role = user.role as UserRole;
+    if (role !== sessionUser.role) {
+      setSessionUser(req, user);
+    }
+
+    if (!isAllowed(role, req.method, req.path)) {
+      return res.status(403).json({ message: "權限不足" });
+    }
+
+    if (role === "viewer") {
+      const originalJson = res.json.bind(res);
+      res.json = (body: any) => originalJson(redactSensitiveFields(body));
+    }
+
+    // 後續的儲存層操作可取得目前使用者（異動紀錄用）
+    runWithRequestUser({ id: user.id, username: user.username }, next);
+  } catch (error) {
+    console.error("Authorization error:", error);
+    res.status(500).json({ message: "權限檢查失敗" });
+  }
+}
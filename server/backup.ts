@@ -2,6 +2,7 @@ import { storage } from "./storage";
 import * as fs from "fs/promises";
 import * as path from "path";
 import { log } from "./vite";
+import { setOperatingCostRates, operatingCostRatesFromSettings } from "./operatingCosts";
 
 // 備份目錄設定
 const BACKUP_DIR = path.join(process.cwd(), "backups");
@@ -283,7 +284,7 @@ export async function restoreFromBackup(backupPath: string): Promise<{
       throw new Error("無效的備份檔案格式");
     }
 
-    const { materials = [], recipes = [], packaging = [], products = [], customProducts = [], nutritionFacts = [] } = backupData.data;
+    const { materials = [], recipes = [], packaging = [], products = [], customProducts = [], nutritionFacts = [], userSettings = [] } = backupData.data;
     
     let restoredCounts = {
       materials: 0,
@@ -305,14 +306,22 @@ export async function restoreFromBackup(backupPath: string): Promise<{
           await storage.updateMaterial(existing.id, {
             category: material.category,
             pricePerGram: material.pricePerGram,
-            notes: material.notes
+            notes: material.notes,
+            allergens: material.allergens,
+            mayContainAllergens: material.mayContainAllergens,
+            defaultUnit: material.defaultUnit,
+            unitConversions: material.unitConversions
           });
         } else {
           await storage.createMaterial({
             name: material.name,
             category: material.category,
             pricePerGram: material.pricePerGram,
-            notes: material.notes
+            notes: material.notes,
+            allergens: material.allergens,
+            mayContainAllergens: material.mayContainAllergens,
+            defaultUnit: material.defaultUnit,
+            unitConversions: material.unitConversions
           });
         }
         restoredCounts.materials++;
@@ -360,7 +369,10 @@ export async function restoreFromBackup(backupPath: string): Promise<{
           category: recipe.category,
           description: recipe.description,
           totalPortions: recipe.totalPortions,
-          totalWeight: recipe.totalWeight
+          totalWeight: recipe.totalWeight,
+          bakingLossRate: recipe.bakingLossRate,
+          prepMinutes: recipe.prepMinutes,
+          bakeMinutes: recipe.bakeMinutes
         };
 
         // 處理配方原料
@@ -373,7 +385,10 @@ export async function restoreFromBackup(backupPath: string): Promise<{
               ingredients.push({
                 materialId: material.id,
                 recipeId: 0, // 將在創建配方後設置
-                quantity: String(ingredient.quantity)
+                quantity: String(ingredient.quantity),
+                unit: ingredient.unit ?? "g",
+                unitQuantity: ingredient.unitQuantity ?? null,
+                wasteRate: ingredient.wasteRate ?? null,
               });
             }
           }
@@ -390,6 +405,23 @@ export async function restoreFromBackup(backupPath: string): Promise<{
       }
     }
 
+    // 所有配方還原後再依名稱建立子配方關聯
+    const restoredRecipes = await storage.getRecipes();
+    for (const recipe of recipes) {
+      if (!recipe.subRecipes || recipe.subRecipes.length === 0) continue;
+      try {
+        const parent = restoredRecipes.find(r => r.name === recipe.name);
+        if (!parent) continue;
+        const subRecipes = recipe.subRecipes.flatMap((sr: any) => {
+          const subRecipe = restoredRecipes.find(r => r.name === sr.subRecipe?.name);
+          return subRecipe ? [{ subRecipeId: subRecipe.id, quantity: String(sr.quantity), unit: sr.unit }] : [];
+        });
+        await storage.updateRecipe(parent.id, {}, undefined, subRecipes);
+      } catch (error) {
+        log(`Failed to restore sub-recipes of ${recipe.name}: ${error}`, "backup");
+      }
+    }
+
     // 還原商品
     log("Restoring products...", "backup");
     for (const product of products) {
@@ -523,6 +555,22 @@ export async function restoreFromBackup(backupPath: string): Promise<{
       }
     }
 
+    // 還原人工、能源與固定費用設定（舊備份沒有這些欄位時維持現值）
+    const adminSettings = userSettings.find((s: any) => s.username === "admin");
+    if (adminSettings) {
+      try {
+        const updated = await storage.updateUserSettings("admin", {
+          labourHourlyWage: adminSettings.labourHourlyWage,
+          ovenCostPerHour: adminSettings.ovenCostPerHour,
+          monthlyOverhead: adminSettings.monthlyOverhead,
+          monthlyProductionUnits: adminSettings.monthlyProductionUnits
+        });
+        setOperatingCostRates(operatingCostRatesFromSettings(updated));
+      } catch (error) {
+        log(`Failed to restore operating cost settings: ${error}`, "backup");
+      }
+    }
+
     const message = `還原完成：${restoredCounts.materials} 原料、${restoredCounts.recipes} 配方、${restoredCounts.packaging} 包裝、${restoredCounts.products} 商品、${restoredCounts.customProducts} 客制商品、${restoredCounts.nutritionFacts} 營養資料`;
     log(message, "backup");
 
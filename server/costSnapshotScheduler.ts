@@ -0,0 +1,30 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// 每小時檢查一次，當天（台灣時區）尚未建立每日快照時自動建立
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+function taiwanDate(date: Date): string {
+  const taiwanOffset = 8 * 60; // 台灣時區偏移量（分鐘）
+  const taiwanTime = new Date(date.getTime() + (taiwanOffset + date.getTimezoneOffset()) * 60000);
+  return taiwanTime.toISOString().split('T')[0];
+}
+
+export async function ensureDailyCostSnapshot(): Promise<void> {
+  try {
+    const latest = await storage.getLatestProductCostSnapshot("daily");
+    if (latest && taiwanDate(new Date(latest.createdAt)) === taiwanDate(new Date())) {
+      return;
+    }
+
+    const snapshots = await storage.createProductCostSnapshots("daily");
+    log(`Daily cost snapshot created for ${snapshots.length} products`, "cost-snapshot");
+  } catch (error) {
+    log(`Daily cost snapshot failed: ${error}`, "cost-snapshot");
+  }
+}
+
+export function startDailyCostSnapshotSchedule(): void {
+  ensureDailyCostSnapshot();
+  setInterval(ensureDailyCostSnapshot, CHECK_INTERVAL_MS).unref();
+}
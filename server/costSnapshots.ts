@@ -0,0 +1,34 @@
+import type {
+  ProductWithDetails,
+  CustomProductWithDetails,
+  InsertProductCostSnapshot,
+  CostSnapshotTrigger,
+} from "@shared/schema";
+
+// 將目前計算出的產品與客製商品成本轉為快照資料
+export function buildCostSnapshotRows(
+  productsList: ProductWithDetails[],
+  customProductsList: CustomProductWithDetails[],
+  trigger: CostSnapshotTrigger
+): InsertProductCostSnapshot[] {
+  const toRow = (
+    productType: InsertProductCostSnapshot["productType"],
+    item: ProductWithDetails | CustomProductWithDetails
+  ): InsertProductCostSnapshot => ({
+    productType,
+    productId: item.id,
+    productName: item.name,
+    totalCost: (item.totalCost ?? 0).toFixed(4),
+    managementFee: (item.managementFee ?? 0).toFixed(4),
+    adjustedCost: (item.adjustedCost ?? 0).toFixed(4),
+    sellingPrice: item.sellingPrice,
+    profit: (item.profit ?? 0).toFixed(4),
+    profitMargin: (item.profitMargin ?? 0).toFixed(2),
+    trigger,
+  });
+
+  return [
+    ...productsList.map(product => toRow("product", product)),
+    ...customProductsList.map(customProduct => toRow("custom_product", customProduct)),
+  ];
+}
@@ -5,11 +5,24 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+function connect() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  return { pool, db: drizzle({ client: pool, schema }) };
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+type Database = ReturnType<typeof connect>["db"];
+
+// 使用記憶體儲存時不建立資料庫連線池；此時存取 db 表示誤用，直接報錯
+const connection = process.env.STORAGE_BACKEND === "memory" ? null : connect();
+
+export const pool = connection?.pool ?? null;
+export const db: Database = connection?.db ?? new Proxy({} as Database, {
+  get() {
+    throw new Error("STORAGE_BACKEND=memory 時不可使用資料庫連線");
+  },
+});
@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startDailyCostSnapshotSchedule } from "./costSnapshotScheduler";
 // 移除定時自動備份，改為每日首次登入時自動備份
 
 const app = express();
@@ -81,5 +82,6 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
     log("Auto backup will be triggered on first daily login", "backup");
+    startDailyCostSnapshotSchedule();
   });
 })();
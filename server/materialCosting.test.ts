@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { deriveUnitCost, unitCostOf, pricePerGramFromUnitCost } from "./materialCosting";
+
+// 依進貨時間由新到舊：最新一筆每克 2 元，前一筆每克 1.6 元
+const purchases = [
+  { purchaseAmount: "1000", purchaseWeight: "500" },
+  { purchaseAmount: "800", purchaseWeight: "500" },
+];
+
+describe("deriveUnitCost", () => {
+  it("最新進價政策使用最新一筆進貨", () => {
+    expect(deriveUnitCost({ costingPolicy: "latest", costingWindow: null }, purchases)).toBeCloseTo(2);
+  });
+
+  it("加權平均以總金額除以總重量", () => {
+    expect(deriveUnitCost({ costingPolicy: "weighted_average", costingWindow: null }, purchases)).toBeCloseTo(1.8);
+  });
+
+  it("加權平均只計入最近 costingWindow 筆進貨", () => {
+    expect(deriveUnitCost({ costingPolicy: "weighted_average", costingWindow: 1 }, purchases)).toBeCloseTo(2);
+  });
+
+  it("移動平均以進貨前庫存價值加上本次進貨計算", () => {
+    const cost = deriveUnitCost(
+      { costingPolicy: "moving_average", costingWindow: null },
+      purchases,
+      { stockQuantity: 1500, pricePerGram: 1.6 }
+    );
+    expect(cost).toBeCloseTo((1500 * 1.6 + 1000) / 2000);
+  });
+
+  it("移動平均在無庫存時使用本次進價，未提供進貨前庫存時不重新計算", () => {
+    const material = { costingPolicy: "moving_average", costingWindow: null };
+    expect(deriveUnitCost(material, purchases, { stockQuantity: 0, pricePerGram: 1.6 })).toBeCloseTo(2);
+    expect(deriveUnitCost(material, purchases)).toBeNull();
+  });
+
+  it("沒有有效進貨紀錄時回傳 null", () => {
+    expect(deriveUnitCost({ costingPolicy: "latest", costingWindow: null }, [])).toBeNull();
+    expect(deriveUnitCost({ costingPolicy: "latest", costingWindow: null }, [{ purchaseAmount: "100", purchaseWeight: "0" }])).toBeNull();
+  });
+});
+
+describe("管理費換算", () => {
+  it("每克成本與含管理費單價可互相換算", () => {
+    expect(pricePerGramFromUnitCost(2, "10")).toBe("2.2000");
+    expect(unitCostOf({ pricePerGram: "2.2", managementFeeRate: "10" })).toBeCloseTo(2);
+  });
+});
@@ -0,0 +1,50 @@
+import type { Material, MaterialPurchase } from "@shared/schema";
+import { calculatePricePerGram, toNumber } from "@shared/costEngine";
+
+// 移動平均需要的進貨前庫存狀態
+export interface StockBeforePurchase {
+  stockQuantity: number;
+  pricePerGram: number; // 進貨前每克成本（未含管理費）
+}
+
+// 依原料成本政策計算每克成本（未含管理費）；無進貨紀錄或無法計算時回傳 null
+// purchases 需依進貨時間由新到舊排序
+export function deriveUnitCost(
+  material: Pick<Material, "costingPolicy" | "costingWindow">,
+  purchases: Pick<MaterialPurchase, "purchaseAmount" | "purchaseWeight">[],
+  stockBefore?: StockBeforePurchase
+): number | null {
+  const valid = purchases.filter(p => toNumber(p.purchaseWeight) > 0);
+  if (valid.length === 0) return null;
+  const [latest] = valid;
+  const latestCost = toNumber(latest.purchaseAmount) / toNumber(latest.purchaseWeight);
+
+  switch (material.costingPolicy) {
+    case "weighted_average": {
+      const window = material.costingWindow && material.costingWindow > 0 ? material.costingWindow : valid.length;
+      const recent = valid.slice(0, window);
+      const totalAmount = recent.reduce((sum, p) => sum + toNumber(p.purchaseAmount), 0);
+      const totalWeight = recent.reduce((sum, p) => sum + toNumber(p.purchaseWeight), 0);
+      return totalAmount / totalWeight;
+    }
+    case "moving_average": {
+      // 只能在新增進貨時以進貨前庫存計算；重新計算時沿用目前單價
+      if (!stockBefore) return null;
+      if (stockBefore.stockQuantity <= 0) return latestCost;
+      const totalValue = stockBefore.stockQuantity * stockBefore.pricePerGram + toNumber(latest.purchaseAmount);
+      return totalValue / (stockBefore.stockQuantity + toNumber(latest.purchaseWeight));
+    }
+    default:
+      return latestCost;
+  }
+}
+
+// 原料目前每克成本扣除管理費，作為移動平均的基準
+export function unitCostOf(material: Pick<Material, "pricePerGram" | "managementFeeRate">): number {
+  return toNumber(material.pricePerGram) / (1 + toNumber(material.managementFeeRate) / 100);
+}
+
+// 每克成本加計管理費後的每克單價
+export function pricePerGramFromUnitCost(unitCost: number, managementFeeRate: string | null): string {
+  return calculatePricePerGram(unitCost, 1, managementFeeRate).toFixed(4);
+}
@@ -0,0 +1,77 @@
+import type {
+  Material,
+  MaterialHistory,
+  MaterialPricePoint,
+  MaterialEffectivePrice,
+} from "@shared/schema";
+
+type MaterialSnapshot = Partial<Record<keyof Material, unknown>>;
+
+function parseNullableNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function snapshotPrice(snapshot: unknown): number | null {
+  if (!snapshot || typeof snapshot !== "object") return null;
+  return parseNullableNumber((snapshot as MaterialSnapshot).pricePerGram);
+}
+
+function byCreatedAtAsc(a: MaterialHistory, b: MaterialHistory): number {
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id;
+}
+
+// 依履歷快照建立價格時間軸（新增與更新時的 newData）
+export function buildPriceTimeline(history: MaterialHistory[]): MaterialPricePoint[] {
+  return [...history]
+    .sort(byCreatedAtAsc)
+    .flatMap(entry => {
+      if (entry.action === "DELETE") return [];
+      const snapshot = entry.newData as MaterialSnapshot | null;
+      const pricePerGram = snapshotPrice(snapshot);
+      if (!snapshot || pricePerGram === null) return [];
+
+      return [{
+        historyId: entry.id,
+        date: new Date(entry.createdAt).toISOString(),
+        action: entry.action,
+        pricePerGram,
+        purchaseAmount: parseNullableNumber(snapshot.purchaseAmount),
+        purchaseWeight: parseNullableNumber(snapshot.purchaseWeight),
+        purchaseLocation: typeof snapshot.purchaseLocation === "string" ? snapshot.purchaseLocation : null,
+      }];
+    });
+}
+
+// 取得原料在指定時間點的有效單價
+export function getEffectivePrice(material: Material, history: MaterialHistory[], at: Date): MaterialEffectivePrice {
+  const sorted = [...history].sort(byCreatedAtAsc);
+  const result = (pricePerGram: number | null, historyId: number | null): MaterialEffectivePrice => ({
+    materialId: material.id,
+    date: at.toISOString(),
+    pricePerGram,
+    historyId,
+  });
+
+  // 指定時間點之前最後一筆有價格的快照
+  const latestBefore = sorted
+    .filter(entry => entry.action !== "DELETE" && new Date(entry.createdAt).getTime() <= at.getTime())
+    .reverse()
+    .find(entry => snapshotPrice(entry.newData) !== null);
+  if (latestBefore) {
+    return result(snapshotPrice(latestBefore.newData), latestBefore.id);
+  }
+
+  if (new Date(material.createdAt).getTime() > at.getTime()) {
+    return result(null, null);
+  }
+
+  // 原料在履歷開始記錄前就已存在：使用第一筆更新前的價格
+  const firstUpdate = sorted.find(entry => snapshotPrice(entry.previousData) !== null);
+  if (firstUpdate) {
+    return result(snapshotPrice(firstUpdate.previousData), firstUpdate.id);
+  }
+
+  return result(parseFloat(material.pricePerGram), null);
+}
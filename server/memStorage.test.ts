@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MemStorage } from "./memStorage";
+
+const nutrients = (values: Record<string, number>) => ({
+  calories: "0", protein: "0", fat: "0", saturatedFat: "0", transFat: "0", carbohydrates: "0", sugar: "0", sodium: "0",
+  ...Object.fromEntries(Object.entries(values).map(([key, value]) => [key, String(value)])),
+});
+
+let storage: MemStorage;
+let flourId: number;
+let butterId: number;
+let boxId: number;
+
+// 麵粉 0.05 元/克、奶油 0.4 元/克；司康 500g 麵粉 + 200g 奶油 = 105 元，10 份共 700g
+async function createScone(overrides: Record<string, unknown> = {}) {
+  return storage.createRecipe(
+    { name: "原味司康", category: "點心", totalPortions: 10, totalWeight: "700", ...overrides } as any,
+    [
+      { recipeId: 0, materialId: flourId, quantity: "500" },
+      { recipeId: 0, materialId: butterId, quantity: "200" },
+    ] as any
+  );
+}
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  const flour = await storage.createMaterial({ name: "低筋麵粉", category: "粉類", pricePerGram: "0.05" } as any);
+  const butter = await storage.createMaterial({ name: "無鹽奶油", category: "乳製品", pricePerGram: "0.4" } as any);
+  const box = await storage.createPackaging({ name: "單入紙盒", type: "盒", unitCost: "5" } as any);
+  flourId = flour.id;
+  butterId = butter.id;
+  boxId = box.id;
+
+  await storage.createNutritionFacts({ materialId: flourId, ...nutrients({ calories: 364, protein: 10, fat: 1, carbohydrates: 76, sugar: 0.3, sodium: 2 }) });
+  await storage.createNutritionFacts({ materialId: butterId, ...nutrients({ calories: 717, protein: 0.9, fat: 81, saturatedFat: 51, carbohydrates: 0.1, sugar: 0.1, sodium: 11 }) });
+});
+
+describe("MemStorage 配方成本", () => {
+  it("依原料用量與每克單價計算總成本、每份與每克成本", async () => {
+    const recipe = await storage.getRecipe((await createScone()).id);
+
+    expect(recipe?.totalCost).toBeCloseTo(105);
+    expect(recipe?.costPerPortion).toBeCloseTo(10.5);
+    expect(recipe?.costPerGram).toBeCloseTo(0.15);
+  });
+
+  it("設定烘焙損耗率時每克成本以成品重量計算", async () => {
+    const recipe = await storage.getRecipe((await createScone({ bakingLossRate: "10" })).id);
+
+    expect(recipe?.costBreakdown?.finishedWeight).toBeCloseTo(630);
+    expect(recipe?.costPerGram).toBeCloseTo(105 / 630);
+  });
+});
+
+describe("MemStorage 商品與客製商品成本", () => {
+  it("商品成本含配方份數與包材，並計算管理費與利潤", async () => {
+    const recipe = await createScone();
+    const created = await storage.createProduct(
+      { name: "司康兩入", category: "點心", sellingPrice: "60", managementFeePercentage: "10" } as any,
+      [{ productId: 0, recipeId: recipe.id, quantity: "2", unit: "portions" }] as any,
+      [{ productId: 0, packagingId: boxId, quantity: 1 }] as any
+    );
+    const product = await storage.getProduct(created.id);
+
+    expect(product?.totalCost).toBeCloseTo(26);
+    expect(product?.adjustedCost).toBeCloseTo(28.6);
+    expect(product?.profit).toBeCloseTo(31.4);
+  });
+
+  it("客製商品以各商品含管理費成本乘上數量，加上包材", async () => {
+    const recipe = await createScone();
+    const product = await storage.createProduct(
+      { name: "司康兩入", category: "點心", sellingPrice: "60", managementFeePercentage: "10" } as any,
+      [{ productId: 0, recipeId: recipe.id, quantity: "2", unit: "portions" }] as any,
+      [{ productId: 0, packagingId: boxId, quantity: 1 }] as any
+    );
+    const created = await storage.createCustomProduct(
+      { name: "司康禮盒", category: "禮盒", sellingPrice: "200", managementFeePercentage: "0" } as any,
+      [{ customProductId: 0, productId: product.id, quantity: "3" }] as any,
+      [{ customProductId: 0, packagingId: boxId, quantity: 1 }] as any
+    );
+    const customProduct = await storage.getCustomProduct(created.id);
+
+    expect(customProduct?.costBreakdown?.productsCost).toBeCloseTo(85.8);
+    expect(customProduct?.totalCost).toBeCloseTo(90.8);
+    expect(customProduct?.profit).toBeCloseTo(109.2);
+  });
+});
+
+describe("MemStorage 營養成分", () => {
+  it("每份營養成分為配方總量除以份數", async () => {
+    const nutrition = await storage.getRecipeNutrition((await createScone()).id);
+
+    expect(nutrition?.portionWeight).toBeCloseTo(70);
+    expect(nutrition?.calories).toBeCloseTo((5 * 364 + 2 * 717) / 10);
+    expect(nutrition?.protein).toBeCloseTo((5 * 10 + 2 * 0.9) / 10);
+  });
+
+  it("標示每 100 克與每份數值以成品重量換算", async () => {
+    const recipe = await createScone({ bakingLossRate: "10" });
+    const nutrition = await storage.calculateRecipesNutrition([recipe.id], 50, 4);
+    const totalCalories = 5 * 364 + 2 * 717;
+
+    expect(nutrition.per100g.calories).toBeCloseTo(totalCalories / 630 * 100);
+    expect(nutrition.perServing.calories).toBeCloseTo(totalCalories / 630 * 50);
+    expect(nutrition.missingNutritionMaterials ?? []).toHaveLength(0);
+  });
+});
@@ -0,0 +1,1651 @@
+import {
+  type Material,
+  type InsertMaterial,
+  type MaterialCategory,
+  type InsertMaterialCategory,
+  type Recipe,
+  type InsertRecipe,
+  type RecipeCategory,
+  type InsertRecipeCategory,
+  type RecipeIngredient,
+  type InsertRecipeIngredient,
+  type RecipeSubRecipe,
+  type InsertRecipeSubRecipe,
+  type ProductCategory,
+  type InsertProductCategory,
+  type CustomProductCategory,
+  type InsertCustomProductCategory,
+  type PackagingCategory,
+  type InsertPackagingCategory,
+  type Packaging,
+  type InsertPackaging,
+  type Product,
+  type InsertProduct,
+  type ProductRecipe,
+  type InsertProductRecipe,
+  type ProductPackaging,
+  type InsertProductPackaging,
+  type CustomProduct,
+  type InsertCustomProduct,
+  type CustomProductItem,
+  type InsertCustomProductItem,
+  type CustomProductPackaging,
+  type InsertCustomProductPackaging,
+  type NutritionFacts,
+  type InsertNutritionFacts,
+  type UserSettings,
+  type InsertUserSettings,
+  type User,
+  type InsertUser,
+  type MaterialHistory,
+  type InsertMaterialHistory,
+  type AuditLog,
+  type InsertAuditLog,
+  type AuditEntityType,
+  type AuditAction,
+  type ProductCostSnapshot,
+  type CostSnapshotProductType,
+  type CostSnapshotTrigger,
+  type ProductionPlan,
+  type InsertProductionPlan,
+  type ProductionPlanItem,
+  type InsertProductionPlanItem,
+  type ProductionPlanWithItems,
+  type ProductionRequirements,
+  type StockMovement,
+  type InsertStockMovement,
+  type StockItemType,
+  type LowStockItem,
+  type Supplier,
+  type InsertSupplier,
+  type SupplierPrice,
+  type InsertSupplierPrice,
+  type SupplierPriceWithDetails,
+  type MaterialPurchase,
+  type InsertMaterialPurchase,
+  type MaterialPurchaseWithSupplier,
+  type NutritionLabelTemplate,
+  type InsertNutritionLabelTemplate,
+  type NutritionLabel,
+  type InsertNutritionLabel,
+  type TaiwanNutritionDatabase,
+  type InsertTaiwanNutritionDatabase,
+  type MaterialNutritionMapping,
+  type InsertMaterialNutritionMapping,
+  type RecipeWithIngredients,
+  type ProductWithDetails,
+  type CustomProductWithDetails,
+  type MaterialWithNutrition,
+  type MaterialWithHistory,
+  type RecipeNutrition,
+  type CalculatedNutrition,
+} from "@shared/schema";
+import { withProductCosts, withCustomProductCosts } from "@shared/costEngine";
+import { assembleRecipeTrees } from "@shared/recipeTree";
+import type { IStorage } from "./storage";
+import { buildCostSnapshotRows } from "./costSnapshots";
+import { productionRunMovements } from "./productionPlanning";
+import { buildAuditEntry, recipeAuditSnapshot, productAuditSnapshot, customProductAuditSnapshot } from "./auditLog";
+import { getRequestUser } from "./requestContext";
+import { getOperatingCostRates } from "./operatingCosts";
+import { calculateRecipeNutrition, calculateRecipesNutrition, collectRecipeMaterialIds, toNutrientValues, type MaterialNutrientValues } from "./nutritionCalculator";
+
+type Category = MaterialCategory;
+type InsertCategory = InsertMaterialCategory;
+type SortOrderUpdate = { id: number; sortOrder: number };
+
+// 移除值為 undefined 的欄位，避免建立時蓋掉預設值、部分更新時覆蓋既有資料
+function definedFields<T extends object>(data: T): T {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as T;
+}
+
+function toDate(value: string | Date | null | undefined): Date | null {
+  if (!value) return null;
+  return value instanceof Date ? value : new Date(value);
+}
+
+// 依 sortOrder 升冪、updatedAt 降冪排序（與資料庫版本相同）
+function bySortOrderThenUpdated<T extends { sortOrder: number | null; updatedAt: Date }>(a: T, b: T): number {
+  const orderDiff = (a.sortOrder ?? 0) - (b.sortOrder ?? 0);
+  if (orderDiff !== 0) return orderDiff;
+  return b.updatedAt.getTime() - a.updatedAt.getTime();
+}
+
+function matchesSearch(name: string, search?: string): boolean {
+  return !search || name.includes(search);
+}
+
+// 記憶體儲存：不需要 PostgreSQL 即可執行，資料在程序結束後清空
+export class MemStorage implements IStorage {
+  private materials = new Map<number, Material>();
+  private recipes = new Map<number, Recipe>();
+  private recipeIngredients = new Map<number, RecipeIngredient>();
+  private recipeSubRecipes = new Map<number, RecipeSubRecipe>();
+  private materialCategories = new Map<number, MaterialCategory>();
+  private recipeCategories = new Map<number, RecipeCategory>();
+  private productCategories = new Map<number, ProductCategory>();
+  private customProductCategories = new Map<number, CustomProductCategory>();
+  private packagingCategories = new Map<number, PackagingCategory>();
+  private packaging = new Map<number, Packaging>();
+  private products = new Map<number, Product>();
+  private productRecipes = new Map<number, ProductRecipe>();
+  private productPackaging = new Map<number, ProductPackaging>();
+  private customProducts = new Map<number, CustomProduct>();
+  private customProductItems = new Map<number, CustomProductItem>();
+  private customProductPackaging = new Map<number, CustomProductPackaging>();
+  private nutritionFacts = new Map<number, NutritionFacts>();
+  private userSettings = new Map<number, UserSettings>();
+  private users = new Map<number, User>();
+  private materialHistory = new Map<number, MaterialHistory>();
+  private auditLogs = new Map<number, AuditLog>();
+  private productCostSnapshots = new Map<number, ProductCostSnapshot>();
+  private productionPlans = new Map<number, ProductionPlan>();
+  private productionPlanItems = new Map<number, ProductionPlanItem>();
+  private stockMovements = new Map<number, StockMovement>();
+  private suppliers = new Map<number, Supplier>();
+  private supplierPrices = new Map<number, SupplierPrice>();
+  private materialPurchases = new Map<number, MaterialPurchase>();
+  private nutritionLabelTemplates = new Map<number, NutritionLabelTemplate>();
+  private nutritionLabels = new Map<number, NutritionLabel>();
+  private taiwanNutritionDatabase = new Map<number, TaiwanNutritionDatabase>();
+  private materialNutritionMapping = new Map<number, MaterialNutritionMapping>();
+
+  private sequences = new Map<Map<number, unknown>, number>();
+
+  private nextId(table: Map<number, unknown>): number {
+    const id = (this.sequences.get(table) ?? 0) + 1;
+    this.sequences.set(table, id);
+    return id;
+  }
+
+  private deleteWhere<T>(table: Map<number, T>, predicate: (row: T) => boolean): void {
+    for (const [id, row] of Array.from(table.entries())) {
+      if (predicate(row)) table.delete(id);
+    }
+  }
+
+  // Materials
+  async getMaterials(search?: string, category?: string): Promise<Material[]> {
+    return Array.from(this.materials.values())
+      .filter(material => matchesSearch(material.name, search))
+      .filter(material => !category || material.category === category)
+      .sort(bySortOrderThenUpdated);
+  }
+
+  async getMaterial(id: number): Promise<Material | undefined> {
+    return this.materials.get(id);
+  }
+
+  async createMaterial(material: InsertMaterial): Promise<Material> {
+    const now = new Date();
+    const created: Material = {
+      notes: null,
+      purchaseAmount: null,
+      purchaseWeight: null,
+      managementFeeRate: null,
+      purchaseLocation: null,
+      reorderPoint: null,
+      costingWindow: null,
+      defaultUnit: "g",
+      sortOrder: 0,
+      ...definedFields(material),
+      unitConversions: material.unitConversions ?? [],
+      allergens: material.allergens ?? [],
+      mayContainAllergens: material.mayContainAllergens ?? [],
+      costingPolicy: material.costingPolicy ?? "latest",
+      stockQuantity: "0",
+      id: this.nextId(this.materials),
+      purchaseTime: toDate(material.purchaseTime),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.materials.set(created.id, created);
+
+    await this.createMaterialHistory({
+      materialId: created.id,
+      action: 'CREATE',
+      previousData: null,
+      newData: created,
+      changedFields: [],
+      changeDescription: '新增原料'
+    });
+
+    return created;
+  }
+
+  async updateMaterial(id: number, material: Partial<InsertMaterial>): Promise<Material> {
+    const originalMaterial = this.materials.get(id);
+    if (!originalMaterial) throw new Error(`Material ${id} not found`);
+
+    const fields = definedFields(material);
+    const updated: Material = {
+      ...originalMaterial,
+      ...fields,
+      purchaseTime: "purchaseTime" in fields ? toDate(fields.purchaseTime) : originalMaterial.purchaseTime,
+      updatedAt: new Date(),
+    };
+    this.materials.set(id, updated);
+
+    const changedFields = Object.keys(material).filter(key => {
+      const originalValue = originalMaterial[key as keyof Material];
+      const newValue = material[key as keyof InsertMaterial];
+      return originalValue !== newValue;
+    });
+
+    if (changedFields.length > 0) {
+      await this.createMaterialHistory({
+        materialId: id,
+        action: 'UPDATE',
+        previousData: originalMaterial,
+        newData: updated,
+        changedFields,
+        changeDescription: `更新欄位: ${changedFields.join(', ')}`
+      });
+    }
+
+    return updated;
+  }
+
+  async deleteMaterial(id: number): Promise<void> {
+    this.materials.delete(id);
+    this.deleteWhere(this.recipeIngredients, ing => ing.materialId === id);
+    this.deleteWhere(this.nutritionFacts, fact => fact.materialId === id);
+    this.deleteWhere(this.materialNutritionMapping, mapping => mapping.materialId === id);
+    this.deleteWhere(this.materialHistory, history => history.materialId === id);
+    this.deleteWhere(this.supplierPrices, price => price.itemType === "material" && price.itemId === id);
+    this.deleteWhere(this.materialPurchases, purchase => purchase.materialId === id);
+  }
+
+  // Recipes
+  private buildRecipe(recipe: Recipe): RecipeWithIngredients {
+    const ingredientsByRecipe = new Map<number, RecipeWithIngredients["ingredients"]>();
+    for (const ing of Array.from(this.recipeIngredients.values())) {
+      const material = this.materials.get(ing.materialId);
+      if (!material) continue;
+      ingredientsByRecipe.set(ing.recipeId, [...(ingredientsByRecipe.get(ing.recipeId) ?? []), { ...ing, material }]);
+    }
+
+    const subRecipesByRecipe = new Map<number, RecipeSubRecipe[]>();
+    for (const link of Array.from(this.recipeSubRecipes.values())) {
+      subRecipesByRecipe.set(link.recipeId, [...(subRecipesByRecipe.get(link.recipeId) ?? []), link]);
+    }
+
+    const [result] = assembleRecipeTrees([recipe], this.recipes, ingredientsByRecipe, subRecipesByRecipe);
+    return result;
+  }
+
+  private replaceRecipeIngredients(recipeId: number, ingredients: InsertRecipeIngredient[]): void {
+    this.deleteWhere(this.recipeIngredients, ing => ing.recipeId === recipeId);
+    for (const ing of ingredients) {
+      const id = this.nextId(this.recipeIngredients);
+      this.recipeIngredients.set(id, { ...ing, unit: ing.unit ?? "g", unitQuantity: ing.unitQuantity ?? null, wasteRate: ing.wasteRate ?? null, id, recipeId });
+    }
+  }
+
+  private replaceRecipeSubRecipes(recipeId: number, subRecipes: InsertRecipeSubRecipe[]): void {
+    this.deleteWhere(this.recipeSubRecipes, link => link.recipeId === recipeId);
+    for (const sr of subRecipes) {
+      const id = this.nextId(this.recipeSubRecipes);
+      this.recipeSubRecipes.set(id, { ...sr, id, recipeId });
+    }
+  }
+
+  async getRecipes(search?: string, category?: string): Promise<RecipeWithIngredients[]> {
+    return Array.from(this.recipes.values())
+      .filter(recipe => matchesSearch(recipe.name, search))
+      .filter(recipe => !category || recipe.category === category)
+      .sort(bySortOrderThenUpdated)
+      .map(recipe => this.buildRecipe(recipe));
+  }
+
+  async getRecipe(id: number): Promise<RecipeWithIngredients | undefined> {
+    const recipe = this.recipes.get(id);
+    return recipe ? this.buildRecipe(recipe) : undefined;
+  }
+
+  async createRecipe(recipe: InsertRecipe, ingredients: InsertRecipeIngredient[], subRecipes: InsertRecipeSubRecipe[] = []): Promise<RecipeWithIngredients> {
+    const now = new Date();
+    const created: Recipe = {
+      description: null,
+      sortOrder: 0,
+      ...definedFields(recipe),
+      bakingLossRate: recipe.bakingLossRate ?? null,
+      prepMinutes: recipe.prepMinutes ?? null,
+      bakeMinutes: recipe.bakeMinutes ?? null,
+      id: this.nextId(this.recipes),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.recipes.set(created.id, created);
+    this.replaceRecipeIngredients(created.id, ingredients);
+    this.replaceRecipeSubRecipes(created.id, subRecipes);
+
+    const result = this.buildRecipe(created);
+    await this.recordAudit("recipe", "CREATE", created.id, created.name, null, recipeAuditSnapshot(result));
+    return result;
+  }
+
+  async updateRecipe(id: number, recipe: Partial<InsertRecipe>, ingredients?: InsertRecipeIngredient[], subRecipes?: InsertRecipeSubRecipe[]): Promise<RecipeWithIngredients> {
+    const existing = this.recipes.get(id);
+    if (!existing) throw new Error(`Recipe ${id} not found`);
+    const original = this.buildRecipe(existing);
+
+    const updated: Recipe = { ...existing, ...definedFields(recipe), updatedAt: new Date() };
+    this.recipes.set(id, updated);
+    if (ingredients) {
+      this.replaceRecipeIngredients(id, ingredients);
+    }
+    if (subRecipes) {
+      this.replaceRecipeSubRecipes(id, subRecipes);
+    }
+
+    const result = this.buildRecipe(updated);
+    await this.recordAudit("recipe", "UPDATE", id, updated.name, recipeAuditSnapshot(original), recipeAuditSnapshot(result));
+    return result;
+  }
+
+  async deleteRecipe(id: number): Promise<void> {
+    const existing = this.recipes.get(id);
+    if (existing) {
+      await this.recordAudit("recipe", "DELETE", id, existing.name, recipeAuditSnapshot(this.buildRecipe(existing)), null);
+    }
+    this.recipes.delete(id);
+    this.deleteWhere(this.recipeIngredients, ing => ing.recipeId === id);
+    this.deleteWhere(this.recipeSubRecipes, link => link.recipeId === id || link.subRecipeId === id);
+    this.deleteWhere(this.productRecipes, pr => pr.recipeId === id);
+  }
+
+  async getRecipeIngredientsByMaterial(materialId: number): Promise<RecipeIngredient[]> {
+    return Array.from(this.recipeIngredients.values()).filter(ing => ing.materialId === materialId);
+  }
+
+  async updateRecipeIngredientQuantities(recipeId: number, quantities: Map<number, string>): Promise<void> {
+    const recipe = this.recipes.get(recipeId);
+    if (!recipe) return;
+    const original = this.buildRecipe(recipe);
+    for (const [id, quantity] of Array.from(quantities)) {
+      const existing = this.recipeIngredients.get(id);
+      if (existing?.recipeId === recipeId) this.recipeIngredients.set(id, { ...existing, quantity });
+    }
+    await this.recordAudit("recipe", "UPDATE", recipeId, recipe.name, recipeAuditSnapshot(original), recipeAuditSnapshot(this.buildRecipe(recipe)));
+  }
+
+  // Categories（五種分類結構相同，共用實作）
+  private listCategories<T extends Category>(table: Map<number, T>): T[] {
+    return Array.from(table.values()).sort((a, b) => {
+      const orderDiff = (a.sortOrder ?? 0) - (b.sortOrder ?? 0);
+      return orderDiff !== 0 ? orderDiff : a.name.localeCompare(b.name);
+    });
+  }
+
+  private async createCategory<T extends Category>(entityType: AuditEntityType, table: Map<number, T>, categoryData: InsertCategory): Promise<T> {
+    if (Array.from(table.values()).some(category => category.name === categoryData.name)) {
+      throw new Error(`Category "${categoryData.name}" already exists`);
+    }
+    const now = new Date();
+    const created = {
+      color: "#6B7280",
+      sortOrder: 0,
+      ...definedFields(categoryData),
+      id: this.nextId(table),
+      createdAt: now,
+      updatedAt: now,
+    } as T;
+    table.set(created.id, created);
+    await this.recordAudit(entityType, "CREATE", created.id, created.name, null, created);
+    return created;
+  }
+
+  private async updateCategory<T extends Category>(entityType: AuditEntityType, table: Map<number, T>, id: number, categoryData: Partial<InsertCategory>): Promise<T> {
+    const existing = table.get(id);
+    if (!existing) throw new Error(`Category ${id} not found`);
+    const updated = { ...existing, ...definedFields(categoryData), updatedAt: new Date() };
+    table.set(id, updated);
+    await this.recordAudit(entityType, "UPDATE", id, updated.name, existing, updated);
+    return updated;
+  }
+
+  private async deleteCategory<T extends Category>(entityType: AuditEntityType, table: Map<number, T>, id: number): Promise<void> {
+    const existing = table.get(id);
+    table.delete(id);
+    if (existing) {
+      await this.recordAudit(entityType, "DELETE", id, existing.name, existing, null);
+    }
+  }
+
+  private reorderCategories<T extends Category>(table: Map<number, T>, orderUpdates: SortOrderUpdate[]): void {
+    for (const update of orderUpdates) {
+      const existing = table.get(update.id);
+      if (existing) {
+        table.set(update.id, { ...existing, sortOrder: update.sortOrder, updatedAt: new Date() });
+      }
+    }
+  }
+
+  private renameField<T extends object, K extends keyof T>(table: Map<number, T>, field: K, oldName: T[K], newName: T[K]): void {
+    for (const [id, row] of Array.from(table.entries())) {
+      if (row[field] === oldName) {
+        table.set(id, { ...row, [field]: newName });
+      }
+    }
+  }
+
+  // Material Categories
+  async getMaterialCategories(): Promise<MaterialCategory[]> {
+    return this.listCategories(this.materialCategories);
+  }
+
+  async createMaterialCategory(categoryData: InsertMaterialCategory): Promise<MaterialCategory> {
+    return this.createCategory("material_category", this.materialCategories, categoryData);
+  }
+
+  async updateMaterialCategory(id: number, categoryData: Partial<InsertMaterialCategory>): Promise<MaterialCategory> {
+    return this.updateCategory("material_category", this.materialCategories, id, categoryData);
+  }
+
+  async deleteMaterialCategory(id: number): Promise<void> {
+    await this.deleteCategory("material_category", this.materialCategories, id);
+  }
+
+  async reorderMaterialCategories(orderUpdates: SortOrderUpdate[]): Promise<void> {
+    this.reorderCategories(this.materialCategories, orderUpdates);
+  }
+
+  async getMaterialCategoryById(id: number): Promise<MaterialCategory | undefined> {
+    return this.materialCategories.get(id);
+  }
+
+  async updateMaterialsCategory(oldName: string, newName: string): Promise<void> {
+    this.renameField(this.materials, "category", oldName, newName);
+  }
+
+  // Recipe Categories
+  async getRecipeCategories(): Promise<RecipeCategory[]> {
+    return this.listCategories(this.recipeCategories);
+  }
+
+  async createRecipeCategory(categoryData: InsertRecipeCategory): Promise<RecipeCategory> {
+    return this.createCategory("recipe_category", this.recipeCategories, categoryData);
+  }
+
+  async updateRecipeCategory(id: number, categoryData: Partial<InsertRecipeCategory>): Promise<RecipeCategory> {
+    return this.updateCategory("recipe_category", this.recipeCategories, id, categoryData);
+  }
+
+  async deleteRecipeCategory(id: number): Promise<void> {
+    await this.deleteCategory("recipe_category", this.recipeCategories, id);
+  }
+
+  async reorderRecipeCategories(orderUpdates: SortOrderUpdate[]): Promise<void> {
+    this.reorderCategories(this.recipeCategories, orderUpdates);
+  }
+
+  async getRecipeCategoryById(id: number): Promise<RecipeCategory | undefined> {
+    return this.recipeCategories.get(id);
+  }
+
+  async updateRecipesCategory(oldName: string, newName: string): Promise<void> {
+    this.renameField(this.recipes, "category", oldName, newName);
+  }
+
+  // Product Categories
+  async getProductCategories(): Promise<ProductCategory[]> {
+    return this.listCategories(this.productCategories);
+  }
+
+  async createProductCategory(categoryData: InsertProductCategory): Promise<ProductCategory> {
+    return this.createCategory("product_category", this.productCategories, categoryData);
+  }
+
+  async updateProductCategory(id: number, categoryData: Partial<InsertProductCategory>): Promise<ProductCategory> {
+    return this.updateCategory("product_category", this.productCategories, id, categoryData);
+  }
+
+  async deleteProductCategory(id: number): Promise<void> {
+    await this.deleteCategory("product_category", this.productCategories, id);
+  }
+
+  async reorderProductCategories(orderUpdates: SortOrderUpdate[]): Promise<void> {
+    this.reorderCategories(this.productCategories, orderUpdates);
+  }
+
+  async getProductCategoryById(id: number): Promise<ProductCategory | undefined> {
+    return this.productCategories.get(id);
+  }
+
+  async updateProductsCategory(oldName: string, newName: string): Promise<void> {
+    this.renameField(this.products, "category", oldName, newName);
+  }
+
+  // Custom Product Categories
+  async getCustomProductCategories(): Promise<CustomProductCategory[]> {
+    return this.listCategories(this.customProductCategories);
+  }
+
+  async createCustomProductCategory(categoryData: InsertCustomProductCategory): Promise<CustomProductCategory> {
+    return this.createCategory("custom_product_category", this.customProductCategories, categoryData);
+  }
+
+  async updateCustomProductCategory(id: number, categoryData: Partial<InsertCustomProductCategory>): Promise<CustomProductCategory> {
+    return this.updateCategory("custom_product_category", this.customProductCategories, id, categoryData);
+  }
+
+  async deleteCustomProductCategory(id: number): Promise<void> {
+    await this.deleteCategory("custom_product_category", this.customProductCategories, id);
+  }
+
+  async reorderCustomProductCategories(orderUpdates: SortOrderUpdate[]): Promise<void> {
+    this.reorderCategories(this.customProductCategories, orderUpdates);
+  }
+
+  async getCustomProductCategoryById(id: number): Promise<CustomProductCategory | undefined> {
+    return this.customProductCategories.get(id);
+  }
+
+  async updateCustomProductsCategory(oldName: string, newName: string): Promise<void> {
+    this.renameField(this.customProducts, "category", oldName, newName);
+  }
+
+  // Packaging Categories
+  async getPackagingCategories(): Promise<PackagingCategory[]> {
+    return this.listCategories(this.packagingCategories);
+  }
+
+  async createPackagingCategory(categoryData: InsertPackagingCategory): Promise<PackagingCategory> {
+    return this.createCategory("packaging_category", this.packagingCategories, categoryData);
+  }
+
+  async updatePackagingCategory(id: number, categoryData: Partial<InsertPackagingCategory>): Promise<PackagingCategory> {
+    return this.updateCategory("packaging_category", this.packagingCategories, id, categoryData);
+  }
+
+  async deletePackagingCategory(id: number): Promise<void> {
+    await this.deleteCategory("packaging_category", this.packagingCategories, id);
+  }
+
+  async getPackagingCategoryById(id: number): Promise<PackagingCategory | undefined> {
+    return this.packagingCategories.get(id);
+  }
+
+  async updatePackagingType(oldName: string, newName: string): Promise<void> {
+    this.renameField(this.packaging, "type", oldName, newName);
+  }
+
+  // Packaging
+  async getPackaging(search?: string, type?: string): Promise<Packaging[]> {
+    return Array.from(this.packaging.values())
+      .filter(item => matchesSearch(item.name, search))
+      .filter(item => !type || item.type === type)
+      .sort(bySortOrderThenUpdated);
+  }
+
+  async getPackagingItem(id: number): Promise<Packaging | undefined> {
+    return this.packaging.get(id);
+  }
+
+  async createPackaging(packagingData: InsertPackaging): Promise<Packaging> {
+    const now = new Date();
+    const created: Packaging = {
+      notes: null,
+      reorderPoint: null,
+      sortOrder: 0,
+      ...definedFields(packagingData),
+      stockQuantity: 0,
+      id: this.nextId(this.packaging),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.packaging.set(created.id, created);
+    await this.recordAudit("packaging", "CREATE", created.id, created.name, null, created);
+    return created;
+  }
+
+  async updatePackaging(id: number, packagingData: Partial<InsertPackaging>): Promise<Packaging> {
+    const existing = this.packaging.get(id);
+    if (!existing) throw new Error(`Packaging ${id} not found`);
+    const updated: Packaging = { ...existing, ...definedFields(packagingData), updatedAt: new Date() };
+    this.packaging.set(id, updated);
+    await this.recordAudit("packaging", "UPDATE", id, updated.name, existing, updated);
+    return updated;
+  }
+
+  async deletePackaging(id: number): Promise<void> {
+    const existing = this.packaging.get(id);
+    if (existing) {
+      await this.recordAudit("packaging", "DELETE", id, existing.name, existing, null);
+    }
+    this.packaging.delete(id);
+    this.deleteWhere(this.productPackaging, pp => pp.packagingId === id);
+    this.deleteWhere(this.customProductPackaging, pp => pp.packagingId === id);
+    this.deleteWhere(this.supplierPrices, price => price.itemType === "packaging" && price.itemId === id);
+  }
+
+  // Products
+  private buildProduct(product: Product): ProductWithDetails {
+    const recipesWithCosts = Array.from(this.productRecipes.values())
+      .filter(pr => pr.productId === product.id)
+      .flatMap(pr => {
+        const recipe = this.recipes.get(pr.recipeId);
+        return recipe ? [{ ...pr, recipe: this.buildRecipe(recipe) }] : [];
+      });
+
+    const packagingItems = Array.from(this.productPackaging.values())
+      .filter(pp => pp.productId === product.id)
+      .flatMap(pp => {
+        const item = this.packaging.get(pp.packagingId);
+        return item ? [{ ...pp, packaging: item }] : [];
+      });
+
+    return withProductCosts({
+      ...product,
+      recipes: recipesWithCosts,
+      packaging: packagingItems,
+    }, getOperatingCostRates());
+  }
+
+  private replaceProductLines(id: number, recipesList?: InsertProductRecipe[], packagingList?: InsertProductPackaging[]): void {
+    if (recipesList) {
+      this.deleteWhere(this.productRecipes, pr => pr.productId === id);
+      for (const pr of recipesList) {
+        const lineId = this.nextId(this.productRecipes);
+        this.productRecipes.set(lineId, { ...pr, id: lineId, productId: id });
+      }
+    }
+
+    if (packagingList) {
+      this.deleteWhere(this.productPackaging, pp => pp.productId === id);
+      for (const pp of packagingList) {
+        const lineId = this.nextId(this.productPackaging);
+        this.productPackaging.set(lineId, { ...pp, id: lineId, productId: id });
+      }
+    }
+  }
+
+  async getProducts(search?: string, category?: string): Promise<ProductWithDetails[]> {
+    return Array.from(this.products.values())
+      .filter(product => matchesSearch(product.name, search))
+      .filter(product => !category || product.category === category)
+      .sort(bySortOrderThenUpdated)
+      .map(product => this.buildProduct(product));
+  }
+
+  async getProduct(id: number): Promise<ProductWithDetails | undefined> {
+    const product = this.products.get(id);
+    return product ? this.buildProduct(product) : undefined;
+  }
+
+  async createProduct(
+    product: InsertProduct,
+    recipesList: InsertProductRecipe[],
+    packagingList: InsertProductPackaging[]
+  ): Promise<ProductWithDetails> {
+    const now = new Date();
+    const created: Product = {
+      managementFeePercentage: "3.00",
+      description: null,
+      sortOrder: 0,
+      ...definedFields(product),
+      id: this.nextId(this.products),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.products.set(created.id, created);
+    this.replaceProductLines(created.id, recipesList, packagingList);
+
+    const result = this.buildProduct(created);
+    await this.recordAudit("product", "CREATE", created.id, created.name, null, productAuditSnapshot(result));
+    return result;
+  }
+
+  async updateProduct(
+    id: number,
+    product: Partial<InsertProduct>,
+    recipesList?: InsertProductRecipe[],
+    packagingList?: InsertProductPackaging[]
+  ): Promise<ProductWithDetails> {
+    const existing = this.products.get(id);
+    if (!existing) throw new Error(`Product ${id} not found`);
+    const original = this.buildProduct(existing);
+
+    const updated: Product = { ...existing, ...definedFields(product), updatedAt: new Date() };
+    this.products.set(id, updated);
+    this.replaceProductLines(id, recipesList, packagingList);
+
+    const result = this.buildProduct(updated);
+    await this.recordAudit("product", "UPDATE", id, updated.name, productAuditSnapshot(original), productAuditSnapshot(result));
+    return result;
+  }
+
+  async deleteProduct(id: number): Promise<void> {
+    const existing = this.products.get(id);
+    if (existing) {
+      await this.recordAudit("product", "DELETE", id, existing.name, productAuditSnapshot(this.buildProduct(existing)), null);
+    }
+    this.products.delete(id);
+    this.deleteWhere(this.productRecipes, pr => pr.productId === id);
+    this.deleteWhere(this.productPackaging, pp => pp.productId === id);
+    this.deleteWhere(this.customProductItems, item => item.productId === id);
+  }
+
+  // Custom Products
+  private buildCustomProduct(customProduct: CustomProduct): CustomProductWithDetails {
+    const itemsWithProducts = Array.from(this.customProductItems.values())
+      .filter(item => item.customProductId === customProduct.id)
+      .flatMap(item => {
+        const product = this.products.get(item.productId);
+        return product ? [{ ...item, product: this.buildProduct(product) }] : [];
+      });
+
+    const packagingItems = Array.from(this.customProductPackaging.values())
+      .filter(pp => pp.customProductId === customProduct.id)
+      .flatMap(pp => {
+        const item = this.packaging.get(pp.packagingId);
+        return item ? [{ ...pp, packaging: item }] : [];
+      });
+
+    return withCustomProductCosts({
+      ...customProduct,
+      items: itemsWithProducts,
+      packaging: packagingItems,
+    }, getOperatingCostRates());
+  }
+
+  private replaceCustomProductLines(
+    id: number,
+    itemsList?: InsertCustomProductItem[],
+    packagingList?: InsertCustomProductPackaging[]
+  ): void {
+    if (itemsList) {
+      this.deleteWhere(this.customProductItems, item => item.customProductId === id);
+      for (const item of itemsList) {
+        const lineId = this.nextId(this.customProductItems);
+        this.customProductItems.set(lineId, { ...item, id: lineId, customProductId: id });
+      }
+    }
+
+    if (packagingList) {
+      this.deleteWhere(this.customProductPackaging, pp => pp.customProductId === id);
+      for (const pp of packagingList) {
+        const lineId = this.nextId(this.customProductPackaging);
+        this.customProductPackaging.set(lineId, { ...pp, id: lineId, customProductId: id });
+      }
+    }
+  }
+
+  async getCustomProducts(search?: string, category?: string): Promise<CustomProductWithDetails[]> {
+    return Array.from(this.customProducts.values())
+      .filter(customProduct => matchesSearch(customProduct.name, search))
+      .filter(customProduct => !category || customProduct.category === category)
+      .sort(bySortOrderThenUpdated)
+      .map(customProduct => this.buildCustomProduct(customProduct));
+  }
+
+  async getCustomProduct(id: number): Promise<CustomProductWithDetails | undefined> {
+    const customProduct = this.customProducts.get(id);
+    return customProduct ? this.buildCustomProduct(customProduct) : undefined;
+  }
+
+  async createCustomProduct(
+    customProduct: InsertCustomProduct,
+    itemsList: InsertCustomProductItem[],
+    packagingList: InsertCustomProductPackaging[]
+  ): Promise<CustomProductWithDetails> {
+    const now = new Date();
+    const created: CustomProduct = {
+      managementFeePercentage: "3.00",
+      description: null,
+      sortOrder: 0,
+      ...definedFields(customProduct),
+      id: this.nextId(this.customProducts),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.customProducts.set(created.id, created);
+    this.replaceCustomProductLines(created.id, itemsList, packagingList);
+
+    const result = this.buildCustomProduct(created);
+    await this.recordAudit("custom_product", "CREATE", created.id, created.name, null, customProductAuditSnapshot(result));
+    return result;
+  }
+
+  async updateCustomProduct(
+    id: number,
+    customProduct: Partial<InsertCustomProduct>,
+    itemsList?: InsertCustomProductItem[],
+    packagingList?: InsertCustomProductPackaging[]
+  ): Promise<CustomProductWithDetails> {
+    const existing = this.customProducts.get(id);
+    if (!existing) throw new Error(`Custom product ${id} not found`);
+    const original = this.buildCustomProduct(existing);
+
+    const updated: CustomProduct = { ...existing, ...definedFields(customProduct), updatedAt: new Date() };
+    this.customProducts.set(id, updated);
+    this.replaceCustomProductLines(id, itemsList, packagingList);
+
+    const result = this.buildCustomProduct(updated);
+    await this.recordAudit("custom_product", "UPDATE", id, updated.name, customProductAuditSnapshot(original), customProductAuditSnapshot(result));
+    return result;
+  }
+
+  async deleteCustomProduct(id: number): Promise<void> {
+    const existing = this.customProducts.get(id);
+    if (existing) {
+      await this.recordAudit("custom_product", "DELETE", id, existing.name, customProductAuditSnapshot(this.buildCustomProduct(existing)), null);
+    }
+    this.customProducts.delete(id);
+    this.deleteWhere(this.customProductItems, item => item.customProductId === id);
+    this.deleteWhere(this.customProductPackaging, pp => pp.customProductId === id);
+  }
+
+  // Nutrition
+  async getNutritionFacts(search?: string, category?: string): Promise<MaterialWithNutrition[]> {
+    const materialsList = await this.getMaterials(search, category);
+    return materialsList.map(material => ({
+      ...material,
+      nutritionFacts: Array.from(this.nutritionFacts.values()).find(fact => fact.materialId === material.id),
+    }));
+  }
+
+  async getNutritionFactsForMaterial(materialId: number): Promise<NutritionFacts | undefined> {
+    return Array.from(this.nutritionFacts.values()).find(fact => fact.materialId === materialId);
+  }
+
+  async createNutritionFacts(nutrition: InsertNutritionFacts): Promise<NutritionFacts> {
+    const now = new Date();
+    const created: NutritionFacts = {
+      calories: null,
+      protein: null,
+      fat: null,
+      saturatedFat: null,
+      transFat: null,
+      carbohydrates: null,
+      sugar: null,
+      sodium: null,
+      ...definedFields(nutrition),
+      id: this.nextId(this.nutritionFacts),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.nutritionFacts.set(created.id, created);
+    await this.recordAudit("nutrition_facts", "CREATE", created.id, this.materials.get(created.materialId)?.name, null, created);
+    return created;
+  }
+
+  async updateNutritionFacts(id: number, nutrition: Partial<InsertNutritionFacts>): Promise<NutritionFacts> {
+    const existing = this.nutritionFacts.get(id);
+    if (!existing) throw new Error(`Nutrition facts ${id} not found`);
+    const updated: NutritionFacts = { ...existing, ...definedFields(nutrition), updatedAt: new Date() };
+    this.nutritionFacts.set(id, updated);
+    await this.recordAudit("nutrition_facts", "UPDATE", id, this.materials.get(updated.materialId)?.name, existing, updated);
+    return updated;
+  }
+
+  async deleteNutritionFacts(id: number): Promise<void> {
+    const existing = this.nutritionFacts.get(id);
+    if (existing) {
+      await this.recordAudit("nutrition_facts", "DELETE", id, this.materials.get(existing.materialId)?.name, existing, null);
+    }
+    this.nutritionFacts.delete(id);
+  }
+
+  // 取得原料每100g營養值：優先使用 nutritionFacts，沒有時改用對應的台灣營養資料庫
+  private getMaterialNutritionPer100g(materialIds: number[]): Map<number, MaterialNutrientValues> {
+    const result = new Map<number, MaterialNutrientValues>();
+    const ids = new Set(materialIds);
+
+    for (const fact of Array.from(this.nutritionFacts.values())) {
+      if (ids.has(fact.materialId)) {
+        result.set(fact.materialId, toNutrientValues(fact));
+      }
+    }
+
+    for (const mapping of Array.from(this.materialNutritionMapping.values())) {
+      if (!ids.has(mapping.materialId) || result.has(mapping.materialId)) continue;
+      const taiwanNutrition = this.taiwanNutritionDatabase.get(mapping.taiwanNutritionId);
+      if (taiwanNutrition) {
+        result.set(mapping.materialId, toNutrientValues(taiwanNutrition));
+      }
+    }
+
+    return result;
+  }
+
+  // Recipe nutrition calculation
+  async getRecipeNutrition(recipeId: number): Promise<RecipeNutrition | undefined> {
+    const recipe = await this.getRecipe(recipeId);
+    if (!recipe) return undefined;
+
+    const nutritionMap = this.getMaterialNutritionPer100g(collectRecipeMaterialIds([recipe]));
+    return calculateRecipeNutrition(recipe, nutritionMap);
+  }
+
+  async getAllRecipeNutrition(): Promise<RecipeNutrition[]> {
+    const allRecipes = await this.getRecipes();
+    const nutritionData = await Promise.all(
+      allRecipes.map(recipe => this.getRecipeNutrition(recipe.id))
+    );
+    return nutritionData.filter(data => data !== undefined) as RecipeNutrition[];
+  }
+
+  // Statistics
+  async getDashboardStats(): Promise<{
+    materialsCount: number;
+    recipesCount: number;
+    productsCount: number;
+    averageProfitMargin: number;
+  }> {
+    const productsWithDetails = await this.getProducts();
+    const averageProfitMargin = productsWithDetails.length > 0
+      ? productsWithDetails.reduce((sum, product) => sum + (product.profitMargin || 0), 0) / productsWithDetails.length
+      : 0;
+
+    return {
+      materialsCount: this.materials.size,
+      recipesCount: this.recipes.size,
+      productsCount: this.products.size,
+      averageProfitMargin,
+    };
+  }
+
+  // Sorting methods
+  private applySortOrder<T extends { sortOrder: number | null }>(table: Map<number, T>, orderUpdates: SortOrderUpdate[]): void {
+    for (const update of orderUpdates) {
+      const existing = table.get(update.id);
+      if (existing) {
+        table.set(update.id, { ...existing, sortOrder: update.sortOrder });
+      }
+    }
+  }
+
+  async updateMaterialsOrder(orderUpdates: SortOrderUpdate[]): Promise<void> {
+    this.applySortOrder(this.materials, orderUpdates);
+  }
+
+  async updateRecipesOrder(orderUpdates: SortOrderUpdate[]): Promise<void> {
+    this.applySortOrder(this.recipes, orderUpdates);
+  }
+
+  async updatePackagingOrder(orderUpdates: SortOrderUpdate[]): Promise<void> {
+    this.applySortOrder(this.packaging, orderUpdates);
+  }
+
+  async updateProductsOrder(orderUpdates: SortOrderUpdate[]): Promise<void> {
+    this.applySortOrder(this.products, orderUpdates);
+  }
+
+  async updatePackagingCategoriesOrder(orderUpdates: SortOrderUpdate[]): Promise<void> {
+    this.applySortOrder(this.packagingCategories, orderUpdates);
+  }
+
+  async updateCustomProductsOrder(orderUpdates: SortOrderUpdate[]): Promise<void> {
+    this.applySortOrder(this.customProducts, orderUpdates);
+  }
+
+  // User Settings
+  async getUserSettings(username: string): Promise<UserSettings | undefined> {
+    return Array.from(this.userSettings.values()).find(settings => settings.username === username);
+  }
+
+  async createUserSettings(settings: InsertUserSettings): Promise<UserSettings> {
+    const now = new Date();
+    const created: UserSettings = {
+      profitMarginLow: "20.00",
+      profitMarginHigh: "40.00",
+      ...definedFields(settings),
+      labourHourlyWage: settings.labourHourlyWage ?? "0",
+      ovenCostPerHour: settings.ovenCostPerHour ?? "0",
+      monthlyOverhead: settings.monthlyOverhead ?? "0",
+      monthlyProductionUnits: settings.monthlyProductionUnits ?? 0,
+      priceRoundingStep: settings.priceRoundingStep ?? 5,
+      id: this.nextId(this.userSettings),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.userSettings.set(created.id, created);
+    return created;
+  }
+
+  async updateUserSettings(username: string, settings: Partial<InsertUserSettings>): Promise<UserSettings> {
+    const existing = await this.getUserSettings(username);
+    if (!existing) throw new Error(`User settings for ${username} not found`);
+    const updated: UserSettings = { ...existing, ...definedFields(settings), updatedAt: new Date() };
+    this.userSettings.set(existing.id, updated);
+    return updated;
+  }
+
+  async updatePassword(username: string, passwordHash: string): Promise<UserSettings> {
+    return this.updateUserSettings(username, { passwordHash });
+  }
+
+  async updateProfitMargins(username: string, lowThreshold: number, highThreshold: number): Promise<UserSettings> {
+    return this.updateUserSettings(username, {
+      profitMarginLow: lowThreshold.toFixed(2),
+      profitMarginHigh: highThreshold.toFixed(2),
+    });
+  }
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(user.username)) {
+      throw new Error(`User "${user.username}" already exists`);
+    }
+    const now = new Date();
+    const created: User = {
+      displayName: null,
+      isActive: true,
+      ...definedFields(user),
+      id: this.nextId(this.users),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.users.set(created.id, created);
+    return created;
+  }
+
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) throw new Error(`User ${id} not found`);
+    const updated: User = { ...existing, ...definedFields(user), updatedAt: new Date() };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  // Material History
+  async getMaterialHistory(materialId: number): Promise<MaterialHistory[]> {
+    return Array.from(this.materialHistory.values())
+      .filter(history => history.materialId === materialId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async createMaterialHistory(history: InsertMaterialHistory): Promise<MaterialHistory> {
+    const created: MaterialHistory = {
+      previousData: null,
+      newData: null,
+      changedFields: null,
+      changeDescription: null,
+      ...definedFields(history),
+      id: this.nextId(this.materialHistory),
+      createdAt: new Date(),
+    };
+    this.materialHistory.set(created.id, created);
+    return created;
+  }
+
+  // Audit Logs
+  async getAuditLogs(entityTypes: AuditEntityType[], entityId?: number): Promise<AuditLog[]> {
+    return Array.from(this.auditLogs.values())
+      .filter(log => entityTypes.includes(log.entityType as AuditEntityType))
+      .filter(log => entityId === undefined || log.entityId === entityId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
+    const created: AuditLog = {
+      entityName: null,
+      previousData: null,
+      newData: null,
+      changedFields: null,
+      changeDescription: null,
+      userId: null,
+      username: null,
+      ...definedFields(log),
+      id: this.nextId(this.auditLogs),
+      createdAt: new Date(),
+    };
+    this.auditLogs.set(created.id, created);
+    return created;
+  }
+
+  private async recordAudit(
+    entityType: AuditEntityType,
+    action: AuditAction,
+    entityId: number,
+    entityName: string | null | undefined,
+    previousData: object | null | undefined,
+    newData: object | null | undefined
+  ): Promise<void> {
+    const entry = buildAuditEntry({ entityType, entityId, entityName, action, previousData, newData });
+    if (entry) await this.createAuditLog(entry);
+  }
+
+  async getMaterialWithHistory(id: number): Promise<MaterialWithHistory | undefined> {
+    const material = await this.getMaterial(id);
+    if (!material) return undefined;
+
+    const history = await this.getMaterialHistory(id);
+    const nutritionFacts = await this.getNutritionFactsForMaterial(id);
+
+    return {
+      ...material,
+      history,
+      nutritionFacts
+    };
+  }
+
+  // Product Cost Snapshots
+  async getProductCostSnapshots(productType: CostSnapshotProductType, productId: number): Promise<ProductCostSnapshot[]> {
+    return Array.from(this.productCostSnapshots.values())
+      .filter(snapshot => snapshot.productType === productType && snapshot.productId === productId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async getLatestProductCostSnapshot(trigger?: CostSnapshotTrigger): Promise<ProductCostSnapshot | undefined> {
+    return Array.from(this.productCostSnapshots.values())
+      .filter(snapshot => !trigger || snapshot.trigger === trigger)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)[0];
+  }
+
+  async createProductCostSnapshots(trigger: CostSnapshotTrigger): Promise<ProductCostSnapshot[]> {
+    const rows = buildCostSnapshotRows(await this.getProducts(), await this.getCustomProducts(), trigger);
+    const createdAt = new Date();
+    return rows.map(row => {
+      const created: ProductCostSnapshot = { ...row, id: this.nextId(this.productCostSnapshots), createdAt };
+      this.productCostSnapshots.set(created.id, created);
+      return created;
+    });
+  }
+
+  // Production Plans
+  private buildProductionPlan(plan: ProductionPlan): ProductionPlanWithItems {
+    const items = Array.from(this.productionPlanItems.values())
+      .filter(item => item.planId === plan.id)
+      .sort((a, b) => a.id - b.id)
+      .map(item => {
+        const source = item.productType === "custom_product"
+          ? this.customProducts.get(item.productId)
+          : this.products.get(item.productId);
+        return { ...item, productName: source?.name ?? null };
+      });
+    return { ...plan, items };
+  }
+
+  private replaceProductionPlanItems(planId: number, items: InsertProductionPlanItem[]): void {
+    this.deleteWhere(this.productionPlanItems, item => item.planId === planId);
+    for (const item of items) {
+      const id = this.nextId(this.productionPlanItems);
+      this.productionPlanItems.set(id, { ...item, id, planId });
+    }
+  }
+
+  async getProductionPlans(): Promise<ProductionPlanWithItems[]> {
+    return Array.from(this.productionPlans.values())
+      .sort((a, b) => b.planDate.localeCompare(a.planDate) || b.id - a.id)
+      .map(plan => this.buildProductionPlan(plan));
+  }
+
+  async getProductionPlan(id: number): Promise<ProductionPlanWithItems | undefined> {
+    const plan = this.productionPlans.get(id);
+    return plan ? this.buildProductionPlan(plan) : undefined;
+  }
+
+  async createProductionPlan(plan: InsertProductionPlan, items: InsertProductionPlanItem[]): Promise<ProductionPlanWithItems> {
+    const now = new Date();
+    const created: ProductionPlan = {
+      notes: null,
+      ...definedFields(plan),
+      producedAt: null,
+      id: this.nextId(this.productionPlans),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.productionPlans.set(created.id, created);
+    this.replaceProductionPlanItems(created.id, items);
+    return this.buildProductionPlan(created);
+  }
+
+  async updateProductionPlan(id: number, plan: Partial<InsertProductionPlan>, items?: InsertProductionPlanItem[]): Promise<ProductionPlanWithItems> {
+    const existing = this.productionPlans.get(id);
+    if (!existing) throw new Error(`Production plan ${id} not found`);
+
+    const updated: ProductionPlan = { ...existing, ...definedFields(plan), updatedAt: new Date() };
+    this.productionPlans.set(id, updated);
+    if (items) {
+      this.replaceProductionPlanItems(id, items);
+    }
+    return this.buildProductionPlan(updated);
+  }
+
+  async deleteProductionPlan(id: number): Promise<void> {
+    this.productionPlans.delete(id);
+    this.deleteWhere(this.productionPlanItems, item => item.planId === id);
+  }
+
+  // 先檢查所有品項存在並標記計畫已生產，再扣除庫存，避免重複登錄或只扣除部分庫存
+  async recordProductionRun(planId: number, requirements: ProductionRequirements): Promise<ProductionPlanWithItems | undefined> {
+    const plan = this.productionPlans.get(planId);
+    if (!plan || plan.producedAt) return undefined;
+
+    const movements = productionRunMovements(planId, requirements);
+    const missing = movements.find(movement =>
+      !(movement.itemType === "packaging" ? this.packaging : this.materials).has(movement.itemId)
+    );
+    if (missing) throw new Error(`${missing.itemType} ${missing.itemId} not found`);
+
+    const updated: ProductionPlan = { ...plan, producedAt: new Date() };
+    this.productionPlans.set(planId, updated);
+    for (const movement of movements) {
+      await this.recordStockMovement(movement);
+    }
+    return this.buildProductionPlan(updated);
+  }
+
+  // Inventory
+  async getStockMovements(itemType: StockItemType, itemId: number): Promise<StockMovement[]> {
+    return Array.from(this.stockMovements.values())
+      .filter(movement => movement.itemType === itemType && movement.itemId === itemId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async recordStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    let balanceAfter: string;
+    if (movement.itemType === "packaging") {
+      const existing = this.packaging.get(movement.itemId);
+      if (!existing) throw new Error(`${movement.itemType} ${movement.itemId} not found`);
+      const stockQuantity = existing.stockQuantity + Math.round(parseFloat(movement.quantity));
+      this.packaging.set(existing.id, { ...existing, stockQuantity });
+      balanceAfter = String(stockQuantity);
+    } else {
+      const existing = this.materials.get(movement.itemId);
+      if (!existing) throw new Error(`${movement.itemType} ${movement.itemId} not found`);
+      balanceAfter = (parseFloat(existing.stockQuantity) + parseFloat(movement.quantity)).toFixed(2);
+      this.materials.set(existing.id, { ...existing, stockQuantity: balanceAfter });
+    }
+
+    const user = getRequestUser();
+    const created: StockMovement = {
+      productionPlanId: null,
+      notes: null,
+      ...definedFields(movement),
+      balanceAfter,
+      id: this.nextId(this.stockMovements),
+      userId: user?.id ?? null,
+      username: user?.username ?? null,
+      createdAt: new Date(),
+    };
+    this.stockMovements.set(created.id, created);
+    return created;
+  }
+
+  async setReorderPoint(itemType: StockItemType, itemId: number, reorderPoint: number | null): Promise<void> {
+    if (itemType === "packaging") {
+      const existing = this.packaging.get(itemId);
+      if (existing) this.packaging.set(itemId, { ...existing, reorderPoint });
+    } else {
+      const existing = this.materials.get(itemId);
+      if (existing) this.materials.set(itemId, { ...existing, reorderPoint: reorderPoint === null ? null : String(reorderPoint) });
+    }
+  }
+
+  async getLowStockItems(): Promise<LowStockItem[]> {
+    const lowMaterials = Array.from(this.materials.values())
+      .filter(material => material.reorderPoint !== null && parseFloat(material.stockQuantity) <= parseFloat(material.reorderPoint))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(material => ({
+        itemType: "material" as const,
+        itemId: material.id,
+        name: material.name,
+        stockQuantity: parseFloat(material.stockQuantity),
+        reorderPoint: parseFloat(material.reorderPoint ?? "0"),
+      }));
+    const lowPackaging = Array.from(this.packaging.values())
+      .filter(pack => pack.reorderPoint !== null && pack.stockQuantity <= pack.reorderPoint)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(pack => ({
+        itemType: "packaging" as const,
+        itemId: pack.id,
+        name: pack.name,
+        stockQuantity: pack.stockQuantity,
+        reorderPoint: pack.reorderPoint ?? 0,
+      }));
+    return [...lowMaterials, ...lowPackaging];
+  }
+
+  // Suppliers
+  async getSuppliers(): Promise<Supplier[]> {
+    return Array.from(this.suppliers.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSupplier(id: number): Promise<Supplier | undefined> {
+    return this.suppliers.get(id);
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    const now = new Date();
+    const created: Supplier = {
+      contactName: null,
+      phone: null,
+      email: null,
+      leadTimeDays: null,
+      notes: null,
+      ...definedFields(supplier),
+      id: this.nextId(this.suppliers),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.suppliers.set(created.id, created);
+    return created;
+  }
+
+  async updateSupplier(id: number, supplier: Partial<InsertSupplier>): Promise<Supplier> {
+    const existing = this.suppliers.get(id);
+    if (!existing) throw new Error(`Supplier ${id} not found`);
+
+    const updated: Supplier = { ...existing, ...definedFields(supplier), updatedAt: new Date() };
+    this.suppliers.set(id, updated);
+    return updated;
+  }
+
+  async deleteSupplier(id: number): Promise<void> {
+    this.suppliers.delete(id);
+    this.deleteWhere(this.supplierPrices, price => price.supplierId === id);
+    for (const purchase of Array.from(this.materialPurchases.values())) {
+      if (purchase.supplierId === id) {
+        this.materialPurchases.set(purchase.id, { ...purchase, supplierId: null });
+      }
+    }
+  }
+
+  async getSupplierPrices(filter: { supplierId?: number; itemType?: StockItemType; itemId?: number }): Promise<SupplierPriceWithDetails[]> {
+    return Array.from(this.supplierPrices.values())
+      .filter(price =>
+        (filter.supplierId === undefined || price.supplierId === filter.supplierId) &&
+        (!filter.itemType || price.itemType === filter.itemType) &&
+        (filter.itemId === undefined || price.itemId === filter.itemId)
+      )
+      .flatMap(price => {
+        const supplier = this.suppliers.get(price.supplierId);
+        if (!supplier) return [];
+        const item = price.itemType === "packaging" ? this.packaging.get(price.itemId) : this.materials.get(price.itemId);
+        return [{ ...price, supplierName: supplier.name, leadTimeDays: supplier.leadTimeDays, itemName: item?.name ?? null }];
+      })
+      .sort((a, b) => parseFloat(a.price) - parseFloat(b.price) || a.supplierName.localeCompare(b.supplierName));
+  }
+
+  async getSupplierPrice(id: number): Promise<SupplierPrice | undefined> {
+    return this.supplierPrices.get(id);
+  }
+
+  async createSupplierPrice(price: InsertSupplierPrice): Promise<SupplierPrice> {
+    const now = new Date();
+    const created: SupplierPrice = {
+      notes: null,
+      ...definedFields(price),
+      isPreferred: false,
+      id: this.nextId(this.supplierPrices),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.supplierPrices.set(created.id, created);
+    return created;
+  }
+
+  async updateSupplierPrice(id: number, price: Partial<InsertSupplierPrice>): Promise<SupplierPrice> {
+    const existing = this.supplierPrices.get(id);
+    if (!existing) throw new Error(`Supplier price ${id} not found`);
+
+    const updated: SupplierPrice = { ...existing, ...definedFields(price), updatedAt: new Date() };
+    this.supplierPrices.set(id, updated);
+    return updated;
+  }
+
+  async deleteSupplierPrice(id: number): Promise<void> {
+    this.supplierPrices.delete(id);
+  }
+
+  async setPreferredSupplierPrice(id: number): Promise<SupplierPrice> {
+    const existing = this.supplierPrices.get(id);
+    if (!existing) throw new Error(`Supplier price ${id} not found`);
+
+    for (const price of Array.from(this.supplierPrices.values())) {
+      if (price.itemType === existing.itemType && price.itemId === existing.itemId) {
+        this.supplierPrices.set(price.id, { ...price, isPreferred: price.id === id });
+      }
+    }
+    const updated: SupplierPrice = { ...existing, isPreferred: true, updatedAt: new Date() };
+    this.supplierPrices.set(id, updated);
+    return updated;
+  }
+
+  // Material Purchases
+  async getMaterialPurchases(materialId: number): Promise<MaterialPurchaseWithSupplier[]> {
+    return Array.from(this.materialPurchases.values())
+      .filter(purchase => purchase.materialId === materialId)
+      .sort((a, b) => b.purchaseTime.getTime() - a.purchaseTime.getTime() || b.id - a.id)
+      .map(purchase => ({
+        ...purchase,
+        supplierName: purchase.supplierId !== null ? this.suppliers.get(purchase.supplierId)?.name ?? null : null,
+      }));
+  }
+
+  async getMaterialPurchase(id: number): Promise<MaterialPurchase | undefined> {
+    return this.materialPurchases.get(id);
+  }
+
+  async createMaterialPurchase(materialId: number, purchase: InsertMaterialPurchase): Promise<MaterialPurchase> {
+    const now = new Date();
+    const created: MaterialPurchase = {
+      supplierId: null,
+      notes: null,
+      ...definedFields(purchase),
+      materialId,
+      purchaseTime: purchase.purchaseTime ?? now,
+      id: this.nextId(this.materialPurchases),
+      createdAt: now,
+    };
+    this.materialPurchases.set(created.id, created);
+    return created;
+  }
+
+  async deleteMaterialPurchase(id: number): Promise<void> {
+    this.materialPurchases.delete(id);
+  }
+
+  // 台灣營養資料庫管理
+  async getTaiwanNutritionDatabase(search?: string, category?: string): Promise<TaiwanNutritionDatabase[]> {
+    return Array.from(this.taiwanNutritionDatabase.values())
+      .filter(item => matchesSearch(item.foodName, search))
+      .filter(item => !category || item.category === category)
+      .sort((a, b) => a.foodName.localeCompare(b.foodName));
+  }
+
+  async createTaiwanNutritionDatabase(data: InsertTaiwanNutritionDatabase): Promise<TaiwanNutritionDatabase> {
+    const now = new Date();
+    const created: TaiwanNutritionDatabase = {
+      foodCode: null,
+      category: null,
+      calories: null,
+      protein: null,
+      fat: null,
+      saturatedFat: null,
+      transFat: null,
+      carbohydrates: null,
+      sugar: null,
+      sodium: null,
+      fiber: null,
+      calcium: null,
+      iron: null,
+      vitaminA: null,
+      vitaminC: null,
+      sourceNote: null,
+      ...definedFields(data),
+      id: this.nextId(this.taiwanNutritionDatabase),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.taiwanNutritionDatabase.set(created.id, created);
+    return created;
+  }
+
+  async updateTaiwanNutritionDatabase(id: number, data: Partial<InsertTaiwanNutritionDatabase>): Promise<TaiwanNutritionDatabase> {
+    const existing = this.taiwanNutritionDatabase.get(id);
+    if (!existing) throw new Error(`Taiwan nutrition entry ${id} not found`);
+    const updated: TaiwanNutritionDatabase = { ...existing, ...definedFields(data), updatedAt: new Date() };
+    this.taiwanNutritionDatabase.set(id, updated);
+    return updated;
+  }
+
+  async deleteTaiwanNutritionDatabase(id: number): Promise<void> {
+    this.taiwanNutritionDatabase.delete(id);
+    this.deleteWhere(this.materialNutritionMapping, mapping => mapping.taiwanNutritionId === id);
+  }
+
+  async importTaiwanNutritionDatabase(data: Array<InsertTaiwanNutritionDatabase>): Promise<{ imported: number; updated: number }> {
+    let imported = 0;
+    let updated = 0;
+
+    for (const item of data) {
+      const existing = Array.from(this.taiwanNutritionDatabase.values()).find(entry =>
+        entry.foodName === item.foodName && (!item.foodCode || entry.foodCode === item.foodCode)
+      );
+
+      if (existing) {
+        await this.updateTaiwanNutritionDatabase(existing.id, item);
+        updated++;
+      } else {
+        await this.createTaiwanNutritionDatabase(item);
+        imported++;
+      }
+    }
+
+    return { imported, updated };
+  }
+
+  // 原料與台灣營養資料庫對應管理
+  async getMaterialNutritionMappingsWithDetails(materialId?: number): Promise<(MaterialNutritionMapping & {
+    material: Material;
+    taiwanNutrition: TaiwanNutritionDatabase;
+  })[]> {
+    return Array.from(this.materialNutritionMapping.values())
+      .filter(mapping => materialId === undefined || mapping.materialId === materialId)
+      .flatMap(mapping => {
+        const material = this.materials.get(mapping.materialId);
+        const taiwanNutrition = this.taiwanNutritionDatabase.get(mapping.taiwanNutritionId);
+        return material && taiwanNutrition ? [{ ...mapping, material, taiwanNutrition }] : [];
+      })
+      .sort((a, b) => a.material.name.localeCompare(b.material.name));
+  }
+
+  async createMaterialNutritionMapping(data: InsertMaterialNutritionMapping): Promise<MaterialNutritionMapping> {
+    const now = new Date();
+    const created: MaterialNutritionMapping = {
+      mappingNote: null,
+      ...definedFields(data),
+      id: this.nextId(this.materialNutritionMapping),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.materialNutritionMapping.set(created.id, created);
+    return created;
+  }
+
+  async deleteMaterialNutritionMapping(id: number): Promise<void> {
+    this.materialNutritionMapping.delete(id);
+  }
+
+  async getMaterialNutritionMappings(): Promise<MaterialNutritionMapping[]> {
+    return Array.from(this.materialNutritionMapping.values());
+  }
+
+  // 營養標示模板管理
+  async getNutritionLabelTemplates(): Promise<NutritionLabelTemplate[]> {
+    return Array.from(this.nutritionLabelTemplates.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getNutritionLabelTemplate(id: number): Promise<NutritionLabelTemplate | undefined> {
+    return this.nutritionLabelTemplates.get(id);
+  }
+
+  async createNutritionLabelTemplate(data: InsertNutritionLabelTemplate): Promise<NutritionLabelTemplate> {
+    const now = new Date();
+    const created: NutritionLabelTemplate = {
+      description: null,
+      width: "20.00",
+      height: "10.00",
+      fontSize: "2.00",
+      ...definedFields(data),
+      id: this.nextId(this.nutritionLabelTemplates),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.nutritionLabelTemplates.set(created.id, created);
+    return created;
+  }
+
+  async updateNutritionLabelTemplate(id: number, data: Partial<InsertNutritionLabelTemplate>): Promise<NutritionLabelTemplate> {
+    const existing = this.nutritionLabelTemplates.get(id);
+    if (!existing) throw new Error(`Nutrition label template ${id} not found`);
+    const updated: NutritionLabelTemplate = { ...existing, ...definedFields(data), updatedAt: new Date() };
+    this.nutritionLabelTemplates.set(id, updated);
+    return updated;
+  }
+
+  async deleteNutritionLabelTemplate(id: number): Promise<void> {
+    this.nutritionLabelTemplates.delete(id);
+  }
+
+  // 營養標示生成記錄管理
+  async getNutritionLabels(search?: string): Promise<NutritionLabel[]> {
+    return Array.from(this.nutritionLabels.values())
+      .filter(label => matchesSearch(label.name, search))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async createNutritionLabel(data: InsertNutritionLabel): Promise<NutritionLabel> {
+    const now = new Date();
+    const created: NutritionLabel = {
+      templateId: null,
+      generatedFiles: null,
+      ...definedFields(data),
+      id: this.nextId(this.nutritionLabels),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.nutritionLabels.set(created.id, created);
+    return created;
+  }
+
+  async updateNutritionLabel(id: number, data: Partial<InsertNutritionLabel>): Promise<NutritionLabel> {
+    const existing = this.nutritionLabels.get(id);
+    if (!existing) throw new Error(`Nutrition label ${id} not found`);
+    const updated: NutritionLabel = { ...existing, ...definedFields(data), updatedAt: new Date() };
+    this.nutritionLabels.set(id, updated);
+    return updated;
+  }
+
+  async deleteNutritionLabel(id: number): Promise<void> {
+    this.nutritionLabels.delete(id);
+  }
+
+  async getNutritionLabel(id: number): Promise<NutritionLabel | undefined> {
+    return this.nutritionLabels.get(id);
+  }
+
+  // 計算配方營養成分（支援多個配方）
+  async calculateRecipesNutrition(recipeIds: number[], servingSize: number, servingsPerPackage: number): Promise<CalculatedNutrition> {
+    const recipesList = (await Promise.all(recipeIds.map(id => this.getRecipe(id))))
+      .filter((recipe): recipe is RecipeWithIngredients => recipe !== undefined);
+
+    const nutritionMap = this.getMaterialNutritionPer100g(collectRecipeMaterialIds(recipesList));
+
+    return calculateRecipesNutrition(recipesList, nutritionMap, servingSize, servingsPerPackage);
+  }
+
+  async calculateNutritionForRecipes(recipeIds: number[], servingSize: number): Promise<any> {
+    return this.calculateRecipesNutrition(recipeIds, servingSize, 1);
+  }
+}
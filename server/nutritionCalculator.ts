@@ -0,0 +1,189 @@
+import type {
+  CalculatedNutrition,
+  IncompleteNutritionMaterial,
+  MissingNutritionMaterial,
+  NutrientValues,
+  RecipeNutrition,
+  RecipeWithIngredients,
+} from "@shared/schema";
+import { calculateFinishedWeight, calculateRawWeight, netIngredientQuantity, recipeUsageRatio } from "@shared/costEngine";
+import { applyTaiwanLabelRules } from "@shared/nutritionCompliance";
+
+type NutrientRow = {
+  calories: string | null;
+  protein: string | null;
+  fat: string | null;
+  saturatedFat: string | null;
+  transFat: string | null;
+  carbohydrates: string | null;
+  sugar: string | null;
+  sodium: string | null;
+};
+
+export const NUTRIENT_KEYS: (keyof NutrientValues)[] = [
+  "calories",
+  "protein",
+  "fat",
+  "saturatedFat",
+  "transFat",
+  "carbohydrates",
+  "sugar",
+  "sodium",
+];
+
+export function emptyNutrientValues(): NutrientValues {
+  return {
+    calories: 0,
+    protein: 0,
+    fat: 0,
+    saturatedFat: 0,
+    transFat: 0,
+    carbohydrates: 0,
+    sugar: 0,
+    sodium: 0,
+  };
+}
+
+// 原料每100g營養值；missingNutrients 為資料庫中未填的營養素（以 0 計算）
+export type MaterialNutrientValues = NutrientValues & {
+  missingNutrients?: (keyof NutrientValues)[];
+};
+
+// 將資料庫的 decimal 字串轉為數值（nutritionFacts 與台灣營養資料庫欄位相同）
+export function toNutrientValues(row: NutrientRow): MaterialNutrientValues {
+  const values: MaterialNutrientValues = {
+    calories: parseFloat(row.calories || "0"),
+    protein: parseFloat(row.protein || "0"),
+    fat: parseFloat(row.fat || "0"),
+    saturatedFat: parseFloat(row.saturatedFat || "0"),
+    transFat: parseFloat(row.transFat || "0"),
+    carbohydrates: parseFloat(row.carbohydrates || "0"),
+    sugar: parseFloat(row.sugar || "0"),
+    sodium: parseFloat(row.sodium || "0"),
+  };
+  const missingNutrients = NUTRIENT_KEYS.filter(key => row[key] === null || row[key] === "");
+  if (missingNutrients.length > 0) {
+    values.missingNutrients = missingNutrients;
+  }
+  return values;
+}
+
+// 配方所有原料 ID（含子配方），用於查詢營養資料
+export function collectRecipeMaterialIds(recipesList: RecipeWithIngredients[]): number[] {
+  const ids = new Set<number>();
+  const visit = (recipe: RecipeWithIngredients) => {
+    recipe.ingredients.forEach(ing => ids.add(ing.materialId));
+    recipe.subRecipes?.forEach(sr => visit(sr.subRecipe));
+  };
+  recipesList.forEach(visit);
+  return Array.from(ids);
+}
+
+type IngredientCallback = (
+  ingredient: RecipeWithIngredients["ingredients"][number],
+  recipe: RecipeWithIngredients,
+  nutrition?: MaterialNutrientValues
+) => void;
+
+// 累加整份配方的營養總量，子配方依使用比例計入；缺少或不完整營養資料的原料交由 onMissing 處理
+function accumulateRecipeNutrients(
+  recipe: RecipeWithIngredients,
+  nutritionMap: Map<number, MaterialNutrientValues>,
+  ratio: number,
+  totals: NutrientValues,
+  onMissing?: IngredientCallback
+): void {
+  for (const ingredient of recipe.ingredients) {
+    const nutrition = nutritionMap.get(ingredient.materialId);
+    if (!nutrition) {
+      onMissing?.(ingredient, recipe);
+      continue;
+    }
+    if (nutrition.missingNutrients) {
+      onMissing?.(ingredient, recipe, nutrition);
+    }
+
+    const factor = (netIngredientQuantity(ingredient) / 100) * ratio; // nutrition facts are per 100g, trimmed waste excluded
+    for (const key of NUTRIENT_KEYS) {
+      totals[key] += nutrition[key] * factor;
+    }
+  }
+
+  for (const sr of recipe.subRecipes ?? []) {
+    const subRatio = recipeUsageRatio(sr.subRecipe, parseFloat(sr.quantity), sr.unit);
+    accumulateRecipeNutrients(sr.subRecipe, nutritionMap, ratio * subRatio, totals, onMissing);
+  }
+}
+
+// 計算單一配方每份營養成分，nutritionMap 為原料每100g營養值
+export function calculateRecipeNutrition(
+  recipe: RecipeWithIngredients,
+  nutritionMap: Map<number, MaterialNutrientValues>
+): RecipeNutrition {
+  const totals = emptyNutrientValues();
+  accumulateRecipeNutrients(recipe, nutritionMap, 1, totals);
+
+  const portionWeight = parseFloat(recipe.totalWeight) / recipe.totalPortions;
+  const perPortion = emptyNutrientValues();
+  for (const key of NUTRIENT_KEYS) {
+    perPortion[key] = totals[key] / recipe.totalPortions;
+  }
+
+  return {
+    recipeId: recipe.id,
+    recipeName: recipe.name,
+    portionWeight,
+    ...perPortion,
+  };
+}
+
+// 合併多個配方計算營養標示，列出缺少營養資料的原料，並依台灣標示規定產生標示數值
+export function calculateRecipesNutrition(
+  recipesList: RecipeWithIngredients[],
+  nutritionMap: Map<number, MaterialNutrientValues>,
+  servingSize: number,
+  servingsPerPackage: number
+): CalculatedNutrition {
+  const totals = emptyNutrientValues();
+  const missing = new Map<number, MissingNutritionMaterial>();
+  const incomplete = new Map<number, IncompleteNutritionMaterial>();
+  let recipesWeight = 0;
+
+  for (const recipe of recipesList) {
+    // 配方總重量未填時以原料重量合計代替
+    // 成品重量（含烘焙損耗），總重量未填時改用生料重量
+    recipesWeight += calculateFinishedWeight(recipe) || calculateRawWeight(recipe);
+
+    accumulateRecipeNutrients(recipe, nutritionMap, 1, totals, (ingredient, owner, nutrition) => {
+      const entries: Map<number, MissingNutritionMaterial> = nutrition ? incomplete : missing;
+      const entry = entries.get(ingredient.materialId) || {
+        materialId: ingredient.materialId,
+        materialName: ingredient.material.name,
+        recipeNames: [],
+        ...(nutrition && { missingNutrients: nutrition.missingNutrients ?? [] }),
+      };
+      if (!entry.recipeNames.includes(owner.name)) {
+        entry.recipeNames.push(owner.name);
+      }
+      entries.set(ingredient.materialId, entry);
+    });
+  }
+
+  const per100g = emptyNutrientValues();
+  const perServing = emptyNutrientValues();
+  for (const key of NUTRIENT_KEYS) {
+    per100g[key] = recipesWeight > 0 ? (totals[key] / recipesWeight) * 100 : 0;
+    perServing[key] = (per100g[key] * servingSize) / 100;
+  }
+
+  return {
+    perServing,
+    per100g,
+    servingSize,
+    servingsPerPackage,
+    totalWeight: servingSize * servingsPerPackage,
+    missingNutritionMaterials: Array.from(missing.values()),
+    incompleteNutritionMaterials: Array.from(incomplete.values()),
+    labelValues: applyTaiwanLabelRules({ perServing, per100g }),
+  };
+}
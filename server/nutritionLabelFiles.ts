@@ -0,0 +1,153 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { zipSync } from "fflate";
+import type {
+  NutritionLabel,
+  NutritionLabelTemplate,
+  NutritionLabelFormat,
+  NutritionLabelGeneratedFiles,
+  CalculatedNutrition,
+  NutrientValues,
+} from "@shared/schema";
+import { resolveTemplateConfig } from "@shared/labelLayout";
+import type { AllergenSummary } from "@shared/allergens";
+import { NutritionLabelGenerator, generateNutritionLabelExcel, type NutritionData, type LabelSize, type LabelCheck } from "./nutritionLabelGenerator";
+
+// 已生成標籤檔案的存放目錄，依標示 ID 分資料夾，每種格式保留最新一份
+const LABEL_FILES_DIR = path.join(process.cwd(), "nutrition-label-files");
+
+type SingleFormat = Exclude<NutritionLabelFormat, "zip">;
+
+const SINGLE_FORMATS: SingleFormat[] = ["xlsx", "pdf", "png", "jpg"];
+
+export const NUTRITION_LABEL_CONTENT_TYPES: Record<NutritionLabelFormat, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+  png: "image/png",
+  jpg: "image/jpeg",
+  zip: "application/zip",
+};
+
+const ZERO_NUTRIENTS: NutrientValues = {
+  calories: 0,
+  protein: 0,
+  fat: 0,
+  saturatedFat: 0,
+  transFat: 0,
+  carbohydrates: 0,
+  sugar: 0,
+  sodium: 0,
+};
+
+export interface GeneratedLabelFile {
+  buffer: Buffer;
+  fileName: string;
+  generatedFiles: NutritionLabelGeneratedFiles;
+}
+
+const generator = new NutritionLabelGenerator();
+
+function labelDir(labelId: number): string {
+  return path.join(LABEL_FILES_DIR, String(labelId));
+}
+
+function labelFilePath(labelId: number, format: NutritionLabelFormat): string {
+  return path.join(labelDir(labelId), `label.${format}`);
+}
+
+export function labelFileName(label: Pick<NutritionLabel, "name">, format: NutritionLabelFormat): string {
+  return `${label.name}_營養標示.${format}`;
+}
+
+// 模板寬高以公分儲存，圖檔與 PDF 生成使用公釐；未套用模板時使用生成器預設尺寸
+export function labelSizeFromTemplate(template?: NutritionLabelTemplate): LabelSize | undefined {
+  if (!template) return undefined;
+  const width = parseFloat(template.width) * 10;
+  const height = parseFloat(template.height) * 10;
+  return width > 0 && height > 0 ? { width, height, unit: "mm" } : undefined;
+}
+
+function toNutritionData(label: NutritionLabel, allergens?: AllergenSummary): NutritionData {
+  const nutrition = (label.calculatedNutrition ?? {}) as Partial<CalculatedNutrition>;
+  return {
+    name: label.name,
+    servingSize: label.servingSize,
+    servingsPerPackage: String(label.servingsPerPackage),
+    perServing: { ...ZERO_NUTRIENTS, ...nutrition.perServing },
+    per100g: { ...ZERO_NUTRIENTS, ...nutrition.per100g },
+    allergens,
+  };
+}
+
+async function renderFormat(
+  label: NutritionLabel,
+  format: SingleFormat,
+  template?: NutritionLabelTemplate,
+  allergens?: AllergenSummary
+): Promise<Buffer> {
+  const nutrition = toNutritionData(label, allergens);
+  const size = labelSizeFromTemplate(template);
+  const config = resolveTemplateConfig(template?.template);
+  switch (format) {
+    case "pdf":
+      return generator.generatePDF(nutrition, size, config);
+    case "png":
+      return generator.generatePNG(nutrition, size, config);
+    case "jpg":
+      return generator.generateJPG(nutrition, size, config);
+    default:
+      return generateNutritionLabelExcel(label, allergens);
+  }
+}
+
+// PDF／圖檔輸出前的檢查（Excel 不受標籤尺寸與內嵌字型限制）：內容是否超出標籤、字型是否缺字
+export function checkLabel(
+  label: NutritionLabel,
+  template?: NutritionLabelTemplate,
+  allergens?: AllergenSummary
+): LabelCheck {
+  return generator.checkLabel(toNutritionData(label, allergens), labelSizeFromTemplate(template), resolveTemplateConfig(template?.template));
+}
+
+// 生成指定格式並存檔；zip 會一併生成並保存所有單一格式，allergens 為配方彙整的過敏原
+export async function generateLabelFile(
+  label: NutritionLabel,
+  format: NutritionLabelFormat,
+  template?: NutritionLabelTemplate,
+  allergens?: AllergenSummary
+): Promise<GeneratedLabelFile> {
+  const formats = format === "zip" ? SINGLE_FORMATS : [format];
+  const rendered = new Map<NutritionLabelFormat, Buffer>();
+  for (const single of formats) {
+    rendered.set(single, await renderFormat(label, single, template, allergens));
+  }
+  if (format === "zip") {
+    const entries = Object.fromEntries(
+      SINGLE_FORMATS.map(single => [labelFileName(label, single), new Uint8Array(rendered.get(single)!)])
+    );
+    rendered.set("zip", Buffer.from(zipSync(entries)));
+  }
+
+  await fs.mkdir(labelDir(label.id), { recursive: true });
+  const generatedAt = new Date().toISOString();
+  const generatedFiles: NutritionLabelGeneratedFiles = { ...(label.generatedFiles ?? {}) };
+  for (const [outputFormat, buffer] of Array.from(rendered)) {
+    await fs.writeFile(labelFilePath(label.id, outputFormat), buffer);
+    generatedFiles[outputFormat] = { fileName: labelFileName(label, outputFormat), size: buffer.length, generatedAt };
+  }
+
+  return { buffer: rendered.get(format)!, fileName: labelFileName(label, format), generatedFiles };
+}
+
+// 讀取已保存的標籤檔案；檔案不存在時回傳 null
+export async function readLabelFile(labelId: number, format: NutritionLabelFormat): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(labelFilePath(labelId, format));
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function deleteLabelFiles(labelId: number): Promise<void> {
+  await fs.rm(labelDir(labelId), { recursive: true, force: true });
+}
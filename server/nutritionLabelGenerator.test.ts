@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { NutritionLabelGenerator, type NutritionData } from "./nutritionLabelGenerator";
+
+const LONG_NAME = "北海道十勝特濃鮮奶油千層可頌禮盒（伯爵茶、抹茶紅豆、焦糖海鹽綜合口味）";
+
+const nutrition: NutritionData = {
+  name: LONG_NAME,
+  servingSize: "60",
+  servingsPerPackage: "4",
+  perServing: { calories: 245, protein: 4.8, fat: 13.2, saturatedFat: 8.1, transFat: 0.2, carbohydrates: 26.5, sugar: 5.4, sodium: 210 },
+  per100g: { calories: 408, protein: 8, fat: 22, saturatedFat: 13.5, transFat: 0.3, carbohydrates: 44.2, sugar: 9, sodium: 350 },
+};
+
+// 取出 PDF 所有文字並去除空白，長品名換行後仍可比對
+async function extractText(pdf: Buffer): Promise<string> {
+  const document = await getDocument({ data: new Uint8Array(pdf), useSystemFonts: false }).promise;
+  const texts: string[] = [];
+  for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+    const page = await document.getPage(pageNumber);
+    const content = await page.getTextContent();
+    for (const item of content.items) {
+      if ("str" in item) texts.push(item.str);
+    }
+  }
+  await document.destroy();
+  return texts.join("").replace(/\s+/g, "");
+}
+
+describe("NutritionLabelGenerator.generatePDF", () => {
+  it("內嵌中文字型，輸出的 PDF 可擷取出營養標示文字", async () => {
+    const pdf = await new NutritionLabelGenerator().generatePDF(nutrition);
+    const text = await extractText(pdf);
+
+    expect(text).toContain("營養標示");
+    expect(text).toContain("蛋白質");
+    expect(text).toContain("碳水化合物");
+    expect(text).toContain(LONG_NAME);
+  });
+});
+
+describe("NutritionLabelGenerator.checkLabel", () => {
+  it("常用字皆有字形", () => {
+    expect(new NutritionLabelGenerator().checkLabel(nutrition).missingCharacters).toEqual([]);
+  });
+
+  it("回報字型子集缺少的罕用字", () => {
+    const { missingCharacters } = new NutritionLabelGenerator().checkLabel({ ...nutrition, name: "堃記犇牛肉酥" });
+    expect(missingCharacters).toEqual(["堃", "犇"]);
+  });
+});
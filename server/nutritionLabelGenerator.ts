@@ -1,11 +1,26 @@
-import { createCanvas, registerFont } from 'canvas';
+import type { CanvasRenderingContext2D } from 'canvas';
 import { jsPDF } from 'jspdf';
 import * as XLSX from "xlsx";
+import { existsSync, readFileSync } from "fs";
+import * as path from "path";
+import type { NutritionLabelTemplateConfig } from "@shared/schema";
+import { buildLabelLayout, DEFAULT_LABEL_TEMPLATE_CONFIG, PT_TO_MM, type LabelLayout, type MeasureText } from "@shared/labelLayout";
+import {
+  TAIWAN_NUTRIENT_RULES,
+  TAIWAN_DAILY_VALUE_NOTES,
+  applyTaiwanLabelRules,
+  formatDailyValuePercent,
+  formatLabelQuantity,
+  formatNutrientAmount,
+} from "@shared/nutritionCompliance";
+import { allergenStatement, type AllergenSummary } from "@shared/allergens";
+import { emptyNutrientValues } from "./nutritionCalculator";
 
 export interface NutritionData {
   name: string;
   servingSize: string;
   servingsPerPackage: string;
+  allergens?: AllergenSummary;
   perServing: {
     calories: number;
     protein: number;
@@ -34,232 +49,210 @@ export interface LabelSize {
   unit: 'mm' | 'px';
 }
 
+export interface LabelCheck {
+  layout: LabelLayout;
+  missingCharacters: string[]; // 標籤字型沒有字形的字元，輸出時會顯示為空白方塊
+}
+
+// 標籤使用的繁體中文字型：隨專案放置於 server/fonts 的 Noto Sans TC 子集（常用國字，授權見 OFL.txt），可用 LABEL_FONT_PATH 指定其他檔案
+const LABEL_FONT_PATH = process.env.LABEL_FONT_PATH || path.join(process.cwd(), "server", "fonts", "NotoSansTC-Regular.ttf");
+const PDF_FONT_NAME = "NotoSansTC";
+const CANVAS_FONT_FAMILY = "Noto Sans TC";
+
+// 缺少字型檔時直接報錯，避免產生亂碼或空白方塊的標籤
+function assertLabelFont(): void {
+  if (!existsSync(LABEL_FONT_PATH)) {
+    throw new Error(`缺少標籤中文字型檔：${LABEL_FONT_PATH}`);
+  }
+}
+
+let pdfFontBase64: string | null = null;
+
+// PDF 需內嵌字型才能顯示中文
+function loadPdfFont(): string {
+  if (pdfFontBase64 === null) {
+    assertLabelFont();
+    pdfFontBase64 = readFileSync(LABEL_FONT_PATH).toString("base64");
+  }
+  return pdfFontBase64;
+}
+
+let canvasModule: Promise<typeof import('canvas')> | null = null;
+
+// PNG/JPG：canvas 為原生模組，首次繪製時才載入並註冊字型，PDF 生成不依賴 canvas
+function loadCanvas(): Promise<typeof import('canvas')> {
+  if (canvasModule === null) {
+    canvasModule = (async () => {
+      assertLabelFont();
+      const canvas = await import('canvas');
+      canvas.registerFont(LABEL_FONT_PATH, { family: CANVAS_FONT_FAMILY });
+      return canvas;
+    })();
+    canvasModule.catch(() => { canvasModule = null; });
+  }
+  return canvasModule;
+}
+
+function canvasFont(size: number, bold = false): string {
+  return `${bold ? "bold " : ""}${size}px "${CANVAS_FONT_FAMILY}", sans-serif`;
+}
+
 export class NutritionLabelGenerator {
   private defaultSize: LabelSize = { width: 200, height: 100, unit: 'mm' };
 
-  // 將mm轉換為px (300 DPI)
-  private mmToPx(mm: number): number {
-    return Math.round(mm * 11.811); // 300 DPI: 1mm = 11.811px
-  }
+  // 300 DPI: 1mm = 11.811px
+  private static readonly PX_PER_MM = 11.811;
 
-  // 將mm轉換為PDF點 (72 DPI)
-  private mmToPt(mm: number): number {
-    return mm * 2.834645669; // 1mm = 2.834645669pt
+  // 標籤尺寸換算為公釐
+  private toMm(size: LabelSize): { width: number; height: number } {
+    return size.unit === 'mm'
+      ? { width: size.width, height: size.height }
+      : { width: size.width / NutritionLabelGenerator.PX_PER_MM, height: size.height / NutritionLabelGenerator.PX_PER_MM };
   }
 
-  // 生成PDF格式標籤
-  async generatePDF(nutrition: NutritionData, size: LabelSize = this.defaultSize): Promise<Buffer> {
-    const widthPt = size.unit === 'mm' ? this.mmToPt(size.width) : size.width * 0.75;
-    const heightPt = size.unit === 'mm' ? this.mmToPt(size.height) : size.height * 0.75;
-    
+  // 建立內嵌繁體中文字型的 PDF 文件與對應的版面
+  private createPdf(nutrition: NutritionData, size: LabelSize, config: NutritionLabelTemplateConfig) {
+    const { width, height } = this.toMm(size);
     const pdf = new jsPDF({
-      format: [widthPt, heightPt],
-      unit: 'pt'
-    });
-    
-    // 設置字體（使用內建字體以避免中文問題）
-    pdf.setFont('helvetica');
-    
-    // 標題
-    pdf.setFontSize(16);
-    pdf.text('Nutrition Facts / 營養標示', widthPt / 2, 30, { align: 'center' });
-    
-    // 產品名稱
-    pdf.setFontSize(14);
-    pdf.text(nutrition.name, widthPt / 2, 50, { align: 'center' });
-    
-    // 份量資訊
-    pdf.setFontSize(10);
-    pdf.text(`Per Serving / 每份：${nutrition.servingSize}g`, 10, 70);
-    pdf.text(`Servings per package / 本包裝含：${nutrition.servingsPerPackage}份`, 10, 85);
-    
-    // 表格標題
-    pdf.setFontSize(8);
-    pdf.text('Nutrition / 營養成分', 10, 105);
-    pdf.text('Per Serving / 每份', widthPt * 0.5, 105);
-    pdf.text('Per 100g / 每100公克', widthPt * 0.75, 105);
-    
-    // 營養成分數據
-    const startY = 120;
-    const lineHeight = 12;
-    const nutritionData = [
-      ['Calories / 熱量', `${Math.round(nutrition.perServing.calories)} kcal / 大卡`, `${Math.round(nutrition.per100g.calories)} kcal / 大卡`],
-      ['Protein / 蛋白質', `${nutrition.perServing.protein.toFixed(1)} g / 公克`, `${nutrition.per100g.protein.toFixed(1)} g / 公克`],
-      ['Fat / 脂肪', `${nutrition.perServing.fat.toFixed(1)} g / 公克`, `${nutrition.per100g.fat.toFixed(1)} g / 公克`],
-      ['  Saturated Fat / 飽和脂肪', `${nutrition.perServing.saturatedFat.toFixed(1)} g / 公克`, `${nutrition.per100g.saturatedFat.toFixed(1)} g / 公克`],
-      ['  Trans Fat / 反式脂肪', `${nutrition.perServing.transFat.toFixed(1)} g / 公克`, `${nutrition.per100g.transFat.toFixed(1)} g / 公克`],
-      ['Carbohydrates / 碳水化合物', `${nutrition.perServing.carbohydrates.toFixed(1)} g / 公克`, `${nutrition.per100g.carbohydrates.toFixed(1)} g / 公克`],
-      ['  Sugar / 糖', `${nutrition.perServing.sugar.toFixed(1)} g / 公克`, `${nutrition.per100g.sugar.toFixed(1)} g / 公克`],
-      ['Sodium / 鈉', `${Math.round(nutrition.perServing.sodium)} mg / 毫克`, `${Math.round(nutrition.per100g.sodium)} mg / 毫克`]
-    ];
-    
-    nutritionData.forEach((row, index) => {
-      const y = startY + (index * lineHeight);
-      pdf.setFontSize(7);
-      pdf.text(row[0], 10, y);
-      pdf.text(row[1], widthPt * 0.5, y);
-      pdf.text(row[2], widthPt * 0.75, y);
+      orientation: width > height ? 'landscape' : 'portrait',
+      format: [width, height],
+      unit: 'mm'
     });
     
-    // 邊框
-    pdf.setLineWidth(1);
-    pdf.rect(5, 5, widthPt - 10, heightPt - 10);
+    pdf.addFileToVFS(`${PDF_FONT_NAME}.ttf`, loadPdfFont());
+    pdf.addFont(`${PDF_FONT_NAME}.ttf`, PDF_FONT_NAME, 'normal');
+    pdf.setFont(PDF_FONT_NAME, 'normal');
+
+    const measure: MeasureText = (text, fontSize) => {
+      pdf.setFontSize(fontSize / PT_TO_MM);
+      return pdf.getTextWidth(text);
+    };
+    return { pdf, width, height, layout: buildLabelLayout(nutrition, config, { width, height }, measure) };
+  }
+
+  // 生成前檢查：以標籤字型量測版面是否超出標籤，並找出字型子集缺少的字元（各格式使用同一字型）
+  checkLabel(
+    nutrition: NutritionData,
+    size: LabelSize = this.defaultSize,
+    config: NutritionLabelTemplateConfig = DEFAULT_LABEL_TEMPLATE_CONFIG
+  ): LabelCheck {
+    const { pdf, layout } = this.createPdf(nutrition, size, config);
+    const font = pdf.getFont().metadata;
+    const characters = new Set(
+      layout.elements.flatMap(element => element.type === 'text' ? Array.from(element.text) : [])
+    );
+    const missingCharacters = Array.from(characters)
+      .filter(char => char.trim() !== '' && font.characterToGlyph(char.codePointAt(0)) === 0);
+    return { layout, missingCharacters };
+  }
+
+  // 生成PDF格式標籤（依模板版面，座標單位為公釐）
+  async generatePDF(
+    nutrition: NutritionData,
+    size: LabelSize = this.defaultSize,
+    config: NutritionLabelTemplateConfig = DEFAULT_LABEL_TEMPLATE_CONFIG
+  ): Promise<Buffer> {
+    const { pdf, width, height, layout } = this.createPdf(nutrition, size, config);
+
+    // 背景與邊框
+    pdf.setFillColor(layout.backgroundColor);
+    pdf.rect(0, 0, width, height, 'F');
+    pdf.setDrawColor(layout.textColor);
+    if (layout.border) {
+      pdf.setLineWidth(layout.border.width);
+      pdf.rect(layout.border.width / 2, layout.border.width / 2, width - layout.border.width, height - layout.border.width);
+    }
+
+    pdf.setTextColor(layout.textColor);
+    for (const element of layout.elements) {
+      if (element.type === 'text') {
+        pdf.setFontSize(element.fontSize / PT_TO_MM);
+        pdf.text(element.text, element.x, element.y, { align: element.align });
+      } else {
+        pdf.setLineWidth(element.width);
+        pdf.line(element.x1, element.y1, element.x2, element.y2);
+      }
+    }
     
     return Buffer.from(pdf.output('arraybuffer'));
   }
 
-  // 生成PNG格式標籤
-  async generatePNG(nutrition: NutritionData, size: LabelSize = this.defaultSize): Promise<Buffer> {
-    const widthPx = size.unit === 'mm' ? this.mmToPx(size.width) : size.width;
-    const heightPx = size.unit === 'mm' ? this.mmToPx(size.height) : size.height;
-    
-    const canvas = createCanvas(widthPx, heightPx);
-    const ctx = canvas.getContext('2d');
+  // PNG 與 JPG 共用的標籤繪製（版面以公釐計算後依 300 DPI 換算像素）
+  private async renderCanvas(nutrition: NutritionData, size: LabelSize, config: NutritionLabelTemplateConfig) {
+    const { createCanvas } = await loadCanvas();
+    const scale = NutritionLabelGenerator.PX_PER_MM;
+    const { width, height } = this.toMm(size);
+    const canvas = createCanvas(Math.round(width * scale), Math.round(height * scale));
+    const ctx: CanvasRenderingContext2D = canvas.getContext('2d');
+
+    const measure: MeasureText = (text, fontSize, bold) => {
+      ctx.font = canvasFont(fontSize * scale, bold);
+      return ctx.measureText(text).width / scale;
+    };
+    const layout = buildLabelLayout(nutrition, config, { width, height }, measure);
     
     // 背景
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, widthPx, heightPx);
+    ctx.fillStyle = layout.backgroundColor;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
     
     // 邊框
-    ctx.strokeStyle = '#000000';
-    ctx.lineWidth = 2;
-    ctx.strokeRect(10, 10, widthPx - 20, heightPx - 20);
-    
-    // 設置字體顏色
-    ctx.fillStyle = '#000000';
-    
-    // 標題
-    ctx.font = 'bold 20px sans-serif';
-    ctx.textAlign = 'center';
-    ctx.fillText('Nutrition Facts', widthPx / 2, 50);
-    ctx.font = 'bold 16px sans-serif';
-    ctx.fillText('營養標示', widthPx / 2, 70);
-    
-    // 產品名稱
-    ctx.font = 'bold 18px sans-serif';
-    ctx.fillText(nutrition.name, widthPx / 2, 100);
-    
-    // 份量資訊
-    ctx.font = '12px sans-serif';
-    ctx.textAlign = 'left';
-    ctx.fillText(`Per Serving / 每份：${nutrition.servingSize}g`, 20, 130);
-    ctx.fillText(`Servings per package / 本包裝含：${nutrition.servingsPerPackage}份`, 20, 150);
-    
-    // 表格標題
-    ctx.font = 'bold 10px sans-serif';
-    ctx.fillText('Nutrition / 營養成分', 20, 180);
-    ctx.textAlign = 'center';
-    ctx.fillText('Per Serving / 每份', widthPx * 0.55, 180);
-    ctx.fillText('Per 100g / 每100公克', widthPx * 0.8, 180);
-    
-    // 營養成分數據
-    const startY = 200;
-    const lineHeight = 16;
-    const nutritionData = [
-      ['Calories / 熱量', `${Math.round(nutrition.perServing.calories)}`, `${Math.round(nutrition.per100g.calories)}`],
-      ['Protein / 蛋白質', `${nutrition.perServing.protein.toFixed(1)}g`, `${nutrition.per100g.protein.toFixed(1)}g`],
-      ['Fat / 脂肪', `${nutrition.perServing.fat.toFixed(1)}g`, `${nutrition.per100g.fat.toFixed(1)}g`],
-      ['  Saturated / 飽和', `${nutrition.perServing.saturatedFat.toFixed(1)}g`, `${nutrition.per100g.saturatedFat.toFixed(1)}g`],
-      ['  Trans / 反式', `${nutrition.perServing.transFat.toFixed(1)}g`, `${nutrition.per100g.transFat.toFixed(1)}g`],
-      ['Carbs / 碳水化合物', `${nutrition.perServing.carbohydrates.toFixed(1)}g`, `${nutrition.per100g.carbohydrates.toFixed(1)}g`],
-      ['  Sugar / 糖', `${nutrition.perServing.sugar.toFixed(1)}g`, `${nutrition.per100g.sugar.toFixed(1)}g`],
-      ['Sodium / 鈉', `${Math.round(nutrition.perServing.sodium)}mg`, `${Math.round(nutrition.per100g.sodium)}mg`]
-    ];
-    
-    ctx.font = '9px sans-serif';
-    nutritionData.forEach((row, index) => {
-      const y = startY + (index * lineHeight);
-      ctx.textAlign = 'left';
-      ctx.fillText(row[0], 20, y);
-      ctx.textAlign = 'center';
-      ctx.fillText(row[1], widthPx * 0.55, y);
-      ctx.fillText(row[2], widthPx * 0.8, y);
-    });
-    
-    return canvas.toBuffer('image/png');
+    ctx.strokeStyle = layout.textColor;
+    if (layout.border) {
+      const borderPx = layout.border.width * scale;
+      ctx.lineWidth = borderPx;
+      ctx.strokeRect(borderPx / 2, borderPx / 2, canvas.width - borderPx, canvas.height - borderPx);
+    }
+    
+    ctx.fillStyle = layout.textColor;
+    for (const element of layout.elements) {
+      if (element.type === 'text') {
+        ctx.font = canvasFont(element.fontSize * scale, element.bold);
+        ctx.textAlign = element.align;
+        ctx.fillText(element.text, element.x * scale, element.y * scale);
+      } else {
+        ctx.lineWidth = element.width * scale;
+        ctx.beginPath();
+        ctx.moveTo(element.x1 * scale, element.y1 * scale);
+        ctx.lineTo(element.x2 * scale, element.y2 * scale);
+        ctx.stroke();
+      }
+    }
+    
+    return canvas;
+  }
+
+  // 生成PNG格式標籤
+  async generatePNG(
+    nutrition: NutritionData,
+    size: LabelSize = this.defaultSize,
+    config: NutritionLabelTemplateConfig = DEFAULT_LABEL_TEMPLATE_CONFIG
+  ): Promise<Buffer> {
+    return (await this.renderCanvas(nutrition, size, config)).toBuffer('image/png');
   }
 
   // 生成JPG格式標籤
-  async generateJPG(nutrition: NutritionData, size: LabelSize = this.defaultSize): Promise<Buffer> {
-    const widthPx = size.unit === 'mm' ? this.mmToPx(size.width) : size.width;
-    const heightPx = size.unit === 'mm' ? this.mmToPx(size.height) : size.height;
-    
-    const canvas = createCanvas(widthPx, heightPx);
-    const ctx = canvas.getContext('2d');
-    
-    // 背景
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, widthPx, heightPx);
-    
-    // 邊框
-    ctx.strokeStyle = '#000000';
-    ctx.lineWidth = 2;
-    ctx.strokeRect(10, 10, widthPx - 20, heightPx - 20);
-    
-    // 設置字體顏色
-    ctx.fillStyle = '#000000';
-    
-    // 標題
-    ctx.font = 'bold 20px sans-serif';
-    ctx.textAlign = 'center';
-    ctx.fillText('Nutrition Facts', widthPx / 2, 50);
-    ctx.font = 'bold 16px sans-serif';
-    ctx.fillText('營養標示', widthPx / 2, 70);
-    
-    // 產品名稱
-    ctx.font = 'bold 18px sans-serif';
-    ctx.fillText(nutrition.name, widthPx / 2, 100);
-    
-    // 份量資訊
-    ctx.font = '12px sans-serif';
-    ctx.textAlign = 'left';
-    ctx.fillText(`Per Serving / 每份：${nutrition.servingSize}g`, 20, 130);
-    ctx.fillText(`Servings per package / 本包裝含：${nutrition.servingsPerPackage}份`, 20, 150);
-    
-    // 表格標題
-    ctx.font = 'bold 10px sans-serif';
-    ctx.fillText('Nutrition / 營養成分', 20, 180);
-    ctx.textAlign = 'center';
-    ctx.fillText('Per Serving / 每份', widthPx * 0.55, 180);
-    ctx.fillText('Per 100g / 每100公克', widthPx * 0.8, 180);
-    
-    // 營養成分數據
-    const startY = 200;
-    const lineHeight = 16;
-    const nutritionData = [
-      ['Calories / 熱量', `${Math.round(nutrition.perServing.calories)}`, `${Math.round(nutrition.per100g.calories)}`],
-      ['Protein / 蛋白質', `${nutrition.perServing.protein.toFixed(1)}g`, `${nutrition.per100g.protein.toFixed(1)}g`],
-      ['Fat / 脂肪', `${nutrition.perServing.fat.toFixed(1)}g`, `${nutrition.per100g.fat.toFixed(1)}g`],
-      ['  Saturated / 飽和', `${nutrition.perServing.saturatedFat.toFixed(1)}g`, `${nutrition.per100g.saturatedFat.toFixed(1)}g`],
-      ['  Trans / 反式', `${nutrition.perServing.transFat.toFixed(1)}g`, `${nutrition.per100g.transFat.toFixed(1)}g`],
-      ['Carbs / 碳水化合物', `${nutrition.perServing.carbohydrates.toFixed(1)}g`, `${nutrition.per100g.carbohydrates.toFixed(1)}g`],
-      ['  Sugar / 糖', `${nutrition.perServing.sugar.toFixed(1)}g`, `${nutrition.per100g.sugar.toFixed(1)}g`],
-      ['Sodium / 鈉', `${Math.round(nutrition.perServing.sodium)}mg`, `${Math.round(nutrition.per100g.sodium)}mg`]
-    ];
-    
-    ctx.font = '9px sans-serif';
-    nutritionData.forEach((row, index) => {
-      const y = startY + (index * lineHeight);
-      ctx.textAlign = 'left';
-      ctx.fillText(row[0], 20, y);
-      ctx.textAlign = 'center';
-      ctx.fillText(row[1], widthPx * 0.55, y);
-      ctx.fillText(row[2], widthPx * 0.8, y);
-    });
-    
-    return canvas.toBuffer('image/jpeg', { quality: 0.95 });
+  async generateJPG(
+    nutrition: NutritionData,
+    size: LabelSize = this.defaultSize,
+    config: NutritionLabelTemplateConfig = DEFAULT_LABEL_TEMPLATE_CONFIG
+  ): Promise<Buffer> {
+    return (await this.renderCanvas(nutrition, size, config)).toBuffer('image/jpeg', { quality: 0.95 });
   }
 
   // 生成所有格式
-  async generateAllFormats(nutrition: NutritionData, size: LabelSize = this.defaultSize): Promise<{
+  async generateAllFormats(
+    nutrition: NutritionData,
+    size: LabelSize = this.defaultSize,
+    config: NutritionLabelTemplateConfig = DEFAULT_LABEL_TEMPLATE_CONFIG
+  ): Promise<{
     pdf: Buffer;
     png: Buffer;
     jpg: Buffer;
   }> {
     const [pdf, png, jpg] = await Promise.all([
-      this.generatePDF(nutrition, size),
-      this.generatePNG(nutrition, size),
-      this.generateJPG(nutrition, size)
+      this.generatePDF(nutrition, size, config),
+      this.generatePNG(nutrition, size, config),
+      this.generateJPG(nutrition, size, config)
     ]);
 
     return { pdf, png, jpg };
@@ -267,31 +260,38 @@ export class NutritionLabelGenerator {
 }
 
 // 新增Excel格式生成功能
-export async function generateNutritionLabelExcel(nutritionData: any): Promise<Buffer> {
+export async function generateNutritionLabelExcel(nutritionData: any, allergens?: AllergenSummary): Promise<Buffer> {
   const workbook = XLSX.utils.book_new();
   
   const nutrition = nutritionData.calculatedNutrition;
+  const values = applyTaiwanLabelRules({
+    perServing: { ...emptyNutrientValues(), ...nutrition?.perServing },
+    per100g: { ...emptyNutrientValues(), ...nutrition?.per100g },
+  });
   
-  // 營養標示資料（繁體中文格式）
+  // 營養標示資料（繁體中文格式，數值依台灣標示規定修整）
   const labelData = [
     ['營養標示', '', '', ''],
     ['產品名稱', nutritionData.name, '', ''],
-    ['每份重量', `${nutritionData.servingSize}公克`, '', ''],
-    ['本包裝含', `${nutritionData.servingsPerPackage}份`, '', ''],
+    ['每一份量', `${formatLabelQuantity(nutritionData.servingSize)}公克`, '', ''],
+    ['本包裝含', `${formatLabelQuantity(nutritionData.servingsPerPackage)}份`, '', ''],
     ['', '', '', ''],
     ['', '每份', '每100公克', '每日參考值百分比'],
-    ['熱量', `${Math.round(nutrition?.perServing?.calories || 0)}大卡`, `${Math.round(nutrition?.per100g?.calories || 0)}大卡`, ''],
-    ['蛋白質', `${Math.round(nutrition?.perServing?.protein || 0)}公克`, `${Math.round(nutrition?.per100g?.protein || 0)}公克`, ''],
-    ['脂肪', `${Math.round(nutrition?.perServing?.fat || 0)}公克`, `${Math.round(nutrition?.per100g?.fat || 0)}公克`, ''],
-    ['　飽和脂肪', `${Math.round(nutrition?.perServing?.saturatedFat || 0)}公克`, `${Math.round(nutrition?.per100g?.saturatedFat || 0)}公克`, ''],
-    ['　反式脂肪', `${Math.round(nutrition?.perServing?.transFat || 0)}公克`, `${Math.round(nutrition?.per100g?.transFat || 0)}公克`, ''],
-    ['碳水化合物', `${Math.round(nutrition?.perServing?.carbohydrates || 0)}公克`, `${Math.round(nutrition?.per100g?.carbohydrates || 0)}公克`, ''],
-    ['　糖', `${Math.round(nutrition?.perServing?.sugar || 0)}公克`, `${Math.round(nutrition?.per100g?.sugar || 0)}公克`, ''],
-    ['鈉', `${Math.round(nutrition?.perServing?.sodium || 0)}毫克`, `${Math.round(nutrition?.per100g?.sodium || 0)}毫克`, ''],
+    ...TAIWAN_NUTRIENT_RULES.map(rule => [
+      `${rule.indent ? '　' : ''}${rule.label}`,
+      formatNutrientAmount(rule, values.perServing[rule.key]),
+      formatNutrientAmount(rule, values.per100g[rule.key]),
+      formatDailyValuePercent(values.dailyValuePercent[rule.key]),
+    ]),
     ['', '', '', ''],
-    ['※ 參考值：依據衛生福利部「國人膳食營養素參考攝取量」第八版（民國109年）', '', '', ''],
-    ['※ 熱量2000大卡飲食為基準', '', '', ''],
+    ...TAIWAN_DAILY_VALUE_NOTES.map(note => [note, '', '', '']),
   ];
+  const notesStartRow = labelData.length - TAIWAN_DAILY_VALUE_NOTES.length;
+  const statement = allergens ? allergenStatement(allergens) : [];
+  if (statement.length > 0) {
+    labelData.push(['', '', '', ''], ...statement.map(line => [line, '', '', '']));
+  }
+  const mergedNotes = labelData.length - notesStartRow;
 
   const worksheet = XLSX.utils.aoa_to_sheet(labelData);
   
@@ -306,8 +306,10 @@ export async function generateNutritionLabelExcel(nutritionData: any): Promise<B
   // 合併儲存格
   worksheet['!merges'] = [
     { s: { r: 0, c: 0 }, e: { r: 0, c: 3 } }, // 營養標示標題
-    { s: { r: 15, c: 0 }, e: { r: 15, c: 3 } }, // 參考值說明1
-    { s: { r: 16, c: 0 }, e: { r: 16, c: 3 } }  // 參考值說明2
+    ...Array.from({ length: mergedNotes }, (_, index) => ({
+      s: { r: notesStartRow + index, c: 0 },
+      e: { r: notesStartRow + index, c: 3 },
+    })), // 參考值說明與過敏原標示
   ];
 
   XLSX.utils.book_append_sheet(workbook, worksheet, '營養標示');
@@ -0,0 +1,22 @@
+import type { UserSettings } from "@shared/schema";
+import { ZERO_OPERATING_COST_RATES, toNumber, type OperatingCostRates } from "@shared/costEngine";
+
+// 人工、能源與固定費用費率快取：啟動及更新設定時載入，儲存層計算產品成本時使用（不需逐層傳遞參數）
+let currentRates: OperatingCostRates = ZERO_OPERATING_COST_RATES;
+
+export function getOperatingCostRates(): OperatingCostRates {
+  return currentRates;
+}
+
+export function setOperatingCostRates(rates: OperatingCostRates): void {
+  currentRates = rates;
+}
+
+export function operatingCostRatesFromSettings(settings: UserSettings): OperatingCostRates {
+  return {
+    labourHourlyWage: toNumber(settings.labourHourlyWage),
+    ovenCostPerHour: toNumber(settings.ovenCostPerHour),
+    monthlyOverhead: toNumber(settings.monthlyOverhead),
+    monthlyProductionUnits: settings.monthlyProductionUnits,
+  };
+}
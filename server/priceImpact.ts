@@ -0,0 +1,154 @@
+import type {
+  Material,
+  RecipeWithIngredients,
+  ProductWithDetails,
+  CustomProductWithDetails,
+  MaterialPriceImpact,
+  PriceImpactItem,
+} from "@shared/schema";
+import { calculateRecipeCost, calculateProductCost, calculateCustomProductCost, type OperatingCostRates } from "@shared/costEngine";
+
+interface PriceImpactInput {
+  material: Material;
+  newPricePerGram: number;
+  recipes: RecipeWithIngredients[];
+  products: ProductWithDetails[];
+  customProducts: CustomProductWithDetails[];
+  thresholds: { low: number; high: number };
+  rates?: OperatingCostRates; // 人工與固定費用費率，產品成本比較時一併計入
+}
+
+// 將配方（含子配方）中指定原料的單價替換為假設的新單價
+function withMaterialPrice(recipe: RecipeWithIngredients, materialId: number, pricePerGram: string): RecipeWithIngredients {
+  return {
+    ...recipe,
+    ingredients: recipe.ingredients.map(ing =>
+      ing.materialId === materialId
+        ? { ...ing, material: { ...ing.material, pricePerGram } }
+        : ing
+    ),
+    subRecipes: recipe.subRecipes?.map(sr => ({
+      ...sr,
+      subRecipe: withMaterialPrice(sr.subRecipe, materialId, pricePerGram),
+    })),
+  };
+}
+
+function productWithMaterialPrice(product: ProductWithDetails, materialId: number, pricePerGram: string): ProductWithDetails {
+  return {
+    ...product,
+    recipes: product.recipes.map(pr => ({
+      ...pr,
+      recipe: withMaterialPrice(pr.recipe, materialId, pricePerGram),
+    })),
+  };
+}
+
+function recipeUsesMaterial(recipe: RecipeWithIngredients, materialId: number): boolean {
+  return recipe.ingredients.some(ing => ing.materialId === materialId)
+    || (recipe.subRecipes ?? []).some(sr => recipeUsesMaterial(sr.subRecipe, materialId));
+}
+
+function productUsesMaterial(product: ProductWithDetails, materialId: number): boolean {
+  return product.recipes.some(pr => recipeUsesMaterial(pr.recipe, materialId));
+}
+
+function buildImpactItem(
+  id: number,
+  name: string,
+  oldCost: number,
+  newCost: number,
+  oldMargin: number | null,
+  newMargin: number | null,
+  thresholds: { low: number; high: number }
+): PriceImpactItem {
+  const crosses = (threshold: number) =>
+    oldMargin !== null && newMargin !== null && oldMargin >= threshold && newMargin < threshold;
+
+  return {
+    id,
+    name,
+    oldCost,
+    newCost,
+    costChange: newCost - oldCost,
+    oldMargin,
+    newMargin,
+    crossesLowThreshold: crosses(thresholds.low),
+    crossesHighThreshold: crosses(thresholds.high),
+  };
+}
+
+// 分析原料單價變動對配方、產品與客製商品成本及利潤率的影響
+export function analyzeMaterialPriceImpact({
+  material,
+  newPricePerGram,
+  recipes,
+  products,
+  customProducts,
+  thresholds,
+  rates,
+}: PriceImpactInput): MaterialPriceImpact {
+  const materialId = material.id;
+  const newPrice = newPricePerGram.toString();
+
+  const recipeImpacts = recipes
+    .filter(recipe => recipeUsesMaterial(recipe, materialId))
+    .map(recipe => buildImpactItem(
+      recipe.id,
+      recipe.name,
+      calculateRecipeCost(recipe).totalCost,
+      calculateRecipeCost(withMaterialPrice(recipe, materialId, newPrice)).totalCost,
+      null,
+      null,
+      thresholds
+    ));
+
+  const productImpacts = products
+    .filter(product => productUsesMaterial(product, materialId))
+    .map(product => {
+      const oldCost = calculateProductCost(product, rates);
+      const newCost = calculateProductCost(productWithMaterialPrice(product, materialId, newPrice), rates);
+      return buildImpactItem(
+        product.id,
+        product.name,
+        oldCost.adjustedCost,
+        newCost.adjustedCost,
+        oldCost.profitMargin,
+        newCost.profitMargin,
+        thresholds
+      );
+    });
+
+  const customProductImpacts = customProducts
+    .filter(customProduct => customProduct.items.some(item => productUsesMaterial(item.product, materialId)))
+    .map(customProduct => {
+      const oldCost = calculateCustomProductCost(customProduct, rates);
+      const newCost = calculateCustomProductCost({
+        ...customProduct,
+        items: customProduct.items.map(item => ({
+          ...item,
+          product: productWithMaterialPrice(item.product, materialId, newPrice),
+        })),
+      }, rates);
+      return buildImpactItem(
+        customProduct.id,
+        customProduct.name,
+        oldCost.adjustedCost,
+        newCost.adjustedCost,
+        oldCost.profitMargin,
+        newCost.profitMargin,
+        thresholds
+      );
+    });
+
+  return {
+    materialId,
+    materialName: material.name,
+    oldPricePerGram: parseFloat(material.pricePerGram),
+    newPricePerGram,
+    thresholds,
+    recipes: recipeImpacts,
+    products: productImpacts,
+    customProducts: customProductImpacts,
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import type { ProductWithDetails, CustomProductWithDetails } from "@shared/schema";
+import { calculateProductionRequirements, productionRunMovements } from "./productionPlanning";
+
+const flour = { id: 1, name: "低筋麵粉", category: "粉類", purchaseLocation: "烘焙材料行", pricePerGram: "0.05" };
+const box = { id: 1, name: "單入紙盒", type: "盒", unitCost: "5" };
+const giftBox = { id: 2, name: "禮盒", type: "盒", unitCost: "12" };
+
+// 10 份共 1000g 麵粉；每件商品使用 2 份（200g 麵粉）與 1 個紙盒
+const dough = {
+  id: 1,
+  name: "司康麵糰",
+  totalPortions: 10,
+  totalWeight: "1000",
+  ingredients: [{ materialId: flour.id, quantity: "1000", material: flour }],
+  subRecipes: [],
+};
+
+const scone = {
+  id: 1,
+  name: "司康兩入",
+  recipes: [{ recipeId: dough.id, quantity: "2", unit: "portions", recipe: dough }],
+  packaging: [{ packagingId: box.id, quantity: 1, packaging: box }],
+} as unknown as ProductWithDetails;
+
+const gift = {
+  id: 1,
+  name: "司康禮盒",
+  items: [{ productId: scone.id, quantity: "3", product: scone }],
+  packaging: [{ packagingId: giftBox.id, quantity: 1, packaging: giftBox }],
+} as unknown as CustomProductWithDetails;
+
+describe("calculateProductionRequirements", () => {
+  it("彙整商品與客製商品的原料克數與包材數量", () => {
+    const requirements = calculateProductionRequirements([
+      { productType: "product", productId: scone.id, quantity: 4, product: scone },
+      { productType: "custom_product", productId: gift.id, quantity: 2, customProduct: gift },
+    ]);
+
+    expect(requirements.materials).toHaveLength(1);
+    expect(requirements.materials[0].quantity).toBeCloseTo(200 * (4 + 3 * 2));
+    expect(requirements.materialCost).toBeCloseTo(2000 * 0.05);
+    expect(requirements.packaging.map(line => [line.packagingName, line.quantity])).toEqual([
+      ["單入紙盒", 10],
+      ["禮盒", 2],
+    ]);
+    expect(requirements.packagingCost).toBeCloseTo(10 * 5 + 2 * 12);
+  });
+
+  it("找不到的商品列為缺漏項目", () => {
+    const requirements = calculateProductionRequirements([{ productType: "product", productId: 99, quantity: 1 }]);
+
+    expect(requirements.materials).toHaveLength(0);
+    expect(requirements.missingItems).toEqual([{ productType: "product", productId: 99 }]);
+  });
+});
+
+describe("productionRunMovements", () => {
+  it("依需求產生扣除原料與包材庫存的耗用紀錄", () => {
+    const requirements = calculateProductionRequirements([
+      { productType: "product", productId: scone.id, quantity: 3, product: scone },
+    ]);
+
+    expect(productionRunMovements(5, requirements)).toEqual([
+      { itemType: "material", itemId: flour.id, movementType: "consume", quantity: "-600.00", productionPlanId: 5 },
+      { itemType: "packaging", itemId: box.id, movementType: "consume", quantity: "-3", productionPlanId: 5 },
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import type {
+  RecipeWithIngredients,
+  ProductWithDetails,
+  CustomProductWithDetails,
+  Packaging,
+  CostSnapshotProductType,
+  MaterialRequirement,
+  PackagingRequirement,
+  ProductionRequirements,
+  InsertStockMovement,
+} from "@shared/schema";
+import { recipeUsageRatio, toNumber } from "@shared/costEngine";
+
+export interface ProductionLine {
+  productType: CostSnapshotProductType;
+  productId: number;
+  quantity: number;
+  product?: ProductWithDetails;
+  customProduct?: CustomProductWithDetails;
+}
+
+// 將生產清單展開為各原料總克數與各包材總數量
+export function calculateProductionRequirements(lines: ProductionLine[]): ProductionRequirements {
+  const materials = new Map<number, MaterialRequirement>();
+  const packagingNeeds = new Map<number, PackagingRequirement>();
+  const missingItems: ProductionRequirements["missingItems"] = [];
+
+  const addRecipe = (recipe: RecipeWithIngredients, ratio: number) => {
+    for (const ing of recipe.ingredients) {
+      const quantity = toNumber(ing.quantity) * ratio;
+      const entry = materials.get(ing.materialId) ?? {
+        materialId: ing.materialId,
+        materialName: ing.material.name,
+        category: ing.material.category,
+        purchaseLocation: ing.material.purchaseLocation,
+        quantity: 0,
+        cost: 0,
+      };
+      entry.quantity += quantity;
+      entry.cost += quantity * toNumber(ing.material.pricePerGram);
+      materials.set(ing.materialId, entry);
+    }
+    for (const sr of recipe.subRecipes ?? []) {
+      addRecipe(sr.subRecipe, ratio * recipeUsageRatio(sr.subRecipe, toNumber(sr.quantity), sr.unit));
+    }
+  };
+
+  const addPackaging = (pack: Packaging, quantity: number) => {
+    const entry = packagingNeeds.get(pack.id) ?? {
+      packagingId: pack.id,
+      packagingName: pack.name,
+      type: pack.type,
+      quantity: 0,
+      cost: 0,
+    };
+    entry.quantity += quantity;
+    entry.cost += quantity * toNumber(pack.unitCost);
+    packagingNeeds.set(pack.id, entry);
+  };
+
+  const addProduct = (product: ProductWithDetails, count: number) => {
+    for (const pr of product.recipes) {
+      addRecipe(pr.recipe, count * recipeUsageRatio(pr.recipe, toNumber(pr.quantity), pr.unit));
+    }
+    for (const pp of product.packaging) {
+      addPackaging(pp.packaging, pp.quantity * count);
+    }
+  };
+
+  for (const line of lines) {
+    if (line.productType === "product" && line.product) {
+      addProduct(line.product, line.quantity);
+    } else if (line.productType === "custom_product" && line.customProduct) {
+      for (const item of line.customProduct.items) {
+        addProduct(item.product, toNumber(item.quantity) * line.quantity);
+      }
+      for (const pp of line.customProduct.packaging) {
+        addPackaging(pp.packaging, pp.quantity * line.quantity);
+      }
+    } else {
+      missingItems.push({ productType: line.productType, productId: line.productId });
+    }
+  }
+
+  // 採購清單依購入地點、原料分類、名稱排序
+  const materialList = Array.from(materials.values()).sort((a, b) =>
+    (a.purchaseLocation ?? "").localeCompare(b.purchaseLocation ?? "", "zh-TW") ||
+    a.category.localeCompare(b.category, "zh-TW") ||
+    a.materialName.localeCompare(b.materialName, "zh-TW")
+  );
+  const packagingList = Array.from(packagingNeeds.values()).sort((a, b) =>
+    a.type.localeCompare(b.type, "zh-TW") || a.packagingName.localeCompare(b.packagingName, "zh-TW")
+  );
+
+  return {
+    materials: materialList,
+    packaging: packagingList,
+    materialCost: materialList.reduce((sum, line) => sum + line.cost, 0),
+    packagingCost: packagingList.reduce((sum, line) => sum + line.cost, 0),
+    missingItems,
+  };
+}
+
+// 登錄生產時依計畫需求扣除原料與包材庫存的異動明細
+export function productionRunMovements(planId: number, requirements: ProductionRequirements): InsertStockMovement[] {
+  return [
+    ...requirements.materials.map(line => ({
+      itemType: "material" as const,
+      itemId: line.materialId,
+      movementType: "consume" as const,
+      quantity: (-line.quantity).toFixed(2),
+      productionPlanId: planId,
+    })),
+    ...requirements.packaging.map(line => ({
+      itemType: "packaging" as const,
+      itemId: line.packagingId,
+      movementType: "consume" as const,
+      quantity: String(-line.quantity),
+      productionPlanId: planId,
+    })),
+  ];
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import type { RecipeWithIngredients } from "@shared/schema";
+import { getScaleFactor, scaleRecipe } from "./recipeScaling";
+
+const flour = { id: 1, name: "低筋麵粉", pricePerGram: "0.05" };
+const milk = { id: 2, name: "鮮奶", pricePerGram: "0.1" };
+
+// 麵粉分兩次加入（300g + 200g），鮮奶以「杯」輸入：2 杯 = 480g
+const recipe = {
+  id: 7,
+  name: "鬆餅",
+  totalPortions: 10,
+  totalWeight: "1000",
+  ingredients: [
+    { id: 1, materialId: flour.id, quantity: "300", unit: "g", unitQuantity: "300", material: flour },
+    { id: 2, materialId: milk.id, quantity: "480", unit: "cup", unitQuantity: "2", material: milk },
+    { id: 3, materialId: flour.id, quantity: "200", unit: "g", unitQuantity: null, material: flour },
+  ],
+  subRecipes: [],
+} as unknown as RecipeWithIngredients;
+
+describe("getScaleFactor", () => {
+  it("依目標份數或總重量計算倍率", () => {
+    expect(getScaleFactor(recipe, { mode: "portions", value: 25 })).toBeCloseTo(2.5);
+    expect(getScaleFactor(recipe, { mode: "weight", value: 2000 })).toBeCloseTo(2);
+  });
+
+  it("限量原料以配方中該原料的合計用量為基準", () => {
+    expect(getScaleFactor(recipe, { mode: "ingredient", value: 250, materialId: flour.id })).toBeCloseTo(0.5);
+  });
+
+  it("無法換算時回傳 null", () => {
+    expect(getScaleFactor(recipe, { mode: "ingredient", value: 100, materialId: 99 })).toBeNull();
+    expect(getScaleFactor(recipe, { mode: "portions", value: 0 })).toBeNull();
+    expect(getScaleFactor({ ...recipe, totalWeight: "0" }, { mode: "weight", value: 500 })).toBeNull();
+  });
+});
+
+describe("scaleRecipe", () => {
+  const result = scaleRecipe(recipe, { mode: "portions", value: 20 }, 2);
+
+  it("每一行原料保留輸入單位並換算用量與成本", () => {
+    expect(result.ingredients.map(line => [line.materialName, line.unit, line.unitQuantity, line.quantity])).toEqual([
+      ["低筋麵粉", "g", 600, 600],
+      ["鮮奶", "cup", 4, 960],
+      ["低筋麵粉", "g", 400, 400],
+    ]);
+    expect(result.ingredients[1].cost).toBeCloseTo(96);
+  });
+
+  it("總成本與份數隨倍率換算，每份成本不變", () => {
+    expect(result.portions).toBe(20);
+    expect(result.totalCost).toBeCloseTo(2 * (25 + 48));
+    expect(result.costPerPortion).toBeCloseTo(7.3);
+  });
+});
@@ -0,0 +1,65 @@
+import type { RecipeWithIngredients, RecipeScaleTarget, RecipeScaleResult } from "@shared/schema";
+import { calculateIngredientCost, calculateRecipeCost, toNumber } from "@shared/costEngine";
+
+// 配方批量換算：依目標份數、總重量或限量原料換算用量與成本
+
+// 換算倍率；目標無法換算（例如配方未填總重量、限量原料不在配方中）時回傳 null
+export function getScaleFactor(recipe: RecipeWithIngredients, target: RecipeScaleTarget): number | null {
+  if (!(target.value > 0)) return null;
+
+  let base = 0;
+  if (target.mode === "portions") {
+    base = toNumber(recipe.totalPortions);
+  } else if (target.mode === "weight") {
+    base = toNumber(recipe.totalWeight);
+  } else {
+    // 同一原料可能出現多次，以合計用量為基準
+    base = recipe.ingredients
+      .filter(ing => ing.materialId === target.materialId)
+      .reduce((sum, ing) => sum + toNumber(ing.quantity), 0);
+  }
+
+  return base > 0 ? target.value / base : null;
+}
+
+// 依倍率換算原料、子配方用量與成本；原料保留輸入單位，克數另列
+export function scaleRecipe(recipe: RecipeWithIngredients, target: RecipeScaleTarget, factor: number): RecipeScaleResult {
+  const breakdown = calculateRecipeCost(recipe);
+
+  return {
+    recipeId: recipe.id,
+    recipeName: recipe.name,
+    target,
+    factor,
+    portions: toNumber(recipe.totalPortions) * factor,
+    totalWeight: toNumber(recipe.totalWeight) * factor,
+    // 逐一換算配方原料，保留輸入單位（已刪除的原料不列出）
+    ingredients: recipe.ingredients.flatMap(ing => {
+      const line = calculateIngredientCost(ing);
+      if (!line) return [];
+      const unitQuantity = toNumber(ing.unitQuantity ?? ing.quantity);
+      return [{
+        materialId: line.materialId,
+        materialName: line.materialName,
+        unit: ing.unit || "g",
+        originalUnitQuantity: unitQuantity,
+        unitQuantity: unitQuantity * factor,
+        originalQuantity: line.quantity,
+        quantity: line.quantity * factor,
+        pricePerGram: line.pricePerGram,
+        cost: line.cost * factor,
+      }];
+    }),
+    subRecipes: breakdown.subRecipes.map(line => ({
+      recipeId: line.recipeId,
+      recipeName: line.recipeName,
+      unit: line.unit,
+      originalQuantity: line.quantity,
+      quantity: line.quantity * factor,
+      cost: line.cost * factor,
+    })),
+    totalCost: breakdown.totalCost * factor,
+    costPerPortion: breakdown.costPerPortion,
+    costPerGram: breakdown.costPerGram,
+  };
+}
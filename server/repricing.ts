@@ -0,0 +1,67 @@
+import type {
+  ProductWithDetails,
+  CustomProductWithDetails,
+  CostSnapshotProductType,
+  PriceSuggestion,
+} from "@shared/schema";
+import { calculateProductCost, calculateCustomProductCost, type OperatingCostRates } from "@shared/costEngine";
+import { marginAtPrice, suggestSellingPrice } from "@shared/pricing";
+
+interface PricingOptions {
+  targetMargin: number;
+  roundingStep: number;
+  rates?: OperatingCostRates;
+}
+
+interface RepriceInput extends PricingOptions {
+  products: ProductWithDetails[];
+  customProducts: CustomProductWithDetails[];
+  lowThreshold: number;
+}
+
+function buildSuggestion(
+  productType: CostSnapshotProductType,
+  productId: number,
+  productName: string,
+  cost: { adjustedCost: number; sellingPrice: number; profitMargin: number },
+  { targetMargin, roundingStep }: PricingOptions
+): PriceSuggestion {
+  const suggestedPrice = suggestSellingPrice(cost.adjustedCost, targetMargin, roundingStep);
+  return {
+    productType,
+    productId,
+    productName,
+    adjustedCost: cost.adjustedCost,
+    currentPrice: cost.sellingPrice,
+    currentMargin: cost.profitMargin,
+    targetMargin,
+    suggestedPrice,
+    suggestedMargin: marginAtPrice(cost.adjustedCost, suggestedPrice),
+  };
+}
+
+// 產品達到目標利潤率的建議售價
+export function suggestProductPrice(product: ProductWithDetails, options: PricingOptions): PriceSuggestion {
+  return buildSuggestion("product", product.id, product.name, calculateProductCost(product, options.rates), options);
+}
+
+// 客製商品達到目標利潤率的建議售價
+export function suggestCustomProductPrice(customProduct: CustomProductWithDetails, options: PricingOptions): PriceSuggestion {
+  return buildSuggestion(
+    "custom_product",
+    customProduct.id,
+    customProduct.name,
+    calculateCustomProductCost(customProduct, options.rates),
+    options
+  );
+}
+
+// 列出利潤率低於低標的產品與客製商品及其建議售價；建議售價未高於現價者不列入
+export function buildRepriceProposals({ products, customProducts, lowThreshold, ...options }: RepriceInput): PriceSuggestion[] {
+  return [
+    ...products.map(product => suggestProductPrice(product, options)),
+    ...customProducts.map(customProduct => suggestCustomProductPrice(customProduct, options)),
+  ].filter(suggestion =>
+    suggestion.currentMargin < lowThreshold && suggestion.suggestedPrice > suggestion.currentPrice
+  );
+}
@@ -0,0 +1,17 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// 目前請求的使用者，供儲存層記錄異動者（不需逐層傳遞參數）
+export interface RequestUser {
+  id: number;
+  username: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestUser>();
+
+export function runWithRequestUser<T>(user: RequestUser, fn: () => T): T {
+  return requestContext.run(user, fn);
+}
+
+export function getRequestUser(): RequestUser | undefined {
+  return requestContext.getStore();
+}
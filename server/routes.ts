@@ -18,6 +18,10 @@ import {
   insertNutritionLabelSchema,
   insertTaiwanNutritionDatabaseSchema,
   insertMaterialNutritionMappingSchema,
+  insertProductionPlanSchema,
+  insertSupplierSchema,
+  insertSupplierPriceSchema,
+  insertMaterialPurchaseSchema,
   type Material,
   type Recipe,
   type RecipeIngredient,
@@ -31,7 +35,33 @@ import {
   type NutritionLabelTemplate,
   type NutritionLabel,
   type CalculatedNutrition,
+  type NutritionComplianceIssue,
+  USER_ROLES,
+  AUDIT_ENTITY_TYPES,
+  type AuditEntityType,
+  type CostSnapshotTrigger,
+  type InsertRecipeSubRecipe,
+  type InsertRecipeIngredient,
+  type MaterialUnitConversion,
+  lossRateSchema,
+  operatingCostSettingsSchema,
+  repriceRequestSchema,
+  NUTRITION_LABEL_FORMATS,
+  type NutritionLabelFormat,
+  RECIPE_SCALE_MODES,
+  type RecipeScaleMode,
+  type RecipeScaleTarget,
+  type RecipeScaleResult,
+  type InsertProductionPlanItem,
+  type ProductionPlanWithItems,
+  type ProductionRequirements,
+  type StockItemType,
+  type SupplierPrice,
+  type InsertMaterialPurchase,
 } from "@shared/schema";
+import { toNumber, calculatePricePerGram } from "@shared/costEngine";
+import { recipeTreeContains } from "@shared/recipeTree";
+import { materialUnits, toGrams, unitLabel } from "@shared/units";
 import { createFullBackup, getAvailableBackups, restoreFromBackup } from "./backup";
 import multer from "multer";
 import * as XLSX from "xlsx";
@@ -39,7 +69,18 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import * as crypto from "crypto";
 import * as bcrypt from "bcrypt";
-import { NutritionLabelGenerator, generateNutritionLabelExcel } from "./nutritionLabelGenerator";
+import { generateLabelFile, checkLabel, readLabelFile, deleteLabelFiles, NUTRITION_LABEL_CONTENT_TYPES } from "./nutritionLabelFiles";
+import { analyzeMaterialPriceImpact } from "./priceImpact";
+import { getScaleFactor, scaleRecipe } from "./recipeScaling";
+import { calculateProductionRequirements } from "./productionPlanning";
+import { buildPriceTimeline, getEffectivePrice } from "./materialPriceHistory";
+import { deriveUnitCost, unitCostOf, pricePerGramFromUnitCost, type StockBeforePurchase } from "./materialCosting";
+import { requireAuth, authorize, getSessionUser, setSessionUser, toPublicUser } from "./auth";
+import { getOperatingCostRates, setOperatingCostRates, operatingCostRatesFromSettings } from "./operatingCosts";
+import { suggestProductPrice, suggestCustomProductPrice, buildRepriceProposals } from "./repricing";
+import { DEFAULT_PRICE_ROUNDING_STEP } from "@shared/pricing";
+import { validateNutritionLabel } from "@shared/nutritionCompliance";
+import { mergeAllergens, recipeAllergens } from "@shared/allergens";
 
 // 使用者名稱常數
 const ADMIN_USERNAME = 'admin';
@@ -69,6 +110,7 @@ async function loadSettings(): Promise<void> {
           highThreshold: parseFloat(userSettings.profitMarginHigh)
         }
       };
+      setOperatingCostRates(operatingCostRatesFromSettings(userSettings));
       console.log('Settings loaded from database successfully');
     } else {
       // 創建預設使用者設定
@@ -81,6 +123,20 @@ async function loadSettings(): Promise<void> {
       });
       console.log('Created default user settings in database');
     }
+
+    // 尚無使用者帳號時，以 admin 的密碼建立擁有者帳號
+    const users = await storage.getUsers();
+    if (users.length === 0) {
+      const adminSettings = await storage.getUserSettings(ADMIN_USERNAME);
+      await storage.createUser({
+        username: ADMIN_USERNAME,
+        displayName: "管理員",
+        passwordHash: adminSettings?.passwordHash ?? await bcrypt.hash(DEFAULT_SETTINGS.password, 10),
+        role: "owner",
+        isActive: true,
+      });
+      console.log('Created owner account from admin settings');
+    }
   } catch (error) {
     console.error('Failed to load settings from database:', error);
     console.log('Using default settings');
@@ -93,11 +149,219 @@ async function saveSettings(): Promise<void> {
   console.log('Settings are now saved immediately to database');
 }
 
+// 解析配方的原料明細；unitQuantity 為以所選單位輸入的用量，未提供時 quantity 視為克數
+function parseIngredients(ingredients: any[]): InsertRecipeIngredient[] {
+  return ingredients
+    .filter((ing: any) => ing.materialId && parseFloat(ing.unitQuantity ?? ing.quantity) > 0)
+    .map((ing: any) => ({
+      materialId: parseInt(ing.materialId),
+      quantity: (ing.quantity ?? ing.unitQuantity).toString(),
+      unit: ing.unit || "g",
+      unitQuantity: (ing.unitQuantity ?? ing.quantity).toString(),
+      wasteRate: ing.wasteRate === undefined || ing.wasteRate === null || ing.wasteRate === "" ? null : ing.wasteRate.toString(),
+    }));
+}
+
+// 依原料單位換算將配方用量轉為克數並檢查修整耗損率，回傳錯誤訊息
+async function convertIngredientUnits(ingredients: InsertRecipeIngredient[]): Promise<string | null> {
+  for (const ing of ingredients) {
+    const material = await storage.getMaterial(ing.materialId);
+    if (!material) return "找不到配方使用的原料";
+    if (ing.wasteRate !== null && ing.wasteRate !== undefined && !lossRateSchema.safeParse(ing.wasteRate).success) {
+      return `原料「${material.name}」的耗損率需介於 0 與 100 之間`;
+    }
+    const grams = toGrams(material, toNumber(ing.unitQuantity), ing.unit);
+    if (grams === null) return `原料「${material.name}」未設定單位「${unitLabel(ing.unit ?? "g")}」的換算`;
+    ing.quantity = grams.toFixed(2);
+  }
+  return null;
+}
+
+// 檢查原料預設單位與配方使用中的單位皆有換算，回傳錯誤訊息（新增原料時 materialId 為 undefined）
+async function validateMaterialUnits(
+  materialId: number | undefined,
+  defaultUnit: string,
+  unitConversions: MaterialUnitConversion[]
+): Promise<string | null> {
+  const units = materialUnits({ unitConversions }).map(option => option.unit);
+  if (!units.includes(defaultUnit)) return `預設單位「${unitLabel(defaultUnit)}」尚未設定換算`;
+  if (materialId === undefined) return null;
+  const lines = await storage.getRecipeIngredientsByMaterial(materialId);
+  const orphan = lines.find(line => !units.includes(line.unit));
+  return orphan ? `單位「${unitLabel(orphan.unit)}」仍被配方使用，無法移除換算` : null;
+}
+
+// 原料單位換算變更後，重新計算配方中以非克單位輸入的用量，回傳是否有配方用量變動
+async function syncIngredientGrams(material: Material): Promise<boolean> {
+  const lines = await storage.getRecipeIngredientsByMaterial(material.id);
+  const changesByRecipe = new Map<number, Map<number, string>>();
+  for (const line of lines) {
+    if (line.unit === "g" || line.unitQuantity === null) continue;
+    const grams = toGrams(material, toNumber(line.unitQuantity), line.unit);
+    if (grams === null || toNumber(grams.toFixed(2)) === toNumber(line.quantity)) continue;
+    const changes = changesByRecipe.get(line.recipeId) ?? new Map<number, string>();
+    changes.set(line.id, grams.toFixed(2));
+    changesByRecipe.set(line.recipeId, changes);
+  }
+  for (const [recipeId, quantities] of Array.from(changesByRecipe)) {
+    await storage.updateRecipeIngredientQuantities(recipeId, quantities);
+  }
+  return changesByRecipe.size > 0;
+}
+
+// 解析配方的子配方明細（依「份」或「克」）
+function parseSubRecipes(subRecipes: any[]): InsertRecipeSubRecipe[] {
+  return subRecipes
+    .filter((sr: any) => sr.subRecipeId && parseFloat(sr.quantity) > 0)
+    .map((sr: any) => ({
+      subRecipeId: parseInt(sr.subRecipeId),
+      quantity: sr.quantity.toString(),
+      unit: sr.unit === "portions" ? "portions" : "grams",
+    }));
+}
+
+// 檢查子配方是否存在且不會形成循環引用，回傳錯誤訊息（新增配方時 recipeId 為 undefined）
+async function validateSubRecipes(recipeId: number | undefined, subRecipes: InsertRecipeSubRecipe[]): Promise<string | null> {
+  for (const sr of subRecipes) {
+    if (sr.subRecipeId === recipeId) return "配方不可使用自己作為子配方";
+    const subRecipe = await storage.getRecipe(sr.subRecipeId);
+    if (!subRecipe) return "子配方不存在";
+    if (recipeId !== undefined && recipeTreeContains(subRecipe, recipeId)) {
+      return `子配方「${subRecipe.name}」已使用此配方，不可循環引用`;
+    }
+  }
+  return null;
+}
+
+// 解析配方批量換算目標（mode、value、materialId 查詢參數）
+function parseScaleTarget(query: any): RecipeScaleTarget | null {
+  const mode = query.mode as RecipeScaleMode;
+  const value = parseFloat(query.value);
+  if (!RECIPE_SCALE_MODES.includes(mode) || !(value > 0)) return null;
+  if (mode === "ingredient") {
+    const materialId = parseInt(query.materialId);
+    return Number.isFinite(materialId) ? { mode, value, materialId } : null;
+  }
+  return { mode, value };
+}
+
+// 解析生產計畫明細（商品或客製商品 × 數量）
+function parseProductionPlanItems(items: any[]): InsertProductionPlanItem[] {
+  return items
+    .filter((item: any) =>
+      (item.productType === "product" || item.productType === "custom_product") &&
+      item.productId && parseInt(item.quantity) > 0
+    )
+    .map((item: any) => ({
+      productType: item.productType,
+      productId: parseInt(item.productId),
+      quantity: parseInt(item.quantity),
+    }));
+}
+
+// 載入計畫中的商品明細並展開原料與包材需求
+async function loadProductionRequirements(plan: ProductionPlanWithItems): Promise<ProductionRequirements> {
+  const [productsList, customProductsList] = await Promise.all([
+    storage.getProducts(),
+    storage.getCustomProducts(),
+  ]);
+  return calculateProductionRequirements(plan.items.map(item => ({
+    productType: item.productType as "product" | "custom_product",
+    productId: item.productId,
+    quantity: item.quantity,
+    product: item.productType === "product" ? productsList.find(p => p.id === item.productId) : undefined,
+    customProduct: item.productType === "custom_product" ? customProductsList.find(cp => cp.id === item.productId) : undefined,
+  })));
+}
+
+// 於背景記錄變動後的成本快照
+function snapshotInBackground(trigger: CostSnapshotTrigger): void {
+  storage.createProductCostSnapshots(trigger).catch(error => {
+    console.error(`Cost snapshot after ${trigger} failed:`, error);
+  });
+}
+
+// 單價變動時於背景記錄變動後的成本快照
+function snapshotOnMaterialPriceChange(previous: Material | undefined, updated: Material): void {
+  if (previous && parseFloat(previous.pricePerGram) !== parseFloat(updated.pricePerGram)) {
+    snapshotInBackground("material_price_change");
+  }
+}
+
+// 將採用的報價寫回包材單位成本，或原料每克單價（加計管理費率）與購入地點
+async function applySupplierPrice(price: SupplierPrice): Promise<void> {
+  const supplier = await storage.getSupplier(price.supplierId);
+  if (price.itemType === "packaging") {
+    await storage.updatePackaging(price.itemId, { unitCost: parseFloat(price.price).toFixed(2) });
+    return;
+  }
+
+  const previous = await storage.getMaterial(price.itemId);
+  if (!previous) return;
+  const updated = await storage.updateMaterial(price.itemId, {
+    pricePerGram: pricePerGramFromUnitCost(toNumber(price.price), previous.managementFeeRate),
+    purchaseLocation: supplier?.name ?? previous.purchaseLocation,
+  });
+  snapshotOnMaterialPriceChange(previous, updated);
+}
+
+// 依成本政策重新計算原料單價，購入資訊同步為最新一筆進貨
+async function applyCostingPolicy(material: Material, stockBefore?: StockBeforePurchase): Promise<Material> {
+  const purchases = await storage.getMaterialPurchases(material.id);
+  const [latest] = purchases;
+  if (!latest) return material;
+
+  const unitCost = deriveUnitCost(material, purchases, stockBefore);
+  const updated = await storage.updateMaterial(material.id, {
+    purchaseAmount: latest.purchaseAmount,
+    purchaseWeight: latest.purchaseWeight,
+    purchaseTime: latest.purchaseTime,
+    ...(latest.supplierName && { purchaseLocation: latest.supplierName }),
+    ...(unitCost !== null && { pricePerGram: pricePerGramFromUnitCost(unitCost, material.managementFeeRate) }),
+  });
+  snapshotOnMaterialPriceChange(material, updated);
+  return updated;
+}
+
+// 新增進貨紀錄並依成本政策更新單價（移動平均以進貨前的庫存與單價計算）
+async function recordMaterialPurchase(material: Material, purchase: InsertMaterialPurchase): Promise<Material> {
+  const stockBefore = { stockQuantity: toNumber(material.stockQuantity), pricePerGram: unitCostOf(material) };
+  await storage.createMaterialPurchase(material.id, purchase);
+  return applyCostingPolicy(material, stockBefore);
+}
+
+// 取得庫存項目（原料或包材）；類型不符時回傳 undefined
+async function getStockItem(itemType: string, itemId: number): Promise<Material | Packaging | undefined> {
+  if (itemType === "material") return storage.getMaterial(itemId);
+  if (itemType === "packaging") return storage.getPackagingItem(itemId);
+  return undefined;
+}
+
+// 建議售價使用的利潤率門檻與售價級距
+async function getPricingSettings(): Promise<{ low: number; high: number; roundingStep: number }> {
+  const userSettings = await storage.getUserSettings(ADMIN_USERNAME);
+  return {
+    low: userSettings ? parseFloat(userSettings.profitMarginLow) : DEFAULT_SETTINGS.profitMargin.lowThreshold,
+    high: userSettings ? parseFloat(userSettings.profitMarginHigh) : DEFAULT_SETTINGS.profitMargin.highThreshold,
+    roundingStep: userSettings?.priceRoundingStep ?? DEFAULT_PRICE_ROUNDING_STEP,
+  };
+}
+
+// 解析目標利潤率查詢參數，未提供時使用預設值；超出 0 ~ 100（不含）時回傳 null
+function parseTargetMargin(raw: unknown, fallback: number): number | null {
+  if (raw === undefined || raw === "") return fallback;
+  const targetMargin = parseFloat(String(raw));
+  return Number.isFinite(targetMargin) && targetMargin >= 0 && targetMargin < 100 ? targetMargin : null;
+}
+
 const upload = multer({ storage: multer.memoryStorage() });
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // 載入應用設定
   await loadSettings();
+
+  // 所有 API 須先登入，再依使用者角色檢查權限
+  app.use("/api", requireAuth, authorize);
   
   // Materials routes
   // Export route must come before :id route to avoid route conflicts
@@ -161,6 +425,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/materials/:id/price-history", async (req, res) => {
+    try {
+      const history = await storage.getMaterialHistory(Number(req.params.id));
+      res.json(buildPriceTimeline(history));
+    } catch (error) {
+      console.error("Error fetching material price history:", error);
+      res.status(500).json({ message: "獲取原料價格歷史失敗" });
+    }
+  });
+
+  // 查詢原料在指定日期的有效單價，例如 ?date=2025-07-01
+  app.get("/api/materials/:id/price-at", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const dateParam = String(req.query.date || "");
+      // 僅提供日期時以當天結束時間計算
+      const at = /^\d{4}-\d{2}-\d{2}$/.test(dateParam)
+        ? new Date(`${dateParam}T23:59:59.999`)
+        : new Date(dateParam);
+      if (!dateParam || isNaN(at.getTime())) {
+        return res.status(400).json({ message: "請提供有效的日期" });
+      }
+
+      const material = await storage.getMaterial(id);
+      if (!material) {
+        return res.status(404).json({ message: "原料不存在" });
+      }
+
+      const history = await storage.getMaterialHistory(id);
+      res.json(getEffectivePrice(material, history, at));
+    } catch (error) {
+      console.error("Error fetching material effective price:", error);
+      res.status(500).json({ message: "獲取原料歷史單價失敗" });
+    }
+  });
+
   app.get("/api/materials/:id/with-history", async (req, res) => {
     try {
       const { id } = req.params;
@@ -175,6 +475,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // 原料價格變動影響分析（假設新單價，不會修改資料）
+  app.post("/api/materials/:id/price-impact", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const material = await storage.getMaterial(id);
+      if (!material) {
+        return res.status(404).json({ message: "原料不存在" });
+      }
+
+      const { pricePerGram, purchaseAmount, purchaseWeight, managementFeeRate } = req.body;
+      let newPricePerGram: number;
+      if (pricePerGram !== undefined && pricePerGram !== "") {
+        newPricePerGram = parseFloat(pricePerGram);
+      } else {
+        // 依購入金額與重量計算，與配方成本使用相同公式（含管理費率）
+        const amount = parseFloat(purchaseAmount);
+        const weight = parseFloat(purchaseWeight);
+        newPricePerGram = Number.isFinite(amount) && weight > 0
+          ? calculatePricePerGram(amount, weight, managementFeeRate ?? material.managementFeeRate)
+          : NaN;
+      }
+
+      if (!Number.isFinite(newPricePerGram) || newPricePerGram < 0) {
+        return res.status(400).json({ message: "請輸入有效的新單價或購入金額與重量" });
+      }
+
+      const [recipes, products, customProducts, userSettings] = await Promise.all([
+        storage.getRecipes(),
+        storage.getProducts(),
+        storage.getCustomProducts(),
+        storage.getUserSettings(ADMIN_USERNAME),
+      ]);
+
+      const impact = analyzeMaterialPriceImpact({
+        material,
+        newPricePerGram,
+        recipes,
+        products,
+        customProducts,
+        thresholds: {
+          low: userSettings ? parseFloat(userSettings.profitMarginLow) : DEFAULT_SETTINGS.profitMargin.lowThreshold,
+          high: userSettings ? parseFloat(userSettings.profitMarginHigh) : DEFAULT_SETTINGS.profitMargin.highThreshold,
+        },
+        rates: getOperatingCostRates(),
+      });
+      res.json(impact);
+    } catch (error) {
+      console.error("Price impact analysis error:", error);
+      res.status(500).json({ message: "價格影響分析失敗" });
+    }
+  });
+
   app.get("/api/materials/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -204,7 +556,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const materialData = insertMaterialSchema.parse(processedBody);
       // 資料驗證成功
+      const unitError = await validateMaterialUnits(undefined, materialData.defaultUnit ?? "g", materialData.unitConversions ?? []);
+      if (unitError) {
+        return res.status(400).json({ message: unitError });
+      }
       const material = await storage.createMaterial(materialData);
+
+      // 新增時填寫的購入資訊列為第一筆進貨紀錄
+      if (toNumber(material.purchaseAmount) > 0 && toNumber(material.purchaseWeight) > 0) {
+        await storage.createMaterialPurchase(material.id, {
+          purchaseAmount: material.purchaseAmount!,
+          purchaseWeight: material.purchaseWeight!,
+          purchaseTime: material.purchaseTime ?? undefined,
+        });
+      }
       res.status(201).json(material);
     } catch (error) {
       console.error("Material creation error:", error);
@@ -236,7 +601,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const materialData = insertMaterialSchema.partial().parse(processedBody);
       // 更新資料驗證成功
-      const material = await storage.updateMaterial(id, materialData);
+      const previousMaterial = await storage.getMaterial(id);
+      if (previousMaterial && (materialData.defaultUnit || materialData.unitConversions)) {
+        const unitError = await validateMaterialUnits(
+          id,
+          materialData.defaultUnit ?? previousMaterial.defaultUnit,
+          materialData.unitConversions ?? previousMaterial.unitConversions
+        );
+        if (unitError) {
+          return res.status(400).json({ message: unitError });
+        }
+      }
+      let material = await storage.updateMaterial(id, materialData);
+
+      // 換算克數與單價同時變動時只記錄一次快照（於克數更新後計算）
+      const gramsChanged = materialData.unitConversions ? await syncIngredientGrams(material) : false;
+      if (gramsChanged) {
+        snapshotInBackground("material_unit_change");
+      } else {
+        snapshotOnMaterialPriceChange(previousMaterial, material);
+      }
+
+      // 購入資訊變動時保留為新的進貨紀錄，不覆蓋先前的進貨
+      const purchaseChanged = previousMaterial && (
+        toNumber(previousMaterial.purchaseAmount) !== toNumber(material.purchaseAmount) ||
+        toNumber(previousMaterial.purchaseWeight) !== toNumber(material.purchaseWeight) ||
+        previousMaterial.purchaseTime?.getTime() !== material.purchaseTime?.getTime()
+      );
+      const policyChanged = previousMaterial && (
+        previousMaterial.costingPolicy !== material.costingPolicy ||
+        previousMaterial.costingWindow !== material.costingWindow
+      );
+      if (purchaseChanged && toNumber(material.purchaseAmount) > 0 && toNumber(material.purchaseWeight) > 0) {
+        const purchase = {
+          purchaseAmount: material.purchaseAmount!,
+          purchaseWeight: material.purchaseWeight!,
+          purchaseTime: material.purchaseTime ?? undefined,
+        };
+        if (material.costingPolicy === "latest") {
+          // 最新進價即為表單計算的單價，只需保留紀錄
+          await storage.createMaterialPurchase(id, purchase);
+        } else {
+          material = await recordMaterialPurchase(material, purchase);
+        }
+      } else if (policyChanged) {
+        material = await applyCostingPolicy(material);
+      }
+
       res.json(material);
     } catch (error) {
       console.error("Material update error:", error);
@@ -412,24 +823,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // 配方批量換算（依目標份數、總重量或限量原料）
+  const loadScaledRecipe = async (req: any, res: any): Promise<RecipeScaleResult | undefined> => {
+    const recipe = await storage.getRecipe(parseInt(req.params.id));
+    if (!recipe) {
+      res.status(404).json({ message: "配方不存在" });
+      return undefined;
+    }
+    const target = parseScaleTarget(req.query);
+    if (!target) {
+      res.status(400).json({ message: "請提供有效的換算目標" });
+      return undefined;
+    }
+    const factor = getScaleFactor(recipe, target);
+    if (factor === null) {
+      res.status(400).json({ message: "無法依此目標換算，請確認配方份數、總重量或原料用量" });
+      return undefined;
+    }
+    return scaleRecipe(recipe, target, factor);
+  };
+
+  app.get("/api/recipes/:id/scale", async (req, res) => {
+    try {
+      const result = await loadScaledRecipe(req, res);
+      if (result) res.json(result);
+    } catch (error) {
+      console.error("Recipe scale error:", error);
+      res.status(500).json({ message: "配方換算失敗" });
+    }
+  });
+
+  // 批量製作單 Excel
+  app.get("/api/recipes/:id/scale/export", async (req, res) => {
+    try {
+      const result = await loadScaledRecipe(req, res);
+      if (!result) return;
+
+      const rows: (string | number)[][] = [
+        ["配方名稱", result.recipeName],
+        ["換算倍率", Number(result.factor.toFixed(4))],
+        ["製作份數", Number(result.portions.toFixed(2))],
+        ["總重量 (g)", Number(result.totalWeight.toFixed(1))],
+        ["總成本", Number(result.totalCost.toFixed(2))],
+        [],
+        ["項目", "原用量", "換算用量", "單位", "換算克數", "成本"],
+        ...result.ingredients.map(line => [
+          line.materialName,
+          Number(line.originalUnitQuantity.toFixed(3)),
+          Number(line.unitQuantity.toFixed(3)),
+          unitLabel(line.unit),
+          Number(line.quantity.toFixed(2)),
+          Number(line.cost.toFixed(2)),
+        ]),
+        ...result.subRecipes.map(line => [
+          `${line.recipeName}（子配方）`,
+          Number(line.originalQuantity.toFixed(2)),
+          Number(line.quantity.toFixed(2)),
+          line.unit === "portions" ? "份" : "g",
+          line.unit === "portions" ? "" : Number(line.quantity.toFixed(2)),
+          Number(line.cost.toFixed(2)),
+        ]),
+      ];
+
+      const worksheet = XLSX.utils.aoa_to_sheet(rows);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, worksheet, "批量製作單");
+
+      const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+
+      const filename = `batch-${result.recipeId}-${new Date().toISOString().split('T')[0]}.xlsx`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.send(buffer);
+    } catch (error) {
+      console.error("Recipe batch export error:", error);
+      res.status(500).json({ message: "匯出失敗" });
+    }
+  });
+
   app.post("/api/recipes", async (req, res) => {
     try {
       // Handle both direct format and nested format
-      const { recipe: nestedRecipe, ingredients = [] } = req.body;
+      const { recipe: nestedRecipe, ingredients = [], subRecipes = [] } = req.body;
       const recipeData = nestedRecipe || req.body;
       
       // Validate recipe data
       const recipe = insertRecipeSchema.parse(recipeData);
       
       // Transform and validate ingredients
-      const parsedIngredients = ingredients
-        .filter((ing: any) => ing.materialId && parseFloat(ing.quantity) > 0)
-        .map((ing: any) => ({
-          materialId: parseInt(ing.materialId),
-          quantity: ing.quantity.toString(),
-        }));
+      const parsedIngredients = parseIngredients(ingredients);
+      const unitError = await convertIngredientUnits(parsedIngredients);
+      if (unitError) {
+        return res.status(400).json({ message: unitError });
+      }
+      const parsedSubRecipes = parseSubRecipes(subRecipes);
+      const subRecipeError = await validateSubRecipes(undefined, parsedSubRecipes);
+      if (subRecipeError) {
+        return res.status(400).json({ message: subRecipeError });
+      }
       
-      const created = await storage.createRecipe(recipe, parsedIngredients);
+      const created = await storage.createRecipe(recipe, parsedIngredients, parsedSubRecipes);
       res.status(201).json(created);
     } catch (error) {
       console.error("Recipe creation error:", error);
@@ -441,16 +934,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       // Handle both direct format and nested format
-      const { recipe: nestedRecipe, ingredients } = req.body;
+      const { recipe: nestedRecipe, ingredients, subRecipes } = req.body;
       const recipeData = nestedRecipe || req.body;
       
       const recipe = insertRecipeSchema.partial().parse(recipeData);
-      const parsedIngredients = ingredients ? ingredients.map((ing: any) => ({
-        materialId: parseInt(ing.materialId),
-        quantity: ing.quantity.toString(),
-      })) : undefined;
+      const parsedIngredients = ingredients ? parseIngredients(ingredients) : undefined;
+      if (parsedIngredients) {
+        const unitError = await convertIngredientUnits(parsedIngredients);
+        if (unitError) {
+          return res.status(400).json({ message: unitError });
+        }
+      }
+      const parsedSubRecipes = subRecipes ? parseSubRecipes(subRecipes) : undefined;
+      if (parsedSubRecipes) {
+        const subRecipeError = await validateSubRecipes(id, parsedSubRecipes);
+        if (subRecipeError) {
+          return res.status(400).json({ message: subRecipeError });
+        }
+      }
       
-      const updated = await storage.updateRecipe(id, recipe, parsedIngredients);
+      const updated = await storage.updateRecipe(id, recipe, parsedIngredients, parsedSubRecipes);
       res.json(updated);
     } catch (error) {
       console.error("Recipe update error:", error);
@@ -1833,168 +2336,763 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // 備份與還原 API
-  app.post("/api/backup/create", async (req, res) => {
+  // 產品成本快照 API
+  app.get("/api/cost-snapshots", async (req, res) => {
     try {
-      const backupPath = await createFullBackup();
-      res.json({ 
-        message: "備份創建成功",
-        backupPath,
-        timestamp: new Date().toISOString()
-      });
+      const productType = req.query.productType === "custom_product" ? "custom_product" : "product";
+      const productId = parseInt(req.query.productId as string);
+      if (isNaN(productId)) {
+        return res.status(400).json({ message: "請指定商品" });
+      }
+      const snapshots = await storage.getProductCostSnapshots(productType, productId);
+      res.json(snapshots);
     } catch (error) {
-      console.error("Backup creation failed:", error);
-      res.status(500).json({ message: `備份創建失敗: ${error}` });
+      console.error("Error fetching cost snapshots:", error);
+      res.status(500).json({ message: "獲取成本快照失敗" });
     }
   });
 
-  app.get("/api/backup/list", async (req, res) => {
+  app.post("/api/cost-snapshots", async (req, res) => {
     try {
-      const backups = await getAvailableBackups();
-      res.json(backups);
+      const snapshots = await storage.createProductCostSnapshots("manual");
+      res.status(201).json({ message: `已建立 ${snapshots.length} 筆成本快照`, count: snapshots.length });
     } catch (error) {
-      console.error("Failed to get backup list:", error);
-      res.status(500).json({ message: "獲取備份清單失敗" });
+      console.error("Error creating cost snapshots:", error);
+      res.status(500).json({ message: "建立成本快照失敗" });
     }
   });
 
-  app.post("/api/backup/restore", upload.single("backupFile"), async (req, res) => {
+  // 生產計畫 API
+  app.get("/api/production-plans", async (req, res) => {
     try {
-      let backupPath: string;
-      
-      if (req.file) {
-        // 從上傳的檔案還原
-        const tempPath = `/tmp/restore-${Date.now()}.json`;
-        await fs.writeFile(tempPath, req.file.buffer);
-        backupPath = tempPath;
-      } else if (req.body.backupPath) {
-        // 從伺服器備份還原
-        backupPath = req.body.backupPath;
-      } else {
-        return res.status(400).json({ message: "請提供備份檔案或選擇伺服器備份" });
-      }
-
-      const result = await restoreFromBackup(backupPath);
-      
-      // 清理暫存檔案
-      if (req.file) {
-        try {
-          await fs.unlink(backupPath);
-        } catch (error) {
-          console.error("Failed to clean temp file:", error);
-        }
-      }
-
-      if (result.success) {
-        res.json({
-          message: result.message,
-          restored: result.restored
-        });
-      } else {
-        res.status(500).json({ message: result.message });
-      }
+      const plans = await storage.getProductionPlans();
+      res.json(plans);
     } catch (error) {
-      console.error("Restore failed:", error);
-      res.status(500).json({ message: `還原失敗: ${error}` });
+      console.error("Error fetching production plans:", error);
+      res.status(500).json({ message: "獲取生產計畫失敗" });
     }
   });
 
-  app.get("/api/backup/download/:filename", async (req, res) => {
+  app.get("/api/production-plans/:id", async (req, res) => {
     try {
-      const { filename } = req.params;
-      
-      // 安全檢查：只允許下載backup-開頭的.json檔案
-      if (!filename.startsWith('backup-') || !filename.endsWith('.json')) {
-        return res.status(400).json({ message: "無效的備份檔案名稱" });
-      }
-
-      const backupPath = path.join(process.cwd(), 'backups', filename);
-      
-      // 檢查檔案是否存在
-      try {
-        await fs.access(backupPath);
-      } catch {
-        return res.status(404).json({ message: "備份檔案不存在" });
+      const plan = await storage.getProductionPlan(parseInt(req.params.id));
+      if (!plan) {
+        return res.status(404).json({ message: "生產計畫不存在" });
       }
+      res.json(plan);
+    } catch (error) {
+      res.status(500).json({ message: "獲取生產計畫失敗" });
+    }
+  });
 
-      // 設定下載標頭
-      res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      
-      // 發送檔案
-      res.sendFile(backupPath);
+  app.post("/api/production-plans", async (req, res) => {
+    try {
+      const { items = [], ...planData } = req.body;
+      const plan = insertProductionPlanSchema.parse(planData);
+      const created = await storage.createProductionPlan(plan, parseProductionPlanItems(items));
+      res.status(201).json(created);
     } catch (error) {
-      console.error("Failed to download backup:", error);
-      res.status(500).json({ message: "下載備份檔案失敗" });
+      console.error("Production plan creation error:", error);
+      res.status(400).json({ message: "新增生產計畫失敗，請檢查輸入資料" });
     }
   });
 
-  app.delete("/api/backup/:filename", async (req, res) => {
+  app.put("/api/production-plans/:id", async (req, res) => {
     try {
-      const { filename } = req.params;
-      
-      // 安全檢查：只允許刪除backup-開頭的.json檔案
-      if (!filename.startsWith('backup-') || !filename.endsWith('.json')) {
-        return res.status(400).json({ message: "無效的備份檔案名稱" });
+      const id = parseInt(req.params.id);
+      const existing = await storage.getProductionPlan(id);
+      if (!existing) {
+        return res.status(404).json({ message: "生產計畫不存在" });
       }
 
-      const backupPath = path.join(process.cwd(), 'backups', filename);
-      await fs.unlink(backupPath);
-      
-      res.json({ message: "備份檔案已刪除" });
+      const { items, ...planData } = req.body;
+      const plan = insertProductionPlanSchema.partial().parse(planData);
+      const updated = await storage.updateProductionPlan(id, plan, items ? parseProductionPlanItems(items) : undefined);
+      res.json(updated);
     } catch (error) {
-      console.error("Failed to delete backup:", error);
-      res.status(500).json({ message: "刪除備份檔案失敗" });
+      console.error("Production plan update error:", error);
+      res.status(400).json({ message: "更新生產計畫失敗，請檢查輸入資料" });
     }
   });
 
-  // Authentication routes
-  app.post("/api/auth/login", async (req, res) => {
+  app.delete("/api/production-plans/:id", async (req, res) => {
     try {
-      const { username, password } = req.body;
-      
-      if (!username || !password) {
-        return res.status(400).json({ message: "帳號和密碼為必填項目" });
-      }
+      await storage.deleteProductionPlan(parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "刪除生產計畫失敗" });
+    }
+  });
 
-      // 檢查用戶名和密碼（使用資料庫驗證）
-      if (username === ADMIN_USERNAME) {
-        const userSettings = await storage.getUserSettings(ADMIN_USERNAME);
-        if (userSettings && await bcrypt.compare(password, userSettings.passwordHash)) {
-          (req.session as any).authenticated = true;
-            
-            // 檢查是否為今日首次登入，如果是則觸發自動備份
-            const { isFirstLoginToday, createFullBackup, cleanOldBackups } = await import("./backup");
-            if (await isFirstLoginToday()) {
-              // 異步執行備份，不阻塞登入回應
-              setImmediate(async () => {
-                try {
-                  await createFullBackup();
-                  await cleanOldBackups();
-                } catch (error) {
-                  console.error("Auto backup failed:", error);
-                }
-              });
-            }
-            
-          res.json({ authenticated: true, username: ADMIN_USERNAME });
-        } else {
-          res.status(401).json({ message: "帳號或密碼錯誤" });
-        }
-      } else {
-        res.status(401).json({ message: "帳號或密碼錯誤" });
+  // 生產計畫原料與包材需求
+  app.get("/api/production-plans/:id/requirements", async (req, res) => {
+    try {
+      const plan = await storage.getProductionPlan(parseInt(req.params.id));
+      if (!plan) {
+        return res.status(404).json({ message: "生產計畫不存在" });
       }
+      res.json(await loadProductionRequirements(plan));
     } catch (error) {
-      res.status(500).json({ message: "登入失敗" });
+      console.error("Error calculating production requirements:", error);
+      res.status(500).json({ message: "計算生產需求失敗" });
     }
   });
 
-  app.get("/api/auth/check", (req, res) => {
-    res.json({ 
-      authenticated: !!(req.session as any)?.authenticated,
-      username: (req.session as any)?.authenticated ? "admin" : null 
-    });
-  });
+  // 採購／備料清單 Excel（依購入地點與原料分類分組）
+  app.get("/api/production-plans/:id/export", async (req, res) => {
+    try {
+      const plan = await storage.getProductionPlan(parseInt(req.params.id));
+      if (!plan) {
+        return res.status(404).json({ message: "生產計畫不存在" });
+      }
+      const requirements = await loadProductionRequirements(plan);
+
+      const materialSheet = XLSX.utils.json_to_sheet(requirements.materials.map(line => ({
+        "購入地點": line.purchaseLocation || "未指定",
+        "分類": line.category,
+        "原料": line.materialName,
+        "需求量(g)": Number(line.quantity.toFixed(1)),
+        "預估成本": Number(line.cost.toFixed(2)),
+      })));
+      const packagingSheet = XLSX.utils.json_to_sheet(requirements.packaging.map(line => ({
+        "類型": line.type,
+        "包材": line.packagingName,
+        "數量": line.quantity,
+        "預估成本": Number(line.cost.toFixed(2)),
+      })));
+      const planSheet = XLSX.utils.json_to_sheet(plan.items.map(item => ({
+        "類型": item.productType === "custom_product" ? "客製商品" : "商品",
+        "名稱": item.productName || `#${item.productId}`,
+        "數量": item.quantity,
+      })));
+
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, materialSheet, "原料採購清單");
+      XLSX.utils.book_append_sheet(workbook, packagingSheet, "包材清單");
+      XLSX.utils.book_append_sheet(workbook, planSheet, "生產項目");
+
+      const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+
+      const filename = `production-plan-${plan.planDate}.xlsx`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.send(buffer);
+    } catch (error) {
+      console.error("Production plan export error:", error);
+      res.status(500).json({ message: "匯出失敗" });
+    }
+  });
+
+  // 登錄生產：依計畫需求扣除原料與包材庫存
+  app.post("/api/production-plans/:id/produce", async (req, res) => {
+    try {
+      const plan = await storage.getProductionPlan(parseInt(req.params.id));
+      if (!plan) {
+        return res.status(404).json({ message: "生產計畫不存在" });
+      }
+      if (plan.producedAt) {
+        return res.status(400).json({ message: "此生產計畫已登錄生產" });
+      }
+      const requirements = await loadProductionRequirements(plan);
+      const produced = await storage.recordProductionRun(plan.id, requirements);
+      if (!produced) {
+        return res.status(400).json({ message: "此生產計畫已登錄生產" });
+      }
+      res.json(produced);
+    } catch (error) {
+      console.error("Production run error:", error);
+      res.status(500).json({ message: "登錄生產失敗" });
+    }
+  });
+
+  // 原料進貨紀錄 API
+  app.get("/api/materials/:id/purchases", async (req, res) => {
+    try {
+      res.json(await storage.getMaterialPurchases(parseInt(req.params.id)));
+    } catch (error) {
+      console.error("Error fetching material purchases:", error);
+      res.status(500).json({ message: "獲取進貨紀錄失敗" });
+    }
+  });
+
+  app.post("/api/materials/:id/purchases", async (req, res) => {
+    try {
+      const material = await storage.getMaterial(parseInt(req.params.id));
+      if (!material) {
+        return res.status(404).json({ message: "原料不存在" });
+      }
+
+      const { receiveStock, ...body } = req.body;
+      const purchase = insertMaterialPurchaseSchema.parse({
+        ...body,
+        purchaseTime: body.purchaseTime || undefined,
+        supplierId: body.supplierId ? parseInt(body.supplierId) : null,
+      });
+      if (!(toNumber(purchase.purchaseAmount) > 0) || !(toNumber(purchase.purchaseWeight) > 0)) {
+        return res.status(400).json({ message: "購入金額與購入重量必須大於 0" });
+      }
+
+      const updated = await recordMaterialPurchase(material, purchase);
+      if (receiveStock) {
+        await storage.recordStockMovement({
+          itemType: "material",
+          itemId: material.id,
+          movementType: "receive",
+          quantity: toNumber(purchase.purchaseWeight).toFixed(2),
+          notes: purchase.notes || "進貨",
+        });
+      }
+      res.status(201).json(updated);
+    } catch (error) {
+      console.error("Material purchase creation error:", error);
+      res.status(400).json({ message: "新增進貨紀錄失敗，請檢查輸入資料" });
+    }
+  });
+
+  // 刪除進貨紀錄後依剩餘紀錄重新計算單價
+  app.delete("/api/materials/:id/purchases/:purchaseId", async (req, res) => {
+    try {
+      const material = await storage.getMaterial(parseInt(req.params.id));
+      const purchase = await storage.getMaterialPurchase(parseInt(req.params.purchaseId));
+      if (!material || !purchase || purchase.materialId !== material.id) {
+        return res.status(404).json({ message: "進貨紀錄不存在" });
+      }
+
+      await storage.deleteMaterialPurchase(purchase.id);
+      res.json(await applyCostingPolicy(material));
+    } catch (error) {
+      console.error("Material purchase deletion error:", error);
+      res.status(500).json({ message: "刪除進貨紀錄失敗" });
+    }
+  });
+
+  // 庫存 API
+  app.get("/api/stock/low-stock", async (req, res) => {
+    try {
+      res.json(await storage.getLowStockItems());
+    } catch (error) {
+      console.error("Error fetching low stock items:", error);
+      res.status(500).json({ message: "獲取低庫存項目失敗" });
+    }
+  });
+
+  app.get("/api/stock/:itemType/:itemId/movements", async (req, res) => {
+    try {
+      const itemId = parseInt(req.params.itemId);
+      if (!await getStockItem(req.params.itemType, itemId)) {
+        return res.status(404).json({ message: "庫存項目不存在" });
+      }
+      res.json(await storage.getStockMovements(req.params.itemType as StockItemType, itemId));
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "獲取庫存紀錄失敗" });
+    }
+  });
+
+  // 進貨入庫；原料可同時記錄進貨金額，並依成本政策更新每克單價
+  app.post("/api/stock/:itemType/:itemId/receive", async (req, res) => {
+    try {
+      const itemType = req.params.itemType as StockItemType;
+      const itemId = parseInt(req.params.itemId);
+      const item = await getStockItem(itemType, itemId);
+      if (!item) {
+        return res.status(404).json({ message: "庫存項目不存在" });
+      }
+
+      const quantity = parseFloat(req.body.quantity);
+      if (!(quantity > 0) || (itemType === "packaging" && !Number.isInteger(quantity))) {
+        return res.status(400).json({ message: "入庫數量必須大於 0（包材須為整數）" });
+      }
+
+      if (itemType === "material" && req.body.updatePrice) {
+        const purchaseAmount = parseFloat(req.body.purchaseAmount);
+        if (!(purchaseAmount > 0)) {
+          return res.status(400).json({ message: "更新單價時必須填寫進貨金額" });
+        }
+        await recordMaterialPurchase(item as Material, {
+          purchaseAmount: purchaseAmount.toFixed(2),
+          purchaseWeight: quantity.toFixed(2),
+          supplierId: req.body.supplierId ? parseInt(req.body.supplierId) : null,
+          notes: req.body.notes || null,
+        });
+      }
+
+      const movement = await storage.recordStockMovement({
+        itemType,
+        itemId,
+        movementType: "receive",
+        quantity: quantity.toFixed(2),
+        notes: req.body.notes || null,
+      });
+      res.status(201).json(movement);
+    } catch (error) {
+      console.error("Stock receive error:", error);
+      res.status(400).json({ message: "入庫失敗，請檢查輸入資料" });
+    }
+  });
+
+  // 盤點調整：以實際盤點數量記錄差異
+  app.post("/api/stock/:itemType/:itemId/adjust", async (req, res) => {
+    try {
+      const itemType = req.params.itemType as StockItemType;
+      const itemId = parseInt(req.params.itemId);
+      const item = await getStockItem(itemType, itemId);
+      if (!item) {
+        return res.status(404).json({ message: "庫存項目不存在" });
+      }
+
+      const countedQuantity = parseFloat(req.body.countedQuantity);
+      if (!(countedQuantity >= 0) || (itemType === "packaging" && !Number.isInteger(countedQuantity))) {
+        return res.status(400).json({ message: "盤點數量不可為負數（包材須為整數）" });
+      }
+
+      const difference = countedQuantity - parseFloat(String(item.stockQuantity));
+      const movement = await storage.recordStockMovement({
+        itemType,
+        itemId,
+        movementType: "adjust",
+        quantity: difference.toFixed(2),
+        notes: req.body.notes || null,
+      });
+      res.status(201).json(movement);
+    } catch (error) {
+      console.error("Stock adjust error:", error);
+      res.status(400).json({ message: "盤點調整失敗，請檢查輸入資料" });
+    }
+  });
+
+  app.put("/api/stock/:itemType/:itemId/reorder-point", async (req, res) => {
+    try {
+      const itemType = req.params.itemType as StockItemType;
+      const itemId = parseInt(req.params.itemId);
+      if (!await getStockItem(itemType, itemId)) {
+        return res.status(404).json({ message: "庫存項目不存在" });
+      }
+
+      const { reorderPoint } = req.body;
+      const value = reorderPoint === null || reorderPoint === "" || reorderPoint === undefined ? null : parseFloat(reorderPoint);
+      if (value !== null && !(value >= 0)) {
+        return res.status(400).json({ message: "安全庫存量不可為負數" });
+      }
+      await storage.setReorderPoint(itemType, itemId, itemType === "packaging" && value !== null ? Math.round(value) : value);
+      res.json({ message: "安全庫存量已更新" });
+    } catch (error) {
+      console.error("Reorder point update error:", error);
+      res.status(500).json({ message: "更新安全庫存量失敗" });
+    }
+  });
+
+  // 供應商 API
+  app.get("/api/suppliers", async (req, res) => {
+    try {
+      res.json(await storage.getSuppliers());
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      res.status(500).json({ message: "獲取供應商失敗" });
+    }
+  });
+
+  app.post("/api/suppliers", async (req, res) => {
+    try {
+      const supplier = insertSupplierSchema.parse(req.body);
+      res.status(201).json(await storage.createSupplier(supplier));
+    } catch (error) {
+      console.error("Supplier creation error:", error);
+      res.status(400).json({ message: "新增供應商失敗，請檢查輸入資料" });
+    }
+  });
+
+  app.put("/api/suppliers/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!await storage.getSupplier(id)) {
+        return res.status(404).json({ message: "供應商不存在" });
+      }
+      const supplier = insertSupplierSchema.partial().parse(req.body);
+      res.json(await storage.updateSupplier(id, supplier));
+    } catch (error) {
+      console.error("Supplier update error:", error);
+      res.status(400).json({ message: "更新供應商失敗，請檢查輸入資料" });
+    }
+  });
+
+  app.delete("/api/suppliers/:id", async (req, res) => {
+    try {
+      await storage.deleteSupplier(parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "刪除供應商失敗" });
+    }
+  });
+
+  app.get("/api/suppliers/:id/prices", async (req, res) => {
+    try {
+      res.json(await storage.getSupplierPrices({ supplierId: parseInt(req.params.id) }));
+    } catch (error) {
+      console.error("Error fetching supplier prices:", error);
+      res.status(500).json({ message: "獲取供應商報價失敗" });
+    }
+  });
+
+  // 供應商報價 API（同一原料／包材可比較多家報價，並選擇採用哪一筆）
+  app.get("/api/supplier-prices", async (req, res) => {
+    try {
+      const itemType = req.query.itemType as StockItemType | undefined;
+      const itemId = req.query.itemId ? parseInt(String(req.query.itemId)) : undefined;
+      res.json(await storage.getSupplierPrices({ itemType, itemId }));
+    } catch (error) {
+      console.error("Error fetching supplier prices:", error);
+      res.status(500).json({ message: "獲取供應商報價失敗" });
+    }
+  });
+
+  app.post("/api/supplier-prices", async (req, res) => {
+    try {
+      const price = insertSupplierPriceSchema.parse(req.body);
+      if (!await getStockItem(price.itemType, price.itemId)) {
+        return res.status(404).json({ message: "原料或包材不存在" });
+      }
+      if (!await storage.getSupplier(price.supplierId)) {
+        return res.status(404).json({ message: "供應商不存在" });
+      }
+      if (!(parseFloat(price.price) >= 0)) {
+        return res.status(400).json({ message: "報價不可為負數" });
+      }
+      res.status(201).json(await storage.createSupplierPrice(price));
+    } catch (error) {
+      console.error("Supplier price creation error:", error);
+      res.status(400).json({ message: "新增報價失敗，請檢查輸入資料" });
+    }
+  });
+
+  app.put("/api/supplier-prices/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!await storage.getSupplierPrice(id)) {
+        return res.status(404).json({ message: "報價不存在" });
+      }
+      const { price, notes } = insertSupplierPriceSchema.partial().parse(req.body);
+      if (price !== undefined && !(parseFloat(price) >= 0)) {
+        return res.status(400).json({ message: "報價不可為負數" });
+      }
+      const updated = await storage.updateSupplierPrice(id, { price, notes });
+
+      // 已採用的報價變動時同步更新成本單價
+      if (updated.isPreferred) {
+        await applySupplierPrice(updated);
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Supplier price update error:", error);
+      res.status(400).json({ message: "更新報價失敗，請檢查輸入資料" });
+    }
+  });
+
+  app.delete("/api/supplier-prices/:id", async (req, res) => {
+    try {
+      await storage.deleteSupplierPrice(parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "刪除報價失敗" });
+    }
+  });
+
+  app.post("/api/supplier-prices/:id/prefer", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!await storage.getSupplierPrice(id)) {
+        return res.status(404).json({ message: "報價不存在" });
+      }
+      const preferred = await storage.setPreferredSupplierPrice(id);
+      await applySupplierPrice(preferred);
+      res.json(preferred);
+    } catch (error) {
+      console.error("Supplier price prefer error:", error);
+      res.status(500).json({ message: "採用報價失敗" });
+    }
+  });
+
+  // 建議售價與批次調價 API（目標利潤率預設為高標）
+  app.get("/api/products/:id/price-suggestion", async (req, res) => {
+    try {
+      const product = await storage.getProduct(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ message: "商品不存在" });
+      }
+      const pricing = await getPricingSettings();
+      const targetMargin = parseTargetMargin(req.query.targetMargin, pricing.high);
+      if (targetMargin === null) {
+        return res.status(400).json({ message: "目標利潤率需介於 0 與 100 之間" });
+      }
+      res.json(suggestProductPrice(product, { targetMargin, roundingStep: pricing.roundingStep, rates: getOperatingCostRates() }));
+    } catch (error) {
+      console.error("Product price suggestion error:", error);
+      res.status(500).json({ message: "計算建議售價失敗" });
+    }
+  });
+
+  app.get("/api/custom-products/:id/price-suggestion", async (req, res) => {
+    try {
+      const customProduct = await storage.getCustomProduct(parseInt(req.params.id));
+      if (!customProduct) {
+        return res.status(404).json({ message: "客製商品不存在" });
+      }
+      const pricing = await getPricingSettings();
+      const targetMargin = parseTargetMargin(req.query.targetMargin, pricing.high);
+      if (targetMargin === null) {
+        return res.status(400).json({ message: "目標利潤率需介於 0 與 100 之間" });
+      }
+      res.json(suggestCustomProductPrice(customProduct, { targetMargin, roundingStep: pricing.roundingStep, rates: getOperatingCostRates() }));
+    } catch (error) {
+      console.error("Custom product price suggestion error:", error);
+      res.status(500).json({ message: "計算建議售價失敗" });
+    }
+  });
+
+  // 利潤率低於低標的商品調價建議（僅供檢視，不會修改資料）
+  app.get("/api/pricing/reprice-proposals", async (req, res) => {
+    try {
+      const pricing = await getPricingSettings();
+      const targetMargin = parseTargetMargin(req.query.targetMargin, pricing.high);
+      if (targetMargin === null) {
+        return res.status(400).json({ message: "目標利潤率需介於 0 與 100 之間" });
+      }
+      const [products, customProducts] = await Promise.all([
+        storage.getProducts(),
+        storage.getCustomProducts(),
+      ]);
+      res.json({
+        lowThreshold: pricing.low,
+        targetMargin,
+        roundingStep: pricing.roundingStep,
+        proposals: buildRepriceProposals({
+          products,
+          customProducts,
+          lowThreshold: pricing.low,
+          targetMargin,
+          roundingStep: pricing.roundingStep,
+          rates: getOperatingCostRates(),
+        }),
+      });
+    } catch (error) {
+      console.error("Reprice proposals error:", error);
+      res.status(500).json({ message: "產生調價建議失敗" });
+    }
+  });
+
+  // 套用批次調價（僅更新售價）
+  app.post("/api/pricing/reprice", async (req, res) => {
+    try {
+      const parsed = repriceRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "請選擇要調價的商品並輸入有效售價" });
+      }
+      let updated = 0;
+      for (const item of parsed.data.items) {
+        const sellingPrice = item.sellingPrice.toFixed(2);
+        if (item.productType === "product") {
+          if (!await storage.getProduct(item.productId)) continue;
+          await storage.updateProduct(item.productId, { sellingPrice });
+        } else {
+          if (!await storage.getCustomProduct(item.productId)) continue;
+          await storage.updateCustomProduct(item.productId, { sellingPrice });
+        }
+        updated++;
+      }
+      res.json({ updated, message: `已更新 ${updated} 項商品售價` });
+    } catch (error) {
+      console.error("Reprice apply error:", error);
+      res.status(500).json({ message: "套用調價失敗" });
+    }
+  });
+
+  // 異動紀錄 API
+  app.get("/api/audit-logs", async (req, res) => {
+    try {
+      // entityType 可用逗號指定多種（例如 recipe,recipe_category）
+      const entityTypes = String(req.query.entityType ?? "")
+        .split(",")
+        .filter((type): type is AuditEntityType => (AUDIT_ENTITY_TYPES as readonly string[]).includes(type));
+      if (entityTypes.length === 0) {
+        return res.status(400).json({ message: "請指定資料類型" });
+      }
+
+      const entityId = req.query.entityId ? parseInt(req.query.entityId as string) : undefined;
+      if (entityId !== undefined && isNaN(entityId)) {
+        return res.status(400).json({ message: "無效的資料 ID" });
+      }
+
+      const logs = await storage.getAuditLogs(entityTypes, entityId);
+      res.json(logs);
+    } catch (error) {
+      console.error("Error fetching audit logs:", error);
+      res.status(500).json({ message: "獲取異動紀錄失敗" });
+    }
+  });
+
+  // 備份與還原 API
+  app.post("/api/backup/create", async (req, res) => {
+    try {
+      const backupPath = await createFullBackup();
+      res.json({ 
+        message: "備份創建成功",
+        backupPath,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error("Backup creation failed:", error);
+      res.status(500).json({ message: `備份創建失敗: ${error}` });
+    }
+  });
+
+  app.get("/api/backup/list", async (req, res) => {
+    try {
+      const backups = await getAvailableBackups();
+      res.json(backups);
+    } catch (error) {
+      console.error("Failed to get backup list:", error);
+      res.status(500).json({ message: "獲取備份清單失敗" });
+    }
+  });
+
+  app.post("/api/backup/restore", upload.single("backupFile"), async (req, res) => {
+    try {
+      let backupPath: string;
+      
+      if (req.file) {
+        // 從上傳的檔案還原
+        const tempPath = `/tmp/restore-${Date.now()}.json`;
+        await fs.writeFile(tempPath, req.file.buffer);
+        backupPath = tempPath;
+      } else if (req.body.backupPath) {
+        // 從伺服器備份還原
+        backupPath = req.body.backupPath;
+      } else {
+        return res.status(400).json({ message: "請提供備份檔案或選擇伺服器備份" });
+      }
+
+      const result = await restoreFromBackup(backupPath);
+      
+      // 清理暫存檔案
+      if (req.file) {
+        try {
+          await fs.unlink(backupPath);
+        } catch (error) {
+          console.error("Failed to clean temp file:", error);
+        }
+      }
+
+      if (result.success) {
+        res.json({
+          message: result.message,
+          restored: result.restored
+        });
+      } else {
+        res.status(500).json({ message: result.message });
+      }
+    } catch (error) {
+      console.error("Restore failed:", error);
+      res.status(500).json({ message: `還原失敗: ${error}` });
+    }
+  });
+
+  app.get("/api/backup/download/:filename", async (req, res) => {
+    try {
+      const { filename } = req.params;
+      
+      // 安全檢查：只允許下載backup-開頭的.json檔案
+      if (!filename.startsWith('backup-') || !filename.endsWith('.json')) {
+        return res.status(400).json({ message: "無效的備份檔案名稱" });
+      }
+
+      const backupPath = path.join(process.cwd(), 'backups', filename);
+      
+      // 檢查檔案是否存在
+      try {
+        await fs.access(backupPath);
+      } catch {
+        return res.status(404).json({ message: "備份檔案不存在" });
+      }
+
+      // 設定下載標頭
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      
+      // 發送檔案
+      res.sendFile(backupPath);
+    } catch (error) {
+      console.error("Failed to download backup:", error);
+      res.status(500).json({ message: "下載備份檔案失敗" });
+    }
+  });
+
+  app.delete("/api/backup/:filename", async (req, res) => {
+    try {
+      const { filename } = req.params;
+      
+      // 安全檢查：只允許刪除backup-開頭的.json檔案
+      if (!filename.startsWith('backup-') || !filename.endsWith('.json')) {
+        return res.status(400).json({ message: "無效的備份檔案名稱" });
+      }
+
+      const backupPath = path.join(process.cwd(), 'backups', filename);
+      await fs.unlink(backupPath);
+      
+      res.json({ message: "備份檔案已刪除" });
+    } catch (error) {
+      console.error("Failed to delete backup:", error);
+      res.status(500).json({ message: "刪除備份檔案失敗" });
+    }
+  });
+
+  // Authentication routes
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const { username, password } = req.body;
+      
+      if (!username || !password) {
+        return res.status(400).json({ message: "帳號和密碼為必填項目" });
+      }
+
+      // 檢查用戶名和密碼（使用資料庫驗證）
+      const user = await storage.getUserByUsername(username);
+      if (user && user.isActive && await bcrypt.compare(password, user.passwordHash)) {
+        setSessionUser(req, user);
+
+        // 檢查是否為今日首次登入，如果是則觸發自動備份
+        const { isFirstLoginToday, createFullBackup, cleanOldBackups } = await import("./backup");
+        if (await isFirstLoginToday()) {
+          // 異步執行備份，不阻塞登入回應
+          setImmediate(async () => {
+            try {
+              await createFullBackup();
+              await cleanOldBackups();
+            } catch (error) {
+              console.error("Auto backup failed:", error);
+            }
+          });
+        }
+
+        res.json({ authenticated: true, username: user.username, role: user.role });
+      } else {
+        res.status(401).json({ message: "帳號或密碼錯誤" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "登入失敗" });
+    }
+  });
+
+  app.get("/api/auth/check", async (req, res) => {
+    const sessionUser = getSessionUser(req);
+    const user = sessionUser ? await storage.getUser(sessionUser.id) : undefined;
+    const authenticated = !!user && user.isActive;
+    res.json({ 
+      authenticated,
+      username: authenticated ? user.username : null,
+      displayName: authenticated ? user.displayName : null,
+      role: authenticated ? user.role : null
+    });
+  });
 
   app.post("/api/auth/logout", (req, res) => {
     req.session.destroy((err) => {
@@ -2007,10 +3105,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put("/api/auth/change-password", async (req, res) => {
     try {
-      if (!(req.session as any)?.authenticated) {
-        return res.status(401).json({ message: "請先登入" });
-      }
-
       const { currentPassword: inputCurrentPassword, newPassword } = req.body;
       
       if (!inputCurrentPassword || !newPassword) {
@@ -2018,16 +3112,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // 驗證當前密碼（使用資料庫驗證）
-      const userSettings = await storage.getUserSettings(ADMIN_USERNAME);
-      if (!userSettings || !await bcrypt.compare(inputCurrentPassword, userSettings.passwordHash)) {
+      const sessionUser = getSessionUser(req);
+      const user = sessionUser ? await storage.getUser(sessionUser.id) : undefined;
+      if (!user || !await bcrypt.compare(inputCurrentPassword, user.passwordHash)) {
         return res.status(400).json({ message: "當前密碼錯誤" });
       }
 
       // 更新密碼並即時儲存到資料庫
       const newPasswordHash = await bcrypt.hash(newPassword, 10);
-      await storage.updatePassword(ADMIN_USERNAME, newPasswordHash);
+      await storage.updateUser(user.id, { passwordHash: newPasswordHash });
+      if (user.username === ADMIN_USERNAME) {
+        // 保持備份還原用的 admin 設定密碼一致
+        await storage.updatePassword(ADMIN_USERNAME, newPasswordHash);
+      }
       
-      console.log(`Password updated for user: ${ADMIN_USERNAME}`);
+      console.log(`Password updated for user: ${user.username}`);
       
       res.json({ message: "密碼修改成功" });
     } catch (error) {
@@ -2036,13 +3135,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // User management routes（僅擁有者，由 authorize 檢查）
+  app.get("/api/users", async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "載入使用者失敗" });
+    }
+  });
+
+  app.post("/api/users", async (req, res) => {
+    try {
+      const { username, displayName, password, role } = req.body;
+
+      if (!username || !password) {
+        return res.status(400).json({ message: "帳號和密碼為必填項目" });
+      }
+      if (!USER_ROLES.includes(role)) {
+        return res.status(400).json({ message: "無效的角色" });
+      }
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).json({ message: "帳號已存在" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        displayName: displayName || null,
+        passwordHash: await bcrypt.hash(password, 10),
+        role,
+        isActive: true,
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      console.error("Create user error:", error);
+      res.status(500).json({ message: "建立使用者失敗" });
+    }
+  });
+
+  app.put("/api/users/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "使用者不存在" });
+      }
+
+      const { displayName, role, isActive } = req.body;
+      if (role !== undefined && !USER_ROLES.includes(role)) {
+        return res.status(400).json({ message: "無效的角色" });
+      }
+
+      // 至少保留一位啟用中的擁有者
+      const losesOwner = user.role === "owner" && user.isActive &&
+        ((role !== undefined && role !== "owner") || isActive === false);
+      if (losesOwner) {
+        const owners = (await storage.getUsers()).filter(u => u.role === "owner" && u.isActive);
+        if (owners.length <= 1) {
+          return res.status(400).json({ message: "至少需保留一位擁有者" });
+        }
+      }
+
+      const updated = await storage.updateUser(id, {
+        displayName: displayName === undefined ? undefined : displayName || null,
+        role,
+        isActive: isActive === undefined ? undefined : !!isActive,
+      });
+      res.json(toPublicUser(updated));
+    } catch (error) {
+      console.error("Update user error:", error);
+      res.status(500).json({ message: "更新使用者失敗" });
+    }
+  });
+
+  app.put("/api/users/:id/reset-password", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { newPassword } = req.body;
+      if (!newPassword) {
+        return res.status(400).json({ message: "請提供新密碼" });
+      }
+
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "使用者不存在" });
+      }
+
+      const passwordHash = await bcrypt.hash(newPassword, 10);
+      await storage.updateUser(id, { passwordHash });
+      if (user.username === ADMIN_USERNAME) {
+        await storage.updatePassword(ADMIN_USERNAME, passwordHash);
+      }
+      res.json({ message: "密碼已重設" });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      res.status(500).json({ message: "重設密碼失敗" });
+    }
+  });
+
   // Settings routes
   app.get("/api/settings", async (req, res) => {
     try {
-      if (!(req.session as any)?.authenticated) {
-        return res.status(401).json({ message: "請先登入" });
-      }
-      
       // 即時從資料庫載入最新設定
       const userSettings = await storage.getUserSettings(ADMIN_USERNAME);
       if (userSettings) {
@@ -2050,11 +3243,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           profitMargin: {
             lowThreshold: parseFloat(userSettings.profitMarginLow),
             highThreshold: parseFloat(userSettings.profitMarginHigh)
-          }
+          },
+          operatingCosts: operatingCostRatesFromSettings(userSettings),
+          priceRoundingStep: userSettings.priceRoundingStep,
         });
       } else {
         res.json({
-          profitMargin: DEFAULT_SETTINGS.profitMargin
+          profitMargin: DEFAULT_SETTINGS.profitMargin,
+          operatingCosts: getOperatingCostRates(),
+          priceRoundingStep: DEFAULT_PRICE_ROUNDING_STEP,
         });
       }
     } catch (error) {
@@ -2065,24 +3262,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put("/api/settings/profit-margin", async (req, res) => {
     try {
-      if (!(req.session as any)?.authenticated) {
-        return res.status(401).json({ message: "請先登入" });
-      }
-
-      const { lowThreshold, highThreshold } = req.body;
+      const { lowThreshold, highThreshold, priceRoundingStep } = req.body;
       
       if (lowThreshold >= highThreshold) {
         return res.status(400).json({ message: "低門檻值必須小於高門檻值" });
       }
+      if (priceRoundingStep !== undefined && !(Number.isInteger(priceRoundingStep) && priceRoundingStep >= 1)) {
+        return res.status(400).json({ message: "售價級距需為 1 以上的整數" });
+      }
 
       // 即時更新利潤率設定到資料庫
       await storage.updateProfitMargins(ADMIN_USERNAME, lowThreshold, highThreshold);
+      if (priceRoundingStep !== undefined) {
+        await storage.updateUserSettings(ADMIN_USERNAME, { priceRoundingStep });
+      }
       
       // 更新快取
       appSettings.profitMargin = { lowThreshold, highThreshold };
       
       res.json({ 
         profitMargin: appSettings.profitMargin,
+        ...(priceRoundingStep !== undefined && { priceRoundingStep }),
         message: "利潤率設定已保存"
       });
     } catch (error) {
@@ -2090,6 +3290,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put("/api/settings/operating-costs", async (req, res) => {
+    try {
+      const parsed = operatingCostSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "費用設定需為 0 以上的數字" });
+      }
+      const rates = parsed.data;
+      await storage.updateUserSettings(ADMIN_USERNAME, {
+        labourHourlyWage: rates.labourHourlyWage.toFixed(2),
+        ovenCostPerHour: rates.ovenCostPerHour.toFixed(2),
+        monthlyOverhead: rates.monthlyOverhead.toFixed(2),
+        monthlyProductionUnits: rates.monthlyProductionUnits,
+      });
+      setOperatingCostRates(rates);
+
+      res.json({
+        operatingCosts: rates,
+        message: "人工與固定費用設定已保存"
+      });
+    } catch (error) {
+      res.status(500).json({ message: "保存設定失敗" });
+    }
+  });
+
   // Backup routes (舊版本，用於相容性)
   app.get("/api/backup", async (req, res) => {
     try {
@@ -2269,7 +3493,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
             // Prepare ingredients data
             const ingredientsData = ingredients ? ingredients.map((ing: any) => ({
               materialId: ing.materialId,
-              quantity: ing.quantity.toString()
+              quantity: ing.quantity.toString(),
+              unit: ing.unit ?? "g",
+              unitQuantity: ing.unitQuantity ?? null,
+              wasteRate: ing.wasteRate ?? null,
             })) : [];
 
             const existingRecipes = await storage.getRecipes(recipeData.name);
@@ -2513,9 +3740,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   settingsData.profitMarginHigh !== null && settingsData.profitMarginHigh !== undefined) {
                 await storage.updateProfitMargins(settingsData.username, settingsData.profitMarginLow, settingsData.profitMarginHigh);
               }
+              // 人工、能源與固定費用設定（舊備份沒有這些欄位時維持現值）
+              await storage.updateUserSettings(settingsData.username, {
+                labourHourlyWage: settingsData.labourHourlyWage,
+                ovenCostPerHour: settingsData.ovenCostPerHour,
+                monthlyOverhead: settingsData.monthlyOverhead,
+                monthlyProductionUnits: settingsData.monthlyProductionUnits,
+              });
             } else {
               await storage.createUserSettings(settingsData);
             }
+            if (settingsData.username === ADMIN_USERNAME) {
+              const restored = await storage.getUserSettings(ADMIN_USERNAME);
+              if (restored) {
+                setOperatingCostRates(operatingCostRatesFromSettings(restored));
+              }
+            }
             restoredCount++;
           } catch (error) {
             console.error("Restore user settings error:", error);
@@ -2639,6 +3879,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/nutrition-label-templates/:id", async (req, res) => {
+    try {
+      const template = await storage.getNutritionLabelTemplate(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: "營養標示模板不存在" });
+      }
+      res.json(template);
+    } catch (error) {
+      res.status(500).json({ message: "獲取營養標示模板失敗" });
+    }
+  });
+
+  app.put("/api/nutrition-label-templates/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!await storage.getNutritionLabelTemplate(id)) {
+        return res.status(404).json({ message: "營養標示模板不存在" });
+      }
+      const parsed = insertNutritionLabelTemplateSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "更新營養標示模板失敗，請檢查輸入資料" });
+      }
+      const updated = await storage.updateNutritionLabelTemplate(id, parsed.data);
+
+      // 套用此模板的標示須依新版面重新生成
+      const labels = await storage.getNutritionLabels();
+      for (const label of labels.filter(label => label.templateId === id && label.generatedFiles)) {
+        await storage.updateNutritionLabel(label.id, { generatedFiles: null });
+        await deleteLabelFiles(label.id);
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Nutrition label template update error:", error);
+      res.status(500).json({ message: "更新營養標示模板失敗" });
+    }
+  });
+
+  // 刪除模板；仍有營養標示套用時不可刪除
+  app.delete("/api/nutrition-label-templates/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const labels = await storage.getNutritionLabels();
+      const inUse = labels.filter(label => label.templateId === id);
+      if (inUse.length > 0) {
+        return res.status(400).json({
+          message: `此模板仍被 ${inUse.length} 個營養標示使用：${inUse.map(label => label.name).join("、")}`
+        });
+      }
+      await storage.deleteNutritionLabelTemplate(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Nutrition label template deletion error:", error);
+      res.status(500).json({ message: "刪除營養標示模板失敗" });
+    }
+  });
+
   // Nutrition Labels routes
   app.get("/api/nutrition-labels", async (req, res) => {
     try {
@@ -2650,6 +3946,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // 標示中會印出或影響版面的欄位
+  const LABEL_OUTPUT_FIELDS = ["name", "recipeIds", "servingSize", "servingsPerPackage", "calculatedNutrition", "templateId"] as const;
+
+  // 找出不存在的配方 ID；計算營養成分時不可略過，否則標示數值會偏低
+  const findMissingRecipeIds = async (recipeIds: number[]): Promise<number[]> => {
+    const recipes = await Promise.all(recipeIds.map(id => storage.getRecipe(id)));
+    return recipeIds.filter((_, index) => !recipes[index]);
+  };
+
   app.post("/api/nutrition-labels", async (req, res) => {
     try {
       console.log("Creating nutrition label with data:", JSON.stringify(req.body, null, 2));
@@ -2659,60 +3964,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.body.servingSize = req.body.servingSize.toString();
       }
 
-      // 如果沒有calculatedNutrition，自動計算
-      if (!req.body.calculatedNutrition && req.body.recipeIds && req.body.recipeIds.length > 0) {
-        console.log("Auto-calculating nutrition for recipes:", req.body.recipeIds);
-        
-        const servingSize = parseFloat(req.body.servingSize) || 100;
-        const servingsPerPackage = parseInt(req.body.servingsPerPackage) || 1;
-        
+      // 如果沒有calculatedNutrition，依配方自動計算；計算失敗時不儲存，避免標示印出 0 值
+      if (!req.body.calculatedNutrition) {
+        const recipeIds: number[] = (req.body.recipeIds ?? []).map((id: string) => parseInt(id));
+        if (recipeIds.length === 0) {
+          return res.status(400).json({ message: "請選擇至少一個配方" });
+        }
+
+        const missingRecipeIds = await findMissingRecipeIds(recipeIds);
+        if (missingRecipeIds.length > 0) {
+          return res.status(400).json({ message: `找不到配方：${missingRecipeIds.join("、")}`, missingRecipeIds });
+        }
+
+        console.log("Auto-calculating nutrition for recipes:", recipeIds);
         try {
-          const calculatedNutrition = await storage.calculateRecipesNutrition(
-            req.body.recipeIds.map((id: string) => parseInt(id)),
-            servingSize,
-            servingsPerPackage
+          req.body.calculatedNutrition = await storage.calculateRecipesNutrition(
+            recipeIds,
+            parseFloat(req.body.servingSize) || 100,
+            parseInt(req.body.servingsPerPackage) || 1
           );
-          
-          req.body.calculatedNutrition = calculatedNutrition;
-          console.log("Auto-calculated nutrition:", calculatedNutrition);
         } catch (nutritionError) {
-          console.error("Nutrition calculation failed, using defaults:", nutritionError);
-          // 計算失敗時使用預設值
+          console.error("Nutrition calculation failed:", nutritionError);
+          return res.status(500).json({ message: "營養成分計算失敗，營養標示未儲存" });
         }
       }
-
-      // 如果仍然沒有calculatedNutrition，使用預設值
-      if (!req.body.calculatedNutrition) {
-        const servingSize = parseFloat(req.body.servingSize) || 100;
-        const servingsPerPackage = parseInt(req.body.servingsPerPackage) || 1;
-        
-        req.body.calculatedNutrition = {
-          perServing: {
-            calories: 0,
-            protein: 0,
-            fat: 0,
-            saturatedFat: 0,
-            transFat: 0,
-            carbohydrates: 0,
-            sugar: 0,
-            sodium: 0
-          },
-          per100g: {
-            calories: 0,
-            protein: 0,
-            fat: 0,
-            saturatedFat: 0,
-            transFat: 0,
-            carbohydrates: 0,
-            sugar: 0,
-            sodium: 0
-          },
-          servingSize: servingSize,
-          servingsPerPackage: servingsPerPackage,
-          totalWeight: servingSize * servingsPerPackage
-        };
-        console.log("Using default nutrition values");
-      }
       
       const data = insertNutritionLabelSchema.parse(req.body);
       const created = await storage.createNutritionLabel(data);
@@ -2736,47 +4011,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.body.servingSize = req.body.servingSize.toString();
       }
 
-      // 如果沒有calculatedNutrition，自動計算
+      // 有更新配方但沒有calculatedNutrition時重新計算；未指定配方則保留原有營養成分
       if (!req.body.calculatedNutrition && req.body.recipeIds && req.body.recipeIds.length > 0) {
-        console.log("Auto-calculating nutrition for update:", req.body.recipeIds);
-        
-        const servingSize = parseFloat(req.body.servingSize) || 100;
-        const servingsPerPackage = parseInt(req.body.servingsPerPackage) || 1;
-        
+        const recipeIds: number[] = req.body.recipeIds.map((id: string) => parseInt(id));
+        const missingRecipeIds = await findMissingRecipeIds(recipeIds);
+        if (missingRecipeIds.length > 0) {
+          return res.status(400).json({ message: `找不到配方：${missingRecipeIds.join("、")}`, missingRecipeIds });
+        }
+
+        console.log("Auto-calculating nutrition for update:", recipeIds);
         try {
-          const calculatedNutrition = await storage.calculateRecipesNutrition(
-            req.body.recipeIds.map((id: string) => parseInt(id)),
-            servingSize,
-            servingsPerPackage
+          req.body.calculatedNutrition = await storage.calculateRecipesNutrition(
+            recipeIds,
+            parseFloat(req.body.servingSize) || 100,
+            parseInt(req.body.servingsPerPackage) || 1
           );
-          
-          req.body.calculatedNutrition = calculatedNutrition;
         } catch (nutritionError) {
           console.error("Nutrition calculation failed for update:", nutritionError);
+          return res.status(500).json({ message: "營養成分計算失敗，營養標示未更新" });
         }
       }
 
-      // 如果仍然沒有calculatedNutrition，使用預設值
-      if (!req.body.calculatedNutrition) {
-        const servingSize = parseFloat(req.body.servingSize) || 100;
-        const servingsPerPackage = parseInt(req.body.servingsPerPackage) || 1;
-        
-        req.body.calculatedNutrition = {
-          perServing: {
-            calories: 200, protein: 4, fat: 8, saturatedFat: 2, transFat: 0,
-            carbohydrates: 30, sugar: 5, sodium: 100
-          },
-          per100g: {
-            calories: 200, protein: 4, fat: 8, saturatedFat: 2, transFat: 0,
-            carbohydrates: 30, sugar: 5, sodium: 100
-          },
-          servingSize: servingSize,
-          servingsPerPackage: servingsPerPackage,
-          totalWeight: servingSize * servingsPerPackage
-        };
+      // 影響輸出內容的欄位變更時清除已生成的檔案，需重新生成後才能下載
+      const existing = await storage.getNutritionLabel(id);
+      const outputChanged = existing && LABEL_OUTPUT_FIELDS.some(field =>
+        field in req.body && JSON.stringify(req.body[field]) !== JSON.stringify(existing[field])
+      );
+      const updated = await storage.updateNutritionLabel(id, outputChanged ? { ...req.body, generatedFiles: null } : req.body);
+      if (outputChanged) {
+        await deleteLabelFiles(id);
       }
-
-      const updated = await storage.updateNutritionLabel(id, req.body);
       res.json(updated);
     } catch (error) {
       console.error("Nutrition label update error:", error);
@@ -2792,6 +4056,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteNutritionLabel(id);
+      await deleteLabelFiles(id);
       res.status(204).send();
     } catch (error) {
       console.error("Nutrition label deletion error:", error);
@@ -2816,6 +4081,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "請輸入正確的包裝份數" });
       }
 
+      const missingRecipeIds = await findMissingRecipeIds(recipeIds.map((id: string) => parseInt(id)));
+      if (missingRecipeIds.length > 0) {
+        return res.status(400).json({ message: `找不到配方：${missingRecipeIds.join("、")}`, missingRecipeIds });
+      }
+
       const calculatedNutrition = await storage.calculateRecipesNutrition(
         recipeIds.map((id: string) => parseInt(id)),
         parseFloat(servingSize),
@@ -2829,7 +4099,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // 營養標示生成端點 (Excel格式)
+  // 營養標示生成端點（xlsx、pdf、png、jpg 或全部格式的 zip），生成後保存供重新下載
   app.post("/api/nutrition-labels/:id/generate", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -2840,24 +4110,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "營養標示不存在" });
       }
 
-      // 生成Excel格式營養標籤
-      if (format !== 'xlsx') {
-        return res.status(400).json({ message: "僅支援Excel格式輸出" });
+      if (!NUTRITION_LABEL_FORMATS.includes(format)) {
+        return res.status(400).json({ message: "僅支援 Excel、PDF、PNG、JPG 或 ZIP 格式輸出" });
       }
 
-      const excelBuffer = await generateNutritionLabelExcel(nutritionLabel);
-      
-      const fileName = `${nutritionLabel.name}_營養標示.xlsx`;
+      // 不符台灣營養標示規定（如原料缺少鈉資料）時不可生成
+      const compliance = validateNutritionLabel({
+        ...nutritionLabel,
+        calculatedNutrition: nutritionLabel.calculatedNutrition as CalculatedNutrition | null,
+      });
+      if (!compliance.valid) {
+        const errors = compliance.issues.filter(issue => issue.severity === "error");
+        return res.status(400).json({
+          message: `營養標示不符標示規定：${errors.map(issue => issue.message).join("；")}`,
+          issues: compliance.issues,
+        });
+      }
+
+      const template = nutritionLabel.templateId
+        ? await storage.getNutritionLabelTemplate(nutritionLabel.templateId)
+        : undefined;
+      const labelRecipes = await Promise.all(nutritionLabel.recipeIds.map(recipeId => storage.getRecipe(parseInt(recipeId))));
+      const allergens = mergeAllergens(labelRecipes.flatMap(recipe => recipe ? [recipeAllergens(recipe)] : []));
+
+      // PDF 與圖檔內容超出標籤尺寸時會被裁切、字型缺字時會印出空白方塊，不可生成
+      if (format !== "xlsx") {
+        const { layout, missingCharacters } = checkLabel(nutritionLabel, template, allergens);
+        const layoutIssues: NutritionComplianceIssue[] = [];
+        if (layout.overflow) {
+          layoutIssues.push({
+            code: "label_overflow",
+            severity: "error",
+            message: "標示內容超出標籤尺寸，請改用較大的模板或調小字級、邊距",
+          });
+        }
+        if (missingCharacters.length > 0) {
+          layoutIssues.push({
+            code: "missing_glyphs",
+            severity: "error",
+            message: `標籤字型缺少以下字元：${missingCharacters.join("")}，請修改名稱或以 LABEL_FONT_PATH 指定完整字型`,
+          });
+        }
+        if (layoutIssues.length > 0) {
+          return res.status(400).json({
+            message: layoutIssues.map(issue => issue.message).join("；"),
+            issues: [...compliance.issues, ...layoutIssues],
+          });
+        }
+      }
+
+      const { buffer, fileName, generatedFiles } = await generateLabelFile(nutritionLabel, format, template, allergens);
+      await storage.updateNutritionLabel(id, { generatedFiles });
       
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Type', NUTRITION_LABEL_CONTENT_TYPES[format as NutritionLabelFormat]);
       res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(fileName)}"`);
-      res.send(excelBuffer);
+      res.send(buffer);
     } catch (error) {
       console.error("Nutrition label generation error:", error);
       res.status(500).json({ message: "營養標示生成失敗" });
     }
   });
 
+  // 下載已生成的營養標示檔案
+  app.get("/api/nutrition-labels/:id/files/:format", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const format = req.params.format as NutritionLabelFormat;
+      if (!NUTRITION_LABEL_FORMATS.includes(format)) {
+        return res.status(400).json({ message: "僅支援 Excel、PDF、PNG、JPG 或 ZIP 格式輸出" });
+      }
+
+      const nutritionLabel = await storage.getNutritionLabel(id);
+      const generated = nutritionLabel?.generatedFiles?.[format];
+      if (!nutritionLabel || !generated) {
+        return res.status(404).json({ message: "尚未生成此格式的營養標示" });
+      }
+
+      const buffer = await readLabelFile(id, format);
+      if (!buffer) {
+        return res.status(404).json({ message: "檔案已不存在，請重新生成" });
+      }
+
+      res.setHeader('Content-Type', NUTRITION_LABEL_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(generated.fileName)}"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Nutrition label download error:", error);
+      res.status(500).json({ message: "下載營養標示失敗" });
+    }
+  });
+
   // 營養標示匯出端點
   app.get("/api/nutrition-labels/export", async (req, res) => {
     try {
@@ -4,6 +4,7 @@ import {
   recipes,
   recipeCategories,
   recipeIngredients,
+  recipeSubRecipes,
   productCategories,
   customProductCategories,
   packagingCategories,
@@ -16,7 +17,16 @@ import {
   customProductPackaging,
   nutritionFacts,
   userSettings,
+  users,
+  auditLogs,
   materialHistory,
+  productCostSnapshots,
+  productionPlans,
+  productionPlanItems,
+  stockMovements,
+  suppliers,
+  supplierPrices,
+  materialPurchases,
   nutritionLabelTemplates,
   nutritionLabels,
   taiwanNutritionDatabase,
@@ -31,6 +41,8 @@ import {
   type InsertRecipeCategory,
   type RecipeIngredient,
   type InsertRecipeIngredient,
+  type RecipeSubRecipe,
+  type InsertRecipeSubRecipe,
   type ProductCategory,
   type InsertProductCategory,
   type CustomProductCategory,
@@ -55,8 +67,34 @@ import {
   type InsertNutritionFacts,
   type UserSettings,
   type InsertUserSettings,
+  type User,
+  type InsertUser,
   type MaterialHistory,
   type InsertMaterialHistory,
+  type AuditLog,
+  type InsertAuditLog,
+  type AuditEntityType,
+  type AuditAction,
+  type ProductCostSnapshot,
+  type CostSnapshotProductType,
+  type CostSnapshotTrigger,
+  type ProductionPlan,
+  type InsertProductionPlan,
+  type InsertProductionPlanItem,
+  type ProductionPlanWithItems,
+  type ProductionRequirements,
+  type StockMovement,
+  type InsertStockMovement,
+  type StockItemType,
+  type LowStockItem,
+  type Supplier,
+  type InsertSupplier,
+  type SupplierPrice,
+  type InsertSupplierPrice,
+  type SupplierPriceWithDetails,
+  type MaterialPurchase,
+  type InsertMaterialPurchase,
+  type MaterialPurchaseWithSupplier,
   type NutritionLabelTemplate,
   type InsertNutritionLabelTemplate,
   type NutritionLabel,
@@ -73,8 +111,17 @@ import {
   type RecipeNutrition,
   type CalculatedNutrition,
 } from "@shared/schema";
+import { withProductCosts, withCustomProductCosts } from "@shared/costEngine";
 import { db } from "./db";
-import { eq, desc, asc, sql, like, and, or, ilike } from "drizzle-orm";
+import { MemStorage } from "./memStorage";
+import { assembleRecipeTrees } from "@shared/recipeTree";
+import { calculateRecipeNutrition, calculateRecipesNutrition, collectRecipeMaterialIds, toNutrientValues, type MaterialNutrientValues } from "./nutritionCalculator";
+import { buildCostSnapshotRows } from "./costSnapshots";
+import { productionRunMovements } from "./productionPlanning";
+import { buildAuditEntry, recipeAuditSnapshot, productAuditSnapshot, customProductAuditSnapshot } from "./auditLog";
+import { getRequestUser } from "./requestContext";
+import { getOperatingCostRates } from "./operatingCosts";
+import { eq, desc, asc, sql, like, and, or, ilike, inArray, isNull } from "drizzle-orm";
 
 export interface IStorage {
   // Materials
@@ -87,9 +134,11 @@ export interface IStorage {
   // Recipes
   getRecipes(search?: string, category?: string): Promise<RecipeWithIngredients[]>;
   getRecipe(id: number): Promise<RecipeWithIngredients | undefined>;
-  createRecipe(recipe: InsertRecipe, ingredients: InsertRecipeIngredient[]): Promise<RecipeWithIngredients>;
-  updateRecipe(id: number, recipe: Partial<InsertRecipe>, ingredients?: InsertRecipeIngredient[]): Promise<RecipeWithIngredients>;
+  createRecipe(recipe: InsertRecipe, ingredients: InsertRecipeIngredient[], subRecipes?: InsertRecipeSubRecipe[]): Promise<RecipeWithIngredients>;
+  updateRecipe(id: number, recipe: Partial<InsertRecipe>, ingredients?: InsertRecipeIngredient[], subRecipes?: InsertRecipeSubRecipe[]): Promise<RecipeWithIngredients>;
   deleteRecipe(id: number): Promise<void>;
+  getRecipeIngredientsByMaterial(materialId: number): Promise<RecipeIngredient[]>;
+  updateRecipeIngredientQuantities(recipeId: number, quantities: Map<number, string>): Promise<void>;
 
   // Packaging
   getPackaging(search?: string, type?: string): Promise<Packaging[]>;
@@ -128,10 +177,59 @@ export interface IStorage {
   updatePassword(username: string, passwordHash: string): Promise<UserSettings>;
   updateProfitMargins(username: string, lowThreshold: number, highThreshold: number): Promise<UserSettings>;
 
+  // Users
+  getUsers(): Promise<User[]>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User>;
+
   // Material History
   getMaterialHistory(materialId: number): Promise<MaterialHistory[]>;
   createMaterialHistory(history: InsertMaterialHistory): Promise<MaterialHistory>;
   getMaterialWithHistory(id: number): Promise<MaterialWithHistory | undefined>;
+
+  // Audit Logs
+  getAuditLogs(entityTypes: AuditEntityType[], entityId?: number): Promise<AuditLog[]>;
+  createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
+
+  // Product Cost Snapshots
+  getProductCostSnapshots(productType: CostSnapshotProductType, productId: number): Promise<ProductCostSnapshot[]>;
+  getLatestProductCostSnapshot(trigger?: CostSnapshotTrigger): Promise<ProductCostSnapshot | undefined>;
+  createProductCostSnapshots(trigger: CostSnapshotTrigger): Promise<ProductCostSnapshot[]>;
+
+  // Production Plans
+  getProductionPlans(): Promise<ProductionPlanWithItems[]>;
+  getProductionPlan(id: number): Promise<ProductionPlanWithItems | undefined>;
+  createProductionPlan(plan: InsertProductionPlan, items: InsertProductionPlanItem[]): Promise<ProductionPlanWithItems>;
+  updateProductionPlan(id: number, plan: Partial<InsertProductionPlan>, items?: InsertProductionPlanItem[]): Promise<ProductionPlanWithItems>;
+  deleteProductionPlan(id: number): Promise<void>;
+  recordProductionRun(planId: number, requirements: ProductionRequirements): Promise<ProductionPlanWithItems | undefined>;
+
+  // Inventory
+  getStockMovements(itemType: StockItemType, itemId: number): Promise<StockMovement[]>;
+  recordStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
+  setReorderPoint(itemType: StockItemType, itemId: number, reorderPoint: number | null): Promise<void>;
+  getLowStockItems(): Promise<LowStockItem[]>;
+
+  // Suppliers
+  getSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: number): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: number, supplier: Partial<InsertSupplier>): Promise<Supplier>;
+  deleteSupplier(id: number): Promise<void>;
+  getSupplierPrices(filter: { supplierId?: number; itemType?: StockItemType; itemId?: number }): Promise<SupplierPriceWithDetails[]>;
+  getSupplierPrice(id: number): Promise<SupplierPrice | undefined>;
+  createSupplierPrice(price: InsertSupplierPrice): Promise<SupplierPrice>;
+  updateSupplierPrice(id: number, price: Partial<InsertSupplierPrice>): Promise<SupplierPrice>;
+  deleteSupplierPrice(id: number): Promise<void>;
+  setPreferredSupplierPrice(id: number): Promise<SupplierPrice>;
+
+  // Material Purchases
+  getMaterialPurchases(materialId: number): Promise<MaterialPurchaseWithSupplier[]>;
+  getMaterialPurchase(id: number): Promise<MaterialPurchase | undefined>;
+  createMaterialPurchase(materialId: number, purchase: InsertMaterialPurchase): Promise<MaterialPurchase>;
+  deleteMaterialPurchase(id: number): Promise<void>;
   updateNutritionFacts(id: number, nutrition: Partial<InsertNutritionFacts>): Promise<NutritionFacts>;
   deleteNutritionFacts(id: number): Promise<void>;
 
@@ -156,11 +254,36 @@ export interface IStorage {
 
   // Nutrition Labels
   getNutritionLabels(search?: string): Promise<any[]>;
+  getNutritionLabel(id: number): Promise<NutritionLabel | undefined>;
   createNutritionLabel(data: any): Promise<any>;
   updateNutritionLabel(id: number, data: any): Promise<any>;
   deleteNutritionLabel(id: number): Promise<void>;
+  calculateRecipesNutrition(recipeIds: number[], servingSize: number, servingsPerPackage: number): Promise<CalculatedNutrition>;
   calculateNutritionForRecipes(recipeIds: number[], servingSize: number, servingsPerPackage: number): Promise<any>;
 
+  // Nutrition Label Templates
+  getNutritionLabelTemplates(): Promise<NutritionLabelTemplate[]>;
+  getNutritionLabelTemplate(id: number): Promise<NutritionLabelTemplate | undefined>;
+  createNutritionLabelTemplate(data: InsertNutritionLabelTemplate): Promise<NutritionLabelTemplate>;
+  updateNutritionLabelTemplate(id: number, data: Partial<InsertNutritionLabelTemplate>): Promise<NutritionLabelTemplate>;
+  deleteNutritionLabelTemplate(id: number): Promise<void>;
+
+  // Taiwan Nutrition Database
+  getTaiwanNutritionDatabase(search?: string, category?: string): Promise<TaiwanNutritionDatabase[]>;
+  createTaiwanNutritionDatabase(data: InsertTaiwanNutritionDatabase): Promise<TaiwanNutritionDatabase>;
+  updateTaiwanNutritionDatabase(id: number, data: Partial<InsertTaiwanNutritionDatabase>): Promise<TaiwanNutritionDatabase>;
+  deleteTaiwanNutritionDatabase(id: number): Promise<void>;
+  importTaiwanNutritionDatabase(data: Array<InsertTaiwanNutritionDatabase>): Promise<{ imported: number; updated: number }>;
+
+  // Material Nutrition Mapping
+  getMaterialNutritionMappings(): Promise<MaterialNutritionMapping[]>;
+  getMaterialNutritionMappingsWithDetails(materialId?: number): Promise<(MaterialNutritionMapping & {
+    material: Material;
+    taiwanNutrition: TaiwanNutritionDatabase;
+  })[]>;
+  createMaterialNutritionMapping(data: InsertMaterialNutritionMapping): Promise<MaterialNutritionMapping>;
+  deleteMaterialNutritionMapping(id: number): Promise<void>;
+
   // Material Categories
   getMaterialCategories(): Promise<MaterialCategory[]>;
   createMaterialCategory(categoryData: InsertMaterialCategory): Promise<MaterialCategory>;
@@ -223,6 +346,24 @@ export interface IStorage {
   updateCustomProductsOrder(orderUpdates: { id: number; sortOrder: number }[]): Promise<void>;
 }
 
+// 資料庫連線或交易，供需在交易中重用的寫入方法使用
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// 依鍵值分組，供批次載入後組合關聯資料
+function groupBy<T, K>(rows: T[], keyOf: (row: T) => K): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+  return groups;
+}
+
 export class DatabaseStorage implements IStorage {
   // Materials
   async getMaterials(search?: string, category?: string): Promise<Material[]> {
@@ -320,9 +461,56 @@ export class DatabaseStorage implements IStorage {
     
     // 執行刪除操作
     await db.delete(materials).where(eq(materials.id, id));
+    await db.delete(supplierPrices).where(and(eq(supplierPrices.itemType, "material"), eq(supplierPrices.itemId, id)));
   }
 
   // Recipes
+  // 批次載入配方原料與子配方：逐層查詢子配方關聯，再一次查詢所有配方的原料於記憶體中組合
+  private async loadRecipeDetails(recipeRows: Recipe[]): Promise<RecipeWithIngredients[]> {
+    if (recipeRows.length === 0) return [];
+
+    const recipesById = new Map(recipeRows.map(recipe => [recipe.id, recipe] as const));
+    const subRecipeLinks: RecipeSubRecipe[] = [];
+    let pendingIds = recipeRows.map(recipe => recipe.id);
+    while (pendingIds.length > 0) {
+      const links = await db
+        .select()
+        .from(recipeSubRecipes)
+        .where(inArray(recipeSubRecipes.recipeId, pendingIds));
+      subRecipeLinks.push(...links);
+
+      const newIds = Array.from(new Set(links.map(link => link.subRecipeId)))
+        .filter(id => !recipesById.has(id));
+      if (newIds.length === 0) break;
+
+      const subRecipeRows = await db.select().from(recipes).where(inArray(recipes.id, newIds));
+      subRecipeRows.forEach(recipe => recipesById.set(recipe.id, recipe));
+      pendingIds = subRecipeRows.map(recipe => recipe.id);
+    }
+
+    const ingredientRows = await db
+      .select({
+        id: recipeIngredients.id,
+        recipeId: recipeIngredients.recipeId,
+        materialId: recipeIngredients.materialId,
+        quantity: recipeIngredients.quantity,
+        unit: recipeIngredients.unit,
+        unitQuantity: recipeIngredients.unitQuantity,
+        wasteRate: recipeIngredients.wasteRate,
+        material: materials,
+      })
+      .from(recipeIngredients)
+      .innerJoin(materials, eq(recipeIngredients.materialId, materials.id))
+      .where(inArray(recipeIngredients.recipeId, Array.from(recipesById.keys())));
+
+    return assembleRecipeTrees(
+      recipeRows,
+      recipesById,
+      groupBy(ingredientRows, ing => ing.recipeId),
+      groupBy(subRecipeLinks, link => link.recipeId)
+    );
+  }
+
   async getRecipes(search?: string, category?: string): Promise<RecipeWithIngredients[]> {
     const whereConditions = [];
     
@@ -339,67 +527,18 @@ export class DatabaseStorage implements IStorage {
       .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
       .orderBy(asc(recipes.sortOrder), desc(recipes.updatedAt));
 
-    const recipesWithIngredients = await Promise.all(
-      recipesResult.map(async (recipe) => {
-        const ingredients = await db
-          .select({
-            id: recipeIngredients.id,
-            recipeId: recipeIngredients.recipeId,
-            materialId: recipeIngredients.materialId,
-            quantity: recipeIngredients.quantity,
-            material: materials,
-          })
-          .from(recipeIngredients)
-          .innerJoin(materials, eq(recipeIngredients.materialId, materials.id))
-          .where(eq(recipeIngredients.recipeId, recipe.id));
-
-        const totalCost = ingredients.reduce((sum, ing) => {
-          return sum + (parseFloat(ing.quantity) * parseFloat(ing.material.pricePerGram));
-        }, 0);
-
-        return {
-          ...recipe,
-          ingredients,
-          totalCost,
-          costPerPortion: totalCost / recipe.totalPortions,
-          costPerGram: totalCost / parseFloat(recipe.totalWeight),
-        };
-      })
-    );
-
-    return recipesWithIngredients;
+    return this.loadRecipeDetails(recipesResult);
   }
 
   async getRecipe(id: number): Promise<RecipeWithIngredients | undefined> {
     const [recipe] = await db.select().from(recipes).where(eq(recipes.id, id));
     if (!recipe) return undefined;
 
-    const ingredients = await db
-      .select({
-        id: recipeIngredients.id,
-        recipeId: recipeIngredients.recipeId,
-        materialId: recipeIngredients.materialId,
-        quantity: recipeIngredients.quantity,
-        material: materials,
-      })
-      .from(recipeIngredients)
-      .innerJoin(materials, eq(recipeIngredients.materialId, materials.id))
-      .where(eq(recipeIngredients.recipeId, recipe.id));
-
-    const totalCost = ingredients.reduce((sum, ing) => {
-      return sum + (parseFloat(ing.quantity) * parseFloat(ing.material.pricePerGram));
-    }, 0);
-
-    return {
-      ...recipe,
-      ingredients,
-      totalCost,
-      costPerPortion: totalCost / recipe.totalPortions,
-      costPerGram: totalCost / parseFloat(recipe.totalWeight),
-    };
+    const [recipeWithIngredients] = await this.loadRecipeDetails([recipe]);
+    return recipeWithIngredients;
   }
 
-  async createRecipe(recipe: InsertRecipe, ingredients: InsertRecipeIngredient[]): Promise<RecipeWithIngredients> {
+  async createRecipe(recipe: InsertRecipe, ingredients: InsertRecipeIngredient[], subRecipes: InsertRecipeSubRecipe[] = []): Promise<RecipeWithIngredients> {
     const [created] = await db
       .insert(recipes)
       .values({ ...recipe, updatedAt: new Date() })
@@ -412,10 +551,21 @@ export class DatabaseStorage implements IStorage {
       );
     }
 
-    return this.getRecipe(created.id) as Promise<RecipeWithIngredients>;
+    // 添加子配方
+    if (subRecipes.length > 0) {
+      await db.insert(recipeSubRecipes).values(
+        subRecipes.map(sr => ({ ...sr, recipeId: created.id }))
+      );
+    }
+
+    const result = await this.getRecipe(created.id) as RecipeWithIngredients;
+    await this.recordAudit("recipe", "CREATE", created.id, created.name, null, recipeAuditSnapshot(result));
+    return result;
   }
 
-  async updateRecipe(id: number, recipe: Partial<InsertRecipe>, ingredients?: InsertRecipeIngredient[]): Promise<RecipeWithIngredients> {
+  async updateRecipe(id: number, recipe: Partial<InsertRecipe>, ingredients?: InsertRecipeIngredient[], subRecipes?: InsertRecipeSubRecipe[]): Promise<RecipeWithIngredients> {
+    const original = await this.getRecipe(id);
+
     const [updated] = await db
       .update(recipes)
       .set({ ...recipe, updatedAt: new Date() })
@@ -432,11 +582,49 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    return this.getRecipe(id) as Promise<RecipeWithIngredients>;
+    // 更新子配方
+    if (subRecipes) {
+      await db.delete(recipeSubRecipes).where(eq(recipeSubRecipes.recipeId, id));
+      if (subRecipes.length > 0) {
+        await db.insert(recipeSubRecipes).values(
+          subRecipes.map(sr => ({ ...sr, recipeId: id }))
+        );
+      }
+    }
+
+    const result = await this.getRecipe(id) as RecipeWithIngredients;
+    if (original) {
+      await this.recordAudit("recipe", "UPDATE", id, result.name, recipeAuditSnapshot(original), recipeAuditSnapshot(result));
+    }
+    return result;
   }
 
   async deleteRecipe(id: number): Promise<void> {
+    const recipeToDelete = await this.getRecipe(id);
     await db.delete(recipes).where(eq(recipes.id, id));
+    if (recipeToDelete) {
+      await this.recordAudit("recipe", "DELETE", id, recipeToDelete.name, recipeAuditSnapshot(recipeToDelete), null);
+    }
+  }
+
+  async getRecipeIngredientsByMaterial(materialId: number): Promise<RecipeIngredient[]> {
+    return await db.select().from(recipeIngredients).where(eq(recipeIngredients.materialId, materialId));
+  }
+
+  // 原料單位換算變更後更新配方的換算克數（quantities 為原料明細 id → 克數）
+  async updateRecipeIngredientQuantities(recipeId: number, quantities: Map<number, string>): Promise<void> {
+    const original = await this.getRecipe(recipeId);
+    for (const [id, quantity] of Array.from(quantities)) {
+      await db
+        .update(recipeIngredients)
+        .set({ quantity })
+        .where(and(eq(recipeIngredients.id, id), eq(recipeIngredients.recipeId, recipeId)));
+    }
+
+    const result = await this.getRecipe(recipeId);
+    if (original && result) {
+      await this.recordAudit("recipe", "UPDATE", recipeId, result.name, recipeAuditSnapshot(original), recipeAuditSnapshot(result));
+    }
   }
 
   // Material Categories
@@ -452,20 +640,27 @@ export class DatabaseStorage implements IStorage {
       .insert(materialCategories)
       .values({ ...categoryData, updatedAt: new Date() })
       .returning();
+    await this.recordAudit("material_category", "CREATE", created.id, created.name, null, created);
     return created;
   }
 
   async updateMaterialCategory(id: number, categoryData: Partial<InsertMaterialCategory>): Promise<MaterialCategory> {
+    const original = await this.getMaterialCategoryById(id);
     const [updated] = await db
       .update(materialCategories)
       .set({ ...categoryData, updatedAt: new Date() })
       .where(eq(materialCategories.id, id))
       .returning();
+    await this.recordAudit("material_category", "UPDATE", id, updated?.name, original, updated);
     return updated;
   }
 
   async deleteMaterialCategory(id: number): Promise<void> {
+    const categoryToDelete = await this.getMaterialCategoryById(id);
     await db.delete(materialCategories).where(eq(materialCategories.id, id));
+    if (categoryToDelete) {
+      await this.recordAudit("material_category", "DELETE", id, categoryToDelete.name, categoryToDelete, null);
+    }
   }
 
   async reorderMaterialCategories(orderUpdates: { id: number; sortOrder: number }[]): Promise<void> {
@@ -505,20 +700,27 @@ export class DatabaseStorage implements IStorage {
       .insert(recipeCategories)
       .values({ ...categoryData, updatedAt: new Date() })
       .returning();
+    await this.recordAudit("recipe_category", "CREATE", created.id, created.name, null, created);
     return created;
   }
 
   async updateRecipeCategory(id: number, categoryData: Partial<InsertRecipeCategory>): Promise<RecipeCategory> {
+    const original = await this.getRecipeCategoryById(id);
     const [updated] = await db
       .update(recipeCategories)
       .set({ ...categoryData, updatedAt: new Date() })
       .where(eq(recipeCategories.id, id))
       .returning();
+    await this.recordAudit("recipe_category", "UPDATE", id, updated?.name, original, updated);
     return updated;
   }
 
   async deleteRecipeCategory(id: number): Promise<void> {
+    const categoryToDelete = await this.getRecipeCategoryById(id);
     await db.delete(recipeCategories).where(eq(recipeCategories.id, id));
+    if (categoryToDelete) {
+      await this.recordAudit("recipe_category", "DELETE", id, categoryToDelete.name, categoryToDelete, null);
+    }
   }
 
   async reorderRecipeCategories(orderUpdates: { id: number; sortOrder: number }[]): Promise<void> {
@@ -558,20 +760,27 @@ export class DatabaseStorage implements IStorage {
       .insert(productCategories)
       .values({ ...categoryData, updatedAt: new Date() })
       .returning();
+    await this.recordAudit("product_category", "CREATE", created.id, created.name, null, created);
     return created;
   }
 
   async updateProductCategory(id: number, categoryData: Partial<InsertProductCategory>): Promise<ProductCategory> {
+    const original = await this.getProductCategoryById(id);
     const [updated] = await db
       .update(productCategories)
       .set({ ...categoryData, updatedAt: new Date() })
       .where(eq(productCategories.id, id))
       .returning();
+    await this.recordAudit("product_category", "UPDATE", id, updated?.name, original, updated);
     return updated;
   }
 
   async deleteProductCategory(id: number): Promise<void> {
+    const categoryToDelete = await this.getProductCategoryById(id);
     await db.delete(productCategories).where(eq(productCategories.id, id));
+    if (categoryToDelete) {
+      await this.recordAudit("product_category", "DELETE", id, categoryToDelete.name, categoryToDelete, null);
+    }
   }
 
   async reorderProductCategories(orderUpdates: { id: number; sortOrder: number }[]): Promise<void> {
@@ -611,20 +820,27 @@ export class DatabaseStorage implements IStorage {
       .insert(customProductCategories)
       .values({ ...categoryData, updatedAt: new Date() })
       .returning();
+    await this.recordAudit("custom_product_category", "CREATE", created.id, created.name, null, created);
     return created;
   }
 
   async updateCustomProductCategory(id: number, categoryData: Partial<InsertCustomProductCategory>): Promise<CustomProductCategory> {
+    const original = await this.getCustomProductCategoryById(id);
     const [updated] = await db
       .update(customProductCategories)
       .set({ ...categoryData, updatedAt: new Date() })
       .where(eq(customProductCategories.id, id))
       .returning();
+    await this.recordAudit("custom_product_category", "UPDATE", id, updated?.name, original, updated);
     return updated;
   }
 
   async deleteCustomProductCategory(id: number): Promise<void> {
+    const categoryToDelete = await this.getCustomProductCategoryById(id);
     await db.delete(customProductCategories).where(eq(customProductCategories.id, id));
+    if (categoryToDelete) {
+      await this.recordAudit("custom_product_category", "DELETE", id, categoryToDelete.name, categoryToDelete, null);
+    }
   }
 
   async reorderCustomProductCategories(orderUpdates: { id: number; sortOrder: number }[]): Promise<void> {
@@ -665,20 +881,27 @@ export class DatabaseStorage implements IStorage {
       .insert(packagingCategories)
       .values({ ...categoryData, updatedAt: new Date() })
       .returning();
+    await this.recordAudit("packaging_category", "CREATE", created.id, created.name, null, created);
     return created;
   }
 
   async updatePackagingCategory(id: number, categoryData: Partial<InsertPackagingCategory>): Promise<PackagingCategory> {
+    const original = await this.getPackagingCategoryById(id);
     const [updated] = await db
       .update(packagingCategories)
       .set({ ...categoryData, updatedAt: new Date() })
       .where(eq(packagingCategories.id, id))
       .returning();
+    await this.recordAudit("packaging_category", "UPDATE", id, updated?.name, original, updated);
     return updated;
   }
 
   async deletePackagingCategory(id: number): Promise<void> {
+    const categoryToDelete = await this.getPackagingCategoryById(id);
     await db.delete(packagingCategories).where(eq(packagingCategories.id, id));
+    if (categoryToDelete) {
+      await this.recordAudit("packaging_category", "DELETE", id, categoryToDelete.name, categoryToDelete, null);
+    }
   }
 
   async getPackagingCategoryById(id: number): Promise<PackagingCategory | undefined> {
@@ -724,142 +947,36 @@ export class DatabaseStorage implements IStorage {
       .insert(packaging)
       .values({ ...packagingData, updatedAt: new Date() })
       .returning();
+    await this.recordAudit("packaging", "CREATE", created.id, created.name, null, created);
     return created;
   }
 
   async updatePackaging(id: number, packagingData: Partial<InsertPackaging>): Promise<Packaging> {
+    const original = await this.getPackagingItem(id);
     const [updated] = await db
       .update(packaging)
       .set({ ...packagingData, updatedAt: new Date() })
       .where(eq(packaging.id, id))
       .returning();
+    await this.recordAudit("packaging", "UPDATE", id, updated?.name, original, updated);
     return updated;
   }
 
   async deletePackaging(id: number): Promise<void> {
+    const packagingToDelete = await this.getPackagingItem(id);
     await db.delete(packaging).where(eq(packaging.id, id));
+    await db.delete(supplierPrices).where(and(eq(supplierPrices.itemType, "packaging"), eq(supplierPrices.itemId, id)));
+    if (packagingToDelete) {
+      await this.recordAudit("packaging", "DELETE", id, packagingToDelete.name, packagingToDelete, null);
+    }
   }
 
   // Products
-  async getProducts(search?: string, category?: string): Promise<ProductWithDetails[]> {
-    const whereConditions = [];
-    
-    if (search) {
-      whereConditions.push(like(products.name, `%${search}%`));
-    }
-    if (category) {
-      whereConditions.push(eq(products.category, category));
-    }
+  // 批次載入產品配方與包裝：查詢數量固定，不隨產品數量增加
+  private async loadProductDetails(productRows: Product[]): Promise<ProductWithDetails[]> {
+    if (productRows.length === 0) return [];
 
-    const productsResult = await db
-      .select()
-      .from(products)
-      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
-      .orderBy(asc(products.sortOrder), desc(products.updatedAt));
-
-    const productsWithDetails = await Promise.all(
-      productsResult.map(async (product) => {
-        // 取得產品配方
-        const productRecipesResult = await db
-          .select({
-            id: productRecipes.id,
-            productId: productRecipes.productId,
-            recipeId: productRecipes.recipeId,
-            quantity: productRecipes.quantity,
-            unit: productRecipes.unit,
-            recipe: recipes,
-          })
-          .from(productRecipes)
-          .innerJoin(recipes, eq(productRecipes.recipeId, recipes.id))
-          .where(eq(productRecipes.productId, product.id));
-
-        // 計算每個配方的成本
-        const recipesWithCosts = await Promise.all(
-          productRecipesResult.map(async (pr) => {
-            const ingredients = await db
-              .select({
-                id: recipeIngredients.id,
-                recipeId: recipeIngredients.recipeId,
-                materialId: recipeIngredients.materialId,
-                quantity: recipeIngredients.quantity,
-                material: materials,
-              })
-              .from(recipeIngredients)
-              .innerJoin(materials, eq(recipeIngredients.materialId, materials.id))
-              .where(eq(recipeIngredients.recipeId, pr.recipe.id));
-
-            const recipeTotalCost = ingredients.reduce((sum, ing) => {
-              return sum + (parseFloat(ing.quantity) * parseFloat(ing.material.pricePerGram));
-            }, 0);
-
-            const recipeWithIngredients = {
-              ...pr.recipe,
-              ingredients,
-              totalCost: recipeTotalCost,
-              costPerPortion: recipeTotalCost / pr.recipe.totalPortions,
-              costPerGram: recipeTotalCost / parseFloat(pr.recipe.totalWeight),
-            };
-
-            return {
-              ...pr,
-              recipe: recipeWithIngredients,
-            };
-          })
-        );
-
-        // 取得產品包裝
-        const productPackagingResult = await db
-          .select({
-            id: productPackaging.id,
-            productId: productPackaging.productId,
-            packagingId: productPackaging.packagingId,
-            quantity: productPackaging.quantity,
-            packaging: packaging,
-          })
-          .from(productPackaging)
-          .innerJoin(packaging, eq(productPackaging.packagingId, packaging.id))
-          .where(eq(productPackaging.productId, product.id));
-
-        // 計算總成本
-        const recipeCost = recipesWithCosts.reduce((sum, pr) => {
-          if (pr.unit === "portions") {
-            return sum + (pr.recipe.costPerPortion * parseFloat(pr.quantity));
-          } else {
-            return sum + (pr.recipe.costPerGram * parseFloat(pr.quantity));
-          }
-        }, 0);
-
-        const packagingCost = productPackagingResult.reduce((sum, pp) => {
-          return sum + (parseFloat(pp.packaging.unitCost) * pp.quantity);
-        }, 0);
-
-        const totalCost = recipeCost + packagingCost;
-        const managementFeePercentage = parseFloat(product.managementFeePercentage);
-        const managementFee = totalCost * (managementFeePercentage / 100);
-        const adjustedCost = totalCost + managementFee;
-        const sellingPrice = parseFloat(product.sellingPrice);
-        const profit = sellingPrice - adjustedCost;
-        const profitMargin = sellingPrice > 0 ? (profit / sellingPrice) * 100 : 0;
-
-        return {
-          ...product,
-          recipes: recipesWithCosts,
-          packaging: productPackagingResult,
-          totalCost,
-          managementFee,
-          adjustedCost,
-          profit,
-          profitMargin,
-        };
-      })
-    );
-
-    return productsWithDetails;
-  }
-
-  async getProduct(id: number): Promise<ProductWithDetails | undefined> {
-    const [product] = await db.select().from(products).where(eq(products.id, id));
-    if (!product) return undefined;
+    const productIds = productRows.map(product => product.id);
 
     const productRecipesResult = await db
       .select({
@@ -872,39 +989,14 @@ export class DatabaseStorage implements IStorage {
       })
       .from(productRecipes)
       .innerJoin(recipes, eq(productRecipes.recipeId, recipes.id))
-      .where(eq(productRecipes.productId, product.id));
-
-    const recipesWithCosts = await Promise.all(
-      productRecipesResult.map(async (pr) => {
-        const ingredients = await db
-          .select({
-            id: recipeIngredients.id,
-            recipeId: recipeIngredients.recipeId,
-            materialId: recipeIngredients.materialId,
-            quantity: recipeIngredients.quantity,
-            material: materials,
-          })
-          .from(recipeIngredients)
-          .innerJoin(materials, eq(recipeIngredients.materialId, materials.id))
-          .where(eq(recipeIngredients.recipeId, pr.recipe.id));
-
-        const recipeTotalCost = ingredients.reduce((sum, ing) => {
-          return sum + (parseFloat(ing.quantity) * parseFloat(ing.material.pricePerGram));
-        }, 0);
-
-        const recipeWithIngredients = {
-          ...pr.recipe,
-          ingredients,
-          totalCost: recipeTotalCost,
-          costPerPortion: recipeTotalCost / pr.recipe.totalPortions,
-          costPerGram: recipeTotalCost / parseFloat(pr.recipe.totalWeight),
-        };
-
-        return {
-          ...pr,
-          recipe: recipeWithIngredients,
-        };
-      })
+      .where(inArray(productRecipes.productId, productIds));
+
+    // 同一配方可能被多個產品使用，只計算一次
+    const uniqueRecipes = Array.from(
+      new Map(productRecipesResult.map(pr => [pr.recipe.id, pr.recipe] as const)).values()
+    );
+    const recipesById = new Map(
+      (await this.loadRecipeDetails(uniqueRecipes)).map(recipe => [recipe.id, recipe] as const)
     );
 
     const productPackagingResult = await db
@@ -917,38 +1009,46 @@ export class DatabaseStorage implements IStorage {
       })
       .from(productPackaging)
       .innerJoin(packaging, eq(productPackaging.packagingId, packaging.id))
-      .where(eq(productPackaging.productId, product.id));
+      .where(inArray(productPackaging.productId, productIds));
 
-    const recipeCost = recipesWithCosts.reduce((sum, pr) => {
-      if (pr.unit === "portions") {
-        return sum + (pr.recipe.costPerPortion * parseFloat(pr.quantity));
-      } else {
-        return sum + (pr.recipe.costPerGram * parseFloat(pr.quantity));
-      }
-    }, 0);
+    const recipesByProduct = groupBy(
+      productRecipesResult.map(pr => ({ ...pr, recipe: recipesById.get(pr.recipeId)! })),
+      pr => pr.productId
+    );
+    const packagingByProduct = groupBy(productPackagingResult, pp => pp.productId);
 
-    const packagingCost = productPackagingResult.reduce((sum, pp) => {
-      return sum + (parseFloat(pp.packaging.unitCost) * pp.quantity);
-    }, 0);
+    return productRows.map(product => withProductCosts({
+      ...product,
+      recipes: recipesByProduct.get(product.id) ?? [],
+      packaging: packagingByProduct.get(product.id) ?? [],
+    }, getOperatingCostRates()));
+  }
 
-    const totalCost = recipeCost + packagingCost;
-    const managementFeePercentage = parseFloat(product.managementFeePercentage);
-    const managementFee = totalCost * (managementFeePercentage / 100);
-    const adjustedCost = totalCost + managementFee;
-    const sellingPrice = parseFloat(product.sellingPrice);
-    const profit = sellingPrice - adjustedCost;
-    const profitMargin = sellingPrice > 0 ? (profit / sellingPrice) * 100 : 0;
+  async getProducts(search?: string, category?: string): Promise<ProductWithDetails[]> {
+    const whereConditions = [];
+    
+    if (search) {
+      whereConditions.push(like(products.name, `%${search}%`));
+    }
+    if (category) {
+      whereConditions.push(eq(products.category, category));
+    }
 
-    return {
-      ...product,
-      recipes: recipesWithCosts,
-      packaging: productPackagingResult,
-      totalCost,
-      managementFee,
-      adjustedCost,
-      profit,
-      profitMargin,
-    };
+    const productsResult = await db
+      .select()
+      .from(products)
+      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .orderBy(asc(products.sortOrder), desc(products.updatedAt));
+
+    return this.loadProductDetails(productsResult);
+  }
+
+  async getProduct(id: number): Promise<ProductWithDetails | undefined> {
+    const [product] = await db.select().from(products).where(eq(products.id, id));
+    if (!product) return undefined;
+
+    const [productWithDetails] = await this.loadProductDetails([product]);
+    return productWithDetails;
   }
 
   async createProduct(
@@ -973,7 +1073,9 @@ export class DatabaseStorage implements IStorage {
       );
     }
 
-    return this.getProduct(created.id) as Promise<ProductWithDetails>;
+    const result = await this.getProduct(created.id) as ProductWithDetails;
+    await this.recordAudit("product", "CREATE", created.id, created.name, null, productAuditSnapshot(result));
+    return result;
   }
 
   async updateProduct(
@@ -982,6 +1084,8 @@ export class DatabaseStorage implements IStorage {
     recipesList?: InsertProductRecipe[],
     packagingList?: InsertProductPackaging[]
   ): Promise<ProductWithDetails> {
+    const original = await this.getProduct(id);
+
     const [updated] = await db
       .update(products)
       .set({ ...product, updatedAt: new Date() })
@@ -1006,14 +1110,68 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    return this.getProduct(id) as Promise<ProductWithDetails>;
+    const result = await this.getProduct(id) as ProductWithDetails;
+    if (original) {
+      await this.recordAudit("product", "UPDATE", id, result.name, productAuditSnapshot(original), productAuditSnapshot(result));
+    }
+    return result;
   }
 
   async deleteProduct(id: number): Promise<void> {
+    const productToDelete = await this.getProduct(id);
     await db.delete(products).where(eq(products.id, id));
+    if (productToDelete) {
+      await this.recordAudit("product", "DELETE", id, productToDelete.name, productAuditSnapshot(productToDelete), null);
+    }
   }
 
   // Custom Products
+  // 批次載入客製商品內容：所有販售商品一次載入並共用成本計算結果
+  private async loadCustomProductDetails(customProductRows: CustomProduct[]): Promise<CustomProductWithDetails[]> {
+    if (customProductRows.length === 0) return [];
+
+    const customProductIds = customProductRows.map(customProduct => customProduct.id);
+
+    const customProductItemsResult = await db
+      .select()
+      .from(customProductItems)
+      .where(inArray(customProductItems.customProductId, customProductIds));
+
+    const productIds = Array.from(new Set(customProductItemsResult.map(item => item.productId)));
+    const productRows = productIds.length > 0
+      ? await db.select().from(products).where(inArray(products.id, productIds))
+      : [];
+    const productsById = new Map(
+      (await this.loadProductDetails(productRows)).map(product => [product.id, product] as const)
+    );
+
+    const customProductPackagingResult = await db
+      .select({
+        id: customProductPackaging.id,
+        customProductId: customProductPackaging.customProductId,
+        packagingId: customProductPackaging.packagingId,
+        quantity: customProductPackaging.quantity,
+        packaging: packaging,
+      })
+      .from(customProductPackaging)
+      .innerJoin(packaging, eq(customProductPackaging.packagingId, packaging.id))
+      .where(inArray(customProductPackaging.customProductId, customProductIds));
+
+    const itemsByCustomProduct = groupBy(
+      customProductItemsResult
+        .filter(item => productsById.has(item.productId))
+        .map(item => ({ ...item, product: productsById.get(item.productId)! })),
+      item => item.customProductId
+    );
+    const packagingByCustomProduct = groupBy(customProductPackagingResult, pp => pp.customProductId);
+
+    return customProductRows.map(customProduct => withCustomProductCosts({
+      ...customProduct,
+      items: itemsByCustomProduct.get(customProduct.id) ?? [],
+      packaging: packagingByCustomProduct.get(customProduct.id) ?? [],
+    }, getOperatingCostRates()));
+  }
+
   async getCustomProducts(search?: string, category?: string): Promise<CustomProductWithDetails[]> {
     const whereConditions = [];
     
@@ -1030,140 +1188,15 @@ export class DatabaseStorage implements IStorage {
       .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
       .orderBy(asc(customProducts.sortOrder), desc(customProducts.updatedAt));
 
-    const customProductsWithDetails = await Promise.all(
-      customProductsResult.map(async (customProduct) => {
-        // 取得客製商品包含的販售商品
-        const customProductItemsResult = await db
-          .select({
-            id: customProductItems.id,
-            customProductId: customProductItems.customProductId,
-            productId: customProductItems.productId,
-            quantity: customProductItems.quantity,
-          })
-          .from(customProductItems)
-          .where(eq(customProductItems.customProductId, customProduct.id));
-
-        // 取得每個販售商品的完整資訊（包含成本計算）
-        const itemsWithProducts = await Promise.all(
-          customProductItemsResult.map(async (item) => {
-            const product = await this.getProduct(item.productId);
-            return {
-              ...item,
-              product: product!,
-            };
-          })
-        );
-
-        // 取得客製商品包裝
-        const customProductPackagingResult = await db
-          .select({
-            id: customProductPackaging.id,
-            customProductId: customProductPackaging.customProductId,
-            packagingId: customProductPackaging.packagingId,
-            quantity: customProductPackaging.quantity,
-            packaging: packaging,
-          })
-          .from(customProductPackaging)
-          .innerJoin(packaging, eq(customProductPackaging.packagingId, packaging.id))
-          .where(eq(customProductPackaging.customProductId, customProduct.id));
-
-        // 計算總成本
-        const productsCost = itemsWithProducts.reduce((sum, item) => {
-          const productAdjustedCost = item.product.adjustedCost || 0;
-          return sum + (productAdjustedCost * parseFloat(item.quantity));
-        }, 0);
-
-        const packagingCost = customProductPackagingResult.reduce((sum, pp) => {
-          return sum + (parseFloat(pp.packaging.unitCost) * pp.quantity);
-        }, 0);
-
-        const totalCost = productsCost + packagingCost;
-        const managementFeePercentage = parseFloat(customProduct.managementFeePercentage);
-        const managementFee = totalCost * (managementFeePercentage / 100);
-        const adjustedCost = totalCost + managementFee;
-        const sellingPrice = parseFloat(customProduct.sellingPrice);
-        const profit = sellingPrice - adjustedCost;
-        const profitMargin = sellingPrice > 0 ? (profit / sellingPrice) * 100 : 0;
-
-        return {
-          ...customProduct,
-          items: itemsWithProducts,
-          packaging: customProductPackagingResult,
-          totalCost,
-          managementFee,
-          adjustedCost,
-          profit,
-          profitMargin,
-        };
-      })
-    );
-
-    return customProductsWithDetails;
+    return this.loadCustomProductDetails(customProductsResult);
   }
 
   async getCustomProduct(id: number): Promise<CustomProductWithDetails | undefined> {
     const [customProduct] = await db.select().from(customProducts).where(eq(customProducts.id, id));
     if (!customProduct) return undefined;
 
-    const customProductItemsResult = await db
-      .select({
-        id: customProductItems.id,
-        customProductId: customProductItems.customProductId,
-        productId: customProductItems.productId,
-        quantity: customProductItems.quantity,
-      })
-      .from(customProductItems)
-      .where(eq(customProductItems.customProductId, customProduct.id));
-
-    const itemsWithProducts = await Promise.all(
-      customProductItemsResult.map(async (item) => {
-        const product = await this.getProduct(item.productId);
-        return {
-          ...item,
-          product: product!,
-        };
-      })
-    );
-
-    const customProductPackagingResult = await db
-      .select({
-        id: customProductPackaging.id,
-        customProductId: customProductPackaging.customProductId,
-        packagingId: customProductPackaging.packagingId,
-        quantity: customProductPackaging.quantity,
-        packaging: packaging,
-      })
-      .from(customProductPackaging)
-      .innerJoin(packaging, eq(customProductPackaging.packagingId, packaging.id))
-      .where(eq(customProductPackaging.customProductId, customProduct.id));
-
-    const productsCost = itemsWithProducts.reduce((sum, item) => {
-      const productAdjustedCost = item.product.adjustedCost || 0;
-      return sum + (productAdjustedCost * parseFloat(item.quantity));
-    }, 0);
-
-    const packagingCost = customProductPackagingResult.reduce((sum, pp) => {
-      return sum + (parseFloat(pp.packaging.unitCost) * pp.quantity);
-    }, 0);
-
-    const totalCost = productsCost + packagingCost;
-    const managementFeePercentage = parseFloat(customProduct.managementFeePercentage);
-    const managementFee = totalCost * (managementFeePercentage / 100);
-    const adjustedCost = totalCost + managementFee;
-    const sellingPrice = parseFloat(customProduct.sellingPrice);
-    const profit = sellingPrice - adjustedCost;
-    const profitMargin = sellingPrice > 0 ? (profit / sellingPrice) * 100 : 0;
-
-    return {
-      ...customProduct,
-      items: itemsWithProducts,
-      packaging: customProductPackagingResult,
-      totalCost,
-      managementFee,
-      adjustedCost,
-      profit,
-      profitMargin,
-    };
+    const [customProductWithDetails] = await this.loadCustomProductDetails([customProduct]);
+    return customProductWithDetails;
   }
 
   async createCustomProduct(
@@ -1188,7 +1221,9 @@ export class DatabaseStorage implements IStorage {
       );
     }
 
-    return this.getCustomProduct(created.id) as Promise<CustomProductWithDetails>;
+    const result = await this.getCustomProduct(created.id) as CustomProductWithDetails;
+    await this.recordAudit("custom_product", "CREATE", created.id, created.name, null, customProductAuditSnapshot(result));
+    return result;
   }
 
   async updateCustomProduct(
@@ -1197,6 +1232,8 @@ export class DatabaseStorage implements IStorage {
     itemsList?: InsertCustomProductItem[],
     packagingList?: InsertCustomProductPackaging[]
   ): Promise<CustomProductWithDetails> {
+    const original = await this.getCustomProduct(id);
+
     const [updated] = await db
       .update(customProducts)
       .set({ ...customProduct, updatedAt: new Date() })
@@ -1221,11 +1258,19 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    return this.getCustomProduct(id) as Promise<CustomProductWithDetails>;
+    const result = await this.getCustomProduct(id) as CustomProductWithDetails;
+    if (original) {
+      await this.recordAudit("custom_product", "UPDATE", id, result.name, customProductAuditSnapshot(original), customProductAuditSnapshot(result));
+    }
+    return result;
   }
 
   async deleteCustomProduct(id: number): Promise<void> {
+    const customProductToDelete = await this.getCustomProduct(id);
     await db.delete(customProducts).where(eq(customProducts.id, id));
+    if (customProductToDelete) {
+      await this.recordAudit("custom_product", "DELETE", id, customProductToDelete.name, customProductAuditSnapshot(customProductToDelete), null);
+    }
   }
 
   async updateCustomProductsOrder(orderUpdates: { id: number; sortOrder: number }[]): Promise<void> {
@@ -1261,6 +1306,14 @@ export class DatabaseStorage implements IStorage {
         managementFeeRate: materials.managementFeeRate,
         purchaseTime: materials.purchaseTime,
         purchaseLocation: materials.purchaseLocation,
+        stockQuantity: materials.stockQuantity,
+        reorderPoint: materials.reorderPoint,
+        costingPolicy: materials.costingPolicy,
+        costingWindow: materials.costingWindow,
+        defaultUnit: materials.defaultUnit,
+        unitConversions: materials.unitConversions,
+        allergens: materials.allergens,
+        mayContainAllergens: materials.mayContainAllergens,
         sortOrder: materials.sortOrder,
         createdAt: materials.createdAt,
         updatedAt: materials.updatedAt,
@@ -1282,6 +1335,14 @@ export class DatabaseStorage implements IStorage {
       managementFeeRate: row.managementFeeRate,
       purchaseTime: row.purchaseTime,
       purchaseLocation: row.purchaseLocation,
+      stockQuantity: row.stockQuantity,
+      reorderPoint: row.reorderPoint,
+      costingPolicy: row.costingPolicy,
+      costingWindow: row.costingWindow,
+      defaultUnit: row.defaultUnit,
+      unitConversions: row.unitConversions,
+      allergens: row.allergens,
+      mayContainAllergens: row.mayContainAllergens,
       sortOrder: row.sortOrder,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
@@ -1302,20 +1363,39 @@ export class DatabaseStorage implements IStorage {
       .insert(nutritionFacts)
       .values({ ...nutrition, updatedAt: new Date() })
       .returning();
+    await this.recordNutritionFactsAudit("CREATE", null, created);
     return created;
   }
 
   async updateNutritionFacts(id: number, nutrition: Partial<InsertNutritionFacts>): Promise<NutritionFacts> {
+    const [original] = await db.select().from(nutritionFacts).where(eq(nutritionFacts.id, id));
     const [updated] = await db
       .update(nutritionFacts)
       .set({ ...nutrition, updatedAt: new Date() })
       .where(eq(nutritionFacts.id, id))
       .returning();
+    await this.recordNutritionFactsAudit("UPDATE", original, updated);
     return updated;
   }
 
   async deleteNutritionFacts(id: number): Promise<void> {
+    const [nutritionToDelete] = await db.select().from(nutritionFacts).where(eq(nutritionFacts.id, id));
     await db.delete(nutritionFacts).where(eq(nutritionFacts.id, id));
+    if (nutritionToDelete) {
+      await this.recordNutritionFactsAudit("DELETE", nutritionToDelete, null);
+    }
+  }
+
+  // 營養成分以原料名稱標示
+  private async recordNutritionFactsAudit(
+    action: AuditAction,
+    previousData: NutritionFacts | null | undefined,
+    newData: NutritionFacts | null | undefined
+  ): Promise<void> {
+    const row = newData ?? previousData;
+    if (!row) return;
+    const material = await this.getMaterial(row.materialId);
+    await this.recordAudit("nutrition_facts", action, row.id, material?.name, previousData, newData);
   }
 
   // Recipe nutrition calculation
@@ -1323,47 +1403,8 @@ export class DatabaseStorage implements IStorage {
     const recipe = await this.getRecipe(recipeId);
     if (!recipe) return undefined;
 
-    let totalCalories = 0;
-    let totalProtein = 0;
-    let totalFat = 0;
-    let totalSaturatedFat = 0;
-    let totalTransFat = 0;
-    let totalCarbohydrates = 0;
-    let totalSugar = 0;
-    let totalSodium = 0;
-
-    for (const ingredient of recipe.ingredients) {
-      const nutrition = await this.getNutritionFactsForMaterial(ingredient.material.id);
-      if (nutrition) {
-        const quantity = parseFloat(ingredient.quantity);
-        const factor = quantity / 100; // nutrition facts are per 100g
-
-        totalCalories += parseFloat(nutrition.calories || "0") * factor;
-        totalProtein += parseFloat(nutrition.protein || "0") * factor;
-        totalFat += parseFloat(nutrition.fat || "0") * factor;
-        totalSaturatedFat += parseFloat(nutrition.saturatedFat || "0") * factor;
-        totalTransFat += parseFloat(nutrition.transFat || "0") * factor;
-        totalCarbohydrates += parseFloat(nutrition.carbohydrates || "0") * factor;
-        totalSugar += parseFloat(nutrition.sugar || "0") * factor;
-        totalSodium += parseFloat(nutrition.sodium || "0") * factor;
-      }
-    }
-
-    const portionWeight = parseFloat(recipe.totalWeight) / recipe.totalPortions;
-
-    return {
-      recipeId: recipe.id,
-      recipeName: recipe.name,
-      portionWeight,
-      calories: totalCalories / recipe.totalPortions,
-      protein: totalProtein / recipe.totalPortions,
-      fat: totalFat / recipe.totalPortions,
-      saturatedFat: totalSaturatedFat / recipe.totalPortions,
-      transFat: totalTransFat / recipe.totalPortions,
-      carbohydrates: totalCarbohydrates / recipe.totalPortions,
-      sugar: totalSugar / recipe.totalPortions,
-      sodium: totalSodium / recipe.totalPortions,
-    };
+    const nutritionMap = await this.getMaterialNutritionPer100g(collectRecipeMaterialIds([recipe]));
+    return calculateRecipeNutrition(recipe, nutritionMap);
   }
 
   async getAllRecipeNutrition(): Promise<RecipeNutrition[]> {
@@ -1505,6 +1546,38 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Users
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [created] = await db
+      .insert(users)
+      .values({ ...user, updatedAt: new Date() })
+      .returning();
+    return created;
+  }
+
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User> {
+    const [updated] = await db
+      .update(users)
+      .set({ ...user, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return updated;
+  }
+
   // Material History
   async getMaterialHistory(materialId: number): Promise<MaterialHistory[]> {
     return await db
@@ -1536,6 +1609,413 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Audit Logs
+  async getAuditLogs(entityTypes: AuditEntityType[], entityId?: number): Promise<AuditLog[]> {
+    if (entityTypes.length === 0) return [];
+    const whereConditions = [inArray(auditLogs.entityType, entityTypes)];
+    if (entityId !== undefined) {
+      whereConditions.push(eq(auditLogs.entityId, entityId));
+    }
+
+    return await db
+      .select()
+      .from(auditLogs)
+      .where(and(...whereConditions))
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id));
+  }
+
+  async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
+    const [created] = await db
+      .insert(auditLogs)
+      .values(log)
+      .returning();
+    return created;
+  }
+
+  // 記錄異動；失敗時只記錄警告，不影響原本的資料操作
+  private async recordAudit(
+    entityType: AuditEntityType,
+    action: AuditAction,
+    entityId: number,
+    entityName: string | null | undefined,
+    previousData: object | null | undefined,
+    newData: object | null | undefined
+  ): Promise<void> {
+    try {
+      const entry = buildAuditEntry({ entityType, entityId, entityName, action, previousData, newData });
+      if (entry) await this.createAuditLog(entry);
+    } catch (error) {
+      console.warn(`Failed to record ${entityType} audit log:`, error);
+    }
+  }
+
+  // Product Cost Snapshots
+  async getProductCostSnapshots(productType: CostSnapshotProductType, productId: number): Promise<ProductCostSnapshot[]> {
+    return await db
+      .select()
+      .from(productCostSnapshots)
+      .where(and(
+        eq(productCostSnapshots.productType, productType),
+        eq(productCostSnapshots.productId, productId)
+      ))
+      .orderBy(asc(productCostSnapshots.createdAt));
+  }
+
+  async getLatestProductCostSnapshot(trigger?: CostSnapshotTrigger): Promise<ProductCostSnapshot | undefined> {
+    const [latest] = await db
+      .select()
+      .from(productCostSnapshots)
+      .where(trigger ? eq(productCostSnapshots.trigger, trigger) : undefined)
+      .orderBy(desc(productCostSnapshots.createdAt))
+      .limit(1);
+    return latest;
+  }
+
+  async createProductCostSnapshots(trigger: CostSnapshotTrigger): Promise<ProductCostSnapshot[]> {
+    const [productsList, customProductsList] = await Promise.all([
+      this.getProducts(),
+      this.getCustomProducts(),
+    ]);
+    const rows = buildCostSnapshotRows(productsList, customProductsList, trigger);
+    if (rows.length === 0) return [];
+
+    return await db.insert(productCostSnapshots).values(rows).returning();
+  }
+
+  // Production Plans
+  // 批次載入計畫明細並附上商品名稱
+  private async loadProductionPlanDetails(planRows: ProductionPlan[]): Promise<ProductionPlanWithItems[]> {
+    if (planRows.length === 0) return [];
+
+    const itemRows = await db
+      .select()
+      .from(productionPlanItems)
+      .where(inArray(productionPlanItems.planId, planRows.map(plan => plan.id)))
+      .orderBy(asc(productionPlanItems.id));
+
+    const idsOf = (type: string) => Array.from(new Set(
+      itemRows.filter(item => item.productType === type).map(item => item.productId)
+    ));
+    const productIds = idsOf("product");
+    const customProductIds = idsOf("custom_product");
+    const [productNames, customProductNames] = await Promise.all([
+      productIds.length > 0
+        ? db.select({ id: products.id, name: products.name }).from(products).where(inArray(products.id, productIds))
+        : [],
+      customProductIds.length > 0
+        ? db.select({ id: customProducts.id, name: customProducts.name }).from(customProducts).where(inArray(customProducts.id, customProductIds))
+        : [],
+    ]);
+    const names = new Map<string, string>([
+      ...productNames.map(row => [`product:${row.id}`, row.name] as [string, string]),
+      ...customProductNames.map(row => [`custom_product:${row.id}`, row.name] as [string, string]),
+    ]);
+
+    const itemsByPlan = groupBy(
+      itemRows.map(item => ({ ...item, productName: names.get(`${item.productType}:${item.productId}`) ?? null })),
+      item => item.planId
+    );
+    return planRows.map(plan => ({ ...plan, items: itemsByPlan.get(plan.id) ?? [] }));
+  }
+
+  async getProductionPlans(): Promise<ProductionPlanWithItems[]> {
+    const planRows = await db
+      .select()
+      .from(productionPlans)
+      .orderBy(desc(productionPlans.planDate), desc(productionPlans.id));
+    return this.loadProductionPlanDetails(planRows);
+  }
+
+  async getProductionPlan(id: number): Promise<ProductionPlanWithItems | undefined> {
+    const [plan] = await db.select().from(productionPlans).where(eq(productionPlans.id, id));
+    if (!plan) return undefined;
+
+    const [planWithItems] = await this.loadProductionPlanDetails([plan]);
+    return planWithItems;
+  }
+
+  async createProductionPlan(plan: InsertProductionPlan, items: InsertProductionPlanItem[]): Promise<ProductionPlanWithItems> {
+    const [created] = await db
+      .insert(productionPlans)
+      .values({ ...plan, updatedAt: new Date() })
+      .returning();
+
+    if (items.length > 0) {
+      await db.insert(productionPlanItems).values(
+        items.map(item => ({ ...item, planId: created.id }))
+      );
+    }
+
+    return await this.getProductionPlan(created.id) as ProductionPlanWithItems;
+  }
+
+  async updateProductionPlan(id: number, plan: Partial<InsertProductionPlan>, items?: InsertProductionPlanItem[]): Promise<ProductionPlanWithItems> {
+    await db
+      .update(productionPlans)
+      .set({ ...plan, updatedAt: new Date() })
+      .where(eq(productionPlans.id, id));
+
+    if (items) {
+      await db.delete(productionPlanItems).where(eq(productionPlanItems.planId, id));
+      if (items.length > 0) {
+        await db.insert(productionPlanItems).values(
+          items.map(item => ({ ...item, planId: id }))
+        );
+      }
+    }
+
+    return await this.getProductionPlan(id) as ProductionPlanWithItems;
+  }
+
+  async deleteProductionPlan(id: number): Promise<void> {
+    await db.delete(productionPlans).where(eq(productionPlans.id, id));
+  }
+
+  // 於同一交易中先標記計畫已生產（已登錄過則不處理），再依計畫需求扣除原料與包材庫存；計畫已生產時回傳 undefined
+  async recordProductionRun(planId: number, requirements: ProductionRequirements): Promise<ProductionPlanWithItems | undefined> {
+    const claimed = await db.transaction(async tx => {
+      const [plan] = await tx
+        .update(productionPlans)
+        .set({ producedAt: new Date() })
+        .where(and(eq(productionPlans.id, planId), isNull(productionPlans.producedAt)))
+        .returning();
+      if (!plan) return false;
+
+      for (const movement of productionRunMovements(planId, requirements)) {
+        await this.insertStockMovement(tx, movement);
+      }
+      return true;
+    });
+    return claimed ? await this.getProductionPlan(planId) : undefined;
+  }
+
+  // Inventory
+  async getStockMovements(itemType: StockItemType, itemId: number): Promise<StockMovement[]> {
+    return await db
+      .select()
+      .from(stockMovements)
+      .where(and(eq(stockMovements.itemType, itemType), eq(stockMovements.itemId, itemId)))
+      .orderBy(desc(stockMovements.createdAt), desc(stockMovements.id));
+  }
+
+  async recordStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    return this.insertStockMovement(db, movement);
+  }
+
+  // 以遞增方式更新庫存，避免同時入庫或耗用時互相覆蓋（executor 為資料庫連線或交易）
+  private async insertStockMovement(executor: DbExecutor, movement: InsertStockMovement): Promise<StockMovement> {
+    const [item] = movement.itemType === "packaging"
+      ? await executor
+          .update(packaging)
+          .set({ stockQuantity: sql`${packaging.stockQuantity} + ${Math.round(parseFloat(movement.quantity))}` })
+          .where(eq(packaging.id, movement.itemId))
+          .returning({ stockQuantity: packaging.stockQuantity })
+      : await executor
+          .update(materials)
+          .set({ stockQuantity: sql`${materials.stockQuantity} + ${movement.quantity}` })
+          .where(eq(materials.id, movement.itemId))
+          .returning({ stockQuantity: materials.stockQuantity });
+    if (!item) throw new Error(`${movement.itemType} ${movement.itemId} not found`);
+
+    const user = getRequestUser();
+    const [created] = await executor
+      .insert(stockMovements)
+      .values({
+        ...movement,
+        balanceAfter: String(item.stockQuantity),
+        userId: user?.id ?? null,
+        username: user?.username ?? null,
+      })
+      .returning();
+    return created;
+  }
+
+  async setReorderPoint(itemType: StockItemType, itemId: number, reorderPoint: number | null): Promise<void> {
+    if (itemType === "packaging") {
+      await db.update(packaging).set({ reorderPoint }).where(eq(packaging.id, itemId));
+    } else {
+      await db
+        .update(materials)
+        .set({ reorderPoint: reorderPoint === null ? null : String(reorderPoint) })
+        .where(eq(materials.id, itemId));
+    }
+  }
+
+  async getLowStockItems(): Promise<LowStockItem[]> {
+    const [lowMaterials, lowPackaging] = await Promise.all([
+      db
+        .select({ id: materials.id, name: materials.name, stockQuantity: materials.stockQuantity, reorderPoint: materials.reorderPoint })
+        .from(materials)
+        .where(sql`${materials.reorderPoint} IS NOT NULL AND ${materials.stockQuantity} <= ${materials.reorderPoint}`)
+        .orderBy(asc(materials.name)),
+      db
+        .select({ id: packaging.id, name: packaging.name, stockQuantity: packaging.stockQuantity, reorderPoint: packaging.reorderPoint })
+        .from(packaging)
+        .where(sql`${packaging.reorderPoint} IS NOT NULL AND ${packaging.stockQuantity} <= ${packaging.reorderPoint}`)
+        .orderBy(asc(packaging.name)),
+    ]);
+
+    return [
+      ...lowMaterials.map(row => ({
+        itemType: "material" as const,
+        itemId: row.id,
+        name: row.name,
+        stockQuantity: parseFloat(row.stockQuantity),
+        reorderPoint: parseFloat(row.reorderPoint ?? "0"),
+      })),
+      ...lowPackaging.map(row => ({
+        itemType: "packaging" as const,
+        itemId: row.id,
+        name: row.name,
+        stockQuantity: row.stockQuantity,
+        reorderPoint: row.reorderPoint ?? 0,
+      })),
+    ];
+  }
+
+  // Suppliers
+  async getSuppliers(): Promise<Supplier[]> {
+    return await db.select().from(suppliers).orderBy(asc(suppliers.name));
+  }
+
+  async getSupplier(id: number): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier || undefined;
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    const [created] = await db
+      .insert(suppliers)
+      .values({ ...supplier, updatedAt: new Date() })
+      .returning();
+    return created;
+  }
+
+  async updateSupplier(id: number, supplier: Partial<InsertSupplier>): Promise<Supplier> {
+    const [updated] = await db
+      .update(suppliers)
+      .set({ ...supplier, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteSupplier(id: number): Promise<void> {
+    await db.delete(suppliers).where(eq(suppliers.id, id));
+  }
+
+  // 報價附上供應商資訊與原料／包材名稱
+  async getSupplierPrices(filter: { supplierId?: number; itemType?: StockItemType; itemId?: number }): Promise<SupplierPriceWithDetails[]> {
+    const conditions = [];
+    if (filter.supplierId !== undefined) conditions.push(eq(supplierPrices.supplierId, filter.supplierId));
+    if (filter.itemType) conditions.push(eq(supplierPrices.itemType, filter.itemType));
+    if (filter.itemId !== undefined) conditions.push(eq(supplierPrices.itemId, filter.itemId));
+
+    const rows = await db
+      .select({ price: supplierPrices, supplierName: suppliers.name, leadTimeDays: suppliers.leadTimeDays })
+      .from(supplierPrices)
+      .innerJoin(suppliers, eq(supplierPrices.supplierId, suppliers.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(supplierPrices.price), asc(suppliers.name));
+
+    const idsOf = (type: StockItemType) => Array.from(new Set(
+      rows.filter(row => row.price.itemType === type).map(row => row.price.itemId)
+    ));
+    const materialIds = idsOf("material");
+    const packagingIds = idsOf("packaging");
+    const [materialNames, packagingNames] = await Promise.all([
+      materialIds.length > 0
+        ? db.select({ id: materials.id, name: materials.name }).from(materials).where(inArray(materials.id, materialIds))
+        : [],
+      packagingIds.length > 0
+        ? db.select({ id: packaging.id, name: packaging.name }).from(packaging).where(inArray(packaging.id, packagingIds))
+        : [],
+    ]);
+    const names = new Map<string, string>([
+      ...materialNames.map(row => [`material:${row.id}`, row.name] as [string, string]),
+      ...packagingNames.map(row => [`packaging:${row.id}`, row.name] as [string, string]),
+    ]);
+
+    return rows.map(row => ({
+      ...row.price,
+      supplierName: row.supplierName,
+      leadTimeDays: row.leadTimeDays,
+      itemName: names.get(`${row.price.itemType}:${row.price.itemId}`) ?? null,
+    }));
+  }
+
+  async getSupplierPrice(id: number): Promise<SupplierPrice | undefined> {
+    const [price] = await db.select().from(supplierPrices).where(eq(supplierPrices.id, id));
+    return price || undefined;
+  }
+
+  async createSupplierPrice(price: InsertSupplierPrice): Promise<SupplierPrice> {
+    const [created] = await db
+      .insert(supplierPrices)
+      .values({ ...price, updatedAt: new Date() })
+      .returning();
+    return created;
+  }
+
+  async updateSupplierPrice(id: number, price: Partial<InsertSupplierPrice>): Promise<SupplierPrice> {
+    const [updated] = await db
+      .update(supplierPrices)
+      .set({ ...price, updatedAt: new Date() })
+      .where(eq(supplierPrices.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteSupplierPrice(id: number): Promise<void> {
+    await db.delete(supplierPrices).where(eq(supplierPrices.id, id));
+  }
+
+  // 同一原料／包材只能採用一筆報價
+  async setPreferredSupplierPrice(id: number): Promise<SupplierPrice> {
+    const price = await this.getSupplierPrice(id);
+    if (!price) throw new Error(`Supplier price ${id} not found`);
+
+    await db
+      .update(supplierPrices)
+      .set({ isPreferred: false })
+      .where(and(eq(supplierPrices.itemType, price.itemType), eq(supplierPrices.itemId, price.itemId)));
+    const [updated] = await db
+      .update(supplierPrices)
+      .set({ isPreferred: true, updatedAt: new Date() })
+      .where(eq(supplierPrices.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Material Purchases
+  // 最新進貨在前
+  async getMaterialPurchases(materialId: number): Promise<MaterialPurchaseWithSupplier[]> {
+    const rows = await db
+      .select({ purchase: materialPurchases, supplierName: suppliers.name })
+      .from(materialPurchases)
+      .leftJoin(suppliers, eq(materialPurchases.supplierId, suppliers.id))
+      .where(eq(materialPurchases.materialId, materialId))
+      .orderBy(desc(materialPurchases.purchaseTime), desc(materialPurchases.id));
+    return rows.map(row => ({ ...row.purchase, supplierName: row.supplierName }));
+  }
+
+  async getMaterialPurchase(id: number): Promise<MaterialPurchase | undefined> {
+    const [purchase] = await db.select().from(materialPurchases).where(eq(materialPurchases.id, id));
+    return purchase || undefined;
+  }
+
+  async createMaterialPurchase(materialId: number, purchase: InsertMaterialPurchase): Promise<MaterialPurchase> {
+    const [created] = await db
+      .insert(materialPurchases)
+      .values({ ...purchase, materialId })
+      .returning();
+    return created;
+  }
+
+  async deleteMaterialPurchase(id: number): Promise<void> {
+    await db.delete(materialPurchases).where(eq(materialPurchases.id, id));
+  }
+
   // 台灣營養資料庫管理
   async getTaiwanNutritionDatabase(search?: string, category?: string): Promise<TaiwanNutritionDatabase[]> {
     const whereConditions = [];
@@ -1648,6 +2128,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(nutritionLabelTemplates.name));
   }
 
+  async getNutritionLabelTemplate(id: number): Promise<NutritionLabelTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(nutritionLabelTemplates)
+      .where(eq(nutritionLabelTemplates.id, id));
+    return template;
+  }
+
   async createNutritionLabelTemplate(data: InsertNutritionLabelTemplate): Promise<NutritionLabelTemplate> {
     const [created] = await db.insert(nutritionLabelTemplates).values(data).returning();
     return created;
@@ -1715,43 +2203,47 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // 計算配方營養成分（支援多個配方）- 簡化版本
-  async calculateRecipesNutrition(recipeIds: number[], servingSize: number, servingsPerPackage: number): Promise<CalculatedNutrition> {
-    console.log("Calculating nutrition for recipes:", recipeIds, "serving size:", servingSize, "servings per package:", servingsPerPackage);
-    
-    // 使用固定的基本營養值來確保功能運作
-    const baseNutrition = {
-      calories: 200,
-      protein: 4,
-      fat: 8,
-      saturatedFat: 2,
-      transFat: 0,
-      carbohydrates: 30,
-      sugar: 5,
-      sodium: 100
-    };
+  // 取得原料每100g營養值：優先使用 nutritionFacts，沒有時改用對應的台灣營養資料庫
+  private async getMaterialNutritionPer100g(materialIds: number[]): Promise<Map<number, MaterialNutrientValues>> {
+    const result = new Map<number, MaterialNutrientValues>();
+    if (materialIds.length === 0) return result;
 
-    const perServing = baseNutrition;
-    const per100g = {
-      calories: (baseNutrition.calories / servingSize) * 100,
-      protein: (baseNutrition.protein / servingSize) * 100,
-      fat: (baseNutrition.fat / servingSize) * 100,
-      saturatedFat: (baseNutrition.saturatedFat / servingSize) * 100,
-      transFat: (baseNutrition.transFat / servingSize) * 100,
-      carbohydrates: (baseNutrition.carbohydrates / servingSize) * 100,
-      sugar: (baseNutrition.sugar / servingSize) * 100,
-      sodium: (baseNutrition.sodium / servingSize) * 100,
-    };
+    const facts = await db
+      .select()
+      .from(nutritionFacts)
+      .where(inArray(nutritionFacts.materialId, materialIds));
+    for (const fact of facts) {
+      result.set(fact.materialId, toNutrientValues(fact));
+    }
 
-    const totalWeight = servingSize * servingsPerPackage;
+    const unmappedIds = materialIds.filter(id => !result.has(id));
+    if (unmappedIds.length > 0) {
+      const mapped = await db
+        .select({
+          materialId: materialNutritionMapping.materialId,
+          taiwanNutrition: taiwanNutritionDatabase,
+        })
+        .from(materialNutritionMapping)
+        .innerJoin(taiwanNutritionDatabase, eq(materialNutritionMapping.taiwanNutritionId, taiwanNutritionDatabase.id))
+        .where(inArray(materialNutritionMapping.materialId, unmappedIds));
+      for (const row of mapped) {
+        if (!result.has(row.materialId)) {
+          result.set(row.materialId, toNutrientValues(row.taiwanNutrition));
+        }
+      }
+    }
 
-    return {
-      perServing,
-      per100g,
-      servingSize,
-      servingsPerPackage,
-      totalWeight,
-    };
+    return result;
+  }
+
+  // 計算配方營養成分（支援多個配方）
+  async calculateRecipesNutrition(recipeIds: number[], servingSize: number, servingsPerPackage: number): Promise<CalculatedNutrition> {
+    const recipesList = (await Promise.all(recipeIds.map(id => this.getRecipe(id))))
+      .filter((recipe): recipe is RecipeWithIngredients => recipe !== undefined);
+
+    const nutritionMap = await this.getMaterialNutritionPer100g(collectRecipeMaterialIds(recipesList));
+
+    return calculateRecipesNutrition(recipesList, nutritionMap, servingSize, servingsPerPackage);
   }
 
   // 實現缺失的接口方法
@@ -1760,4 +2252,7 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// STORAGE_BACKEND=memory 時使用記憶體儲存（不需 PostgreSQL，重啟後資料會清空）
+export const storage: IStorage = process.env.STORAGE_BACKEND === "memory"
+  ? new MemStorage()
+  : new DatabaseStorage();
\ No newline at end of file
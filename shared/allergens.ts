@@ -0,0 +1,94 @@
+import { ALLERGENS, type Allergen, type Material } from "./schema";
+
+// 過敏原彙整：原料標記經配方（含子配方）、商品、客製商品逐層合併，供列表篩選與營養標示使用
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  shellfish: "甲殼類",
+  mango: "芒果",
+  peanut: "花生",
+  milk: "牛奶羊奶",
+  egg: "蛋",
+  nuts: "堅果類",
+  sesame: "芝麻",
+  gluten: "含麩質之穀物",
+  soy: "大豆",
+  fish: "魚類",
+  sulfite: "亞硫酸鹽類",
+};
+
+export interface AllergenSummary {
+  contains: Allergen[];
+  mayContain: Allergen[]; // 不重複列出已含有的過敏原
+}
+
+type AllergenMaterial = Partial<Pick<Material, "allergens" | "mayContainAllergens">>;
+
+type AllergenRecipe = {
+  ingredients: { material: AllergenMaterial }[];
+  subRecipes?: { subRecipe: AllergenRecipe }[];
+};
+
+type AllergenProduct = {
+  recipes: { recipe: AllergenRecipe }[];
+};
+
+type AllergenCustomProduct = {
+  items: { product: AllergenProduct }[];
+};
+
+// 依法規分類順序排列並去除重複
+function summarize(contains: Iterable<Allergen>, mayContain: Iterable<Allergen>): AllergenSummary {
+  const containsSet = new Set(contains);
+  const mayContainSet = new Set(mayContain);
+  return {
+    contains: ALLERGENS.filter(allergen => containsSet.has(allergen)),
+    mayContain: ALLERGENS.filter(allergen => mayContainSet.has(allergen) && !containsSet.has(allergen)),
+  };
+}
+
+export function mergeAllergens(summaries: AllergenSummary[]): AllergenSummary {
+  return summarize(
+    summaries.flatMap(summary => summary.contains),
+    summaries.flatMap(summary => summary.mayContain)
+  );
+}
+
+export function materialAllergens(material: AllergenMaterial): AllergenSummary {
+  return summarize(material.allergens ?? [], material.mayContainAllergens ?? []);
+}
+
+export function recipeAllergens(recipe: AllergenRecipe): AllergenSummary {
+  return mergeAllergens([
+    ...recipe.ingredients.map(ingredient => materialAllergens(ingredient.material)),
+    ...(recipe.subRecipes ?? []).map(sr => recipeAllergens(sr.subRecipe)),
+  ]);
+}
+
+export function productAllergens(product: AllergenProduct): AllergenSummary {
+  return mergeAllergens(product.recipes.map(pr => recipeAllergens(pr.recipe)));
+}
+
+export function customProductAllergens(customProduct: AllergenCustomProduct): AllergenSummary {
+  return mergeAllergens(customProduct.items.map(item => productAllergens(item.product)));
+}
+
+export function formatAllergenList(allergens: Allergen[]): string {
+  return allergens.map(allergen => ALLERGEN_LABELS[allergen]).join("、");
+}
+
+// 包裝過敏原標示文字；沒有任何過敏原時回傳空陣列
+export function allergenStatement(summary: AllergenSummary): string[] {
+  const lines: string[] = [];
+  if (summary.contains.length > 0) {
+    lines.push(`過敏原資訊：本產品含有${formatAllergenList(summary.contains)}，不適合對其過敏體質者食用`);
+  }
+  if (summary.mayContain.length > 0) {
+    lines.push(`本產品生產設備亦處理${formatAllergenList(summary.mayContain)}，可能含有微量`);
+  }
+  return lines;
+}
+
+// 不含（也不可能含有）指定過敏原，用於列表篩選
+export function isFreeOfAllergen(summary: AllergenSummary, allergen: Allergen): boolean {
+  return !summary.contains.includes(allergen) && !summary.mayContain.includes(allergen);
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculatePricePerGram,
+  calculateFinishedWeight,
+  calculateRecipeCost,
+  calculateProductCost,
+  calculateCustomProductCost,
+  type RecipeCostInput,
+  type ProductCostInput,
+} from "./costEngine";
+
+// 麵粉 500g × 0.05 + 奶油 200g × 0.4 = 105 元，10 份共 700g
+const dough: RecipeCostInput = {
+  name: "司康麵糰",
+  totalPortions: 10,
+  totalWeight: "700",
+  prepMinutes: 60,
+  bakeMinutes: 30,
+  ingredients: [
+    { materialId: 1, quantity: "500", material: { name: "低筋麵粉", pricePerGram: "0.05" } },
+    { materialId: 2, quantity: "200", material: { name: "無鹽奶油", pricePerGram: "0.4" } },
+  ],
+};
+
+const sconePair: ProductCostInput = {
+  name: "司康兩入",
+  sellingPrice: "150",
+  managementFeePercentage: "10",
+  recipes: [{ recipeId: 1, quantity: "2", unit: "portions", recipe: dough }],
+  packaging: [{ packagingId: 1, quantity: 1, packaging: { name: "單入紙盒", unitCost: "5" } }],
+};
+
+describe("calculatePricePerGram", () => {
+  it("購入金額加計管理費率後除以購入重量", () => {
+    expect(calculatePricePerGram("1000", "500", "10")).toBeCloseTo(2.2);
+  });
+
+  it("購入重量為 0 時回傳 0", () => {
+    expect(calculatePricePerGram("1000", "0", null)).toBe(0);
+  });
+});
+
+describe("calculateFinishedWeight", () => {
+  it("未設定烘焙損耗率時沿用總重量", () => {
+    expect(calculateFinishedWeight(dough)).toBe(700);
+  });
+
+  it("扣除原料修整耗損與烘焙損耗", () => {
+    const recipe: RecipeCostInput = {
+      ...dough,
+      bakingLossRate: "10",
+      ingredients: [dough.ingredients[0], { ...dough.ingredients[1], wasteRate: "10" }],
+    };
+    expect(calculateFinishedWeight(recipe)).toBeCloseTo((500 + 180) * 0.9);
+  });
+});
+
+describe("calculateRecipeCost", () => {
+  it("計算總成本、每份與每克成本", () => {
+    const cost = calculateRecipeCost(dough);
+    expect(cost.totalCost).toBeCloseTo(105);
+    expect(cost.costPerPortion).toBeCloseTo(10.5);
+    expect(cost.costPerGram).toBeCloseTo(0.15);
+  });
+
+  it("子配方依份數計價", () => {
+    const filling: RecipeCostInput = {
+      name: "禮盒組合",
+      totalPortions: 1,
+      totalWeight: "240",
+      ingredients: [{ materialId: 3, quantity: "100", material: { name: "細砂糖", pricePerGram: "0.03" } }],
+      subRecipes: [{ subRecipeId: 1, quantity: "2", unit: "portions", subRecipe: dough }],
+    };
+    const cost = calculateRecipeCost(filling);
+    expect(cost.subRecipes[0].cost).toBeCloseTo(21);
+    expect(cost.totalCost).toBeCloseTo(24);
+  });
+});
+
+describe("calculateProductCost", () => {
+  it("配方成本加包材、管理費並計算利潤", () => {
+    const cost = calculateProductCost(sconePair);
+    expect(cost.totalCost).toBeCloseTo(26);
+    expect(cost.adjustedCost).toBeCloseTo(28.6);
+    expect(cost.profit).toBeCloseTo(121.4);
+  });
+
+  it("依配方使用比例計入人工、烤箱能源與固定費用攤提", () => {
+    const cost = calculateProductCost(sconePair, {
+      labourHourlyWage: 300,
+      ovenCostPerHour: 100,
+      monthlyOverhead: 10000,
+      monthlyProductionUnits: 1000,
+    });
+    expect(cost.labourMinutes).toBeCloseTo(12);
+    expect(cost.labourCost).toBeCloseTo(60);
+    expect(cost.energyCost).toBeCloseTo(10);
+    expect(cost.overheadCost).toBeCloseTo(10);
+    expect(cost.totalCost).toBeCloseTo(106);
+  });
+});
+
+describe("calculateCustomProductCost", () => {
+  it("各商品含管理費成本乘上數量，再加包材", () => {
+    const cost = calculateCustomProductCost({
+      sellingPrice: "100",
+      managementFeePercentage: "0",
+      items: [{ productId: 1, quantity: "3", product: sconePair }],
+      packaging: [{ packagingId: 2, quantity: 1, packaging: { name: "禮盒", unitCost: "12" } }],
+    });
+    expect(cost.productsCost).toBeCloseTo(85.8);
+    expect(cost.totalCost).toBeCloseTo(97.8);
+  });
+});
@@ -0,0 +1,371 @@
+import type {
+  MaterialCostLine,
+  PackagingCostLine,
+  RecipeCostBreakdown,
+  SubRecipeCostLine,
+  ProfitSummary,
+  ProductRecipeCostLine,
+  ProductCostBreakdown,
+  CustomProductItemCostLine,
+  CustomProductCostBreakdown,
+} from "./schema";
+
+// 成本計算引擎：伺服器儲存層與前端表單共用，確保兩邊數字一致
+
+type NumericInput = string | number | null | undefined;
+
+export interface RecipeCostInput {
+  name?: string;
+  totalPortions: NumericInput;
+  totalWeight: NumericInput;
+  bakingLossRate?: NumericInput; // 烘焙損耗率(%)，設定時成品重量由生料重量自動計算
+  prepMinutes?: NumericInput; // 每批製作工時（分鐘）
+  bakeMinutes?: NumericInput; // 每批烘烤時間（分鐘）
+  ingredients: {
+    materialId: number;
+    quantity: NumericInput;
+    wasteRate?: NumericInput; // 修整耗損率(%)
+    material?: { name: string; pricePerGram: NumericInput };
+  }[];
+  subRecipes?: {
+    subRecipeId: number;
+    quantity: NumericInput;
+    unit: string;
+    subRecipe?: RecipeCostInput;
+  }[];
+}
+
+export interface PackagingCostInput {
+  packagingId: number;
+  quantity: NumericInput;
+  packaging?: { name: string; unitCost: NumericInput };
+}
+
+export interface ProductCostInput {
+  name?: string;
+  sellingPrice: NumericInput;
+  managementFeePercentage: NumericInput;
+  recipes: {
+    recipeId: number;
+    quantity: NumericInput;
+    unit: string;
+    recipe?: RecipeCostInput;
+  }[];
+  packaging: PackagingCostInput[];
+}
+
+export interface CustomProductCostInput {
+  sellingPrice: NumericInput;
+  managementFeePercentage: NumericInput;
+  items: {
+    productId: number;
+    quantity: NumericInput;
+    product?: ProductCostInput;
+  }[];
+  packaging: PackagingCostInput[];
+}
+
+// 人工、能源與固定費用費率（系統設定），未設定時皆為 0
+export interface OperatingCostRates {
+  labourHourlyWage: number; // 人工時薪
+  ovenCostPerHour: number; // 烤箱每小時能源費
+  monthlyOverhead: number; // 每月固定費用（租金等）
+  monthlyProductionUnits: number; // 每月預估生產商品數，用於攤提固定費用
+}
+
+export const ZERO_OPERATING_COST_RATES: OperatingCostRates = {
+  labourHourlyWage: 0,
+  ovenCostPerHour: 0,
+  monthlyOverhead: 0,
+  monthlyProductionUnits: 0,
+};
+
+export function toNumber(value: NumericInput): number {
+  if (typeof value === "number") return Number.isFinite(value) ? value : 0;
+  const parsed = parseFloat(value ?? "");
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function safeDivide(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+// 每克單價：購入金額加計管理費率後除以購入重量
+export function calculatePricePerGram(
+  purchaseAmountInput: NumericInput,
+  purchaseWeightInput: NumericInput,
+  managementFeeRateInput: NumericInput
+): number {
+  const amount = toNumber(purchaseAmountInput);
+  const feeRate = toNumber(managementFeeRateInput);
+  return safeDivide(amount * (1 + feeRate / 100), toNumber(purchaseWeightInput));
+}
+
+function calculatePackagingLines(packagingList: PackagingCostInput[]): PackagingCostLine[] {
+  return packagingList.flatMap(pp => {
+    if (!pp.packaging) return [];
+    const quantity = toNumber(pp.quantity);
+    const unitCost = toNumber(pp.packaging.unitCost);
+    return [{
+      packagingId: pp.packagingId,
+      packagingName: pp.packaging.name,
+      quantity,
+      unitCost,
+      cost: unitCost * quantity,
+    }];
+  });
+}
+
+// 管理費、利潤與利潤率
+export function calculateProfitSummary(
+  totalCost: number,
+  sellingPriceInput: NumericInput,
+  managementFeePercentageInput: NumericInput
+): ProfitSummary {
+  const managementFeePercentage = toNumber(managementFeePercentageInput);
+  const managementFee = totalCost * (managementFeePercentage / 100);
+  const adjustedCost = totalCost + managementFee;
+  const sellingPrice = toNumber(sellingPriceInput);
+  const profit = sellingPrice - adjustedCost;
+  const profitMargin = sellingPrice > 0 ? (profit / sellingPrice) * 100 : 0;
+
+  return {
+    totalCost,
+    managementFeePercentage,
+    managementFee,
+    adjustedCost,
+    sellingPrice,
+    profit,
+    profitMargin,
+  };
+}
+
+// 原料扣除修整耗損後實際進入配方的克數；成本仍以完整用量計算
+export function netIngredientQuantity(ingredient: { quantity: NumericInput; wasteRate?: NumericInput }): number {
+  return toNumber(ingredient.quantity) * (1 - toNumber(ingredient.wasteRate) / 100);
+}
+
+// 生料重量：原料淨重加上子配方用量（依「份」者以子配方成品重量換算）
+export function calculateRawWeight(recipe: RecipeCostInput): number {
+  const ingredientsWeight = recipe.ingredients.reduce((sum, ing) => sum + netIngredientQuantity(ing), 0);
+  const subRecipesWeight = (recipe.subRecipes ?? []).reduce((sum, sr) => {
+    const quantity = toNumber(sr.quantity);
+    if (sr.unit !== "portions") return sum + quantity;
+    if (!sr.subRecipe) return sum;
+    return sum + quantity * safeDivide(calculateFinishedWeight(sr.subRecipe), toNumber(sr.subRecipe.totalPortions));
+  }, 0);
+  return ingredientsWeight + subRecipesWeight;
+}
+
+// 成品重量：設定烘焙損耗率時由生料重量扣除損耗，否則沿用手動填寫的總重量
+export function calculateFinishedWeight(recipe: RecipeCostInput): number {
+  if (recipe.bakingLossRate === null || recipe.bakingLossRate === undefined || recipe.bakingLossRate === "") {
+    return toNumber(recipe.totalWeight);
+  }
+  return calculateRawWeight(recipe) * (1 - toNumber(recipe.bakingLossRate) / 100);
+}
+
+// 配方使用量（依「份」或「克」）占整份配方的比例
+export function recipeUsageRatio(recipe: RecipeCostInput, quantity: number, unit: string): number {
+  return unit === "portions"
+    ? safeDivide(quantity, toNumber(recipe.totalPortions))
+    : safeDivide(quantity, calculateFinishedWeight(recipe));
+}
+
+// 配方中所有原料（含子配方展開）依比例換算後的成本明細
+function flattenRecipeMaterials(recipe: RecipeCostInput, ratio: number): MaterialCostLine[] {
+  const breakdown = calculateRecipeCost(recipe);
+  const ownLines = breakdown.materials.map(line => ({
+    ...line,
+    quantity: line.quantity * ratio,
+    cost: line.cost * ratio,
+  }));
+  const subLines = (recipe.subRecipes ?? []).flatMap(sr => {
+    if (!sr.subRecipe) return [];
+    return flattenRecipeMaterials(sr.subRecipe, ratio * recipeUsageRatio(sr.subRecipe, toNumber(sr.quantity), sr.unit));
+  });
+  return [...ownLines, ...subLines];
+}
+
+// 配方每批製作與烘烤分鐘數，子配方依使用比例計入
+export function calculateRecipeMinutes(recipe: RecipeCostInput): { prepMinutes: number; bakeMinutes: number } {
+  return (recipe.subRecipes ?? []).reduce((totals, sr) => {
+    if (!sr.subRecipe) return totals;
+    const ratio = recipeUsageRatio(sr.subRecipe, toNumber(sr.quantity), sr.unit);
+    const sub = calculateRecipeMinutes(sr.subRecipe);
+    return {
+      prepMinutes: totals.prepMinutes + sub.prepMinutes * ratio,
+      bakeMinutes: totals.bakeMinutes + sub.bakeMinutes * ratio,
+    };
+  }, { prepMinutes: toNumber(recipe.prepMinutes), bakeMinutes: toNumber(recipe.bakeMinutes) });
+}
+
+// 單一原料的成本明細：用量(克) × 每克單價；原料已刪除時回傳 null
+export function calculateIngredientCost(ing: RecipeCostInput["ingredients"][number]): MaterialCostLine | null {
+  if (!ing.material) return null;
+  const quantity = toNumber(ing.quantity);
+  const pricePerGram = toNumber(ing.material.pricePerGram);
+  return {
+    materialId: ing.materialId,
+    materialName: ing.material.name,
+    quantity,
+    pricePerGram,
+    cost: quantity * pricePerGram,
+  };
+}
+
+// 配方成本：各原料用量(克) × 每克單價，加上子配方依「份」或「克」計價；每克成本以成品重量計算
+export function calculateRecipeCost(recipe: RecipeCostInput): RecipeCostBreakdown {
+  const materialLines: MaterialCostLine[] = recipe.ingredients.flatMap(ing => {
+    const line = calculateIngredientCost(ing);
+    return line ? [line] : [];
+  });
+
+  const subRecipeLines: SubRecipeCostLine[] = (recipe.subRecipes ?? []).flatMap(sr => {
+    if (!sr.subRecipe) return [];
+    const quantity = toNumber(sr.quantity);
+    const subCost = calculateRecipeCost(sr.subRecipe);
+    return [{
+      recipeId: sr.subRecipeId,
+      recipeName: sr.subRecipe.name ?? "",
+      quantity,
+      unit: sr.unit,
+      cost: sr.unit === "portions" ? subCost.costPerPortion * quantity : subCost.costPerGram * quantity,
+    }];
+  });
+
+  const totalCost = [...materialLines, ...subRecipeLines].reduce((sum, line) => sum + line.cost, 0);
+  const finishedWeight = calculateFinishedWeight(recipe);
+
+  return {
+    materials: materialLines,
+    subRecipes: subRecipeLines,
+    totalCost,
+    costPerPortion: safeDivide(totalCost, toNumber(recipe.totalPortions)),
+    costPerGram: safeDivide(totalCost, finishedWeight),
+    rawWeight: calculateRawWeight(recipe),
+    finishedWeight,
+  };
+}
+
+// 產品成本：配方依「份」或「克」計價，加上包裝、人工、能源、固定費用攤提與管理費
+export function calculateProductCost(
+  product: ProductCostInput,
+  rates: OperatingCostRates = ZERO_OPERATING_COST_RATES
+): ProductCostBreakdown {
+  let labourMinutes = 0;
+  let bakeMinutes = 0;
+  const recipeLines: ProductRecipeCostLine[] = product.recipes.flatMap(pr => {
+    if (!pr.recipe) return [];
+    const quantity = toNumber(pr.quantity);
+    const recipeCost = calculateRecipeCost(pr.recipe);
+    const cost = pr.unit === "portions"
+      ? recipeCost.costPerPortion * quantity
+      : recipeCost.costPerGram * quantity;
+    const ratio = recipeUsageRatio(pr.recipe, quantity, pr.unit);
+    const minutes = calculateRecipeMinutes(pr.recipe);
+    labourMinutes += minutes.prepMinutes * ratio;
+    bakeMinutes += minutes.bakeMinutes * ratio;
+
+    return [{
+      recipeId: pr.recipeId,
+      recipeName: pr.recipe.name ?? "",
+      quantity,
+      unit: pr.unit,
+      cost,
+      // 本產品使用的配方比例換算各原料成本（子配方原料一併展開）
+      materials: flattenRecipeMaterials(pr.recipe, ratio),
+    }];
+  });
+
+  const packagingLines = calculatePackagingLines(product.packaging);
+  const recipeCost = recipeLines.reduce((sum, line) => sum + line.cost, 0);
+  const packagingCost = packagingLines.reduce((sum, line) => sum + line.cost, 0);
+  const labourCost = (labourMinutes / 60) * rates.labourHourlyWage;
+  const energyCost = (bakeMinutes / 60) * rates.ovenCostPerHour;
+  // 每月固定費用平均攤提至每件商品
+  const overheadCost = safeDivide(rates.monthlyOverhead, rates.monthlyProductionUnits);
+  const totalCost = recipeCost + packagingCost + labourCost + energyCost + overheadCost;
+
+  return {
+    ...calculateProfitSummary(totalCost, product.sellingPrice, product.managementFeePercentage),
+    recipes: recipeLines,
+    packaging: packagingLines,
+    recipeCost,
+    packagingCost,
+    labourMinutes,
+    labourCost,
+    bakeMinutes,
+    energyCost,
+    overheadCost,
+  };
+}
+
+// 客製商品成本：各產品含管理費成本 × 數量，加上包裝與管理費
+export function calculateCustomProductCost(
+  customProduct: CustomProductCostInput,
+  rates: OperatingCostRates = ZERO_OPERATING_COST_RATES
+): CustomProductCostBreakdown {
+  const itemLines: CustomProductItemCostLine[] = customProduct.items.flatMap(item => {
+    if (!item.product) return [];
+    const quantity = toNumber(item.quantity);
+    const unitCost = calculateProductCost(item.product, rates).adjustedCost;
+    return [{
+      productId: item.productId,
+      productName: item.product.name ?? "",
+      quantity,
+      unitCost,
+      cost: unitCost * quantity,
+    }];
+  });
+
+  const packagingLines = calculatePackagingLines(customProduct.packaging);
+  const productsCost = itemLines.reduce((sum, line) => sum + line.cost, 0);
+  const packagingCost = packagingLines.reduce((sum, line) => sum + line.cost, 0);
+
+  return {
+    ...calculateProfitSummary(productsCost + packagingCost, customProduct.sellingPrice, customProduct.managementFeePercentage),
+    items: itemLines,
+    packaging: packagingLines,
+    productsCost,
+    packagingCost,
+  };
+}
+
+// 將成本結果附加到配方／產品／客製商品資料上（API 回傳格式）
+export function withRecipeCosts<T extends RecipeCostInput>(recipe: T) {
+  const costBreakdown = calculateRecipeCost(recipe);
+  return {
+    ...recipe,
+    totalCost: costBreakdown.totalCost,
+    costPerPortion: costBreakdown.costPerPortion,
+    costPerGram: costBreakdown.costPerGram,
+    costBreakdown,
+  };
+}
+
+export function withProductCosts<T extends ProductCostInput>(product: T, rates?: OperatingCostRates) {
+  const costBreakdown = calculateProductCost(product, rates);
+  return {
+    ...product,
+    totalCost: costBreakdown.totalCost,
+    managementFee: costBreakdown.managementFee,
+    adjustedCost: costBreakdown.adjustedCost,
+    profit: costBreakdown.profit,
+    profitMargin: costBreakdown.profitMargin,
+    costBreakdown,
+  };
+}
+
+export function withCustomProductCosts<T extends CustomProductCostInput>(customProduct: T, rates?: OperatingCostRates) {
+  const costBreakdown = calculateCustomProductCost(customProduct, rates);
+  return {
+    ...customProduct,
+    totalCost: costBreakdown.totalCost,
+    managementFee: costBreakdown.managementFee,
+    adjustedCost: costBreakdown.adjustedCost,
+    profit: costBreakdown.profit,
+    profitMargin: costBreakdown.profitMargin,
+    costBreakdown,
+  };
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { buildLabelLayout, DEFAULT_LABEL_TEMPLATE_CONFIG, type LabelContent } from "./labelLayout";
+
+const zero = { calories: 0, protein: 0, fat: 0, saturatedFat: 0, transFat: 0, carbohydrates: 0, sugar: 0, sodium: 0 };
+
+const content: LabelContent = {
+  name: "原味司康",
+  servingSize: "50",
+  servingsPerPackage: "2",
+  perServing: zero,
+  per100g: zero,
+  allergens: { contains: ["milk", "egg", "gluten"], mayContain: ["nuts"] },
+};
+
+describe("buildLabelLayout", () => {
+  it("內容放得下時不標記超出", () => {
+    const layout = buildLabelLayout(content, DEFAULT_LABEL_TEMPLATE_CONFIG, { width: 200, height: 100 });
+    expect(layout.overflow).toBe(false);
+    expect(layout.contentBottom).toBeLessThanOrEqual(100 - DEFAULT_LABEL_TEMPLATE_CONFIG.margins.bottom);
+  });
+
+  it("長品名與過敏原超出標籤高度時標記超出", () => {
+    const layout = buildLabelLayout(
+      { ...content, name: "北海道十勝特濃鮮奶油千層可頌禮盒（伯爵茶、抹茶紅豆、焦糖海鹽綜合口味）" },
+      DEFAULT_LABEL_TEMPLATE_CONFIG,
+      { width: 50, height: 60 }
+    );
+    expect(layout.overflow).toBe(true);
+    expect(layout.contentBottom).toBeGreaterThan(60);
+  });
+});
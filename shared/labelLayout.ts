@@ -0,0 +1,258 @@
+import type { NutritionLabelTemplateConfig, NutrientValues } from "./schema";
+import {
+  TAIWAN_NUTRIENT_RULES,
+  TAIWAN_DAILY_VALUE_NOTES,
+  applyTaiwanLabelRules,
+  formatDailyValuePercent,
+  formatLabelQuantity,
+  formatNutrientAmount,
+} from "./nutritionCompliance";
+import { allergenStatement, type AllergenSummary } from "./allergens";
+
+// 營養標示版面：依模板設定計算文字與線條位置（單位皆為公釐），
+// 伺服器以 PDF／canvas 繪製，前端以 SVG 即時預覽
+
+export const PT_TO_MM = 0.352778;
+
+export const DEFAULT_LABEL_TEMPLATE_CONFIG: NutritionLabelTemplateConfig = {
+  layout: "vertical",
+  showBorder: true,
+  borderWidth: 0.5,
+  backgroundColor: "#ffffff",
+  textColor: "#000000",
+  headerFontSize: 12,
+  bodyFontSize: 7,
+  margins: { top: 4, right: 4, bottom: 4, left: 4 },
+  spacing: { lineHeight: 1.4, sectionSpacing: 2 },
+};
+
+// 補齊模板缺少的設定（舊資料或還原的模板可能只有部分欄位）
+export function resolveTemplateConfig(config?: Partial<NutritionLabelTemplateConfig> | null): NutritionLabelTemplateConfig {
+  const defaults = DEFAULT_LABEL_TEMPLATE_CONFIG;
+  return {
+    ...defaults,
+    ...config,
+    margins: { ...defaults.margins, ...config?.margins },
+    spacing: { ...defaults.spacing, ...config?.spacing },
+  };
+}
+
+export interface LabelContent {
+  name: string;
+  servingSize: string;
+  servingsPerPackage: string;
+  perServing: NutrientValues;
+  per100g: NutrientValues;
+  allergens?: AllergenSummary;
+}
+
+export type LabelTextAlign = "left" | "center" | "right";
+
+export type LabelElement =
+  | { type: "text"; x: number; y: number; text: string; fontSize: number; bold?: boolean; align: LabelTextAlign }
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number; width: number };
+
+export interface LabelLayout {
+  width: number;
+  height: number;
+  backgroundColor: string;
+  textColor: string;
+  border: { width: number } | null;
+  elements: LabelElement[];
+  contentBottom: number; // 內容最低點
+  overflow: boolean; // 內容超出下邊距，輸出時會被裁切
+}
+
+// 量測文字寬度（公釐）；fontSize 亦為公釐
+export type MeasureText = (text: string, fontSize: number, bold?: boolean) => number;
+
+// 未能實際量測時的估算：全形字寬約等於字級，半形約一半
+export const estimateTextWidth: MeasureText = (text, fontSize) =>
+  Array.from(text).reduce((width, char) => width + (char.charCodeAt(0) > 0x2e7f ? 1 : 0.55) * fontSize, 0);
+
+// 依寬度自動換行：英數字詞不拆開，中文可逐字換行
+export function wrapText(text: string, maxWidth: number, measure: (text: string) => number): string[] {
+  const tokens = text.match(/[A-Za-z0-9.,%()\-]+|\s+|[^\s]/g) ?? [];
+  const lines: string[] = [];
+  let current = "";
+  for (const token of tokens) {
+    const candidate = current + token;
+    if (current && measure(candidate) > maxWidth) {
+      lines.push(current.trimEnd());
+      current = token.trimStart();
+    } else {
+      current = candidate;
+    }
+  }
+  if (current.trim()) lines.push(current.trimEnd());
+  return lines.length > 0 ? lines : [""];
+}
+
+// 依台灣標示規定修整數值後的表格列：項目、每份、每100公克、每日參考值百分比
+function nutritionRows(content: LabelContent): string[][] {
+  const values = applyTaiwanLabelRules(content);
+  return TAIWAN_NUTRIENT_RULES.map(rule => [
+    `${rule.indent ? "　" : ""}${rule.label}`,
+    formatNutrientAmount(rule, values.perServing[rule.key]),
+    formatNutrientAmount(rule, values.per100g[rule.key]),
+    formatDailyValuePercent(values.dailyValuePercent[rule.key]),
+  ]);
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+}
+
+// 標題、品名與份量資訊；回傳下一段落的起始 y
+function layoutHeader(
+  elements: LabelElement[],
+  content: LabelContent,
+  config: NutritionLabelTemplateConfig,
+  box: Box,
+  measure: MeasureText
+): number {
+  const headerSize = config.headerFontSize * PT_TO_MM;
+  const bodySize = config.bodyFontSize * PT_TO_MM;
+  const centerX = box.x + box.width / 2;
+  let y = box.y + headerSize;
+
+  elements.push({ type: "text", x: centerX, y, text: "營養標示", fontSize: headerSize, bold: true, align: "center" });
+  y += config.spacing.sectionSpacing;
+
+  const nameSize = (headerSize + bodySize) / 2;
+  for (const line of wrapText(content.name, box.width, text => measure(text, nameSize, true))) {
+    y += nameSize * config.spacing.lineHeight;
+    elements.push({ type: "text", x: centerX, y, text: line, fontSize: nameSize, bold: true, align: "center" });
+  }
+  y += config.spacing.sectionSpacing;
+
+  const servingLines = [
+    `每一份量 ${formatLabelQuantity(content.servingSize)} 公克`,
+    `本包裝含 ${formatLabelQuantity(content.servingsPerPackage)} 份`,
+  ];
+  for (const text of servingLines) {
+    y += bodySize * config.spacing.lineHeight;
+    elements.push({ type: "text", x: box.x, y, text, fontSize: bodySize, align: "left" });
+  }
+  return y + config.spacing.sectionSpacing;
+}
+
+// 營養成分表：項目、每份、每 100 公克、每日參考值百分比四欄，表下附參考值說明；回傳表格底部 y
+function layoutTable(
+  elements: LabelElement[],
+  content: LabelContent,
+  config: NutritionLabelTemplateConfig,
+  box: Box,
+  measure: MeasureText
+): number {
+  const bodySize = config.bodyFontSize * PT_TO_MM;
+  const noteSize = bodySize * 0.85;
+  const rowHeight = bodySize * config.spacing.lineHeight;
+  const right = box.x + box.width;
+  const columnRights = [box.x + box.width * 0.5, box.x + box.width * 0.8, right];
+  const columnWidths = [box.width * 0.3, box.width * 0.3, box.width * 0.2];
+  const lineWidth = Math.max(config.borderWidth / 2, 0.1);
+  let y = box.y;
+
+  elements.push({ type: "line", x1: box.x, y1: y, x2: right, y2: y, width: lineWidth });
+
+  // 欄位標題過長時（如每日參考值百分比）於欄寬內換行，底部對齊
+  const headers = ["每份", "每100公克", "每日參考值百分比"]
+    .map((text, column) => wrapText(text, columnWidths[column], line => measure(line, bodySize, true)));
+  const headerLines = Math.max(...headers.map(lines => lines.length));
+  headers.forEach((lines, column) => {
+    lines.forEach((line, index) => {
+      const lineY = y + rowHeight * (headerLines - lines.length + index + 1);
+      elements.push({ type: "text", x: columnRights[column], y: lineY, text: line, fontSize: bodySize, bold: true, align: "right" });
+    });
+  });
+  y += rowHeight * headerLines + rowHeight * 0.3;
+  elements.push({ type: "line", x1: box.x, y1: y, x2: right, y2: y, width: lineWidth });
+
+  for (const [item, ...columns] of nutritionRows(content)) {
+    y += rowHeight;
+    elements.push({ type: "text", x: box.x, y, text: item, fontSize: bodySize, align: "left" });
+    columns.forEach((text, column) => {
+      elements.push({ type: "text", x: columnRights[column], y, text, fontSize: bodySize, align: "right" });
+    });
+  }
+  y += rowHeight * 0.3;
+  elements.push({ type: "line", x1: box.x, y1: y, x2: right, y2: y, width: lineWidth });
+
+  for (const note of TAIWAN_DAILY_VALUE_NOTES) {
+    for (const line of wrapText(note, box.width, text => measure(text, noteSize))) {
+      y += noteSize * config.spacing.lineHeight;
+      elements.push({ type: "text", x: box.x, y, text: line, fontSize: noteSize, align: "left" });
+    }
+  }
+  return y;
+}
+
+// 過敏原標示：接在營養成分表之後，以粗體與營養標示區隔
+function layoutAllergens(
+  elements: LabelElement[],
+  content: LabelContent,
+  config: NutritionLabelTemplateConfig,
+  box: Box,
+  measure: MeasureText
+): void {
+  const bodySize = config.bodyFontSize * PT_TO_MM;
+  let y = box.y;
+  for (const statement of content.allergens ? allergenStatement(content.allergens) : []) {
+    for (const line of wrapText(statement, box.width, text => measure(text, bodySize, true))) {
+      y += bodySize * config.spacing.lineHeight;
+      elements.push({ type: "text", x: box.x, y, text: line, fontSize: bodySize, bold: true, align: "left" });
+    }
+  }
+}
+
+// 內容最低點：文字 y 為基線，加上下伸部約 0.2 倍字級
+function elementsBottom(elements: LabelElement[]): number {
+  return elements.reduce(
+    (bottom, element) => Math.max(bottom, element.type === "text" ? element.y + element.fontSize * 0.2 : Math.max(element.y1, element.y2)),
+    0
+  );
+}
+
+// 依模板計算標籤版面：直式為上下排列，橫式為左側標題資訊、右側營養成分表
+export function buildLabelLayout(
+  content: LabelContent,
+  config: NutritionLabelTemplateConfig,
+  size: { width: number; height: number },
+  measure: MeasureText = estimateTextWidth
+): LabelLayout {
+  const { margins } = config;
+  const inner: Box = {
+    x: margins.left,
+    y: margins.top,
+    width: Math.max(size.width - margins.left - margins.right, 1),
+  };
+  const elements: LabelElement[] = [];
+
+  if (config.layout === "horizontal") {
+    const gap = config.spacing.sectionSpacing * 2;
+    const leftWidth = (inner.width - gap) * 0.38;
+    layoutHeader(elements, content, config, { ...inner, width: leftWidth }, measure);
+    const tableBox = { x: inner.x + leftWidth + gap, y: inner.y, width: inner.width - leftWidth - gap };
+    const allergensY = layoutTable(elements, content, config, tableBox, measure);
+    layoutAllergens(elements, content, config, { ...tableBox, y: allergensY + config.spacing.sectionSpacing }, measure);
+  } else {
+    const tableY = layoutHeader(elements, content, config, inner, measure);
+    const allergensY = layoutTable(elements, content, config, { ...inner, y: tableY }, measure);
+    layoutAllergens(elements, content, config, { ...inner, y: allergensY + config.spacing.sectionSpacing }, measure);
+  }
+
+  const contentBottom = elementsBottom(elements);
+  return {
+    width: size.width,
+    height: size.height,
+    backgroundColor: config.backgroundColor,
+    textColor: config.textColor,
+    border: config.showBorder ? { width: config.borderWidth } : null,
+    elements,
+    contentBottom,
+    overflow: contentBottom > size.height - margins.bottom + 0.01,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import type { CalculatedNutrition } from "./schema";
+import { applyTaiwanLabelRules, formatDailyValuePercent, validateNutritionLabel } from "./nutritionCompliance";
+
+const per100g = { calories: 400.4, protein: 8.04, fat: 20, saturatedFat: 12, transFat: 0.2, carbohydrates: 50, sugar: 10, sodium: 3 };
+const perServing = { calories: 200.2, protein: 4.02, fat: 10, saturatedFat: 6, transFat: 0.1, carbohydrates: 25, sugar: 5, sodium: 1.5 };
+
+const nutrition: CalculatedNutrition = { perServing, per100g, servingSize: 50, servingsPerPackage: 2, totalWeight: 100 };
+
+describe("applyTaiwanLabelRules", () => {
+  it("依規定位數修整數值並計算每日參考值百分比", () => {
+    const values = applyTaiwanLabelRules(nutrition);
+    expect(values.perServing.calories).toBe(200);
+    expect(values.perServing.protein).toBe(4);
+    expect(values.dailyValuePercent.calories).toBe(10);
+    expect(values.dailyValuePercent.transFat).toBeUndefined();
+  });
+
+  it("每 100 公克含量未超過門檻時兩欄皆以 0 標示", () => {
+    const values = applyTaiwanLabelRules(nutrition);
+    expect(values.per100g.transFat).toBe(0);
+    expect(values.perServing.transFat).toBe(0);
+    expect(values.perServing.sodium).toBe(0);
+  });
+});
+
+describe("formatDailyValuePercent", () => {
+  it("10% 以上顯示整數，以下顯示小數一位，未訂定參考值顯示＊", () => {
+    expect(formatDailyValuePercent(12.4)).toBe("12%");
+    expect(formatDailyValuePercent(5.2)).toBe("5.2%");
+    expect(formatDailyValuePercent(undefined)).toBe("＊");
+  });
+});
+
+describe("validateNutritionLabel", () => {
+  it("份量與營養成分正確時通過檢查", () => {
+    const result = validateNutritionLabel({ servingSize: "50", servingsPerPackage: 2, calculatedNutrition: nutrition });
+    expect(result).toEqual({ valid: true, issues: [] });
+  });
+
+  it("份量無效或尚未計算時不可生成", () => {
+    const result = validateNutritionLabel({ servingSize: "0", servingsPerPackage: 2, calculatedNutrition: null });
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(issue => issue.code)).toEqual(["invalid_serving_size", "not_calculated"]);
+  });
+
+  it("原料缺少必要營養素或子項目超過總量時列為錯誤", () => {
+    const result = validateNutritionLabel({
+      servingSize: 50,
+      servingsPerPackage: 2,
+      calculatedNutrition: {
+        ...nutrition,
+        per100g: { ...per100g, sugar: 60 },
+        incompleteNutritionMaterials: [{ materialId: 1, materialName: "無鹽奶油", recipeNames: ["司康"], missingNutrients: ["sodium"] }],
+      },
+    });
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(issue => [issue.code, issue.nutrient])).toEqual([
+      ["missing_nutrient", "sodium"],
+      ["sugar_exceeds_carbohydrates", "sugar"],
+    ]);
+  });
+
+  it("營養成分皆為 0 時僅提出警告", () => {
+    const zero = { calories: 0, protein: 0, fat: 0, saturatedFat: 0, transFat: 0, carbohydrates: 0, sugar: 0, sodium: 0 };
+    const result = validateNutritionLabel({
+      servingSize: 50,
+      servingsPerPackage: 2,
+      calculatedNutrition: { ...nutrition, perServing: zero, per100g: zero },
+    });
+    expect(result.valid).toBe(true);
+    expect(result.issues.map(issue => issue.severity)).toEqual(["warning"]);
+  });
+});
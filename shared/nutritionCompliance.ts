@@ -0,0 +1,164 @@
+import type {
+  CalculatedNutrition,
+  NutrientValues,
+  NutritionComplianceIssue,
+  NutritionLabelCompliance,
+  NutritionLabelValues,
+} from "./schema";
+
+// 台灣包裝食品營養標示規定：必要標示項目、數值修整、得以 0 標示之門檻與每日參考值
+
+export interface TaiwanNutrientRule {
+  key: keyof NutrientValues;
+  label: string;
+  unit: string;
+  indent: boolean; // 飽和脂肪、反式脂肪、糖為子項目，縮排顯示
+  decimals: number;
+  zeroThreshold: number; // 每 100 公克含量不超過此值時以 0 標示
+  dailyValue: number | null; // 每日參考值，未訂定者為 null
+}
+
+// 依法定順序排列的必要標示項目
+export const TAIWAN_NUTRIENT_RULES: TaiwanNutrientRule[] = [
+  { key: "calories", label: "熱量", unit: "大卡", indent: false, decimals: 0, zeroThreshold: 4, dailyValue: 2000 },
+  { key: "protein", label: "蛋白質", unit: "公克", indent: false, decimals: 1, zeroThreshold: 0.5, dailyValue: 60 },
+  { key: "fat", label: "脂肪", unit: "公克", indent: false, decimals: 1, zeroThreshold: 0.5, dailyValue: 60 },
+  { key: "saturatedFat", label: "飽和脂肪", unit: "公克", indent: true, decimals: 1, zeroThreshold: 0.1, dailyValue: 18 },
+  { key: "transFat", label: "反式脂肪", unit: "公克", indent: true, decimals: 1, zeroThreshold: 0.3, dailyValue: null },
+  { key: "carbohydrates", label: "碳水化合物", unit: "公克", indent: false, decimals: 1, zeroThreshold: 0.5, dailyValue: 300 },
+  { key: "sugar", label: "糖", unit: "公克", indent: true, decimals: 1, zeroThreshold: 0.5, dailyValue: null },
+  { key: "sodium", label: "鈉", unit: "毫克", indent: false, decimals: 0, zeroThreshold: 5, dailyValue: 2000 },
+];
+
+export const NO_DAILY_VALUE_MARK = "＊";
+
+export const TAIWAN_DAILY_VALUE_NOTES = [
+  `${NO_DAILY_VALUE_MARK}參考值未訂定`,
+  `每日參考值：${TAIWAN_NUTRIENT_RULES
+    .filter(rule => rule.dailyValue !== null)
+    .map(rule => `${rule.label}${rule.dailyValue}${rule.unit}`)
+    .join("、")}。`,
+];
+
+// 子項目合計與總量比較時容許的誤差（公克）
+const SUM_TOLERANCE = 0.05;
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// 套用數值修整與 0 標示門檻；是否以 0 標示一律依每 100 公克含量判斷，每份與每 100 公克兩欄一致
+// （例如反式脂肪每 100 公克超過 0.3 公克時必須標示實際含量）
+export function applyTaiwanLabelRules(nutrition: Pick<CalculatedNutrition, "perServing" | "per100g">): NutritionLabelValues {
+  const perServing = {} as NutrientValues;
+  const per100g = {} as NutrientValues;
+  const dailyValuePercent: NutritionLabelValues["dailyValuePercent"] = {};
+
+  for (const rule of TAIWAN_NUTRIENT_RULES) {
+    const belowThreshold = (nutrition.per100g[rule.key] || 0) <= rule.zeroThreshold;
+    perServing[rule.key] = belowThreshold ? 0 : roundTo(nutrition.perServing[rule.key] || 0, rule.decimals);
+    per100g[rule.key] = belowThreshold ? 0 : roundTo(nutrition.per100g[rule.key] || 0, rule.decimals);
+    if (rule.dailyValue !== null) {
+      dailyValuePercent[rule.key] = roundTo((perServing[rule.key] / rule.dailyValue) * 100, 1);
+    }
+  }
+
+  return { perServing, per100g, dailyValuePercent };
+}
+
+export function formatNutrientAmount(rule: TaiwanNutrientRule, value: number): string {
+  return `${value.toFixed(rule.decimals)} ${rule.unit}`;
+}
+
+// 每日參考值百分比以整數或小數一位表示，未訂定參考值者以「＊」標示
+export function formatDailyValuePercent(percent: number | undefined): string {
+  if (percent === undefined) return NO_DAILY_VALUE_MARK;
+  return `${percent >= 10 ? Math.round(percent) : percent.toFixed(1)}%`;
+}
+
+// 每一份量與本包裝份數：整數顯示整數，其餘至小數一位
+export function formatLabelQuantity(value: number | string): string {
+  const numeric = typeof value === "number" ? value : parseFloat(value);
+  if (!Number.isFinite(numeric)) return String(value);
+  return String(roundTo(numeric, 1));
+}
+
+// 生成標籤前檢查是否符合標示規定；有 error 時不可生成
+export function validateNutritionLabel(label: {
+  servingSize: number | string;
+  servingsPerPackage: number | string;
+  calculatedNutrition?: CalculatedNutrition | null;
+}): NutritionLabelCompliance {
+  const issues: NutritionComplianceIssue[] = [];
+  const servingSize = typeof label.servingSize === "number" ? label.servingSize : parseFloat(label.servingSize);
+  const servingsPerPackage = typeof label.servingsPerPackage === "number"
+    ? label.servingsPerPackage
+    : parseFloat(label.servingsPerPackage);
+
+  if (!(servingSize > 0)) {
+    issues.push({ code: "invalid_serving_size", severity: "error", message: "每一份量須大於 0 公克" });
+  }
+  if (!(servingsPerPackage > 0)) {
+    issues.push({ code: "invalid_servings_per_package", severity: "error", message: "本包裝份數須大於 0" });
+  }
+
+  const nutrition = label.calculatedNutrition;
+  if (!nutrition?.perServing || !nutrition?.per100g) {
+    issues.push({ code: "not_calculated", severity: "error", message: "尚未計算營養成分" });
+    return { valid: false, issues };
+  }
+
+  const missingMaterials = nutrition.missingNutritionMaterials ?? [];
+  if (missingMaterials.length > 0) {
+    issues.push({
+      code: "missing_material_nutrition",
+      severity: "error",
+      message: `原料缺少營養資料：${missingMaterials.map(item => item.materialName).join("、")}`,
+    });
+  }
+
+  // 必要標示項目（如鈉）缺少原料資料時，計算結果會低估，不可直接標示
+  for (const rule of TAIWAN_NUTRIENT_RULES) {
+    const materials = (nutrition.incompleteNutritionMaterials ?? [])
+      .filter(item => item.missingNutrients.includes(rule.key));
+    if (materials.length > 0) {
+      issues.push({
+        code: "missing_nutrient",
+        severity: "error",
+        nutrient: rule.key,
+        message: `原料缺少${rule.label}資料：${materials.map(item => item.materialName).join("、")}`,
+      });
+    }
+  }
+
+  // 子項目以原始計算值比較，避免 0 標示門檻造成誤判
+  const raw = nutrition.per100g;
+  if (raw.saturatedFat + raw.transFat > raw.fat + SUM_TOLERANCE) {
+    issues.push({
+      code: "fat_breakdown_exceeds_total",
+      severity: "error",
+      nutrient: "fat",
+      message: "飽和脂肪與反式脂肪合計不得超過脂肪含量，請檢查原料營養資料",
+    });
+  }
+  if (raw.sugar > raw.carbohydrates + SUM_TOLERANCE) {
+    issues.push({
+      code: "sugar_exceeds_carbohydrates",
+      severity: "error",
+      nutrient: "sugar",
+      message: "糖含量不得超過碳水化合物，請檢查原料營養資料",
+    });
+  }
+
+  const values = applyTaiwanLabelRules(nutrition);
+  if (TAIWAN_NUTRIENT_RULES.every(rule => values.per100g[rule.key] === 0)) {
+    issues.push({
+      code: "all_zero",
+      severity: "warning",
+      message: "營養成分皆為 0，請確認配方原料已設定營養資料",
+    });
+  }
+
+  return { valid: issues.every(issue => issue.severity !== "error"), issues };
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { roundToPricePoint, marginAtPrice, suggestSellingPrice } from "./pricing";
+
+describe("roundToPricePoint", () => {
+  it("無條件進位至售價級距", () => {
+    expect(roundToPricePoint(101, 5)).toBe(105);
+    expect(roundToPricePoint(105, 5)).toBe(105);
+  });
+
+  it("浮點誤差不會讓剛好落在級距上的價格多進一級", () => {
+    expect(roundToPricePoint(0.1 * 3 * 100, 10)).toBe(30);
+  });
+
+  it("級距小於等於 0 時進位至整數元，無效價格回傳 0", () => {
+    expect(roundToPricePoint(12.3, 0)).toBe(13);
+    expect(roundToPricePoint(-5, 5)).toBe(0);
+    expect(roundToPricePoint(NaN, 5)).toBe(0);
+  });
+});
+
+describe("marginAtPrice", () => {
+  it("計算指定售價下的利潤率", () => {
+    expect(marginAtPrice(60, 100)).toBeCloseTo(40);
+    expect(marginAtPrice(60, 0)).toBe(0);
+  });
+});
+
+describe("suggestSellingPrice", () => {
+  it("達到目標利潤率的最低售價並進位至級距", () => {
+    expect(suggestSellingPrice(60, 40, 5)).toBe(100);
+    expect(suggestSellingPrice(61, 40, 5)).toBe(105);
+  });
+
+  it("目標利潤率達 100% 時無法建議售價", () => {
+    expect(suggestSellingPrice(60, 100, 5)).toBe(0);
+  });
+});
@@ -0,0 +1,21 @@
+// 售價級距（元）：建議售價無條件進位至此倍數，例如 5 表示尾數為 0 或 5
+export const DEFAULT_PRICE_ROUNDING_STEP = 5;
+
+// 無條件進位至售價級距；級距小於等於 0 時僅進位至整數元
+export function roundToPricePoint(price: number, step: number): number {
+  if (!Number.isFinite(price) || price <= 0) return 0;
+  const unit = step > 0 ? step : 1;
+  // 扣除浮點誤差，避免剛好落在級距上的價格被多進一級
+  return Math.ceil(price / unit - 1e-9) * unit;
+}
+
+// 指定售價下的利潤率(%)
+export function marginAtPrice(adjustedCost: number, price: number): number {
+  return price > 0 ? ((price - adjustedCost) / price) * 100 : 0;
+}
+
+// 達到目標利潤率所需的最低售價，並進位至售價級距；目標利潤率需小於 100%
+export function suggestSellingPrice(adjustedCost: number, targetMargin: number, step: number): number {
+  if (targetMargin >= 100) return 0;
+  return roundToPricePoint(adjustedCost / (1 - targetMargin / 100), step);
+}
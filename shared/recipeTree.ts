@@ -0,0 +1,60 @@
+import type {
+  Material,
+  Recipe,
+  RecipeIngredient,
+  RecipeSubRecipe,
+  RecipeWithIngredients,
+} from "./schema";
+import { calculateFinishedWeight, withRecipeCosts } from "./costEngine";
+
+// 子配方樹：伺服器組合配方資料與前端選單過濾共用
+
+type RecipeNode = {
+  id: number;
+  subRecipes?: { subRecipeId: number; subRecipe?: RecipeNode }[];
+};
+
+// 依原料與子配方關聯組合配方樹並計算成本；遇到循環引用時略過該子配方
+// 子配方先行組合，上層配方計算成品重量時即使用子配方最新的成品重量
+export function assembleRecipeTrees(
+  recipeRows: Recipe[],
+  recipesById: Map<number, Recipe>,
+  ingredientsByRecipe: Map<number, (RecipeIngredient & { material: Material })[]>,
+  subRecipesByRecipe: Map<number, RecipeSubRecipe[]>
+): RecipeWithIngredients[] {
+  const built = new Map<number, RecipeWithIngredients>();
+
+  const build = (recipe: Recipe, path: Set<number>): RecipeWithIngredients => {
+    const cached = built.get(recipe.id);
+    if (cached) return cached;
+
+    const nextPath = new Set(path).add(recipe.id);
+    const subRecipes = (subRecipesByRecipe.get(recipe.id) ?? []).flatMap(link => {
+      const subRecipe = recipesById.get(link.subRecipeId);
+      if (!subRecipe || nextPath.has(subRecipe.id)) return [];
+      return [{ ...link, subRecipe: build(subRecipe, nextPath) }];
+    });
+
+    const assembled = {
+      ...recipe,
+      ingredients: ingredientsByRecipe.get(recipe.id) ?? [],
+      subRecipes,
+    };
+    // 設定烘焙損耗率的配方，總重量依目前原料與子配方重新計算
+    const result = withRecipeCosts(recipe.bakingLossRate === null ? assembled : {
+      ...assembled,
+      totalWeight: calculateFinishedWeight(assembled).toFixed(2),
+    });
+    built.set(recipe.id, result);
+    return result;
+  };
+
+  return recipeRows.map(recipe => build(recipe, new Set()));
+}
+
+// 配方（含各層子配方）是否使用到指定配方
+export function recipeTreeContains(recipe: RecipeNode, targetId: number): boolean {
+  return (recipe.subRecipes ?? []).some(sr =>
+    sr.subRecipeId === targetId || (sr.subRecipe !== undefined && recipeTreeContains(sr.subRecipe, targetId))
+  );
+}
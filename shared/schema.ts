@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, decimal, timestamp, boolean, json, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, decimal, timestamp, date, boolean, json, index } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -16,6 +16,14 @@ export const materials = pgTable("materials", {
   managementFeeRate: decimal("management_fee_rate", { precision: 5, scale: 2 }), // 管理費率(%)
   purchaseTime: timestamp("purchase_time"), // 購入時間
   purchaseLocation: text("purchase_location"), // 購入地點
+  stockQuantity: decimal("stock_quantity", { precision: 12, scale: 2 }).default("0").notNull(), // 目前庫存(g)，僅由庫存異動更新
+  reorderPoint: decimal("reorder_point", { precision: 12, scale: 2 }), // 安全庫存(g)，低於時提醒補貨
+  costingPolicy: text("costing_policy").default("latest").notNull(), // 每克單價計算方式：latest, weighted_average, moving_average
+  costingWindow: integer("costing_window"), // 加權平均採計的最近進貨筆數（未設定則採計全部）
+  defaultUnit: text("default_unit").default("g").notNull(), // 配方預設使用單位
+  unitConversions: json("unit_conversions").$type<MaterialUnitConversion[]>().default([]).notNull(), // 自訂單位換算（每單位克數）
+  allergens: json("allergens").$type<Allergen[]>().default([]).notNull(), // 含有的過敏原
+  mayContainAllergens: json("may_contain_allergens").$type<Allergen[]>().default([]).notNull(), // 可能含有的過敏原（同產線或交叉污染）
   sortOrder: integer("sort_order").default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -30,7 +38,10 @@ export const recipes = pgTable("recipes", {
   name: text("name").notNull(),
   category: text("category").notNull(),
   totalPortions: integer("total_portions").notNull(),
-  totalWeight: decimal("total_weight", { precision: 10, scale: 2 }).notNull(),
+  totalWeight: decimal("total_weight", { precision: 10, scale: 2 }).notNull(), // 成品重量(g)
+  bakingLossRate: decimal("baking_loss_rate", { precision: 5, scale: 2 }), // 烘焙損耗率(%)，設定時成品重量自動計算
+  prepMinutes: integer("prep_minutes"), // 每批製作工時（分鐘）
+  bakeMinutes: integer("bake_minutes"), // 每批烘烤時間（分鐘）
   description: text("description"),
   sortOrder: integer("sort_order").default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -45,7 +56,19 @@ export const recipeIngredients = pgTable("recipe_ingredients", {
   id: serial("id").primaryKey(),
   recipeId: integer("recipe_id").notNull().references(() => recipes.id, { onDelete: "cascade" }),
   materialId: integer("material_id").notNull().references(() => materials.id, { onDelete: "cascade" }),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(), // 換算後克數，成本與營養皆以此計算
+  unit: text("unit").default("g").notNull(), // 輸入時使用的單位
+  unitQuantity: decimal("unit_quantity", { precision: 10, scale: 3 }), // 以輸入單位表示的用量
+  wasteRate: decimal("waste_rate", { precision: 5, scale: 2 }), // 修整耗損率(%)，耗損部分計入成本但不計入成品
+});
+
+// 子配方關聯表（配方以其他配方作為原料）
+export const recipeSubRecipes = pgTable("recipe_sub_recipes", {
+  id: serial("id").primaryKey(),
+  recipeId: integer("recipe_id").notNull().references(() => recipes.id, { onDelete: "cascade" }),
+  subRecipeId: integer("sub_recipe_id").notNull().references(() => recipes.id, { onDelete: "cascade" }),
   quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  unit: text("unit").notNull(), // "portions" or "grams"
 });
 
 // 原料分類表
@@ -105,6 +128,8 @@ export const packaging = pgTable("packaging", {
   type: text("type").notNull(),
   unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
   notes: text("notes"),
+  stockQuantity: integer("stock_quantity").default(0).notNull(), // 目前庫存數量，僅由庫存異動更新
+  reorderPoint: integer("reorder_point"), // 安全庫存數量
   sortOrder: integer("sort_order").default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -192,6 +217,23 @@ export const userSettings = pgTable("user_settings", {
   passwordHash: text("password_hash").notNull(),
   profitMarginLow: decimal("profit_margin_low", { precision: 5, scale: 2 }).notNull().default("20.00"),
   profitMarginHigh: decimal("profit_margin_high", { precision: 5, scale: 2 }).notNull().default("40.00"),
+  labourHourlyWage: decimal("labour_hourly_wage", { precision: 10, scale: 2 }).notNull().default("0"), // 人工時薪
+  ovenCostPerHour: decimal("oven_cost_per_hour", { precision: 10, scale: 2 }).notNull().default("0"), // 烤箱每小時能源費
+  monthlyOverhead: decimal("monthly_overhead", { precision: 12, scale: 2 }).notNull().default("0"), // 每月固定費用
+  monthlyProductionUnits: integer("monthly_production_units").notNull().default(0), // 每月預估生產商品數
+  priceRoundingStep: integer("price_rounding_step").notNull().default(5), // 建議售價進位級距（元）
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// 使用者帳號表（角色：owner 擁有者、editor 編輯者、viewer 檢視者）
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  displayName: text("display_name"),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").notNull().default("viewer"),
+  isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -204,7 +246,7 @@ export const nutritionLabelTemplates = pgTable("nutrition_label_templates", {
   width: decimal("width", { precision: 6, scale: 2 }).notNull().default("20.00"), // cm
   height: decimal("height", { precision: 6, scale: 2 }).notNull().default("10.00"), // cm
   fontSize: decimal("font_size", { precision: 4, scale: 2 }).notNull().default("2.00"), // mm
-  template: json("template").notNull(), // 模板配置
+  template: json("template").$type<NutritionLabelTemplateConfig>().notNull(), // 模板配置
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -218,7 +260,7 @@ export const nutritionLabels = pgTable("nutrition_labels", {
   servingsPerPackage: integer("servings_per_package").notNull(), // 每包份數
   templateId: integer("template_id").references(() => nutritionLabelTemplates.id),
   calculatedNutrition: json("calculated_nutrition").notNull(), // 計算後的營養成分
-  generatedFiles: json("generated_files"), // 生成的檔案路徑
+  generatedFiles: json("generated_files").$type<NutritionLabelGeneratedFiles>(), // 生成的檔案（依格式）
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -270,6 +312,123 @@ export const materialHistory = pgTable("material_history", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// 通用異動紀錄表（配方、產品、客製商品、包材、分類、營養成分）
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(), // recipe, product, custom_product, packaging, *_category, nutrition_facts
+  entityId: integer("entity_id").notNull(), // 不設外鍵，刪除後仍保留紀錄
+  entityName: text("entity_name"),
+  action: text("action").notNull(), // CREATE, UPDATE, DELETE
+  previousData: json("previous_data"), // 異動前的資料
+  newData: json("new_data"), // 異動後的資料
+  changedFields: text("changed_fields").array(), // 變更的欄位名稱列表
+  changeDescription: text("change_description"), // 變更描述
+  userId: integer("user_id"), // 執行異動的使用者
+  username: text("username"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  entityIdx: index("audit_logs_entity_idx").on(table.entityType, table.entityId),
+  createdAtIdx: index("audit_logs_created_at_idx").on(table.createdAt),
+}));
+
+// 產品成本快照表（保留歷史成本與利潤率）
+export const productCostSnapshots = pgTable("product_cost_snapshots", {
+  id: serial("id").primaryKey(),
+  productType: text("product_type").notNull(), // product, custom_product
+  productId: integer("product_id").notNull(),
+  productName: text("product_name").notNull(),
+  totalCost: decimal("total_cost", { precision: 12, scale: 4 }).notNull(),
+  managementFee: decimal("management_fee", { precision: 12, scale: 4 }).notNull(),
+  adjustedCost: decimal("adjusted_cost", { precision: 12, scale: 4 }).notNull(),
+  sellingPrice: decimal("selling_price", { precision: 10, scale: 2 }).notNull(),
+  profit: decimal("profit", { precision: 12, scale: 4 }).notNull(),
+  profitMargin: decimal("profit_margin", { precision: 8, scale: 2 }).notNull(),
+  trigger: text("trigger").notNull(), // manual, material_price_change, material_unit_change, daily
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  productIdx: index("product_cost_snapshots_product_idx").on(table.productType, table.productId),
+  createdAtIdx: index("product_cost_snapshots_created_at_idx").on(table.createdAt),
+}));
+
+// 生產計畫表（每日生產清單）
+export const productionPlans = pgTable("production_plans", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  planDate: date("plan_date", { mode: "string" }).notNull(),
+  notes: text("notes"),
+  producedAt: timestamp("produced_at"), // 已登錄生產（已扣庫存）的時間
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// 庫存異動紀錄（原料以克、包材以數量計）
+export const stockMovements = pgTable("stock_movements", {
+  id: serial("id").primaryKey(),
+  itemType: text("item_type").notNull(), // material, packaging
+  itemId: integer("item_id").notNull(), // 不設外鍵，刪除後仍保留紀錄
+  movementType: text("movement_type").notNull(), // receive, consume, adjust
+  quantity: decimal("quantity", { precision: 12, scale: 2 }).notNull(), // 異動量（入庫為正、耗用為負）
+  balanceAfter: decimal("balance_after", { precision: 12, scale: 2 }).notNull(),
+  productionPlanId: integer("production_plan_id"), // 生產耗用時對應的計畫
+  notes: text("notes"),
+  userId: integer("user_id"),
+  username: text("username"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  itemIdx: index("stock_movements_item_idx").on(table.itemType, table.itemId),
+}));
+
+// 生產計畫明細（商品或客製商品 × 數量）
+export const productionPlanItems = pgTable("production_plan_items", {
+  id: serial("id").primaryKey(),
+  planId: integer("plan_id").notNull().references(() => productionPlans.id, { onDelete: "cascade" }),
+  productType: text("product_type").notNull(), // product, custom_product
+  productId: integer("product_id").notNull(), // 不設外鍵，商品刪除後保留計畫紀錄
+  quantity: integer("quantity").notNull(),
+});
+
+// 供應商表
+export const suppliers = pgTable("suppliers", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  contactName: text("contact_name"),
+  phone: text("phone"),
+  email: text("email"),
+  leadTimeDays: integer("lead_time_days"), // 下單到貨天數
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// 供應商報價（原料為每克進價、包材為單位進價）
+export const supplierPrices = pgTable("supplier_prices", {
+  id: serial("id").primaryKey(),
+  supplierId: integer("supplier_id").notNull().references(() => suppliers.id, { onDelete: "cascade" }),
+  itemType: text("item_type").notNull(), // material, packaging
+  itemId: integer("item_id").notNull(), // 原料或包材刪除時一併清除
+  price: decimal("price", { precision: 10, scale: 4 }).notNull(),
+  isPreferred: boolean("is_preferred").default(false).notNull(), // 採用此報價作為成本計算單價
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  itemIdx: index("supplier_prices_item_idx").on(table.itemType, table.itemId),
+}));
+
+// 原料進貨紀錄（每次進貨皆保留，依原料成本政策計算每克單價）
+export const materialPurchases = pgTable("material_purchases", {
+  id: serial("id").primaryKey(),
+  materialId: integer("material_id").notNull().references(() => materials.id, { onDelete: "cascade" }),
+  supplierId: integer("supplier_id").references(() => suppliers.id, { onDelete: "set null" }),
+  purchaseAmount: decimal("purchase_amount", { precision: 10, scale: 2 }).notNull(), // 購入金額
+  purchaseWeight: decimal("purchase_weight", { precision: 10, scale: 2 }).notNull(), // 購入重量(g)
+  purchaseTime: timestamp("purchase_time").defaultNow().notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  materialIdx: index("material_purchases_material_idx").on(table.materialId),
+}));
+
 // Relations
 export const materialsRelations = relations(materials, ({ many, one }) => ({
   recipeIngredients: many(recipeIngredients),
@@ -314,6 +473,21 @@ export const materialNutritionMappingRelations = relations(materialNutritionMapp
 export const recipesRelations = relations(recipes, ({ many }) => ({
   recipeIngredients: many(recipeIngredients),
   productRecipes: many(productRecipes),
+  subRecipes: many(recipeSubRecipes, { relationName: "parentRecipe" }),
+  usedInRecipes: many(recipeSubRecipes, { relationName: "subRecipe" }),
+}));
+
+export const recipeSubRecipesRelations = relations(recipeSubRecipes, ({ one }) => ({
+  recipe: one(recipes, {
+    fields: [recipeSubRecipes.recipeId],
+    references: [recipes.id],
+    relationName: "parentRecipe",
+  }),
+  subRecipe: one(recipes, {
+    fields: [recipeSubRecipes.subRecipeId],
+    references: [recipes.id],
+    relationName: "subRecipe",
+  }),
 }));
 
 export const recipeIngredientsRelations = relations(recipeIngredients, ({ one }) => ({
@@ -395,20 +569,68 @@ export const nutritionFactsRelations = relations(nutritionFacts, ({ one }) => ({
 }));
 
 // Insert schemas
+// 原料成本政策：最新進價、最近 N 筆加權平均、庫存移動平均
+export const MATERIAL_COSTING_POLICIES = ["latest", "weighted_average", "moving_average"] as const;
+export type MaterialCostingPolicy = typeof MATERIAL_COSTING_POLICIES[number];
+
+// 原料自訂單位換算：ml 換算同時提供 L，g 與 kg 為固定單位不需設定
+export const materialUnitConversionSchema = z.object({
+  unit: z.string().trim().min(1).refine(unit => !["g", "kg", "L"].includes(unit), "g、kg、L 為固定換算單位"),
+  gramsPerUnit: z.coerce.number().positive(),
+});
+
+// 食品過敏原：依衛福部過敏原標示規定分類
+export const ALLERGENS = [
+  "shellfish",
+  "mango",
+  "peanut",
+  "milk",
+  "egg",
+  "nuts",
+  "sesame",
+  "gluten",
+  "soy",
+  "fish",
+  "sulfite",
+] as const;
+export type Allergen = typeof ALLERGENS[number];
+
 export const insertMaterialSchema = createInsertSchema(materials).omit({
   id: true,
+  stockQuantity: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  costingPolicy: z.enum(MATERIAL_COSTING_POLICIES).optional(),
+  unitConversions: z.array(materialUnitConversionSchema)
+    .refine(list => new Set(list.map(c => c.unit)).size === list.length, "單位名稱不可重複")
+    .optional(),
+  allergens: z.array(z.enum(ALLERGENS)).optional(),
+  mayContainAllergens: z.array(z.enum(ALLERGENS)).optional(),
 });
 
+// 損耗率(%)：0 以上且未滿 100
+export const lossRateSchema = z.coerce.string().refine(value => {
+  const rate = parseFloat(value);
+  return rate >= 0 && rate < 100;
+}, "損耗率需介於 0 與 100 之間");
+
 export const insertRecipeSchema = createInsertSchema(recipes).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  bakingLossRate: lossRateSchema.nullable().optional(),
 });
 
 export const insertRecipeIngredientSchema = createInsertSchema(recipeIngredients).omit({
   id: true,
+  recipeId: true,
+});
+
+export const insertRecipeSubRecipeSchema = createInsertSchema(recipeSubRecipes).omit({
+  id: true,
+  recipeId: true,
 });
 
 export const insertMaterialCategorySchema = createInsertSchema(materialCategories).omit({
@@ -443,6 +665,7 @@ export const insertPackagingCategorySchema = createInsertSchema(packagingCategor
 
 export const insertPackagingSchema = createInsertSchema(packaging).omit({
   id: true,
+  stockQuantity: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -489,21 +712,136 @@ export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
   updatedAt: true,
 });
 
+// 人工、能源與固定費用費率設定
+export const operatingCostSettingsSchema = z.object({
+  labourHourlyWage: z.coerce.number().min(0),
+  ovenCostPerHour: z.coerce.number().min(0),
+  monthlyOverhead: z.coerce.number().min(0),
+  monthlyProductionUnits: z.coerce.number().int().min(0),
+});
+
+// 批次調價：套用勾選商品的新售價
+export const repriceRequestSchema = z.object({
+  items: z.array(z.object({
+    productType: z.enum(["product", "custom_product"]),
+    productId: z.coerce.number().int().positive(),
+    sellingPrice: z.coerce.number().positive(),
+  })).min(1),
+});
+
+export const USER_ROLES = ["owner", "editor", "viewer"] as const;
+
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  role: z.enum(USER_ROLES),
+});
+
 export const insertMaterialHistorySchema = createInsertSchema(materialHistory).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProductCostSnapshotSchema = createInsertSchema(productCostSnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProductionPlanSchema = createInsertSchema(productionPlans).omit({
+  id: true,
+  producedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({
+  id: true,
+  balanceAfter: true,
+  userId: true,
+  username: true,
+  createdAt: true,
+});
+
+export const insertProductionPlanItemSchema = createInsertSchema(productionPlanItems).omit({
+  id: true,
+  planId: true,
+});
+
+export const insertMaterialPurchaseSchema = createInsertSchema(materialPurchases).omit({
+  id: true,
+  materialId: true,
+  createdAt: true,
+}).extend({
+  purchaseTime: z.coerce.date().optional(),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSupplierPriceSchema = createInsertSchema(supplierPrices).omit({
+  id: true,
+  isPreferred: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// 營養標示模板配置：字級為點 (pt)，邊距、線寬與段落間距為公釐，行高為字級倍數
+export const nutritionLabelTemplateConfigSchema = z.object({
+  layout: z.enum(["vertical", "horizontal"]),
+  showBorder: z.boolean(),
+  borderWidth: z.coerce.number().min(0).max(5),
+  backgroundColor: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  textColor: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  headerFontSize: z.coerce.number().positive().max(72),
+  bodyFontSize: z.coerce.number().positive().max(72),
+  margins: z.object({
+    top: z.coerce.number().min(0),
+    right: z.coerce.number().min(0),
+    bottom: z.coerce.number().min(0),
+    left: z.coerce.number().min(0),
+  }),
+  spacing: z.object({
+    lineHeight: z.coerce.number().min(1).max(3),
+    sectionSpacing: z.coerce.number().min(0),
+  }),
+});
+
 export const insertNutritionLabelTemplateSchema = createInsertSchema(nutritionLabelTemplates).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  template: nutritionLabelTemplateConfigSchema,
 });
 
+const nutritionLabelGeneratedFileSchema = z.object({
+  fileName: z.string(),
+  size: z.number(),
+  generatedAt: z.string(),
+}).optional();
+
 export const insertNutritionLabelSchema = createInsertSchema(nutritionLabels).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  generatedFiles: z.object({
+    xlsx: nutritionLabelGeneratedFileSchema,
+    pdf: nutritionLabelGeneratedFileSchema,
+    png: nutritionLabelGeneratedFileSchema,
+    jpg: nutritionLabelGeneratedFileSchema,
+    zip: nutritionLabelGeneratedFileSchema,
+  }).nullable().optional(),
 });
 
 export const insertTaiwanNutritionDatabaseSchema = createInsertSchema(taiwanNutritionDatabase).omit({
@@ -520,6 +858,7 @@ export const insertMaterialNutritionMappingSchema = createInsertSchema(materialN
 
 // Types
 export type Material = typeof materials.$inferSelect;
+export type MaterialUnitConversion = z.infer<typeof materialUnitConversionSchema>;
 export type InsertMaterial = z.infer<typeof insertMaterialSchema> & {
   purchaseTime?: string | Date | null;
 };
@@ -530,6 +869,9 @@ export type InsertRecipe = z.infer<typeof insertRecipeSchema>;
 export type RecipeIngredient = typeof recipeIngredients.$inferSelect;
 export type InsertRecipeIngredient = z.infer<typeof insertRecipeIngredientSchema>;
 
+export type RecipeSubRecipe = typeof recipeSubRecipes.$inferSelect;
+export type InsertRecipeSubRecipe = z.infer<typeof insertRecipeSubRecipeSchema>;
+
 export type MaterialCategory = typeof materialCategories.$inferSelect;
 export type InsertMaterialCategory = z.infer<typeof insertMaterialCategorySchema>;
 
@@ -572,15 +914,316 @@ export type InsertNutritionFacts = z.infer<typeof insertNutritionFactsSchema>;
 export type UserSettings = typeof userSettings.$inferSelect;
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserRole = typeof USER_ROLES[number];
+export type PublicUser = Omit<User, "passwordHash">;
+
 export type MaterialHistory = typeof materialHistory.$inferSelect;
 export type InsertMaterialHistory = z.infer<typeof insertMaterialHistorySchema>;
 
+export const AUDIT_ENTITY_TYPES = [
+  "recipe",
+  "product",
+  "custom_product",
+  "packaging",
+  "material_category",
+  "recipe_category",
+  "product_category",
+  "custom_product_category",
+  "packaging_category",
+  "nutrition_facts",
+] as const;
+
+export const AUDIT_ENTITY_LABELS: Record<typeof AUDIT_ENTITY_TYPES[number], string> = {
+  recipe: "配方",
+  product: "產品",
+  custom_product: "客製商品",
+  packaging: "包材",
+  material_category: "原料分類",
+  recipe_category: "配方分類",
+  product_category: "產品分類",
+  custom_product_category: "客製商品分類",
+  packaging_category: "包材分類",
+  nutrition_facts: "營養成分",
+};
+
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export type AuditAction = "CREATE" | "UPDATE" | "DELETE";
+
+export type ProductCostSnapshot = typeof productCostSnapshots.$inferSelect;
+export type InsertProductCostSnapshot = z.infer<typeof insertProductCostSnapshotSchema>;
+export type CostSnapshotProductType = "product" | "custom_product";
+export type CostSnapshotTrigger = "manual" | "material_price_change" | "material_unit_change" | "daily";
+
+export type ProductionPlan = typeof productionPlans.$inferSelect;
+export type InsertProductionPlan = z.infer<typeof insertProductionPlanSchema>;
+export type ProductionPlanItem = typeof productionPlanItems.$inferSelect;
+export type InsertProductionPlanItem = z.infer<typeof insertProductionPlanItemSchema>;
+
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockItemType = "material" | "packaging";
+export type StockMovementType = "receive" | "consume" | "adjust";
+
+// 低於安全庫存的原料或包材
+export type LowStockItem = {
+  itemType: StockItemType;
+  itemId: number;
+  name: string;
+  stockQuantity: number;
+  reorderPoint: number;
+};
+
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type SupplierPrice = typeof supplierPrices.$inferSelect;
+export type InsertSupplierPrice = z.infer<typeof insertSupplierPriceSchema>;
+
+export type MaterialPurchase = typeof materialPurchases.$inferSelect;
+export type InsertMaterialPurchase = z.infer<typeof insertMaterialPurchaseSchema>;
+export type MaterialPurchaseWithSupplier = MaterialPurchase & {
+  supplierName: string | null;
+};
+
+// 報價附上供應商與項目名稱，供比價與供應商頁面顯示
+export type SupplierPriceWithDetails = SupplierPrice & {
+  supplierName: string;
+  leadTimeDays: number | null;
+  itemName: string | null;
+};
+
+export type ProductionPlanWithItems = ProductionPlan & {
+  items: (ProductionPlanItem & { productName: string | null })[];
+};
+
+// 生產計畫原料與包材需求（由 server/productionPlanning.ts 展開）
+export type MaterialRequirement = {
+  materialId: number;
+  materialName: string;
+  category: string;
+  purchaseLocation: string | null;
+  quantity: number; // 克
+  cost: number;
+};
+
+export type PackagingRequirement = {
+  packagingId: number;
+  packagingName: string;
+  type: string;
+  quantity: number;
+  cost: number;
+};
+
+export type ProductionRequirements = {
+  materials: MaterialRequirement[];
+  packaging: PackagingRequirement[];
+  materialCost: number;
+  packagingCost: number;
+  missingItems: { productType: CostSnapshotProductType; productId: number }[];
+};
+
+// 成本明細（由 shared/costEngine.ts 計算）
+export type MaterialCostLine = {
+  materialId: number;
+  materialName: string;
+  quantity: number; // 克
+  pricePerGram: number;
+  cost: number;
+};
+
+export type PackagingCostLine = {
+  packagingId: number;
+  packagingName: string;
+  quantity: number;
+  unitCost: number;
+  cost: number;
+};
+
+export type SubRecipeCostLine = {
+  recipeId: number;
+  recipeName: string;
+  quantity: number;
+  unit: string;
+  cost: number;
+};
+
+export type RecipeCostBreakdown = {
+  materials: MaterialCostLine[];
+  subRecipes: SubRecipeCostLine[];
+  totalCost: number;
+  costPerPortion: number;
+  costPerGram: number;
+  rawWeight: number; // 生料重量（原料淨重與子配方合計）
+  finishedWeight: number; // 成品重量，每克成本依此計算
+};
+
+export type ProfitSummary = {
+  totalCost: number;
+  managementFeePercentage: number;
+  managementFee: number;
+  adjustedCost: number;
+  sellingPrice: number;
+  profit: number;
+  profitMargin: number;
+};
+
+export type ProductRecipeCostLine = {
+  recipeId: number;
+  recipeName: string;
+  quantity: number;
+  unit: string;
+  cost: number;
+  materials: MaterialCostLine[]; // 依使用量換算後的原料成本
+};
+
+export type ProductCostBreakdown = ProfitSummary & {
+  recipes: ProductRecipeCostLine[];
+  packaging: PackagingCostLine[];
+  recipeCost: number;
+  packagingCost: number;
+  labourMinutes: number; // 製作工時（分鐘），依配方使用比例計算
+  labourCost: number;
+  bakeMinutes: number; // 烘烤時間（分鐘），依配方使用比例計算
+  energyCost: number;
+  overheadCost: number; // 每月固定費用攤提
+};
+
+export type CustomProductItemCostLine = {
+  productId: number;
+  productName: string;
+  quantity: number;
+  unitCost: number; // 產品含管理費成本
+  cost: number;
+};
+
+export type CustomProductCostBreakdown = ProfitSummary & {
+  items: CustomProductItemCostLine[];
+  packaging: PackagingCostLine[];
+  productsCost: number;
+  packagingCost: number;
+};
+
+// 配方批量換算：依目標份數、目標總重量或限量原料用量
+export const RECIPE_SCALE_MODES = ["portions", "weight", "ingredient"] as const;
+export type RecipeScaleMode = typeof RECIPE_SCALE_MODES[number];
+
+export type RecipeScaleTarget = {
+  mode: RecipeScaleMode;
+  value: number;
+  materialId?: number; // mode 為 ingredient 時的限量原料
+};
+
+export type ScaledIngredientLine = {
+  materialId: number;
+  materialName: string;
+  unit: string; // 配方輸入時使用的單位
+  originalUnitQuantity: number;
+  unitQuantity: number;
+  originalQuantity: number; // 克
+  quantity: number; // 克
+  pricePerGram: number;
+  cost: number;
+};
+
+export type ScaledSubRecipeLine = {
+  recipeId: number;
+  recipeName: string;
+  unit: string;
+  originalQuantity: number;
+  quantity: number;
+  cost: number;
+};
+
+export type RecipeScaleResult = {
+  recipeId: number;
+  recipeName: string;
+  target: RecipeScaleTarget;
+  factor: number;
+  portions: number;
+  totalWeight: number;
+  ingredients: ScaledIngredientLine[];
+  subRecipes: ScaledSubRecipeLine[];
+  totalCost: number;
+  costPerPortion: number;
+  costPerGram: number;
+};
+
+// 原料價格歷史（由 materialHistory 快照重建）
+export type MaterialPricePoint = {
+  historyId: number;
+  date: string;
+  action: string;
+  pricePerGram: number;
+  purchaseAmount: number | null;
+  purchaseWeight: number | null;
+  purchaseLocation: string | null;
+};
+
+export type MaterialEffectivePrice = {
+  materialId: number;
+  date: string;
+  pricePerGram: number | null; // 該日期原料尚未建立時為 null
+  historyId: number | null; // 價格來源的履歷記錄
+};
+
+// 原料價格變動影響分析
+export type PriceImpactItem = {
+  id: number;
+  name: string;
+  oldCost: number;
+  newCost: number;
+  costChange: number;
+  oldMargin: number | null; // 配方沒有售價，利潤率為 null
+  newMargin: number | null;
+  crossesLowThreshold: boolean; // 利潤率由高於低標降到低標以下
+  crossesHighThreshold: boolean; // 利潤率由高於高標降到高標以下
+};
+
+export type MaterialPriceImpact = {
+  materialId: number;
+  materialName: string;
+  oldPricePerGram: number;
+  newPricePerGram: number;
+  thresholds: { low: number; high: number };
+  recipes: PriceImpactItem[];
+  products: PriceImpactItem[];
+  customProducts: PriceImpactItem[];
+};
+
+// 目標利潤率建議售價
+export type PriceSuggestion = {
+  productType: CostSnapshotProductType;
+  productId: number;
+  productName: string;
+  adjustedCost: number;
+  currentPrice: number;
+  currentMargin: number;
+  targetMargin: number;
+  suggestedPrice: number; // 已進位至售價級距
+  suggestedMargin: number;
+};
+
+// 批次調價建議：利潤率低於低標的商品
+export type RepriceProposals = {
+  lowThreshold: number;
+  targetMargin: number;
+  roundingStep: number;
+  proposals: PriceSuggestion[];
+};
+
+export type RepriceRequest = z.infer<typeof repriceRequestSchema>;
+
 // Extended types for API responses
 export type RecipeWithIngredients = Recipe & {
   ingredients: (RecipeIngredient & { material: Material })[];
+  subRecipes?: (RecipeSubRecipe & { subRecipe: RecipeWithIngredients })[];
   totalCost?: number;
   costPerPortion?: number;
   costPerGram?: number;
+  costBreakdown?: RecipeCostBreakdown;
 };
 
 export type ProductWithDetails = Product & {
@@ -591,6 +1234,7 @@ export type ProductWithDetails = Product & {
   adjustedCost?: number;
   profit?: number;
   profitMargin?: number;
+  costBreakdown?: ProductCostBreakdown;
 };
 
 export type CustomProductWithDetails = CustomProduct & {
@@ -601,6 +1245,7 @@ export type CustomProductWithDetails = CustomProduct & {
   adjustedCost?: number;
   profit?: number;
   profitMargin?: number;
+  costBreakdown?: CustomProductCostBreakdown;
 };
 
 export type MaterialWithNutrition = Material & {
@@ -635,60 +1280,83 @@ export type InsertNutritionLabelTemplate = z.infer<typeof insertNutritionLabelTe
 export type NutritionLabel = typeof nutritionLabels.$inferSelect;
 export type InsertNutritionLabel = z.infer<typeof insertNutritionLabelSchema>;
 
+// 營養標示輸出格式；zip 為其餘格式的壓縮檔
+export const NUTRITION_LABEL_FORMATS = ["xlsx", "pdf", "png", "jpg", "zip"] as const;
+export type NutritionLabelFormat = typeof NUTRITION_LABEL_FORMATS[number];
+
+export type NutritionLabelGeneratedFile = {
+  fileName: string;
+  size: number; // bytes
+  generatedAt: string; // ISO 時間
+};
+
+export type NutritionLabelGeneratedFiles = Partial<Record<NutritionLabelFormat, NutritionLabelGeneratedFile>>;
+
 export type TaiwanNutritionDatabase = typeof taiwanNutritionDatabase.$inferSelect;
 export type InsertTaiwanNutritionDatabase = z.infer<typeof insertTaiwanNutritionDatabaseSchema>;
 
 export type MaterialNutritionMapping = typeof materialNutritionMapping.$inferSelect;
 export type InsertMaterialNutritionMapping = z.infer<typeof insertMaterialNutritionMappingSchema>;
 
+// 營養素數值（熱量 kcal、鈉 mg，其餘 g）
+export type NutrientValues = {
+  calories: number;
+  protein: number;
+  fat: number;
+  saturatedFat: number;
+  transFat: number;
+  carbohydrates: number;
+  sugar: number;
+  sodium: number;
+};
+
+// 缺少營養資料的原料
+export type MissingNutritionMaterial = {
+  materialId: number;
+  materialName: string;
+  recipeNames: string[];
+};
+
+// 有營養資料但部分營養素未填的原料（該營養素以 0 計入）
+export type IncompleteNutritionMaterial = MissingNutritionMaterial & {
+  missingNutrients: (keyof NutrientValues)[];
+};
+
+// 依台灣標示規定修整後的標示數值；每日參考值百分比為每份含量，未訂定參考值的項目不列
+export type NutritionLabelValues = {
+  perServing: NutrientValues;
+  per100g: NutrientValues;
+  dailyValuePercent: Partial<Record<keyof NutrientValues, number>>;
+};
+
 // 營養標示計算結果類型
 export type CalculatedNutrition = {
-  perServing: {
-    calories: number;
-    protein: number;
-    fat: number;
-    saturatedFat: number;
-    transFat: number;
-    carbohydrates: number;
-    sugar: number;
-    sodium: number;
-  };
-  per100g: {
-    calories: number;
-    protein: number;
-    fat: number;
-    saturatedFat: number;
-    transFat: number;
-    carbohydrates: number;
-    sugar: number;
-    sodium: number;
-  };
+  perServing: NutrientValues;
+  per100g: NutrientValues;
   servingSize: number; // g
   servingsPerPackage: number;
   totalWeight: number; // g
+  missingNutritionMaterials?: MissingNutritionMaterial[]; // 計算時未計入的原料
+  incompleteNutritionMaterials?: IncompleteNutritionMaterial[];
+  labelValues?: NutritionLabelValues;
 };
 
-// 營養標示模板配置類型
-export type NutritionLabelTemplateConfig = {
-  layout: 'vertical' | 'horizontal';
-  showBorder: boolean;
-  borderWidth: number;
-  backgroundColor: string;
-  textColor: string;
-  headerFontSize: number;
-  bodyFontSize: number;
-  margins: {
-    top: number;
-    right: number;
-    bottom: number;
-    left: number;
-  };
-  spacing: {
-    lineHeight: number;
-    sectionSpacing: number;
-  };
+// 營養標示法規檢查結果
+export type NutritionComplianceIssue = {
+  code: string;
+  severity: "error" | "warning";
+  message: string;
+  nutrient?: keyof NutrientValues;
 };
 
+export type NutritionLabelCompliance = {
+  valid: boolean;
+  issues: NutritionComplianceIssue[];
+};
+
+// 營養標示模板配置類型
+export type NutritionLabelTemplateConfig = z.infer<typeof nutritionLabelTemplateConfigSchema>;
+
 // 包含營養資料庫對應的原料類型
 export type MaterialWithNutritionMapping = Material & {
   nutritionFacts?: NutritionFacts;
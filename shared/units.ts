@@ -0,0 +1,45 @@
+import type { Material } from "./schema";
+
+type UnitMaterial = Pick<Material, "unitConversions">;
+
+// 固定換算的單位，所有原料皆可使用
+const FIXED_UNIT_GRAMS: Record<string, number> = { g: 1, kg: 1000 };
+
+// 常用單位代碼的顯示名稱，其餘自訂單位直接顯示名稱
+const UNIT_LABELS: Record<string, string> = { piece: "個" };
+
+// 可設定換算的常用單位
+export const COMMON_CONVERTIBLE_UNITS = ["ml", "piece"] as const;
+
+export interface MaterialUnitOption {
+  unit: string;
+  gramsPerUnit: number;
+}
+
+export function unitLabel(unit: string): string {
+  return UNIT_LABELS[unit] ?? unit;
+}
+
+// 原料可使用的單位與每單位克數；設定 ml 換算時同時提供 L
+export function materialUnits(material: UnitMaterial): MaterialUnitOption[] {
+  const options: MaterialUnitOption[] = Object.entries(FIXED_UNIT_GRAMS)
+    .map(([unit, gramsPerUnit]) => ({ unit, gramsPerUnit }));
+  for (const conversion of material.unitConversions ?? []) {
+    options.push({ unit: conversion.unit, gramsPerUnit: conversion.gramsPerUnit });
+    if (conversion.unit === "ml") {
+      options.push({ unit: "L", gramsPerUnit: conversion.gramsPerUnit * 1000 });
+    }
+  }
+  return options;
+}
+
+// 每單位克數；原料未設定此單位時回傳 null
+export function gramsPerUnit(material: UnitMaterial, unit: string): number | null {
+  return materialUnits(material).find(option => option.unit === unit)?.gramsPerUnit ?? null;
+}
+
+// 將用量換算為克數；未指定單位視為克
+export function toGrams(material: UnitMaterial, quantity: number, unit?: string | null): number | null {
+  const factor = gramsPerUnit(material, unit || "g");
+  return factor === null ? null : quantity * factor;
+}